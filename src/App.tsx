@@ -1,10 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ModernNavigation from './components/ui/ModernNavigation';
 import AnimatedGradientHeader from './components/ui/AnimatedGradientHeader';
 import EnhancedMealSection from './components/ui/EnhancedMealSection';
 import EnhancedFoodSearch from './components/ui/EnhancedFoodSearch';
 import EnhancedDailySummary from './components/ui/EnhancedDailySummary';
+import QuickMealLogger from './components/ui/QuickMealLogger';
+import DiaryDateNavigator from './components/ui/DiaryDateNavigator';
 import FoodLogger from './components/FoodLogger';
 import CustomFoodCreator from './components/CustomFoodCreator';
 import EnhancedMealPlanner from './components/ui/EnhancedMealPlanner';
@@ -12,7 +14,6 @@ import LandingPage from './components/LandingPage';
 import Auth from './components/Auth';
 
 import Onboarding from './components/Onboarding';
-import { db } from './lib/db';
 import {
   onAuthStateChange,
   getUserProfile,
@@ -20,7 +21,16 @@ import {
   signOutUser,
   type UserProfile,
 } from './lib/supabaseAuth';
-import type { Food, DiaryEntry } from './lib/db';
+import type { Food, DiaryEntry, Nutrients } from './lib/db';
+import { emptyNutrients } from './lib/nutrients';
+import { loadDiaryDay } from './lib/diary';
+import { todayKey } from './lib/dates';
+import {
+  DEFAULT_GOALS,
+  ensureGoalHistory,
+  loadGoalForDate,
+  type GoalTargets,
+} from './lib/goals';
 import EnhancedShoppingListGenerator from './components/ui/EnhancedShoppingListGenerator';
 import EnhancedProgressCharts from './components/ui/EnhancedProgressCharts';
 import { IconTarget, IconBrain } from '@tabler/icons-react';
@@ -28,9 +38,19 @@ import {
   generatePersonalizedMealPlan,
   type MealPlanningContext,
 } from './lib/ai';
+import {
+  acceptAIMealPlan,
+  resolveAIMealPlan,
+  resolvedDayTotals,
+  type ResolvedPlanDay,
+} from './lib/aiMealPlan';
 import { seedIndianFoods } from './lib/indianFoodDatabase';
 import UserProfileModal from './components/ui/UserProfileModal';
 import { LocalStorageService } from './lib/localStorage';
+import { startSync } from './lib/supabaseSync';
+import { WeightTrackingService } from './lib/weightTracking';
+import { migrateLocalRecipes } from './lib/recipes';
+import { migrateLocalMealPlans } from './lib/mealPlanner';
 
 type AppState = 'landing' | 'auth' | 'onboarding' | 'main';
 
@@ -56,11 +76,15 @@ export default function App() {
   );
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [selectedFood, setSelectedFood] = useState<Food | null>(null);
+  const [selectedDate, setSelectedDate] = useState(todayKey);
+  // Read by loadData so event listeners registered once see the current date
+  const selectedDateRef = useRef(selectedDate);
+  const [diaryVersion, setDiaryVersion] = useState(0);
   const [diaryEntries, setDiaryEntries] = useState<DiaryEntry[]>([
     // Sample breakfast entry
     {
       id: 1,
-      date: new Date().toISOString().split('T')[0],
+      date: todayKey(),
       meal: 'breakfast',
       foodId: 1,
       customName: 'Oatmeal with Berries',
@@ -71,7 +95,7 @@ export default function App() {
     // Sample lunch entry
     {
       id: 2,
-      date: new Date().toISOString().split('T')[0],
+      date: todayKey(),
       meal: 'lunch',
       foodId: 2,
       customName: 'Grilled Chicken Salad',
@@ -82,7 +106,7 @@ export default function App() {
     // Sample snack entry
     {
       id: 3,
-      date: new Date().toISOString().split('T')[0],
+      date: todayKey(),
       meal: 'snack',
       foodId: 3,
       customName: 'Greek Yogurt with Nuts',
@@ -91,24 +115,22 @@ export default function App() {
       servingLabel: 'cup',
     },
   ]);
-  const [dailyTotals, setDailyTotals] = useState({
+  const [dailyTotals, setDailyTotals] = useState<Nutrients>({
     kcal: 850,
     protein: 45,
     carbs: 95,
     fat: 28,
   });
-  const [goals, setGoals] = useState({
-    kcal: 2000,
-    protein: 150,
-    carbs: 250,
-    fat: 65,
-  });
+  // Targets in effect on the selected diary date
+  const [goals, setGoals] = useState<GoalTargets>(DEFAULT_GOALS);
   const [showCustomFoodCreator, setShowCustomFoodCreator] = useState(false);
   const [showPlanner, setShowPlanner] = useState(false);
   const [showShoppingList, setShowShoppingList] = useState(false);
   const [showAIMealPlan, setShowAIMealPlan] = useState(false);
   const [isGeneratingAIMealPlan, setIsGeneratingAIMealPlan] = useState(false);
-  const [aiMealPlan, setAiMealPlan] = useState<string>('');
+  const [aiMealPlan, setAiMealPlan] = useState<ResolvedPlanDay[]>([]);
+  const [aiMealPlanError, setAiMealPlanError] = useState<string | null>(null);
+  const [isAcceptingAIMealPlan, setIsAcceptingAIMealPlan] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
 
   useEffect(() => {
@@ -137,12 +159,6 @@ export default function App() {
             userProfile.display_name
           );
           setUser(userProfile);
-          setGoals({
-            kcal: userProfile.daily_targets.calories,
-            protein: userProfile.daily_targets.protein,
-            carbs: userProfile.daily_targets.carbs,
-            fat: userProfile.daily_targets.fat,
-          });
           setAppState('main');
         } else {
           console.log('🔐 No profile found, needs onboarding');
@@ -170,16 +186,23 @@ export default function App() {
 
   const initializeApp = async () => {
     try {
-      // Don't initialize local storage defaults in production - it overrides Google profile data
-      // Only load goals from local storage if not already set
-      if (!goals.kcal) {
-        const savedGoals = LocalStorageService.getGoals();
-        if (savedGoals) {
-          setGoals(savedGoals);
-          console.log('✅ Goals loaded from local storage');
-        }
+      // Goal history starts from the profile's targets on first run
+      if (user) {
+        await ensureGoalHistory({
+          kcal: user.daily_targets.calories,
+          protein: user.daily_targets.protein,
+          carbs: user.daily_targets.carbs,
+          fat: user.daily_targets.fat,
+        });
       }
 
+      // Weigh-ins kept in localStorage by older versions move to IndexedDB
+      await WeightTrackingService.migrateLocalWeightData();
+      // ...as do recipes from the old recipe builder
+      await migrateLocalRecipes();
+      // ...and day plans from the old weekly planner
+      await migrateLocalMealPlans();
+
       // Seed the Indian food database
       await seedIndianFoods();
       console.log('✅ Indian food database seeded successfully');
@@ -212,43 +235,40 @@ export default function App() {
         }
       };
       window.addEventListener('diary:changed', handler);
+      window.addEventListener('goals:changed', handler);
       window.addEventListener('nav:change', navHandler as EventListener);
+      const stopSync = startSync();
       return () => {
         window.removeEventListener('diary:changed', handler);
+        window.removeEventListener('goals:changed', handler);
         window.removeEventListener('nav:change', navHandler as EventListener);
+        stopSync();
       };
     }
   }, [appState]);
 
   const loadData = async () => {
     try {
-      // Load diary entries for today
-      const today = new Date().toISOString().split('T')[0];
-      const entries = await db.diary.where('date').equals(today).toArray();
+      // Load diary entries, totals and goals for the selected day
+      const date = selectedDateRef.current;
+      const [{ entries, totals }, dayGoals] = await Promise.all([
+        loadDiaryDay(date),
+        loadGoalForDate(date),
+      ]);
       setDiaryEntries(entries);
-
-      // Calculate daily totals
-      const totals = { kcal: 0, protein: 0, carbs: 0, fat: 0 };
-
-      for (const entry of entries) {
-        if (entry.foodId) {
-          const food = await db.foods.get(entry.foodId);
-          if (food && entry.grams) {
-            const multiplier = entry.grams / 100;
-            totals.kcal += food.per100g.kcal * multiplier;
-            totals.protein += food.per100g.protein * multiplier;
-            totals.carbs += food.per100g.carbs * multiplier;
-            totals.fat += food.per100g.fat * multiplier;
-          }
-        }
-      }
-
       setDailyTotals(totals);
+      setGoals(dayGoals);
+      setDiaryVersion((version) => version + 1);
     } catch (error) {
       console.error('Error loading data:', error);
     }
   };
 
+  useEffect(() => {
+    selectedDateRef.current = selectedDate;
+    if (appState === 'main') loadData();
+  }, [selectedDate, appState]);
+
   const handleGetStarted = () => {
     setAppState('auth');
   };
@@ -260,12 +280,6 @@ export default function App() {
 
   const handleOnboardingComplete = (userProfile: UserProfile) => {
     setUser(userProfile);
-    setGoals({
-      kcal: userProfile.daily_targets.calories,
-      protein: userProfile.daily_targets.protein,
-      carbs: userProfile.daily_targets.carbs,
-      fat: userProfile.daily_targets.fat,
-    });
     setAppState('main');
   };
 
@@ -281,8 +295,8 @@ export default function App() {
       setUser(null);
       setAppState('landing');
       setDiaryEntries([]);
-      setDailyTotals({ kcal: 0, protein: 0, carbs: 0, fat: 0 });
-      setGoals({ kcal: 2000, protein: 150, carbs: 250, fat: 65 });
+      setDailyTotals(emptyNutrients());
+      setGoals(DEFAULT_GOALS);
 
       console.log('✅ User logged out successfully');
     } catch (error) {
@@ -291,26 +305,10 @@ export default function App() {
   };
 
   const handleUpdateProfile = (updatedProfile: UserProfile) => {
-    // Update user state
+    // Update user state. Don't save user to local storage - keep Google
+    // profile data. Goal changes are saved to the goal history by the modal.
     setUser(updatedProfile);
 
-    // Update goals based on new profile
-    setGoals({
-      kcal: updatedProfile.daily_targets.calories,
-      protein: updatedProfile.daily_targets.protein,
-      carbs: updatedProfile.daily_targets.carbs,
-      fat: updatedProfile.daily_targets.fat,
-    });
-
-    // Don't save user to local storage - keep Google profile data
-    // Only save goals to local storage
-    LocalStorageService.saveGoals({
-      kcal: updatedProfile.daily_targets.calories,
-      protein: updatedProfile.daily_targets.protein,
-      carbs: updatedProfile.daily_targets.carbs,
-      fat: updatedProfile.daily_targets.fat,
-    });
-
     console.log('✅ Profile updated successfully');
   };
 
@@ -343,8 +341,11 @@ export default function App() {
   };
 
   const handleGenerateAIMealPlan = async () => {
+    setAiMealPlan([]);
+    setAiMealPlanError(null);
+
     if (!user) {
-      setAiMealPlan(
+      setAiMealPlanError(
         'User profile not available. Please complete your profile first.'
       );
       setShowAIMealPlan(true);
@@ -391,18 +392,34 @@ export default function App() {
         })),
       };
 
-      const aiResponse = await generatePersonalizedMealPlan(
-        mealPlanningContext
-      );
-      setAiMealPlan(aiResponse);
+      const result = await generatePersonalizedMealPlan(mealPlanningContext);
+      if (result.ok) {
+        setAiMealPlan(await resolveAIMealPlan(result.plan));
+      } else {
+        setAiMealPlanError(result.error);
+      }
     } catch (error) {
       console.error('Error generating AI meal plan:', error);
-      setAiMealPlan('Failed to generate meal plan. Please try again.');
+      setAiMealPlanError('Failed to generate meal plan. Please try again.');
     } finally {
       setIsGeneratingAIMealPlan(false);
     }
   };
 
+  const handleAcceptAIMealPlan = async () => {
+    setIsAcceptingAIMealPlan(true);
+    try {
+      await acceptAIMealPlan(aiMealPlan);
+      setShowAIMealPlan(false);
+      setShowPlanner(true);
+    } catch (error) {
+      console.error('Error applying AI meal plan:', error);
+      setAiMealPlanError('Failed to apply the meal plan. Please try again.');
+    } finally {
+      setIsAcceptingAIMealPlan(false);
+    }
+  };
+
   const handleFoodLogged = () => {
     setIsAddModalOpen(false);
     setSelectedFood(null);
@@ -455,7 +472,23 @@ export default function App() {
         {activeTab === 'diary' && (
           <div id="diary" className="w-full max-w-6xl mx-auto">
             <div className="mb-6 lg:mb-8">
-              <EnhancedDailySummary dailyTotals={dailyTotals} goals={goals} />
+              <DiaryDateNavigator
+                selectedDate={selectedDate}
+                onDateChange={setSelectedDate}
+                refreshKey={diaryVersion}
+              />
+            </div>
+
+            <div className="mb-6 lg:mb-8">
+              <EnhancedDailySummary
+                dailyTotals={dailyTotals}
+                goals={goals}
+                date={selectedDate}
+              />
+            </div>
+
+            <div className="mb-6 lg:mb-8">
+              <QuickMealLogger date={selectedDate} onLogged={loadData} />
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 lg:gap-6 mb-6 lg:mb-8">
@@ -802,7 +835,7 @@ export default function App() {
                 </div>
               </div>
 
-              <EnhancedProgressCharts />
+              <EnhancedProgressCharts heightCm={user?.height} />
             </div>
           </div>
         )}
@@ -848,6 +881,7 @@ export default function App() {
                 selectedFood={selectedFood}
                 onClose={() => setSelectedFood(null)}
                 onFoodLogged={handleFoodLogged}
+                date={selectedDate}
                 embedded={true}
               />
             </div>
@@ -974,27 +1008,95 @@ export default function App() {
                   </div>
                 ) : (
                   <div className="space-y-6">
-                    <div className="bg-gradient-to-r from-purple-50 to-blue-50 rounded-xl p-6 border border-purple-200">
-                      <h3 className="text-lg font-semibold text-purple-800 mb-3">
-                        Your Personalized 7-Day Indian Meal Plan
-                      </h3>
-                      <div className="prose prose-sm max-w-none">
-                        <pre className="whitespace-pre-wrap text-purple-700 font-mono text-sm leading-relaxed">
-                          {aiMealPlan}
-                        </pre>
+                    {aiMealPlanError && (
+                      <div className="bg-red-50 rounded-xl p-4 border border-red-200 text-red-700">
+                        {aiMealPlanError}
                       </div>
-                    </div>
+                    )}
+
+                    {aiMealPlan.length > 0 && (
+                      <div className="bg-gradient-to-r from-purple-50 to-blue-50 rounded-xl p-6 border border-purple-200">
+                        <h3 className="text-lg font-semibold text-purple-800 mb-3">
+                          Your Personalized {aiMealPlan.length}-Day Indian Meal
+                          Plan
+                        </h3>
+                        <div className="space-y-4">
+                          {aiMealPlan.map((day) => {
+                            const totals = resolvedDayTotals(day);
+                            return (
+                              <div
+                                key={day.date}
+                                className="bg-white/70 rounded-lg p-4"
+                              >
+                                <div className="flex items-center justify-between mb-2">
+                                  <h4 className="font-semibold text-purple-900">
+                                    {new Date(
+                                      `${day.date}T00:00:00`
+                                    ).toLocaleDateString(undefined, {
+                                      weekday: 'long',
+                                      month: 'short',
+                                      day: 'numeric',
+                                    })}
+                                  </h4>
+                                  <span className="text-sm text-purple-700">
+                                    {Math.round(totals.kcal)} kcal •{' '}
+                                    {Math.round(totals.protein)}g protein
+                                  </span>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                  {(
+                                    [
+                                      'breakfast',
+                                      'lunch',
+                                      'dinner',
+                                      'snack',
+                                    ] as const
+                                  ).map(
+                                    (meal) =>
+                                      day.meals[meal].length > 0 && (
+                                        <div key={meal} className="text-sm">
+                                          <div className="font-medium text-purple-800 capitalize">
+                                            {meal}
+                                          </div>
+                                          {day.meals[meal].map(
+                                            ({ item, food, status }, i) => (
+                                              <div
+                                                key={`${item.name}:${i}`}
+                                                className="text-purple-700"
+                                              >
+                                                {food.name} •{' '}
+                                                {Math.round(item.grams)}g
+                                                {status === 'estimated' && (
+                                                  <span className="ml-1 text-xs text-yellow-700">
+                                                    (AI estimate)
+                                                  </span>
+                                                )}
+                                              </div>
+                                            )
+                                          )}
+                                        </div>
+                                      )
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
 
                     <div className="flex flex-col sm:flex-row gap-3">
                       <button
-                        onClick={() => {
-                          setShowAIMealPlan(false);
-                          setShowPlanner(true);
-                        }}
-                        className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white px-6 py-3 rounded-xl font-semibold hover:from-purple-600 hover:to-blue-600 transition-all flex items-center justify-center gap-2"
+                        onClick={handleAcceptAIMealPlan}
+                        disabled={
+                          aiMealPlan.length === 0 || isAcceptingAIMealPlan
+                        }
+                        className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white px-6 py-3 rounded-xl font-semibold hover:from-purple-600 hover:to-blue-600 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
                       >
                         <IconTarget className="w-5 h-5" />
-                        Apply to Meal Planner
+                        {isAcceptingAIMealPlan
+                          ? 'Applying...'
+                          : 'Accept Plan into Meal Planner'}
                       </button>
                       <button
                         onClick={() => setShowAIMealPlan(false)}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { IconRuler, IconTrash, IconX } from '@tabler/icons-react';
+import {
+  MEASUREMENT_FIELDS,
+  deleteMeasurement,
+  loadMeasurements,
+  navyBodyFat,
+  saveMeasurement,
+  type BodyMeasurement,
+  type MeasurementField,
+} from '../lib/bodyMeasurements';
+import { parseDateKey, todayKey } from '../lib/dates';
+import type { UserProfile } from '../lib/supabaseAuth';
+
+interface BodyMeasurementsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  gender: UserProfile['gender'];
+  heightCm: number;
+}
+
+type Draft = Record<MeasurementField | 'bodyFat', string>;
+
+const emptyDraft = (): Draft => ({
+  waist: '',
+  hip: '',
+  chest: '',
+  arm: '',
+  neck: '',
+  bodyFat: '',
+});
+
+// Blank inputs are left out; anything else must be a positive number
+const parsePositive = (value: string): number | undefined => {
+  const num = Number(value);
+  return value.trim() && Number.isFinite(num) && num > 0 ? num : undefined;
+};
+
+export default function BodyMeasurementsModal({
+  isOpen,
+  onClose,
+  gender,
+  heightCm,
+}: BodyMeasurementsModalProps) {
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [notes, setNotes] = useState('');
+  const [bodyFatSource, setBodyFatSource] =
+    useState<NonNullable<BodyMeasurement['bodyFatSource']>>('navy');
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) loadMeasurements().then(setMeasurements);
+  }, [isOpen]);
+
+  // The Navy formulas only cover men and women
+  const navyEstimate =
+    gender === 'other'
+      ? null
+      : navyBodyFat(
+          gender,
+          heightCm,
+          parsePositive(draft.neck) ?? 0,
+          parsePositive(draft.waist) ?? 0,
+          parsePositive(draft.hip)
+        );
+  const bodyFat =
+    bodyFatSource === 'navy'
+      ? navyEstimate ?? undefined
+      : parsePositive(draft.bodyFat);
+
+  const values = Object.fromEntries(
+    MEASUREMENT_FIELDS.map(({ key }) => [key, parsePositive(draft[key])])
+  ) as Partial<Record<MeasurementField, number>>;
+  const hasValues =
+    Object.values(values).some((value) => value !== undefined) ||
+    bodyFat !== undefined;
+
+  const handleSave = async () => {
+    if (!hasValues) return;
+    setIsSaving(true);
+    const saved = await saveMeasurement({
+      date: todayKey(),
+      ...values,
+      bodyFat,
+      bodyFatSource: bodyFat !== undefined ? bodyFatSource : undefined,
+      notes: notes.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (!saved) {
+      alert('Failed to save measurements. Please try again.');
+      return;
+    }
+    setDraft(emptyDraft());
+    setNotes('');
+    setMeasurements(await loadMeasurements());
+  };
+
+  const handleDelete = async (id: number) => {
+    if (await deleteMeasurement(id)) {
+      setMeasurements(await loadMeasurements());
+    }
+  };
+
+  const summary = (measurement: BodyMeasurement) =>
+    [
+      ...MEASUREMENT_FIELDS.filter(({ key }) => measurement[key]).map(
+        ({ key, label }) => `${label} ${measurement[key]} cm`
+      ),
+      measurement.bodyFat !== undefined &&
+        `${measurement.bodyFat}% body fat${
+          measurement.bodyFatSource === 'navy' ? ' (Navy)' : ''
+        }`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-6 rounded-t-2xl">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <IconRuler className="w-8 h-8" />
+                  <div>
+                    <h2 className="text-2xl font-bold">Body Measurements</h2>
+                    <p className="text-orange-100">
+                      Track inches and body fat, not just the scale
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-white hover:text-orange-100 transition-colors"
+                >
+                  <IconX className="w-6 h-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6">
+              {/* Tape measurements */}
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                  Today's Measurements (cm)
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {MEASUREMENT_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}
+                      </label>
+                      <input
+                        type="number"
+                        value={draft[key]}
+                        onChange={(e) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            [key]: e.target.value,
+                          }))
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        min="1"
+                        step="0.1"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Body fat */}
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                  Body Fat
+                </h3>
+                <div className="flex gap-2 mb-3">
+                  {(['navy', 'manual'] as const).map((source) => (
+                    <button
+                      key={source}
+                      onClick={() => setBodyFatSource(source)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        bodyFatSource === source
+                          ? 'bg-orange-100 text-orange-700'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {source === 'navy' ? 'Navy estimate' : 'Enter directly'}
+                    </button>
+                  ))}
+                </div>
+                {bodyFatSource === 'manual' ? (
+                  <input
+                    type="number"
+                    value={draft.bodyFat}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, bodyFat: e.target.value }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder="Body fat % from a scale, calipers or a scan"
+                    min="1"
+                    max="75"
+                    step="0.1"
+                  />
+                ) : (
+                  <div className="bg-orange-50 rounded-lg p-4">
+                    {gender === 'other' ? (
+                      <p className="text-sm text-gray-600">
+                        The Navy method needs a male or female profile. Enter
+                        your body fat directly instead.
+                      </p>
+                    ) : navyEstimate !== null ? (
+                      <>
+                        <div className="text-2xl font-bold text-orange-600">
+                          {navyEstimate}%
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          Estimated from your height, neck and waist
+                          {gender === 'female' && ' and hip'}
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        Enter your neck and waist
+                        {gender === 'female' && ' and hip'} to estimate body
+                        fat.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Notes */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes (optional)
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  rows={2}
+                />
+              </div>
+
+              {/* Recent Entries */}
+              {measurements.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="font-semibold text-gray-800 mb-3">
+                    Recent Entries
+                  </h3>
+                  <div className="space-y-2 max-h-40 overflow-y-auto">
+                    {measurements.slice(0, 10).map((measurement) => (
+                      <div
+                        key={measurement.id}
+                        className="flex items-center justify-between gap-3 bg-gray-50 rounded-lg p-3"
+                      >
+                        <div>
+                          <div className="text-sm text-gray-500">
+                            {parseDateKey(
+                              measurement.date
+                            ).toLocaleDateString()}
+                          </div>
+                          <div className="text-sm text-gray-800">
+                            {summary(measurement)}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleDelete(measurement.id!)}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          aria-label="Delete measurements"
+                        >
+                          <IconTrash className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !hasValues}
+                className="w-full bg-gradient-to-r from-orange-500 to-red-500 text-white py-3 px-6 rounded-lg font-semibold hover:from-orange-600 hover:to-red-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Measurements'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -8,6 +8,11 @@ import {
 } from '@tabler/icons-react';
 import { db, type Food } from '../lib/db';
 import { upsertFood } from '../lib/supabaseSync';
+import {
+  MICRONUTRIENTS,
+  pickMicronutrients,
+  type MicronutrientKey,
+} from '../lib/nutrients';
 
 interface CustomFoodCreatorProps {
   onFoodCreated: (food: Food) => void;
@@ -30,6 +35,11 @@ export default function CustomFoodCreator({
     servingGrams: '',
   });
 
+  const [micros, setMicros] = useState<
+    Partial<Record<MicronutrientKey, string>>
+  >({});
+  const [showMicros, setShowMicros] = useState(false);
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -84,6 +94,14 @@ export default function CustomFoodCreator({
       newErrors.servingGrams = 'Valid serving size is required';
     }
 
+    // Micronutrients are optional, but must be non-negative numbers when given
+    for (const { key, label } of MICRONUTRIENTS) {
+      const value = micros[key]?.trim();
+      if (value && (isNaN(Number(value)) || Number(value) < 0)) {
+        newErrors[key] = `Valid ${label.toLowerCase()} value is required`;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -109,6 +127,13 @@ export default function CustomFoodCreator({
           protein: Number(formData.protein),
           carbs: Number(formData.carbs),
           fat: Number(formData.fat),
+          ...pickMicronutrients(
+            Object.fromEntries(
+              Object.entries(micros)
+                .filter(([, value]) => value?.trim())
+                .map(([key, value]) => [key, Number(value)])
+            )
+          ),
         },
         servings: [
           {
@@ -120,6 +145,7 @@ export default function CustomFoodCreator({
       };
 
       const id = await db.foods.add(newFood);
+      await db.indexFoods([id]);
       const createdFood = { ...newFood, id };
       await upsertFood(createdFood);
       console.info(
@@ -145,6 +171,13 @@ export default function CustomFoodCreator({
     }
   };
 
+  const handleMicroChange = (key: MicronutrientKey, value: string) => {
+    setMicros((prev) => ({ ...prev, [key]: value }));
+    if (errors[key]) {
+      setErrors((prev) => ({ ...prev, [key]: '' }));
+    }
+  };
+
   const calculateTotal = () => {
     const kcal = Number(formData.kcal) || 0;
     const protein = Number(formData.protein) || 0;
@@ -359,6 +392,51 @@ export default function CustomFoodCreator({
             )}
           </div>
 
+          {/* Micronutrients (Optional) */}
+          <div className="p-4 rounded-xl border border-gray-200">
+            <button
+              type="button"
+              onClick={() => setShowMicros((prev) => !prev)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="text-lg font-semibold text-gray-900">
+                Micronutrients per 100g{' '}
+                <span className="text-gray-400 font-normal text-sm">
+                  (Optional)
+                </span>
+              </span>
+              <span className="text-gray-500 text-sm">
+                {showMicros ? 'Hide' : 'Add'}
+              </span>
+            </button>
+
+            {showMicros && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                {MICRONUTRIENTS.map(({ key, label, unit }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {label} ({unit})
+                    </label>
+                    <input
+                      type="number"
+                      value={micros[key] ?? ''}
+                      onChange={(e) => handleMicroChange(key, e.target.value)}
+                      className={`w-full px-3 py-2 border-2 rounded-lg focus:ring-2 focus:ring-marigold/20 focus:border-marigold transition-all bg-white text-gray-900 placeholder:text-gray-500 ${
+                        errors[key] ? 'border-red-300' : 'border-gray-200'
+                      }`}
+                      placeholder="—"
+                      min="0"
+                      step="0.1"
+                    />
+                    {errors[key] && (
+                      <p className="text-red-500 text-sm mt-1">{errors[key]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Serving Size */}
           <div className="grid grid-cols-1 gap-4">
             <div>
@@ -1,11 +1,15 @@
 import { useState } from 'react';
 import { db, type Food, type DiaryEntry } from '../lib/db';
 import { upsertDiary } from '../lib/supabaseSync';
+import { todayKey } from '../lib/dates';
+import { entryNutrients, roundNutrients } from '../lib/nutrients';
+import { consumeDiaryEntry } from '../lib/pantry';
 
 interface FoodLoggerProps {
   selectedFood: Food | null;
   onClose: () => void;
   onFoodLogged: () => void;
+  date?: string; // yyyy-MM-dd, defaults to today in the user's time zone
   embedded?: boolean; // when true, renders as inline card (no fullscreen overlay)
 }
 
@@ -13,6 +17,7 @@ export default function FoodLogger({
   selectedFood,
   onClose,
   onFoodLogged,
+  date,
   embedded = false,
 }: FoodLoggerProps) {
   const [selectedMeal, setSelectedMeal] = useState<
@@ -30,13 +35,9 @@ export default function FoodLogger({
   const calculateNutrition = () => {
     if (!selectedServing) return { kcal: 0, protein: 0, carbs: 0, fat: 0 };
 
-    const multiplier = (selectedServing.grams * quantity) / 100;
-    return {
-      kcal: Math.round(selectedFood.per100g.kcal * multiplier),
-      protein: Math.round(selectedFood.per100g.protein * multiplier * 10) / 10,
-      carbs: Math.round(selectedFood.per100g.carbs * multiplier * 10) / 10,
-      fat: Math.round(selectedFood.per100g.fat * multiplier * 10) / 10,
-    };
+    return roundNutrients(
+      entryNutrients({ grams: selectedServing.grams, quantity }, selectedFood)
+    );
   };
 
   const handleLogFood = async () => {
@@ -45,9 +46,10 @@ export default function FoodLogger({
     setIsLogging(true);
     try {
       const entry: Omit<DiaryEntry, 'id'> = {
-        date: new Date().toISOString().split('T')[0], // YYYY-MM-DD
+        date: date || todayKey(),
         meal: selectedMeal,
         foodId: selectedFood.id,
+        recipeId: selectedFood.recipeId,
         customName: selectedFood.name,
         servingLabel: selectedServing.label,
         grams: selectedServing.grams,
@@ -57,6 +59,7 @@ export default function FoodLogger({
 
       const id = await db.diary.add(entry);
       await upsertDiary({ ...entry, id });
+      await consumeDiaryEntry({ ...entry, id });
       console.info('Logged diary locally and attempted Supabase upsert', {
         ...entry,
         id,
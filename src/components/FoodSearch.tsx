@@ -1,13 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { db, type Food } from '../lib/db';
-import { searchExternalFoods } from '../lib/foodApi';
-import { upsertFood } from '../lib/supabaseSync';
+import {
+  foodSearchService,
+  type FoodSearchResponse,
+} from '../lib/foodSearchService';
 import { sampleIndianFoods } from '../lib/seedData';
-import Fuse from 'fuse.js';
-
-// Cache for external search results to avoid repeated API calls
-const searchCache = new Map<string, { results: Food[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 export default function FoodSearch({
   onFoodSelect,
@@ -17,211 +14,65 @@ export default function FoodSearch({
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Food[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [allLocalFoods, setAllLocalFoods] = useState<Food[]>([]);
   const [searchQuality, setSearchQuality] = useState<{
-    quality: 'High' | 'Medium' | 'Low';
+    quality: FoodSearchResponse['quality'];
     totalFound: number;
     qualityKept: number;
-    method: 'Fuzzy' | 'Fallback' | 'External' | 'Cached';
+    method: 'Local' | 'Local + Online';
   } | null>(null);
 
-  // Use ref to prevent unnecessary re-renders and optimize Fuse.js
-  const fuseRef = useRef<Fuse<Food> | null>(null);
   const lastSearchRef = useRef<string>('');
 
-  // Initialize Fuse.js instance once and optimize it
-  const initializeFuse = useCallback(
-    (foods: Food[]) => {
-      if (fuseRef.current && foods.length === allLocalFoods.length) {
-        return; // Already initialized with same data
-      }
-
-      console.log('Initializing Fuse.js with', foods.length, 'foods');
-      fuseRef.current = new Fuse(foods, {
-        // Performance-optimized settings
-        threshold: 0.4, // Slightly more lenient for better performance
-        keys: [
-          { name: 'name', weight: 1.0 },
-          { name: 'brand', weight: 0.5 },
-          { name: 'tags', weight: 0.3 },
-        ],
-        // Performance options
-        includeScore: true,
-        includeMatches: false,
-        minMatchCharLength: 2,
-        ignoreLocation: true, // Better performance
-        findAllMatches: false,
-        distance: 50, // Reduced for better performance
-        useExtendedSearch: false,
-        shouldSort: true,
-      });
-    },
-    [allLocalFoods.length]
-  );
-
   useEffect(() => {
     // Initialize database with sample foods if empty
     const initializeDB = async () => {
       const foodCount = await db.foods.count();
       if (foodCount === 0) {
-        await db.foods.bulkAdd(sampleIndianFoods);
+        await db.addFoods(sampleIndianFoods);
         console.log('Database initialized with sample foods');
       }
-
-      // Load all local foods for Fuse.js search
-      const allFoods = await db.foods.toArray();
-      setAllLocalFoods(allFoods);
-      initializeFuse(allFoods);
     };
     initializeDB();
-  }, [initializeFuse]);
-
-  // Smart search that prioritizes local results and caches external results
-  const handleSearch = useCallback(
-    async (query: string) => {
-      setSearchTerm(query);
-      if (!query.trim()) {
-        setSearchResults([]);
-        setSearchQuality(null);
-        return;
-      }
-
-      // Prevent duplicate searches
-      if (lastSearchRef.current === query) {
-        return;
-      }
-      lastSearchRef.current = query;
-
-      setIsLoading(true);
-      const startTime = performance.now();
-
-      try {
-        console.log('Searching for:', query);
-        const queryLower = query.toLowerCase().trim();
-
-        // 1. Fast local search first
-        let localResults: Food[] = [];
-        let searchMethod: 'Fuzzy' | 'Fallback' | 'External' | 'Cached' =
-          'Fuzzy';
-
-        if (fuseRef.current) {
-          // Use Fuse.js for fuzzy search
-          const fuseResults = fuseRef.current.search(query);
-          console.log('Fuse.js results:', fuseResults.length);
-
-          // Get high-quality results quickly
-          localResults = fuseResults
-            .filter((result) => result.score! < 0.5)
-            .slice(0, 10)
-            .map((result) => result.item);
-
-          if (localResults.length === 0 && query.length >= 2) {
-            // Quick fallback search for short queries
-            localResults = allLocalFoods
-              .filter((food) => {
-                const nameLower = food.name.toLowerCase();
-                return (
-                  nameLower.includes(queryLower) ||
-                  nameLower.startsWith(queryLower)
-                );
-              })
-              .slice(0, 8);
-            searchMethod = 'Fallback';
-          } else {
-            searchMethod = 'Fuzzy';
-          }
-        }
-
-        console.log(
-          'Local search results:',
-          localResults.length,
-          'Method:',
-          searchMethod
-        );
-
-        // 2. Check cache for external results
-        let externalResults: Food[] = [];
-        const cacheKey = queryLower;
-        const cached = searchCache.get(cacheKey);
-
-        if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-          externalResults = cached.results;
-          searchMethod = 'Cached';
-          console.log('Using cached external results:', externalResults.length);
-        } else if (localResults.length < 5) {
-          // Only fetch external if we have few local results
-          console.log('Fetching external foods...');
-          externalResults = await searchExternalFoods(query);
-
-          // Cache the results
-          searchCache.set(cacheKey, {
-            results: externalResults,
-            timestamp: Date.now(),
-          });
-          console.log('External search results:', externalResults.length);
-        }
-
-        // 3. Merge and deduplicate results efficiently
-        const allResults = [...localResults];
-        const existingNames = new Set(
-          localResults.map((f) => f.name.toLowerCase())
-        );
-
-        externalResults.forEach((food) => {
-          if (!existingNames.has(food.name.toLowerCase())) {
-            allResults.push(food);
-            existingNames.add(food.name.toLowerCase());
-          }
-        });
-
-        // 4. Simple relevance sorting (optimized)
-        const sortedResults = allResults.sort((a, b) => {
-          const aName = a.name.toLowerCase();
-          const bName = b.name.toLowerCase();
-
-          // Simple scoring for performance
-          const aScore = aName.startsWith(queryLower)
-            ? 2
-            : aName.includes(queryLower)
-            ? 1
-            : 0;
-          const bScore = bName.startsWith(queryLower)
-            ? 2
-            : bName.includes(queryLower)
-            ? 1
-            : 0;
-
-          if (aScore !== bScore) return bScore - aScore;
-          return aName.localeCompare(bName);
-        });
-
-        const searchTime = performance.now() - startTime;
-        console.log(`Search completed in ${searchTime.toFixed(2)}ms`);
-
-        setSearchResults(sortedResults);
-
-        // Set search quality indicator
-        setSearchQuality({
-          quality:
-            sortedResults.length > 8
-              ? 'High'
-              : sortedResults.length > 4
-              ? 'Medium'
-              : 'Low',
-          totalFound: localResults.length + externalResults.length,
-          qualityKept: sortedResults.length,
-          method: searchMethod,
-        });
-      } catch (error) {
-        console.error('Search error:', error);
-        setSearchResults([]);
-        setSearchQuality(null);
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [allLocalFoods]
-  );
+  }, []);
+
+  const handleSearch = useCallback(async (query: string) => {
+    setSearchTerm(query);
+    if (!query.trim()) {
+      lastSearchRef.current = '';
+      setSearchResults([]);
+      setSearchQuality(null);
+      return;
+    }
+
+    // Prevent duplicate searches
+    if (lastSearchRef.current === query) {
+      return;
+    }
+    lastSearchRef.current = query;
+
+    setIsLoading(true);
+    try {
+      const response = await foodSearchService.search(query);
+      // A newer query was typed while this one was in flight
+      if (lastSearchRef.current !== query) return;
+
+      setSearchResults(response.results.map((result) => result.food));
+      setSearchQuality({
+        quality: response.quality,
+        totalFound: response.sources.reduce((sum, s) => sum + s.count, 0),
+        qualityKept: response.results.length,
+        method: response.results.some((result) => result.source !== 'local')
+          ? 'Local + Online'
+          : 'Local',
+      });
+    } catch (error) {
+      console.error('Search error:', error);
+      setSearchResults([]);
+      setSearchQuality(null);
+    } finally {
+      if (lastSearchRef.current === query) setIsLoading(false);
+    }
+  }, []);
 
   // Optimized debounced search
   const debouncedSearch = useCallback(
@@ -236,18 +87,14 @@ export default function FoodSearch({
   );
 
   const handleFoodSelect = (food: Food) => {
-    // If the selected food is from external (no id), persist it locally and sync
-    const persistIfNew = async () => {
-      if (!food.id) {
-        const id = await db.foods.add(food);
-        const saved = { ...food, id };
-        await upsertFood(saved);
-        onFoodSelect(saved);
-      } else {
+    // Saves external results locally and counts the pick for future ranking
+    foodSearchService
+      .persistFood(food)
+      .then(onFoodSelect)
+      .catch((error) => {
+        console.error('Error saving selected food:', error);
         onFoodSelect(food);
-      }
-    };
-    void persistIfNew();
+      });
     setSearchTerm('');
     setSearchResults([]);
     setSearchQuality(null);
@@ -279,8 +126,7 @@ export default function FoodSearch({
               <span className="mr-2">🔍</span>
               <span>
                 Found {searchResults.length} high-quality results
-                {searchQuality.method !== 'External' &&
-                  ` (${searchQuality.method} search)`}
+                {` (${searchQuality.method} search)`}
               </span>
             </div>
             <div className="flex items-center space-x-3 text-xs">
@@ -15,10 +15,9 @@ import {
   IconShoppingCart,
   IconArrowUp,
 } from '@tabler/icons-react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { db, type Food } from '../lib/db';
-import { searchExternalFoods } from '../lib/foodApi';
-import { upsertFood } from '../lib/supabaseSync';
+import { foodSearchService } from '../lib/foodSearchService';
 import { sampleIndianFoods } from '../lib/seedData';
 
 interface LandingPageProps {
@@ -29,13 +28,14 @@ export default function LandingPage({ onGetStarted }: LandingPageProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Food[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const latestQuery = useRef('');
 
   useEffect(() => {
     // Initialize database with sample foods if empty
     const initializeDB = async () => {
       const foodCount = await db.foods.count();
       if (foodCount === 0) {
-        await db.foods.bulkAdd(sampleIndianFoods);
+        await db.addFoods(sampleIndianFoods);
         console.log('Database initialized with sample foods');
       }
     };
@@ -44,115 +44,32 @@ export default function LandingPage({ onGetStarted }: LandingPageProps) {
 
   const handleSearch = async (query: string) => {
     setSearchTerm(query);
+    latestQuery.current = query;
     if (!query.trim()) {
       setSearchResults([]);
       return;
     }
     setIsLoading(true);
     try {
-      console.log('Searching for:', query);
-      const allFoods = await db.foods.toArray();
-      console.log('Local foods count:', allFoods.length);
-
-      // Improved local search with better relevance scoring
-      const queryLower = query.toLowerCase().trim();
-      const local = allFoods
-        .map((food) => {
-          const nameLower = food.name.toLowerCase();
-          const brandLower = (food.brand || '').toLowerCase();
-          const tagsLower = (food.tags || []).map((tag) => tag.toLowerCase());
-
-          // Calculate relevance score
-          let score = 0;
-
-          // Exact name match gets highest score
-          if (nameLower === queryLower) score += 100;
-          // Starts with query gets high score
-          else if (nameLower.startsWith(queryLower)) score += 80;
-          // Contains query gets medium score
-          else if (nameLower.includes(queryLower)) score += 60;
-          // Brand contains query gets lower score
-          else if (brandLower.includes(queryLower)) score += 30;
-          // Tags contain query gets lower score
-          else if (tagsLower.some((tag) => tag.includes(queryLower)))
-            score += 20;
-          // No match
-          else score = 0;
-
-          return { food, score };
-        })
-        .filter((item) => item.score > 0)
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 10)
-        .map((item) => item.food);
-
-      console.log('Local search results:', local.length);
-
-      // Always fetch external foods to get the best possible results
-      console.log('Fetching external foods...');
-      const external = await searchExternalFoods(query);
-      console.log('External search results:', external.length, external);
-
-      // Merge local and external results, removing duplicates
-      const allResults = [...local];
-      const existingNames = new Set(local.map((f) => f.name.toLowerCase()));
-
-      external.forEach((food) => {
-        if (!existingNames.has(food.name.toLowerCase())) {
-          allResults.push(food);
-          existingNames.add(food.name.toLowerCase());
-        }
-      });
-
-      // Sort results by relevance to query
-      const sortedResults = allResults.sort((a, b) => {
-        const aName = a.name.toLowerCase();
-        const bName = b.name.toLowerCase();
-        const queryLower = query.toLowerCase();
-
-        // Exact matches first
-        if (aName === queryLower && bName !== queryLower) return -1;
-        if (bName === queryLower && aName !== queryLower) return 1;
-
-        // Starts with query
-        if (aName.startsWith(queryLower) && !bName.startsWith(queryLower))
-          return -1;
-        if (bName.startsWith(queryLower) && !aName.startsWith(queryLower))
-          return 1;
-
-        // Contains query
-        if (aName.includes(queryLower) && !bName.includes(queryLower))
-          return -1;
-        if (bName.includes(queryLower) && !aName.includes(queryLower)) return 1;
-
-        // Alphabetical order for same relevance
-        return aName.localeCompare(bName);
-      });
-
-      console.log('Final merged results:', sortedResults.length);
-      setSearchResults(sortedResults);
+      const response = await foodSearchService.search(query);
+      // Ignore results for a query the user has already typed past
+      if (latestQuery.current !== query) return;
+      setSearchResults(response.results.map((result) => result.food));
     } catch (error) {
       console.error('Search error:', error);
       setSearchResults([]);
     } finally {
-      setIsLoading(false);
+      if (latestQuery.current === query) setIsLoading(false);
     }
   };
 
   const handleFoodSelect = (food: Food) => {
-    // If the selected food is from external (no id), persist it locally and sync
-    const persistIfNew = async () => {
-      if (!food.id) {
-        const id = await db.foods.add(food);
-        const saved = { ...food, id };
-        await upsertFood(saved);
-        // You can add a success message or redirect here
-        console.log('Food selected:', saved);
-      } else {
-        console.log('Food selected:', food);
-      }
-    };
-    void persistIfNew();
+    // Saves external results locally and counts the pick for future ranking
+    foodSearchService
+      .persistFood(food)
+      .then((saved) => console.log('Food selected:', saved))
+      .catch((error) => console.error('Error saving selected food:', error));
+    latestQuery.current = '';
     setSearchTerm('');
     setSearchResults([]);
   };
@@ -12,12 +12,30 @@ import {
   IconList,
   IconCalendar,
 } from '@tabler/icons-react';
-import { db, type Recipe, type MealPlan } from '../lib/db';
+import type { Recipe, MealPlan } from '../lib/db';
+import { loadFoodLookup, recipeFoodRefs } from '../lib/diary';
+import { createFoodLookup, findFood, type FoodLookup } from '../lib/nutrients';
+import {
+  loadMealPlans,
+  mealPlanFoodRefs,
+  mealPlanGroceries,
+  mealPlanName,
+} from '../lib/mealPlanner';
+import { loadPantry, stockOnHand, type PantryItem } from '../lib/pantry';
+import { loadRecipes } from '../lib/recipes';
+import {
+  formatGrams,
+  formatPurchase,
+  purchaseFor,
+  type Purchase,
+} from '../lib/shoppingUnits';
 
 interface ShoppingItem {
   id: string;
   name: string;
+  foodId?: number;
   totalGrams: number;
+  purchase?: Purchase; // totalGrams rounded to what the shop sells
   category: string;
   estimatedPrice?: number;
   isChecked: boolean;
@@ -47,6 +65,8 @@ export default function ShoppingListGenerator({
   const [shoppingList, setShoppingList] = useState<ShoppingItem[]>([]);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
+  const [foods, setFoods] = useState<FoodLookup>(() => createFoodLookup([]));
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
   const [selectedRecipes, setSelectedRecipes] = useState<number[]>([]);
   const [selectedMealPlans, setSelectedMealPlans] = useState<number[]>([]);
   const [customItems, setCustomItems] = useState<
@@ -62,18 +82,35 @@ export default function ShoppingListGenerator({
 
   useEffect(() => {
     loadData();
+    const handler = () => loadData();
+    window.addEventListener('recipes:changed', handler);
+    window.addEventListener('pantry:changed', handler);
+    window.addEventListener('mealplans:changed', handler);
+    return () => {
+      window.removeEventListener('recipes:changed', handler);
+      window.removeEventListener('pantry:changed', handler);
+      window.removeEventListener('mealplans:changed', handler);
+    };
   }, []);
 
   const loadData = async () => {
     setIsLoading(true);
     try {
-      const [allRecipes, allMealPlans] = await Promise.all([
-        db.recipes.toArray(),
-        db.mealPlans.toArray(),
+      const [allRecipes, allMealPlans, stock] = await Promise.all([
+        loadRecipes(),
+        loadMealPlans(),
+        loadPantry(),
       ]);
 
       setRecipes(allRecipes);
       setMealPlans(allMealPlans);
+      setPantry(stock);
+      setFoods(
+        await loadFoodLookup([
+          ...recipeFoodRefs(allRecipes),
+          ...mealPlanFoodRefs(allMealPlans),
+        ])
+      );
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -99,6 +136,7 @@ export default function ShoppingListGenerator({
             itemMap.set(key, {
               id: key,
               name: ingredient.foodName,
+              foodId: ingredient.foodId,
               totalGrams: ingredient.grams,
               category: 'Other',
               isChecked: false,
@@ -109,34 +147,29 @@ export default function ShoppingListGenerator({
       }
     }
 
-    // Process selected meal plans
-    for (const mealPlanId of selectedMealPlans) {
-      const mealPlan = mealPlans.find((mp) => mp.id === mealPlanId);
-      if (mealPlan && mealPlan.recipeId) {
-        const recipe = recipes.find((r) => r.id === mealPlan.recipeId);
-        if (recipe && mealPlan.servings) {
-          const multiplier = mealPlan.servings / recipe.servings;
-          for (const ingredient of recipe.ingredients) {
-            const key = ingredient.foodName.toLowerCase();
-            const existing = itemMap.get(key);
-
-            if (existing) {
-              existing.totalGrams += ingredient.grams * multiplier;
-              if (!existing.sources.includes(recipe.name)) {
-                existing.sources.push(recipe.name);
-              }
-            } else {
-              itemMap.set(key, {
-                id: key,
-                name: ingredient.foodName,
-                totalGrams: ingredient.grams * multiplier,
-                category: 'Other',
-                isChecked: false,
-                sources: [recipe.name],
-              });
-            }
-          }
+    // Process selected meal plans: planned foods and recipe ingredients
+    const selectedPlans = mealPlans.filter((mp) =>
+      selectedMealPlans.includes(mp.id!)
+    );
+    for (const grocery of mealPlanGroceries(selectedPlans, foods)) {
+      const key = grocery.name.toLowerCase();
+      const existing = itemMap.get(key);
+
+      if (existing) {
+        existing.totalGrams += grocery.grams;
+        for (const source of grocery.sources) {
+          if (!existing.sources.includes(source)) existing.sources.push(source);
         }
+      } else {
+        itemMap.set(key, {
+          id: key,
+          name: grocery.name,
+          foodId: grocery.foodId,
+          totalGrams: grocery.grams,
+          category: 'Other',
+          isChecked: false,
+          sources: [...grocery.sources],
+        });
       }
     }
 
@@ -216,6 +249,13 @@ export default function ShoppingListGenerator({
         item.category = 'Spices & Condiments';
       }
 
+      item.purchase = purchaseFor(item.name, item.totalGrams, {
+        food: findFood(foods, item.foodId, item.name),
+        onHandGrams: stockOnHand(pantry, {
+          foodId: item.foodId,
+          name: item.name,
+        }),
+      });
       return item;
     });
 
@@ -261,11 +301,26 @@ export default function ShoppingListGenerator({
     setCustomItems(customItems.filter((_, i) => i !== index));
   };
 
+  // What to buy, with the plan's amount and what will be left after it
+  const describeQuantity = (item: ShoppingItem) => {
+    const purchase = item.purchase;
+    if (!purchase) return formatGrams(item.totalGrams);
+    const leftover =
+      purchase.leftoverGrams >= 1
+        ? `, ${formatGrams(purchase.leftoverGrams)} left over`
+        : '';
+    return `${formatPurchase(purchase)} (need ${formatGrams(
+      purchase.needGrams
+    )}${leftover})`;
+  };
+
   const exportShoppingList = () => {
     const content = shoppingList
       .map(
         (item) =>
-          `${item.isChecked ? '☑' : '☐'} ${item.name} - ${item.totalGrams}g`
+          `${item.isChecked ? '☑' : '☐'} ${item.name} - ${describeQuantity(
+            item
+          )}`
       )
       .join('\n');
 
@@ -305,9 +360,9 @@ export default function ShoppingListGenerator({
                   .map(
                     (item) => `
                   <div class="item ${item.isChecked ? 'checked' : ''}">
-                    ${item.isChecked ? '☑' : '☐'} ${item.name} - ${
-                      item.totalGrams
-                    }g
+                    ${item.isChecked ? '☑' : '☐'} ${
+                      item.name
+                    } - ${describeQuantity(item)}
                   </div>
                 `
                   )
@@ -331,7 +386,10 @@ export default function ShoppingListGenerator({
   const getCheckedItems = () =>
     shoppingList.filter((item) => item.isChecked).length;
   const getTotalWeight = () =>
-    shoppingList.reduce((sum, item) => sum + item.totalGrams, 0);
+    shoppingList.reduce(
+      (sum, item) => sum + (item.purchase?.buyGrams ?? item.totalGrams),
+      0
+    );
 
   if (isLoading) {
     return (
@@ -468,13 +526,12 @@ export default function ShoppingListGenerator({
                       />
                       <div className="flex-1">
                         <div className="font-medium text-gray-900">
-                          {mealPlan.recipeId
-                            ? recipes.find((r) => r.id === mealPlan.recipeId)
-                                ?.name
-                            : mealPlan.customName}
+                          {mealPlanName(mealPlan, foods)}
                         </div>
                         <div className="text-sm text-gray-600">
                           {mealPlan.date} • {mealPlan.meal}
+                          {mealPlan.grams !== undefined &&
+                            ` • ${Math.round(mealPlan.grams)}g`}
                         </div>
                       </div>
                     </label>
@@ -567,9 +624,9 @@ export default function ShoppingListGenerator({
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-gray-900">
-                      {getTotalWeight().toFixed(0)}g
+                      {formatGrams(getTotalWeight())}
                     </div>
-                    <div className="text-sm text-gray-600">Total Weight</div>
+                    <div className="text-sm text-gray-600">Weight to Buy</div>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-gray-900">
@@ -650,7 +707,8 @@ export default function ShoppingListGenerator({
                                 {item.name}
                               </div>
                               <div className="text-sm text-gray-600">
-                                {item.totalGrams}g • {item.sources.join(', ')}
+                                {describeQuantity(item)} •{' '}
+                                {item.sources.join(', ')}
                               </div>
                             </div>
                             <button
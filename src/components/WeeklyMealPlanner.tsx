@@ -10,20 +10,32 @@ import {
   IconTrash,
   IconBookmark,
 } from '@tabler/icons-react';
-import { db, type Recipe } from '../lib/db';
-import { upsertMealPlan } from '../lib/supabaseSync';
+import type { MealPlan, Recipe } from '../lib/db';
 import { generateMealIdeas } from '../lib/ai';
-
-interface MealPlan {
-  id?: number;
-  date: string;
-  meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  recipeId?: number;
-  recipe?: Recipe;
-  customName?: string;
-  servings?: number;
-  notes?: string;
-}
+import { addDaysToKey, parseDateKey, todayKey } from '../lib/dates';
+import { loadFoodLookup, recipeFoodRefs } from '../lib/diary';
+import {
+  expiringSoon,
+  isStockOf,
+  loadPantry,
+  type PantryItem,
+} from '../lib/pantry';
+import {
+  addMealPlans,
+  deleteMealPlan,
+  loadMealPlans,
+  mealPlanFoodRefs,
+  mealPlanName,
+  type PlannerMeal,
+} from '../lib/mealPlanner';
+import { loadRecipes } from '../lib/recipes';
+import {
+  addNutrients,
+  createFoodLookup,
+  emptyNutrients,
+  mealPlanNutrients,
+  type FoodLookup,
+} from '../lib/nutrients';
 
 interface WeeklyMealPlannerProps {
   onClose: () => void;
@@ -40,6 +52,13 @@ const DAYS = [
   'Saturday',
 ] as const;
 
+// Sunday-first week containing today, in the user's time zone
+const weekDateKeys = () => {
+  const today = todayKey();
+  const start = addDaysToKey(today, -parseDateKey(today).getDay());
+  return Array.from({ length: 7 }, (_, i) => addDaysToKey(start, i));
+};
+
 export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
   const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -53,36 +72,44 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
   const [customServings, setCustomServings] = useState('1');
   const [notes, setNotes] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const [foods, setFoods] = useState<FoodLookup>(() => createFoodLookup([]));
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
   const [aiIdeas, setAiIdeas] = useState<string>('');
   const [isGeneratingIdeas, setIsGeneratingIdeas] = useState(false);
 
   useEffect(() => {
     loadData();
+    const handler = () => loadData();
+    window.addEventListener('recipes:changed', handler);
+    window.addEventListener('mealplans:changed', handler);
+    return () => {
+      window.removeEventListener('recipes:changed', handler);
+      window.removeEventListener('mealplans:changed', handler);
+    };
+  }, []);
+
+  useEffect(() => {
+    const refresh = () => loadPantry().then(setPantry);
+    refresh();
+    window.addEventListener('pantry:changed', refresh);
+    return () => window.removeEventListener('pantry:changed', refresh);
   }, []);
 
   const loadData = async () => {
     setIsLoading(true);
     try {
-      // Load recipes
-      const allRecipes = await db.recipes.toArray();
+      // Load recipes and the meal plans for the current week
+      const [allRecipes, existingPlans] = await Promise.all([
+        loadRecipes(),
+        loadMealPlans(weekDateKeys()),
+      ]);
       setRecipes(allRecipes);
-
-      // Load existing meal plans for the current week
-      const today = new Date();
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay());
-
-      const weekDates = Array.from({ length: 7 }, (_, i) => {
-        const date = new Date(startOfWeek);
-        date.setDate(startOfWeek.getDate() + i);
-        return date.toISOString().split('T')[0];
-      });
-
-      const existingPlans = await db.mealPlans
-        .where('date')
-        .anyOf(weekDates)
-        .toArray();
-
+      setFoods(
+        await loadFoodLookup([
+          ...recipeFoodRefs(allRecipes),
+          ...mealPlanFoodRefs(existingPlans),
+        ])
+      );
       setMealPlans(existingPlans);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -92,25 +119,23 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
   };
 
   const getWeekDates = () => {
-    const today = new Date();
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay());
-
-    return Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(startOfWeek);
-      date.setDate(startOfWeek.getDate() + i);
-      return {
-        date: date.toISOString().split('T')[0],
-        dayName: DAYS[i],
-        isToday: date.toDateString() === today.toDateString(),
-      };
-    });
+    const today = todayKey();
+    return weekDateKeys().map((date, i) => ({
+      date,
+      dayName: DAYS[i],
+      isToday: date === today,
+    }));
   };
 
-  const getMealPlan = (date: string, meal: string) => {
-    return mealPlans.find((plan) => plan.date === date && plan.meal === meal);
+  const getMealPlans = (date: string, meal: string) => {
+    return mealPlans.filter((plan) => plan.date === date && plan.meal === meal);
   };
 
+  const recipeFor = (plan: MealPlan) =>
+    plan.recipeId !== undefined
+      ? recipes.find((recipe) => recipe.id === plan.recipeId)
+      : undefined;
+
   const addMealPlan = async (
     date: string,
     meal: string,
@@ -119,31 +144,22 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
     servings?: number,
     notes?: string
   ) => {
-    try {
-      const newMealPlan: MealPlan = {
+    // The list reloads on mealplans:changed
+    const saved = await addMealPlans([
+      {
         date,
-        meal: meal as 'breakfast' | 'lunch' | 'dinner' | 'snack',
+        meal: meal as PlannerMeal,
         recipeId,
         customName,
         servings: servings ? Number(servings) : 1,
         notes,
-      };
-
-      const id = await db.mealPlans.add(newMealPlan);
-      const createdPlan = { ...newMealPlan, id };
-      await upsertMealPlan(createdPlan);
-      console.info(
-        'Created meal plan locally and attempted Supabase upsert',
-        createdPlan
-      );
-
-      setMealPlans([...mealPlans, createdPlan]);
+      },
+    ]);
+    if (saved.length) {
       setShowRecipeSelector(null);
       setCustomMealName('');
       setCustomServings('1');
       setNotes('');
-    } catch (error) {
-      console.error('Error adding meal plan:', error);
     }
   };
 
@@ -161,14 +177,7 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
     }
   };
 
-  const removeMealPlan = async (id: number) => {
-    try {
-      await db.mealPlans.delete(id);
-      setMealPlans(mealPlans.filter((plan) => plan.id !== id));
-    } catch (error) {
-      console.error('Error removing meal plan:', error);
-    }
-  };
+  const removeMealPlan = (id: number) => deleteMealPlan(id);
 
   const openRecipeSelector = (date: string, meal: string) => {
     setSelectedDate(date);
@@ -193,24 +202,30 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
     }
   };
 
-  const calculateWeeklyNutrition = () => {
-    const total = { kcal: 0, protein: 0, carbs: 0, fat: 0 };
-
-    for (const plan of mealPlans) {
-      if (plan.recipe && plan.servings) {
-        const multiplier = plan.servings / plan.recipe.servings;
-        total.kcal += plan.recipe.nutrition.kcal * multiplier;
-        total.protein += plan.recipe.nutrition.protein * multiplier;
-        total.carbs += plan.recipe.nutrition.carbs * multiplier;
-        total.fat += plan.recipe.nutrition.fat * multiplier;
-      }
-    }
-
-    return total;
-  };
+  const calculateWeeklyNutrition = () =>
+    mealPlans.reduce(
+      (total, plan) =>
+        addNutrients(total, mealPlanNutrients(plan, recipeFor(plan), foods)),
+      emptyNutrients()
+    );
 
   const weeklyNutrition = calculateWeeklyNutrition();
 
+  // Pantry stock about to expire, and the recipes that would use it up
+  const useSoon = expiringSoon(pantry);
+  const soonItemsIn = (recipe: Recipe) =>
+    useSoon.filter((item) =>
+      recipe.ingredients.some((ingredient) =>
+        isStockOf(item, {
+          foodId: ingredient.foodId || undefined,
+          name: ingredient.foodName,
+        })
+      )
+    );
+  const useSoonRecipes = recipes.filter(
+    (recipe) => soonItemsIn(recipe).length > 0
+  );
+
   if (isLoading) {
     return (
       <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -309,6 +324,24 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
           </div>
         </div>
 
+        {/* Use Soon */}
+        {useSoon.length > 0 && (
+          <div className="p-4 bg-orange-50 border-b border-orange-200 text-sm">
+            <div className="font-semibold text-gray-900 mb-1">
+              Use soon:{' '}
+              {useSoon
+                .map((item) => `${item.name} (by ${item.expiry})`)
+                .join(', ')}
+            </div>
+            {useSoonRecipes.length > 0 && (
+              <div className="text-gray-700">
+                Recipes that use them:{' '}
+                {useSoonRecipes.map((recipe) => recipe.name).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Meal Planner Grid */}
         <div className="p-4">
           <div className="overflow-x-auto">
@@ -345,72 +378,85 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
                         )}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {new Date(date).toLocaleDateString('en-IN', {
+                        {parseDateKey(date).toLocaleDateString('en-IN', {
                           month: 'short',
                           day: 'numeric',
                         })}
                       </div>
                     </td>
                     {MEALS.map((meal) => {
-                      const mealPlan = getMealPlan(date, meal);
+                      const cellPlans = getMealPlans(date, meal);
                       return (
-                        <td key={meal} className="p-2">
-                          {mealPlan ? (
-                            <div className="bg-white rounded-lg border border-gray-200 p-2 shadow-sm">
-                              {mealPlan.recipe ? (
-                                <div>
-                                  <div className="font-medium text-gray-900 mb-1">
-                                    {mealPlan.recipe.name}
-                                  </div>
-                                  <div className="text-sm text-gray-600 mb-2">
-                                    {mealPlan.recipe.description}
-                                  </div>
-                                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
-                                    <IconClock className="w-3 h-3" />
-                                    {mealPlan.recipe.prepTime +
-                                      mealPlan.recipe.cookTime}{' '}
-                                    min
-                                    <IconUsers className="w-3 h-3" />
-                                    {mealPlan.servings || 1} serving
-                                    {mealPlan.servings !== 1 ? 's' : ''}
-                                  </div>
-                                  <div className="text-xs text-gray-500">
-                                    {mealPlan.recipe.nutrition.kcal} kcal
-                                  </div>
-                                </div>
-                              ) : (
-                                <div>
-                                  <div className="font-medium text-gray-900 mb-1">
-                                    {mealPlan.customName}
-                                  </div>
-                                  {mealPlan.servings &&
-                                    mealPlan.servings > 1 && (
+                        <td key={meal} className="p-2 align-top">
+                          <div className="space-y-2">
+                            {cellPlans.map((mealPlan) => {
+                              const recipe = recipeFor(mealPlan);
+                              return (
+                                <div
+                                  key={mealPlan.id}
+                                  className="bg-white rounded-lg border border-gray-200 p-2 shadow-sm"
+                                >
+                                  {recipe ? (
+                                    <div>
+                                      <div className="font-medium text-gray-900 mb-1">
+                                        {recipe.name}
+                                      </div>
                                       <div className="text-sm text-gray-600 mb-2">
-                                        {mealPlan.servings} servings
+                                        {recipe.description}
                                       </div>
-                                    )}
-                                </div>
-                              )}
-                              {mealPlan.notes && (
-                                <div className="text-xs text-gray-500 mt-2 italic">
-                                  "{mealPlan.notes}"
+                                      <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+                                        <IconClock className="w-3 h-3" />
+                                        {recipe.prepTime + recipe.cookTime} min
+                                        <IconUsers className="w-3 h-3" />
+                                        {mealPlan.servings || 1} serving
+                                        {mealPlan.servings !== 1 ? 's' : ''}
+                                      </div>
+                                      <div className="text-xs text-gray-500">
+                                        {recipe.nutrition.kcal} kcal
+                                      </div>
+                                    </div>
+                                  ) : (
+                                    <div>
+                                      <div className="font-medium text-gray-900 mb-1">
+                                        {mealPlanName(mealPlan, foods)}
+                                      </div>
+                                      {mealPlan.grams !== undefined ? (
+                                        <div className="text-sm text-gray-600 mb-2">
+                                          {Math.round(mealPlan.grams)}g
+                                        </div>
+                                      ) : (
+                                        mealPlan.servings &&
+                                        mealPlan.servings > 1 && (
+                                          <div className="text-sm text-gray-600 mb-2">
+                                            {mealPlan.servings} servings
+                                          </div>
+                                        )
+                                      )}
+                                    </div>
+                                  )}
+                                  {mealPlan.notes && (
+                                    <div className="text-xs text-gray-500 mt-2 italic">
+                                      "{mealPlan.notes}"
+                                    </div>
+                                  )}
+                                  <button
+                                    onClick={() => removeMealPlan(mealPlan.id!)}
+                                    className="mt-2 p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
+                                  >
+                                    <IconTrash className="w-4 h-4" />
+                                  </button>
                                 </div>
-                              )}
-                              <button
-                                onClick={() => removeMealPlan(mealPlan.id!)}
-                                className="mt-2 p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
-                              >
-                                <IconTrash className="w-4 h-4" />
-                              </button>
-                            </div>
-                          ) : (
+                              );
+                            })}
                             <button
                               onClick={() => openRecipeSelector(date, meal)}
-                              className="w-full h-24 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-gray-400 hover:border-marigold hover:text-marigold transition-colors group"
+                              className={`w-full ${
+                                cellPlans.length ? 'h-10' : 'h-24'
+                              } border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-gray-400 hover:border-marigold hover:text-marigold transition-colors group`}
                             >
                               <IconPlus className="w-6 h-6 group-hover:scale-110 transition-transform" />
                             </button>
-                          )}
+                          </div>
                         </td>
                       );
                     })}
@@ -467,6 +513,14 @@ export default function WeeklyMealPlanner({ onClose }: WeeklyMealPlannerProps) {
                             <div className="text-sm text-gray-600">
                               {recipe.description}
                             </div>
+                            {soonItemsIn(recipe).length > 0 && (
+                              <div className="text-xs text-orange-700 mt-1">
+                                Uses soon:{' '}
+                                {soonItemsIn(recipe)
+                                  .map((item) => item.name)
+                                  .join(', ')}
+                              </div>
+                            )}
                             <div className="flex items-center gap-4 text-xs text-gray-500 mt-1">
                               <span>{recipe.nutrition.kcal} kcal</span>
                               <span>
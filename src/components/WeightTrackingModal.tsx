@@ -1,12 +1,12 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { IconX, IconPlus, IconMinus, IconScale } from '@tabler/icons-react';
-import { WeightTrackingService, type WeightEntry } from '../lib/weightTracking';
+import { IconX, IconPlus, IconMinus, IconScale, IconTarget } from '@tabler/icons-react';
+import { WeightTrackingService, type WeightEntry, type WeightGoal } from '../lib/weightTracking';
+import { parseDateKey, todayKey } from '../lib/dates';
 
 interface WeightTrackingModalProps {
   isOpen: boolean;
   onClose: () => void;
-  userId: string;
   currentWeight: number;
   onWeightUpdate: (newWeight: number) => void;
 }
@@ -14,7 +14,6 @@ interface WeightTrackingModalProps {
 export default function WeightTrackingModal({
   isOpen,
   onClose,
-  userId,
   currentWeight,
   onWeightUpdate,
 }: WeightTrackingModalProps) {
@@ -23,18 +22,25 @@ export default function WeightTrackingModal({
   const [weightEntries, setWeightEntries] = useState<WeightEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showReminder, setShowReminder] = useState(false);
+  const [weightGoal, setWeightGoal] = useState<WeightGoal | null>(null);
+  const [targetWeight, setTargetWeight] = useState('');
 
   useEffect(() => {
     if (isOpen) {
       loadWeightData();
       checkWeightReminder();
     }
-  }, [isOpen, userId]);
+  }, [isOpen]);
 
   const loadWeightData = async () => {
     try {
-      const entries = await WeightTrackingService.getWeightEntries(userId);
+      const [entries, goal] = await Promise.all([
+        WeightTrackingService.getWeightEntries(),
+        WeightTrackingService.getWeightGoal(),
+      ]);
       setWeightEntries(entries);
+      setWeightGoal(goal);
+      setTargetWeight(goal ? String(goal.targetWeight) : '');
     } catch (error) {
       console.error('Error loading weight data:', error);
     }
@@ -42,7 +48,7 @@ export default function WeightTrackingModal({
 
   const checkWeightReminder = async () => {
     try {
-      const shouldShow = await WeightTrackingService.shouldShowWeightReminder(userId);
+      const shouldShow = await WeightTrackingService.shouldShowWeightReminder();
       setShowReminder(shouldShow);
     } catch (error) {
       console.error('Error checking weight reminder:', error);
@@ -59,14 +65,13 @@ export default function WeightTrackingModal({
     setIsLoading(true);
     try {
       const newEntry = await WeightTrackingService.addWeightEntry({
-        user_id: userId,
         weight,
-        date: new Date().toISOString().split('T')[0],
+        date: todayKey(),
         notes: notes.trim() || undefined,
       });
 
       if (newEntry) {
-        setWeightEntries(prev => [newEntry, ...prev]);
+        await loadWeightData();
         onWeightUpdate(weight);
         setNotes('');
         setShowReminder(false);
@@ -79,9 +84,22 @@ export default function WeightTrackingModal({
     }
   };
 
-  const { totalChange, weeklyRate } = WeightTrackingService.calculateWeightChange(weightEntries);
+  const { totalChange, weeklyRate } = WeightTrackingService.calculateWeightChange([...weightEntries]);
   const latestWeight = weightEntries[0]?.weight || currentWeight;
 
+  const handleSetGoal = async () => {
+    const target = Number(targetWeight);
+    if (!Number.isFinite(target) || target < 30 || target > 200) return;
+
+    const difference = target - latestWeight;
+    const goal = await WeightTrackingService.setWeightGoal({
+      targetWeight: target,
+      currentWeight: latestWeight,
+      goalType: Math.abs(difference) < 0.5 ? 'maintain' : difference < 0 ? 'lose' : 'gain',
+    });
+    if (goal) setWeightGoal(goal);
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -197,6 +215,40 @@ export default function WeightTrackingModal({
                 </div>
               </div>
 
+              {/* Weight Goal */}
+              <div className="mb-6">
+                <h3 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
+                  <IconTarget className="w-5 h-5 text-gray-600" />
+                  Weight Goal
+                </h3>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    value={targetWeight}
+                    onChange={(e) => setTargetWeight(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Target weight in kg"
+                    min="30"
+                    max="200"
+                    step="0.1"
+                  />
+                  <button
+                    onClick={handleSetGoal}
+                    disabled={!targetWeight}
+                    className="px-4 py-2 bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 transition-colors disabled:opacity-50"
+                  >
+                    {weightGoal ? 'Update Goal' : 'Set Goal'}
+                  </button>
+                </div>
+                {weightGoal && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    {weightGoal.goalType === 'maintain'
+                      ? `Maintaining around ${weightGoal.targetWeight} kg`
+                      : `${Math.abs(latestWeight - weightGoal.targetWeight).toFixed(1)} kg to ${weightGoal.goalType} to reach ${weightGoal.targetWeight} kg`}
+                  </p>
+                )}
+              </div>
+
               {/* Weight Trend Chart */}
               {weightEntries.length > 1 && (
                 <div className="mb-6">
@@ -226,7 +278,7 @@ export default function WeightTrackingModal({
                           )}
                         </div>
                         <span className="text-sm text-gray-500">
-                          {new Date(entry.date).toLocaleDateString()}
+                          {parseDateKey(entry.date).toLocaleDateString()}
                         </span>
                       </div>
                     ))}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { IconCheck, IconFlame } from '@tabler/icons-react';
+import { format } from 'date-fns';
+import type { UserProfile } from '../../lib/supabaseAuth';
+import { parseDateKey } from '../../lib/dates';
+import type { GoalTargets } from '../../lib/goals';
+import {
+  estimateTdee,
+  proposeDailyTargets,
+  type TdeeEstimate,
+} from '../../lib/adaptiveTdee';
+
+interface AdaptiveTdeeCardProps {
+  user: UserProfile;
+  currentGoal: GoalTargets;
+  onAccept: (targets: GoalTargets) => void;
+}
+
+// Proposals this close to the current goal aren't worth a change
+const MIN_KCAL_CHANGE = 50;
+const MIN_PROTEIN_CHANGE = 10;
+
+export default function AdaptiveTdeeCard({
+  user,
+  currentGoal,
+  onAccept,
+}: AdaptiveTdeeCardProps) {
+  const [estimate, setEstimate] = useState<TdeeEstimate | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    estimateTdee(user)
+      .then((result) => !cancelled && setEstimate(result))
+      .catch((error) => console.error('Error estimating TDEE:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!estimate) return null;
+
+  const proposal = proposeDailyTargets(estimate, user.goal, currentGoal);
+  const showProposal =
+    estimate.confident &&
+    (Math.abs(proposal.kcal - currentGoal.kcal) >= MIN_KCAL_CHANGE ||
+      Math.abs(proposal.protein - currentGoal.protein) >= MIN_PROTEIN_CHANGE);
+  const usedWeeks = estimate.weeks.filter((week) => week.tdee !== null);
+
+  return (
+    <div className="p-4 bg-orange-50 border border-orange-100 rounded-xl space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-gradient-to-br from-orange-500 to-red-500 rounded-lg flex items-center justify-center">
+          <IconFlame className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900">Adaptive TDEE</h4>
+          <p className="text-sm text-gray-600">
+            From your logged intake and trend weight
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-3 bg-white rounded-lg text-center">
+          <div className="text-2xl font-bold text-orange-600">
+            {estimate.tdee}
+          </div>
+          <div className="text-xs text-gray-600">Estimated kcal/day</div>
+        </div>
+        <div className="p-3 bg-white rounded-lg text-center">
+          <div className="text-2xl font-bold text-gray-700">
+            {estimate.formulaTdee}
+          </div>
+          <div className="text-xs text-gray-600">Formula kcal/day</div>
+        </div>
+      </div>
+
+      {usedWeeks.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Week</th>
+              <th className="text-right font-medium py-1">Intake</th>
+              <th className="text-right font-medium py-1">Trend</th>
+              <th className="text-right font-medium py-1">TDEE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usedWeeks.map((week) => (
+              <tr key={week.start} className="border-t border-orange-100">
+                <td className="py-1 text-gray-700">
+                  {format(parseDateKey(week.start), 'MMM d')} –{' '}
+                  {format(parseDateKey(week.end), 'MMM d')}
+                </td>
+                <td className="py-1 text-right text-gray-700">{week.intake}</td>
+                <td className="py-1 text-right text-gray-700">
+                  {week.trendChange! > 0 ? '+' : ''}
+                  {week.trendChange} kg
+                </td>
+                <td className="py-1 text-right font-medium text-gray-900">
+                  {week.tdee}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!estimate.confident ? (
+        <p className="text-sm text-gray-600">
+          Log food on at least 4 days a week and weigh in regularly for two
+          weeks to get an estimate based on your own data.
+        </p>
+      ) : showProposal ? (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-3 border-t border-orange-100">
+          <div className="text-sm text-gray-700">
+            <span className="font-medium">Suggested from today:</span>{' '}
+            {proposal.kcal} kcal · {proposal.protein}g protein ·{' '}
+            {proposal.carbs}g carbs · {proposal.fat}g fat
+            {estimate.leanMass !== null && (
+              <div className="text-xs text-gray-500 mt-1">
+                Protein set from {estimate.leanMass.toFixed(1)} kg lean mass
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => onAccept(proposal)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+          >
+            <IconCheck className="w-4 h-4" />
+            Accept
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Your current goals already match your estimated expenditure.
+        </p>
+      )}
+    </div>
+  );
+}
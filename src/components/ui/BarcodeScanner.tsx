@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  IconBarcode,
+  IconCamera,
+  IconRefresh,
+  IconX,
+} from '@tabler/icons-react';
+import { expandUpcE } from '../../lib/barcode';
+
+// Minimal typing for the Shape Detection API (Chrome, Edge, Android WebView)
+interface DetectedBarcode {
+  rawValue: string;
+  format?: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: {
+  formats?: string[];
+}) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 250;
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+  isLooking?: boolean;
+  message?: string | null;
+}
+
+export default function BarcodeScanner({
+  onDetected,
+  onClose,
+  isLooking = false,
+  message,
+}: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isCameraActive, setIsCameraActive] = useState(false);
+  // Detection pauses after each hit until the user asks to scan again
+  const [isPaused, setIsPaused] = useState(false);
+  const pausedRef = useRef(false);
+  const canScan = !!getBarcodeDetector() && !!navigator.mediaDevices;
+  // Keep the camera running when the parent passes a new callback
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !navigator.mediaDevices) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+        });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setIsCameraActive(true);
+
+        const detector = new Detector({
+          formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e'],
+        });
+        let detecting = false;
+        timer = setInterval(async () => {
+          if (detecting || pausedRef.current || !videoRef.current) return;
+          detecting = true;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && !cancelled) {
+              const { rawValue, format } = codes[0];
+              pausedRef.current = true;
+              setIsPaused(true);
+              // An 8-digit UPC-E can also pass as EAN-8, so expand it here
+              // while the detected format is still known
+              onDetectedRef.current(
+                format === 'upc_e' ? expandUpcE(rawValue) ?? rawValue : rawValue
+              );
+            }
+          } catch (error) {
+            console.error('Barcode detection failed:', error);
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Camera access failed:', error);
+        setCameraError('Camera unavailable. Enter the code below instead.');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const scanAgain = () => {
+    pausedRef.current = false;
+    setIsPaused(false);
+  };
+
+  const submitManual = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) onDetected(manualCode.trim());
+  };
+
+  return (
+    <div className="p-4 sm:p-6 border-b bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <IconBarcode size={20} className="mr-2" />
+          Scan Barcode
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <IconX size={18} />
+        </button>
+      </div>
+
+      {canScan && !cameraError && (
+        <div className="relative mb-3 rounded-xl overflow-hidden bg-black aspect-video">
+          <video
+            ref={videoRef}
+            className="w-full h-full object-cover"
+            muted
+            playsInline
+          />
+          {isCameraActive && (
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+          )}
+          {!isCameraActive && (
+            <div className="absolute inset-0 flex items-center justify-center text-white text-sm">
+              <IconCamera size={20} className="mr-2" />
+              Starting camera...
+            </div>
+          )}
+        </div>
+      )}
+
+      {(!canScan || cameraError) && (
+        <div className="mb-3 text-sm text-gray-600">
+          {cameraError ||
+            'Camera scanning is not supported in this browser. Enter the code printed under the barcode.'}
+        </div>
+      )}
+
+      <form onSubmit={submitManual} className="flex space-x-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="EAN / UPC code"
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={isLooking || !manualCode.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isLooking ? 'Looking up...' : 'Look up'}
+        </button>
+      </form>
+
+      {message && <div className="mt-3 text-sm text-gray-700">{message}</div>}
+
+      {isCameraActive && isPaused && !isLooking && (
+        <button
+          onClick={scanAgain}
+          className="mt-3 flex items-center px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          <IconRefresh size={18} className="mr-2" />
+          Scan again
+        </button>
+      )}
+    </div>
+  );
+}
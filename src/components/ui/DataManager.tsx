@@ -12,21 +12,62 @@ import {
   IconInfoCircle,
 } from '@tabler/icons-react';
 import { db } from '../../lib/db';
+import { todayKey } from '../../lib/dates';
+import {
+  clearAllData as clearStoredData,
+  createBackup,
+  parseBackup,
+  previewImport,
+  applyImport,
+  type BackupFile,
+  type BackupTable,
+  type ImportMode,
+  type ImportPlan,
+} from '../../lib/backup';
+import {
+  parseTrackerCsv,
+  importTrackerRows,
+  TRACKER_LABELS,
+  type TrackerFormat,
+  type TrackerRow,
+  type CsvIssue,
+} from '../../lib/csvImport';
+
+const TABLE_LABELS: Record<BackupTable, string> = {
+  foods: 'Foods',
+  diary: 'Diary entries',
+  goals: 'Goals',
+  recipes: 'Recipes',
+  mealPlans: 'Meal plans',
+  weightEntries: 'Weigh-ins',
+  weightGoals: 'Weight goals',
+  bodyMeasurements: 'Measurements',
+  foodPrices: 'Prices',
+  pantry: 'Pantry',
+};
+
+interface PendingImport {
+  fileName: string;
+  backup: BackupFile;
+  migratedFrom: number | null;
+  mode: ImportMode;
+  plan: ImportPlan | null;
+}
 
-interface ExportData {
-  version: string;
-  timestamp: string;
-  foods: any[];
-  diary: any[];
-  goals: any[];
-  recipes: any[];
-  mealPlans: any[];
-  settings: any;
+interface PendingCsvImport {
+  fileName: string;
+  format: TrackerFormat;
+  rows: TrackerRow[];
+  issues: CsvIssue[];
 }
 
+// Unmatched lines shown in the preview; the rest are summarised
+const MAX_SHOWN_ISSUES = 10;
+
 interface ImportResult {
   success: boolean;
   message: string;
+  errors?: string[];
   details?: {
     foods: number;
     diary: number;
@@ -42,48 +83,55 @@ export default function DataManager() {
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [showConfirmClear, setShowConfirmClear] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [pendingCsv, setPendingCsv] = useState<PendingCsvImport | null>(null);
 
-  const exportData = useCallback(async () => {
-    setIsExporting(true);
+  const getDatabaseStats = useCallback(async () => {
     try {
-      // Collect all data from the database
       const [foods, diary, goals, recipes, mealPlans] = await Promise.all([
-        db.foods.toArray(),
-        db.diary.toArray(),
-        db.goals.toArray(),
-        db.recipes.toArray(),
-        db.mealPlans.toArray(),
+        db.foods.count(),
+        db.diary.count(),
+        db.goals.count(),
+        db.recipes.count(),
+        db.mealPlans.count(),
       ]);
 
-      // Get settings from localStorage
-      const settings = {
-        goals: localStorage.getItem('wellnessdash_goals'),
-        weightData: localStorage.getItem('wellnessdash_weight_data'),
-        theme: localStorage.getItem('wellnessdash_theme'),
-        preferences: localStorage.getItem('wellnessdash_preferences'),
-      };
-
-      const exportData: ExportData = {
-        version: '1.0.0',
-        timestamp: new Date().toISOString(),
-        foods,
-        diary,
-        goals,
-        recipes,
-        mealPlans,
-        settings,
-      };
+      return { foods, diary, goals, recipes, mealPlans };
+    } catch (error) {
+      console.error('Failed to get database stats:', error);
+      return { foods: 0, diary: 0, goals: 0, recipes: 0, mealPlans: 0 };
+    }
+  }, []);
+
+  const [stats, setStats] = useState({
+    foods: 0,
+    diary: 0,
+    goals: 0,
+    recipes: 0,
+    mealPlans: 0,
+  });
+
+  React.useEffect(() => {
+    getDatabaseStats().then(setStats);
+  }, [getDatabaseStats]);
+
+  const exportData = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      // Collect all data from the database and settings from localStorage
+      const backup = await createBackup();
+      const { foods, diary, goals, recipes, mealPlans } = backup;
 
       // Create and download the file
-      const dataStr = JSON.stringify(exportData, null, 2);
+      const dataStr = JSON.stringify(backup, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
 
       const link = document.createElement('a');
       link.href = url;
-      link.download = `wellnessdash-backup-${
-        new Date().toISOString().split('T')[0]
-      }.json`;
+      link.download = `wellnessdash-backup-${todayKey()}.json`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -115,55 +163,80 @@ export default function DataManager() {
     }
   }, []);
 
+  // Validate the file and show a dry-run preview; nothing is written yet
   const importData = useCallback(async (file: File) => {
     setIsImporting(true);
     setImportResult(null);
+    setPendingImport(null);
 
     try {
-      const text = await file.text();
-      const importData: ExportData = JSON.parse(text);
-
-      // Validate the import data
-      if (!importData.version || !importData.foods || !importData.diary) {
-        throw new Error('Invalid backup file format');
+      const parsed = parseBackup(await file.text());
+      if (!parsed.ok) {
+        setImportResult({
+          success: false,
+          message: 'This backup file is not valid. Nothing was imported.',
+          errors: parsed.errors,
+        });
+        return;
       }
 
-      // Clear existing data
-      await Promise.all([
-        db.foods.clear(),
-        db.diary.clear(),
-        db.goals.clear(),
-        db.recipes.clear(),
-        db.mealPlans.clear(),
-      ]);
-
-      // Import new data
-      await Promise.all([
-        db.foods.bulkAdd(importData.foods),
-        db.diary.bulkAdd(importData.diary),
-        db.goals.bulkAdd(importData.goals || []),
-        db.recipes.bulkAdd(importData.recipes || []),
-        db.mealPlans.bulkAdd(importData.mealPlans || []),
-      ]);
+      const mode: ImportMode = 'merge';
+      const plan = await previewImport(parsed.backup, mode);
+      setPendingImport({
+        fileName: file.name,
+        backup: parsed.backup,
+        migratedFrom: parsed.migratedFrom,
+        mode,
+        plan,
+      });
+    } catch (error) {
+      console.error('Import preview failed:', error);
+      setImportResult({
+        success: false,
+        message: `Import failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
 
-      // Restore settings
-      if (importData.settings) {
-        Object.entries(importData.settings).forEach(([key, value]) => {
-          if (value) {
-            localStorage.setItem(`wellnessdash_${key}`, value as string);
-          }
-        });
+  const changeImportMode = useCallback(
+    async (mode: ImportMode) => {
+      if (!pendingImport) return;
+      setPendingImport({ ...pendingImport, mode, plan: null });
+      try {
+        const plan = await previewImport(pendingImport.backup, mode);
+        setPendingImport({ ...pendingImport, mode, plan });
+      } catch (error) {
+        console.error('Import preview failed:', error);
       }
+    },
+    [pendingImport]
+  );
+
+  const confirmImport = useCallback(async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
 
+    try {
+      // Runs in a single transaction: on failure nothing is changed
+      const plan = await applyImport(pendingImport.backup, pendingImport.mode);
+      setPendingImport(null);
+      setStats(await getDatabaseStats());
       setImportResult({
         success: true,
-        message: 'Data imported successfully!',
+        message:
+          plan.warnings.length > 0
+            ? `Data imported with warnings: ${plan.warnings.join('; ')}`
+            : 'Data imported successfully!',
         details: {
-          foods: importData.foods.length,
-          diary: importData.diary.length,
-          goals: (importData.goals || []).length,
-          recipes: (importData.recipes || []).length,
-          mealPlans: (importData.mealPlans || []).length,
+          foods: plan.tables.foods.added,
+          diary: plan.tables.diary.added,
+          goals: plan.tables.goals.added,
+          recipes: plan.tables.recipes.added,
+          mealPlans: plan.tables.mealPlans.added,
         },
       });
 
@@ -173,26 +246,79 @@ export default function DataManager() {
       console.error('Import failed:', error);
       setImportResult({
         success: false,
-        message: `Import failed: ${
+        message: `Import failed and was rolled back: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`,
       });
     } finally {
       setIsImporting(false);
     }
-  }, []);
+  }, [pendingImport, getDatabaseStats]);
+
+  const readCsvFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      setImportResult(null);
+      const parsed = parseTrackerCsv(await file.text());
+      if (!parsed.ok) {
+        setPendingCsv(null);
+        setImportResult({ success: false, message: parsed.error });
+        return;
+      }
+      setPendingCsv({
+        fileName: file.name,
+        format: parsed.format,
+        rows: parsed.rows,
+        issues: parsed.issues,
+      });
+    },
+    []
+  );
+
+  const confirmCsvImport = useCallback(async () => {
+    if (!pendingCsv) return;
+    setIsImporting(true);
+
+    try {
+      const summary = await importTrackerRows(
+        pendingCsv.rows,
+        pendingCsv.format
+      );
+      setPendingCsv(null);
+      setStats(await getDatabaseStats());
+      setImportResult({
+        success: true,
+        message: `Imported ${summary.added} diary entries from ${
+          TRACKER_LABELS[pendingCsv.format]
+        } (${summary.skipped} already present, ${
+          summary.foodsMatched
+        } foods matched, ${summary.foodsCreated} created${
+          pendingCsv.issues.length > 0
+            ? `, ${pendingCsv.issues.length} lines not imported`
+            : ''
+        }).`,
+      });
+    } catch (error) {
+      console.error('CSV import failed:', error);
+      setImportResult({
+        success: false,
+        message: `Import failed and was rolled back: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }, [pendingCsv, getDatabaseStats]);
 
   const clearAllData = useCallback(async () => {
     setIsClearing(true);
     try {
-      // Clear database
-      await Promise.all([
-        db.foods.clear(),
-        db.diary.clear(),
-        db.goals.clear(),
-        db.recipes.clear(),
-        db.mealPlans.clear(),
-      ]);
+      // Clear database, here and on synced devices
+      await clearStoredData();
 
       // Clear localStorage
       const keys = Object.keys(localStorage).filter((key) =>
@@ -226,39 +352,12 @@ export default function DataManager() {
       if (file) {
         importData(file);
       }
+      // Allow choosing the same file again after a cancelled import
+      event.target.value = '';
     },
     [importData]
   );
 
-  const getDatabaseStats = useCallback(async () => {
-    try {
-      const [foods, diary, goals, recipes, mealPlans] = await Promise.all([
-        db.foods.count(),
-        db.diary.count(),
-        db.goals.count(),
-        db.recipes.count(),
-        db.mealPlans.count(),
-      ]);
-
-      return { foods, diary, goals, recipes, mealPlans };
-    } catch (error) {
-      console.error('Failed to get database stats:', error);
-      return { foods: 0, diary: 0, goals: 0, recipes: 0, mealPlans: 0 };
-    }
-  }, []);
-
-  const [stats, setStats] = useState({
-    foods: 0,
-    diary: 0,
-    goals: 0,
-    recipes: 0,
-    mealPlans: 0,
-  });
-
-  React.useEffect(() => {
-    getDatabaseStats().then(setStats);
-  }, [getDatabaseStats]);
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -351,8 +450,8 @@ export default function DataManager() {
           <h3 className="text-lg font-semibold text-gray-900">Import Data</h3>
         </div>
         <p className="text-gray-600 mb-4">
-          Restore your data from a backup file. This will replace all existing
-          data.
+          Restore your data from a backup file. You'll see a preview of what
+          will change before anything is written.
         </p>
         <div className="flex items-center gap-4">
           <input
@@ -374,10 +473,229 @@ export default function DataManager() {
           {isImporting && (
             <div className="flex items-center gap-2 text-blue-600">
               <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-              Importing...
+              {pendingImport ? 'Importing...' : 'Checking file...'}
             </div>
           )}
         </div>
+
+        {pendingImport && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6 border border-blue-200 bg-blue-50 rounded-xl p-4"
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-gray-900">
+                Preview: {pendingImport.fileName}
+              </h4>
+              <span className="text-xs text-gray-500">
+                Backup from{' '}
+                {new Date(pendingImport.backup.exportedAt).toLocaleDateString()}
+                {pendingImport.migratedFrom !== null &&
+                  ` • upgraded from format v${pendingImport.migratedFrom}`}
+              </span>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              {(['merge', 'replace'] as ImportMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => changeImportMode(mode)}
+                  disabled={isImporting}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    pendingImport.mode === mode
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {mode === 'merge'
+                    ? 'Merge with my data'
+                    : 'Replace all my data'}
+                </button>
+              ))}
+            </div>
+
+            {pendingImport.plan ? (
+              <>
+                <table className="w-full text-sm mb-3">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 font-medium"></th>
+                      <th className="py-1 font-medium text-right">Add</th>
+                      <th className="py-1 font-medium text-right">
+                        Already present
+                      </th>
+                      {pendingImport.mode === 'replace' && (
+                        <th className="py-1 font-medium text-right">Remove</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(
+                      Object.keys(TABLE_LABELS) as (keyof typeof TABLE_LABELS)[]
+                    ).map((table) => {
+                      const changes = pendingImport.plan!.tables[table];
+                      return (
+                        <tr key={table} className="border-t border-blue-100">
+                          <td className="py-1 text-gray-700">
+                            {TABLE_LABELS[table]}
+                          </td>
+                          <td className="py-1 text-right text-green-700">
+                            {changes.added}
+                          </td>
+                          <td className="py-1 text-right text-gray-500">
+                            {changes.skipped}
+                          </td>
+                          {pendingImport.mode === 'replace' && (
+                            <td className="py-1 text-right text-red-600">
+                              {changes.removed}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {pendingImport.plan.settings.length > 0 && (
+                  <p className="text-xs text-gray-600 mb-2">
+                    Settings restored: {pendingImport.plan.settings.join(', ')}
+                  </p>
+                )}
+                {pendingImport.plan.warnings.map((warning) => (
+                  <p
+                    key={warning}
+                    className="flex items-center gap-1 text-xs text-yellow-700 mb-1"
+                  >
+                    <IconAlertTriangle className="w-3 h-3" />
+                    {warning}
+                  </p>
+                ))}
+              </>
+            ) : (
+              <div className="text-sm text-gray-600 mb-3">
+                Calculating changes...
+              </div>
+            )}
+
+            <div className="flex gap-3 mt-4">
+              <button
+                onClick={() => setPendingImport(null)}
+                disabled={isImporting}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmImport}
+                disabled={isImporting || !pendingImport.plan}
+                className={`flex-1 px-4 py-2 text-white rounded-xl font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                  pendingImport.mode === 'replace'
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {pendingImport.mode === 'replace'
+                  ? 'Replace and import'
+                  : 'Merge and import'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </div>
+
+      {/* CSV Import Section */}
+      <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+        <div className="flex items-center gap-3 mb-4">
+          <IconFileImport className="w-6 h-6 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Import From Other Apps
+          </h3>
+        </div>
+        <p className="text-gray-600 mb-4">
+          Bring your history over from a MyFitnessPal nutrition export or a
+          Cronometer food &amp; recipe entries export (CSV). Entries are added
+          to your diary with the calories and macros you logged there.
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={readCsvFile}
+          className="hidden"
+          id="import-csv-file"
+        />
+        <label
+          htmlFor="import-csv-file"
+          className="inline-block bg-gradient-to-r from-purple-500 to-pink-500 text-white px-6 py-3 rounded-xl font-semibold hover:from-purple-600 hover:to-pink-600 transition-all shadow-lg hover:shadow-xl cursor-pointer"
+        >
+          <div className="flex items-center gap-2">
+            <IconUpload className="w-4 h-4" />
+            Choose CSV File
+          </div>
+        </label>
+
+        {pendingCsv && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6 border border-purple-200 bg-purple-50 rounded-xl p-4"
+          >
+            <h4 className="font-semibold text-gray-900 mb-1">
+              {TRACKER_LABELS[pendingCsv.format]} export: {pendingCsv.fileName}
+            </h4>
+            <p className="text-sm text-gray-700 mb-3">
+              {pendingCsv.rows.length} entries ready
+              {pendingCsv.rows.length > 0 &&
+                ` from ${pendingCsv.rows.reduce(
+                  (min, row) => (row.date < min ? row.date : min),
+                  pendingCsv.rows[0].date
+                )} to ${pendingCsv.rows.reduce(
+                  (max, row) => (row.date > max ? row.date : max),
+                  pendingCsv.rows[0].date
+                )}`}
+              . Entries already in your diary are skipped.
+            </p>
+
+            {pendingCsv.issues.length > 0 && (
+              <div className="mb-3">
+                <p className="flex items-center gap-1 text-sm font-medium text-yellow-800 mb-1">
+                  <IconAlertTriangle className="w-4 h-4" />
+                  {pendingCsv.issues.length} lines can't be imported
+                </p>
+                <ul className="text-xs text-yellow-800 space-y-0.5">
+                  {pendingCsv.issues.slice(0, MAX_SHOWN_ISSUES).map((issue) => (
+                    <li key={issue.line}>
+                      Line {issue.line}: {issue.reason}
+                    </li>
+                  ))}
+                  {pendingCsv.issues.length > MAX_SHOWN_ISSUES && (
+                    <li>
+                      ...and {pendingCsv.issues.length - MAX_SHOWN_ISSUES} more
+                    </li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setPendingCsv(null)}
+                disabled={isImporting}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmCsvImport}
+                disabled={isImporting || pendingCsv.rows.length === 0}
+                className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isImporting
+                  ? 'Importing...'
+                  : `Import ${pendingCsv.rows.length} entries`}
+              </button>
+            </div>
+          </motion.div>
+        )}
       </div>
 
       {/* Clear Data Section */}
@@ -435,6 +753,13 @@ export default function DataManager() {
               >
                 {importResult.message}
               </p>
+              {importResult.errors && (
+                <ul className="mt-2 text-xs text-red-700 list-disc list-inside space-y-0.5">
+                  {importResult.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
               {importResult.details && (
                 <div className="mt-2 text-xs text-green-600">
                   Imported: {importResult.details.foods} foods,{' '}
@@ -465,7 +790,8 @@ export default function DataManager() {
             </div>
             <p className="text-gray-600 mb-6">
               Are you sure you want to permanently delete all your wellness
-              data? This action cannot be undone.
+              data? With cloud sync on, it is deleted from your other devices
+              too. This action cannot be undone.
             </p>
             <div className="flex gap-3">
               <button
@@ -497,7 +823,10 @@ export default function DataManager() {
         <div className="space-y-2 text-sm text-blue-800">
           <p>• Export your data regularly to prevent data loss</p>
           <p>• Backup files contain all your personal wellness information</p>
-          <p>• Importing will replace all existing data - use with caution</p>
+          <p>
+            • Merge adds only what's missing; Replace swaps out everything, on
+            every synced device too - check the preview first
+          </p>
           <p>• Data is stored locally on your device for privacy</p>
         </div>
       </div>
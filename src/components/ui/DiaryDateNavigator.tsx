@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { IconChevronLeft, IconChevronRight } from '@tabler/icons-react';
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  startOfWeek,
+} from 'date-fns';
+import {
+  addDaysToKey,
+  dateKeyOf,
+  parseDateKey,
+  todayKey,
+} from '../../lib/dates';
+import { loadDailyTotals } from '../../lib/diary';
+import { goalForDate, loadGoalHistory } from '../../lib/goals';
+
+interface DiaryDateNavigatorProps {
+  selectedDate: string; // yyyy-MM-dd
+  onDateChange: (date: string) => void;
+  // Bumped by the parent whenever the diary changes, to refresh the week totals
+  refreshKey?: number;
+}
+
+// Horizontal drag distance that counts as a swipe to the next/previous week
+const SWIPE_THRESHOLD = 60;
+
+const adherenceColor = (kcal: number | undefined, goal: number | undefined) => {
+  if (!kcal || !goal) return 'bg-gray-200';
+  const percentage = (kcal / goal) * 100;
+  if (percentage >= 90 && percentage <= 110) return 'bg-green-500';
+  if (percentage > 110) return 'bg-red-500';
+  return 'bg-marigold-500';
+};
+
+export default function DiaryDateNavigator({
+  selectedDate,
+  onDateChange,
+  refreshKey = 0,
+}: DiaryDateNavigatorProps) {
+  const date = parseDateKey(selectedDate);
+  const today = todayKey();
+  const weekDays = eachDayOfInterval({
+    start: startOfWeek(date, { weekStartsOn: 1 }),
+    end: endOfWeek(date, { weekStartsOn: 1 }),
+  });
+  const weekKey = dateKeyOf(weekDays[0]);
+  // Calories logged and the calorie goal in effect, per day of the week
+  const [weekTotals, setWeekTotals] = useState<
+    Record<string, { kcal: number; goal: number }>
+  >({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const dates = Array.from({ length: 7 }, (_, i) => addDaysToKey(weekKey, i));
+
+    Promise.all([loadDailyTotals(dates), loadGoalHistory()])
+      .then(([totals, history]) => {
+        if (cancelled) return;
+        const week: Record<string, { kcal: number; goal: number }> = {};
+        for (const [day, nutrients] of Object.entries(totals)) {
+          week[day] = {
+            kcal: Math.round(nutrients.kcal),
+            goal: goalForDate(history, day).kcal,
+          };
+        }
+        setWeekTotals(week);
+      })
+      .catch((error) => console.error('Error loading week totals:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weekKey, refreshKey]);
+
+  // The diary can't be logged ahead of today
+  const goTo = (next: Date) => {
+    const nextDate = dateKeyOf(next);
+    onDateChange(nextDate > today ? today : nextDate);
+  };
+
+  const label =
+    selectedDate === today
+      ? 'Today'
+      : selectedDate === addDaysToKey(today, -1)
+      ? 'Yesterday'
+      : format(date, 'EEEE');
+
+  return (
+    <div className="bg-white rounded-2xl p-3 sm:p-4 shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <button
+          onClick={() => goTo(addDays(date, -1))}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Previous day"
+        >
+          <IconChevronLeft className="w-5 h-5 text-gray-600" />
+        </button>
+
+        <div className="flex flex-col items-center">
+          <span className="text-lg font-bold text-gray-900">{label}</span>
+          <input
+            type="date"
+            value={selectedDate}
+            max={today}
+            onChange={(e) =>
+              e.target.value && goTo(parseDateKey(e.target.value))
+            }
+            className="text-sm text-gray-600 bg-transparent border-none text-center focus:ring-0"
+            aria-label="Diary date"
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          {selectedDate !== today && (
+            <button
+              onClick={() => onDateChange(today)}
+              className="px-3 py-1 text-sm font-medium text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+            >
+              Today
+            </button>
+          )}
+          <button
+            onClick={() => goTo(addDays(date, 1))}
+            disabled={selectedDate >= today}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-30"
+            aria-label="Next day"
+          >
+            <IconChevronRight className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      {/* Week strip: swipe to change week */}
+      <motion.div
+        drag="x"
+        dragConstraints={{ left: 0, right: 0 }}
+        dragElastic={0.2}
+        onDragEnd={(_, info) => {
+          if (info.offset.x > SWIPE_THRESHOLD) goTo(addDays(date, -7));
+          else if (info.offset.x < -SWIPE_THRESHOLD) goTo(addDays(date, 7));
+        }}
+        className="grid grid-cols-7 gap-1 sm:gap-2 touch-pan-y"
+      >
+        {weekDays.map((day) => {
+          const key = dateKeyOf(day);
+          const kcal = weekTotals[key]?.kcal;
+          const isSelected = key === selectedDate;
+          const isFuture = key > today;
+          return (
+            <button
+              key={key}
+              onClick={() => onDateChange(key)}
+              disabled={isFuture}
+              className={`flex flex-col items-center gap-1 py-2 rounded-xl transition-colors disabled:opacity-40 ${
+                isSelected
+                  ? 'bg-orange-50 ring-2 ring-orange-400'
+                  : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="text-xs text-gray-500">
+                {format(day, 'EEE')}
+              </span>
+              <span className="text-sm font-semibold text-gray-900">
+                {format(day, 'd')}
+              </span>
+              <span
+                className={`w-2 h-2 rounded-full ${adherenceColor(
+                  kcal,
+                  weekTotals[key]?.goal
+                )}`}
+              />
+              <span className="text-[10px] text-gray-500">
+                {kcal ? `${kcal}` : '–'}
+              </span>
+            </button>
+          );
+        })}
+      </motion.div>
+    </div>
+  );
+}
@@ -6,21 +6,22 @@ import {
   IconDroplet,
   IconTarget,
   IconTrendingUp,
+  IconLeaf,
 } from '@tabler/icons-react';
+import { format } from 'date-fns';
+import { addDaysToKey, parseDateKey, todayKey } from '../../lib/dates';
+import type { Nutrients } from '../../lib/db';
+import { MICRONUTRIENTS, percentOfRda } from '../../lib/nutrients';
 
 interface EnhancedDailySummaryProps {
-  dailyTotals: {
-    kcal: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
+  dailyTotals: Nutrients;
   goals: {
     kcal: number;
     protein: number;
     carbs: number;
     fat: number;
   };
+  date?: string; // yyyy-MM-dd the totals are for, defaults to today
 }
 
 const nutritionConfig = {
@@ -65,7 +66,16 @@ const nutritionConfig = {
 export default function EnhancedDailySummary({
   dailyTotals,
   goals,
+  date,
 }: EnhancedDailySummaryProps) {
+  const today = todayKey();
+  const dayLabel =
+    !date || date === today
+      ? "Today's"
+      : date === addDaysToKey(today, -1)
+      ? "Yesterday's"
+      : format(parseDateKey(date), 'EEE, MMM d');
+
   const getProgressPercentage = (current: number, target: number) => {
     return Math.min((current / target) * 100, 100);
   };
@@ -106,7 +116,7 @@ export default function EnhancedDailySummary({
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {Object.entries(nutritionConfig).map(([key, config]) => {
           const Icon = config.icon;
-          const current = dailyTotals[key as keyof typeof dailyTotals];
+          const current = dailyTotals[key as keyof typeof goals];
           const target = goals[key as keyof typeof goals];
           const percentage = getProgressPercentage(current, target);
           const progressColor = getProgressColor(percentage);
@@ -178,12 +188,74 @@ export default function EnhancedDailySummary({
         })}
       </div>
 
+      {/* Micronutrients vs. daily reference intake */}
+      <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-xl p-6 border border-emerald-200 mb-8">
+        <div className="flex items-center gap-3 mb-4">
+          <IconLeaf className="w-6 h-6 text-emerald-600" />
+          <h3 className="text-lg font-semibold text-gray-800">
+            Micronutrients
+          </h3>
+          <span className="text-xs text-gray-500">vs. daily reference</span>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {MICRONUTRIENTS.map((info) => {
+            const amount = dailyTotals[info.key];
+            const percentage = percentOfRda(info, amount);
+            const overLimit =
+              info.kind === 'limit' && percentage !== null && percentage > 100;
+
+            return (
+              <div
+                key={info.key}
+                className="bg-white rounded-lg p-3 border border-emerald-100"
+              >
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-sm font-medium text-gray-700">
+                    {info.label}
+                  </span>
+                  <span
+                    className={`text-xs font-semibold ${
+                      overLimit ? 'text-red-600' : 'text-emerald-700'
+                    }`}
+                  >
+                    {percentage === null ? '—' : `${percentage.toFixed(0)}%`}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-900">
+                  {amount === undefined
+                    ? 'No data'
+                    : Math.round(amount * 10) / 10}
+                  {amount !== undefined && info.unit}
+                  <span className="text-gray-500">
+                    {' '}
+                    / {info.kind === 'limit' ? '<' : ''}
+                    {info.rda}
+                    {info.unit}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2 overflow-hidden">
+                  <div
+                    className={`h-1.5 rounded-full ${
+                      overLimit ? 'bg-red-500' : 'bg-emerald-500'
+                    }`}
+                    style={{
+                      width: getProgressWidth(percentage ?? 0),
+                    }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Quick Stats */}
       <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-6 border border-gray-200">
         <div className="flex items-center gap-3 mb-4">
           <IconTrendingUp className="w-6 h-6 text-gray-600" />
           <h3 className="text-lg font-semibold text-gray-800">
-            Today's Progress
+            {dayLabel} Progress
           </h3>
         </div>
 
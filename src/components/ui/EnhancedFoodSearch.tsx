@@ -1,8 +1,31 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { IconSearch, IconPlus, IconCheck } from '@tabler/icons-react';
-import Fuse from 'fuse.js';
+import {
+  IconSearch,
+  IconPlus,
+  IconCheck,
+  IconBarcode,
+} from '@tabler/icons-react';
 import { db, type Food } from '../../lib/db';
+import {
+  foodSearchService,
+  type FoodSearchResult,
+  type FoodSearchResponse,
+} from '../../lib/foodSearchService';
+import {
+  lookupFoodByBarcode,
+  normalizeBarcode,
+  assignBarcode,
+} from '../../lib/barcode';
+import { emptyNutrients, scaleNutrients } from '../../lib/nutrients';
+import BarcodeScanner from './BarcodeScanner';
+
+const SOURCE_LABELS: Record<FoodSearchResult['source'], string> = {
+  local: 'Saved',
+  recipe: 'Recipe',
+  usda: 'USDA',
+  openfoodfacts: 'Open Food Facts',
+};
 
 interface EnhancedFoodSearchProps {
   onFoodSelect: (food: Food, servingLabel: string, grams: number) => void;
@@ -14,45 +37,27 @@ export default function EnhancedFoodSearch({
   onClose,
 }: EnhancedFoodSearchProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchResults, setSearchResults] = useState<Food[]>([]);
+  const [searchResults, setSearchResults] = useState<FoodSearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedFood, setSelectedFood] = useState<Food | null>(null);
   const [selectedServing, setSelectedServing] = useState<string>('');
   const [selectedGrams, setSelectedGrams] = useState<number>(100);
   const [showServingSelector, setShowServingSelector] = useState(false);
+  const [aliasInput, setAliasInput] = useState('');
   const [popularFoods, setPopularFoods] = useState<Food[]>([]);
   const [recentFoods, setRecentFoods] = useState<Food[]>([]);
-  const [allLocalFoods, setAllLocalFoods] = useState<Food[]>([]);
   const [searchQuality, setSearchQuality] = useState<{
-    quality: 'High' | 'Medium' | 'Low';
+    quality: FoodSearchResponse['quality'];
     totalFound: number;
     qualityKept: number;
-    threshold: number;
   } | null>(null);
-
-  // Initialize Fuse.js instance with optimized performance settings
-  const fuse = useMemo(() => {
-    return new Fuse(allLocalFoods, {
-      // Optimized threshold for speed and accuracy
-      threshold: 0.4, // Slightly stricter for better performance
-
-      // Simplified key configuration for faster searches
-      keys: [
-        { name: 'name', weight: 1.0 }, // Focus on name for speed
-        { name: 'tags', weight: 0.5 }, // Tags as secondary
-      ],
-
-      // Performance-focused options
-      includeScore: true,
-      includeMatches: false, // Disable for speed
-      minMatchCharLength: 2,
-      ignoreLocation: true, // Better performance
-      findAllMatches: false,
-      distance: 50, // Reduced for speed
-      useExtendedSearch: false,
-      shouldSort: true,
-    });
-  }, [allLocalFoods]);
+  // Ignore responses to queries the user has already typed past
+  const latestQuery = useRef('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [barcodeMessage, setBarcodeMessage] = useState<string | null>(null);
+  // Unknown barcode waiting to be linked to whichever food the user picks next
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null);
 
   useEffect(() => {
     loadInitialData();
@@ -60,10 +65,6 @@ export default function EnhancedFoodSearch({
 
   const loadInitialData = async () => {
     try {
-      // Load all local foods for Fuse.js search
-      const allFoods = await db.foods.toArray();
-      setAllLocalFoods(allFoods);
-
       // Load popular and recent foods from local database
       const popular = await db.foods
         .where('source')
@@ -79,64 +80,32 @@ export default function EnhancedFoodSearch({
     }
   };
 
-  const performSearch = useCallback(
-    async (query: string) => {
-      if (!query.trim()) {
-        setSearchResults([]);
-        setSearchQuality(null);
-        return;
-      }
+  const performSearch = useCallback(async (query: string) => {
+    latestQuery.current = query;
+    if (!query.trim()) {
+      setSearchResults([]);
+      setSearchQuality(null);
+      return;
+    }
 
-      setIsLoading(true);
-      try {
-        // Fast local search only - no external API calls for basic searches
-        const fuseResults = fuse.search(query);
-
-        // Simple, fast filtering
-        const qualityResults = fuseResults
-          .filter((result) => result.score! < 0.5) // Fixed threshold for speed
-          .slice(0, 20); // Limit results for performance
-
-        const localResults = qualityResults.map((result) => result.item);
-
-        // Quick fallback for very short queries
-        if (localResults.length === 0 && query.length >= 2) {
-          const quickResults = allLocalFoods
-            .filter((food) =>
-              food.name.toLowerCase().includes(query.toLowerCase())
-            )
-            .slice(0, 10);
-
-          setSearchResults(quickResults);
-          setSearchQuality({
-            quality: 'Low',
-            totalFound: quickResults.length,
-            qualityKept: quickResults.length,
-            threshold: 0.5,
-          });
-        } else {
-          setSearchResults(localResults);
-          setSearchQuality({
-            quality:
-              localResults.length > 10
-                ? 'High'
-                : localResults.length > 5
-                ? 'Medium'
-                : 'Low',
-            totalFound: fuseResults.length,
-            qualityKept: localResults.length,
-            threshold: 0.5,
-          });
-        }
-      } catch (error) {
-        console.error('Search error:', error);
-        setSearchResults([]);
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [fuse, allLocalFoods]
-  );
+    setIsLoading(true);
+    try {
+      const response = await foodSearchService.search(query);
+      if (latestQuery.current !== query) return;
+
+      setSearchResults(response.results);
+      setSearchQuality({
+        quality: response.quality,
+        totalFound: response.sources.reduce((sum, s) => sum + s.count, 0),
+        qualityKept: response.results.length,
+      });
+    } catch (error) {
+      console.error('Search error:', error);
+      setSearchResults([]);
+    } finally {
+      if (latestQuery.current === query) setIsLoading(false);
+    }
+  }, []);
 
   // Debounced search function for better performance
   const debouncedSearch = useCallback(
@@ -150,7 +119,62 @@ export default function EnhancedFoodSearch({
     [performSearch]
   );
 
-  const handleFoodSelect = (food: Food) => {
+  const handleBarcode = useCallback(
+    async (code: string) => {
+      setIsLookingUpBarcode(true);
+      setBarcodeMessage(null);
+      try {
+        const result = await lookupFoodByBarcode(code);
+        switch (result.status) {
+          case 'found': {
+            // Known product: skip the serving picker and go straight to logging
+            const serving = result.food.servings?.[0];
+            onFoodSelect(
+              result.food,
+              serving?.label ?? '100g',
+              serving?.grams ?? 100
+            );
+            onClose();
+            break;
+          }
+          case 'not_found':
+            setPendingBarcode(normalizeBarcode(code));
+            setShowScanner(false);
+            setBarcodeMessage(
+              `No product found for ${code}. Search for it below and pick the match - we'll remember this barcode next time.`
+            );
+            break;
+          case 'invalid':
+            setBarcodeMessage(`${code} is not a valid EAN or UPC barcode.`);
+            break;
+          case 'error':
+            setBarcodeMessage(`Could not look up ${code}: ${result.message}`);
+            break;
+        }
+      } finally {
+        setIsLookingUpBarcode(false);
+      }
+    },
+    [onFoodSelect, onClose]
+  );
+
+  const handleFoodSelect = async (picked: Food) => {
+    // Saves external results locally and counts the pick for future ranking
+    let food = picked;
+    try {
+      food = await foodSearchService.persistFood(picked);
+    } catch (error) {
+      console.error('Error saving selected food:', error);
+    }
+
+    if (pendingBarcode && food.id) {
+      assignBarcode(food.id, pendingBarcode).catch((error) =>
+        console.error('Error linking barcode:', error)
+      );
+      setPendingBarcode(null);
+      setBarcodeMessage(null);
+    }
+
     setSelectedFood(food);
     setShowServingSelector(true);
 
@@ -164,6 +188,18 @@ export default function EnhancedFoodSearch({
     }
   };
 
+  const handleAddAlias = async () => {
+    if (!selectedFood || !aliasInput.trim()) return;
+    try {
+      setSelectedFood(
+        await foodSearchService.addAlias(selectedFood, aliasInput)
+      );
+      setAliasInput('');
+    } catch (error) {
+      console.error('Error adding alias:', error);
+    }
+  };
+
   const handleServingConfirm = () => {
     if (selectedFood) {
       onFoodSelect(selectedFood, selectedServing, selectedGrams);
@@ -180,11 +216,12 @@ export default function EnhancedFoodSearch({
   const addToFavorites = async (food: Food) => {
     try {
       // Add to local database with user source
-      await db.foods.add({
+      const id = await db.foods.add({
         ...food,
         source: 'user',
         verified: true,
       });
+      await db.indexFoods([id]);
 
       // Refresh popular foods
       const updatedPopular = await db.foods
@@ -200,6 +237,10 @@ export default function EnhancedFoodSearch({
     }
   };
 
+  const selectedNutrients = selectedFood
+    ? scaleNutrients(selectedFood.per100g, selectedGrams)
+    : emptyNutrients();
+
   return (
     <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
       {/* Header */}
@@ -230,11 +271,63 @@ export default function EnhancedFoodSearch({
               setSearchTerm(e.target.value);
               debouncedSearch(e.target.value);
             }}
-            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
           />
+          <button
+            onClick={() => {
+              setShowScanner(!showScanner);
+              setBarcodeMessage(null);
+            }}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-blue-500 transition-colors"
+            title="Scan barcode"
+          >
+            <IconBarcode size={22} />
+          </button>
         </div>
+
+        {/* Typed or pasted barcode */}
+        {!showScanner && normalizeBarcode(searchTerm) && (
+          <button
+            onClick={() => handleBarcode(searchTerm)}
+            disabled={isLookingUpBarcode}
+            className="mt-3 w-full flex items-center justify-center px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            <IconBarcode size={18} className="mr-2" />
+            {isLookingUpBarcode
+              ? 'Looking up barcode...'
+              : `Look up barcode ${searchTerm.trim()}`}
+          </button>
+        )}
+
+        {!showScanner && barcodeMessage && (
+          <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {barcodeMessage}
+            {pendingBarcode && (
+              <button
+                onClick={() => {
+                  setPendingBarcode(null);
+                  setBarcodeMessage(null);
+                  setShowScanner(true);
+                }}
+                className="mt-2 flex items-center font-medium text-blue-700 hover:text-blue-800 transition-colors"
+              >
+                <IconBarcode size={16} className="mr-1" />
+                Scan another barcode
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
+      {showScanner && (
+        <BarcodeScanner
+          onDetected={handleBarcode}
+          onClose={() => setShowScanner(false)}
+          isLooking={isLookingUpBarcode}
+          message={barcodeMessage}
+        />
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
         {!searchTerm && (
@@ -338,18 +431,15 @@ export default function EnhancedFoodSearch({
               </div>
             )}
 
-            {/* Fallback Search Indicator */}
+            {/* External Source Indicator */}
             {!isLoading &&
-              searchResults.length > 0 &&
-              searchQuality &&
-              searchQuality.totalFound > 0 &&
-              searchQuality.qualityKept === 0 && (
+              searchResults.some((result) => result.source !== 'local') && (
                 <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                   <div className="flex items-center text-sm text-yellow-700">
-                    <span className="mr-2">🔄</span>
+                    <span className="mr-2">🌐</span>
                     <span>
-                      Using enhanced search to find relevant results for "
-                      {searchTerm}"
+                      Few saved foods match "{searchTerm}", so online food
+                      databases were searched too
                     </span>
                   </div>
                 </div>
@@ -358,9 +448,11 @@ export default function EnhancedFoodSearch({
             {/* Results */}
             {!isLoading && searchResults.length > 0 && (
               <div className="space-y-3">
-                {searchResults.map((food) => (
+                {searchResults.map(({ food, source }) => (
                   <motion.div
-                    key={food.id || food.name}
+                    key={`${source}:${food.id ?? food.name}:${
+                      food.brand ?? ''
+                    }`}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     className="p-4 border border-gray-200 rounded-lg hover:border-blue-300 transition-colors cursor-pointer"
@@ -371,9 +463,14 @@ export default function EnhancedFoodSearch({
                         <div className="font-medium text-gray-800">
                           {food.name}
                         </div>
-                        {food.brand && (
+                        {(food.brand || source !== 'local') && (
                           <div className="text-sm text-gray-600">
                             {food.brand}
+                            {source !== 'local' && (
+                              <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">
+                                {SOURCE_LABELS[source]}
+                              </span>
+                            )}
                           </div>
                         )}
                         <div className="text-sm text-gray-500">
@@ -394,17 +491,19 @@ export default function EnhancedFoodSearch({
                           </div>
                         )}
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            addToFavorites(food);
-                          }}
-                          className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
-                        >
-                          <IconPlus size={16} />
-                        </button>
-                      </div>
+                      {food.recipeId === undefined && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              addToFavorites(food);
+                            }}
+                            className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                          >
+                            <IconPlus size={16} />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -455,8 +554,36 @@ export default function EnhancedFoodSearch({
                 <div className="text-sm text-gray-600">
                   {selectedFood.per100g.kcal} kcal per 100g
                 </div>
+                {selectedFood.aliases && selectedFood.aliases.length > 0 && (
+                  <div className="text-sm text-gray-500 mt-1">
+                    Also known as {selectedFood.aliases.join(', ')}
+                  </div>
+                )}
               </div>
 
+              {/* Aliases: let regional or family names find this food */}
+              {selectedFood.id !== undefined && (
+                <div className="mb-4 flex space-x-2">
+                  <input
+                    type="text"
+                    value={aliasInput}
+                    onChange={(e) => setAliasInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleAddAlias();
+                    }}
+                    placeholder="Add another name, e.g. phulka"
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleAddAlias}
+                    disabled={!aliasInput.trim()}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    Add name
+                  </button>
+                </div>
+              )}
+
               {/* Predefined Servings */}
               {selectedFood.servings && selectedFood.servings.length > 0 && (
                 <div className="mb-4">
@@ -511,40 +638,25 @@ export default function EnhancedFoodSearch({
                   <div>
                     <span className="text-gray-600">Calories:</span>
                     <span className="ml-2 font-medium">
-                      {Math.round(
-                        (selectedFood.per100g.kcal * selectedGrams) / 100
-                      )}{' '}
-                      kcal
+                      {Math.round(selectedNutrients.kcal)} kcal
                     </span>
                   </div>
                   <div>
                     <span className="text-gray-600">Protein:</span>
                     <span className="ml-2 font-medium">
-                      {(
-                        (selectedFood.per100g.protein * selectedGrams) /
-                        100
-                      ).toFixed(1)}
-                      g
+                      {selectedNutrients.protein.toFixed(1)}g
                     </span>
                   </div>
                   <div>
                     <span className="text-gray-600">Carbs:</span>
                     <span className="ml-2 font-medium">
-                      {(
-                        (selectedFood.per100g.carbs * selectedGrams) /
-                        100
-                      ).toFixed(1)}
-                      g
+                      {selectedNutrients.carbs.toFixed(1)}g
                     </span>
                   </div>
                   <div>
                     <span className="text-gray-600">Fat:</span>
                     <span className="ml-2 font-medium">
-                      {(
-                        (selectedFood.per100g.fat * selectedGrams) /
-                        100
-                      ).toFixed(1)}
-                      g
+                      {selectedNutrients.fat.toFixed(1)}g
                     </span>
                   </div>
                 </div>
@@ -9,70 +9,62 @@ import {
   IconChevronRight,
 } from '@tabler/icons-react';
 import { db, type Food } from '../../lib/db';
-import { generateMealIdeas } from '../../lib/ai';
+import { dateKeyOf, todayDate, todayKey } from '../../lib/dates';
+import { generateMealSuggestions } from '../../lib/ai';
+import { resolveAIMealPlan, type ResolvedPlanItem } from '../../lib/aiMealPlan';
+import { loadFoodLookup } from '../../lib/diary';
+import { foodSearchService } from '../../lib/foodSearchService';
+import { goalForDate, loadGoalHistory } from '../../lib/goals';
+import {
+  expiringSoon,
+  isStockOf,
+  loadPantry,
+  type PantryItem,
+} from '../../lib/pantry';
+import type { Goal } from '../../lib/db';
+import {
+  addMealPlans,
+  deleteMealPlan,
+  loadMealPlans,
+  mealPlanFoodRefs,
+  plannedFood,
+  plannerDays,
+  plannerGoals,
+  type NewMealPlan,
+  type PlannerDay,
+} from '../../lib/mealPlanner';
 import {
   format,
   addDays,
   startOfWeek,
   endOfWeek,
   eachDayOfInterval,
-  isSameDay,
 } from 'date-fns';
 
-interface MealPlan {
-  id: string;
-  date: string;
-  meals: {
-    breakfast: MealPlanItem[];
-    lunch: MealPlanItem[];
-    dinner: MealPlanItem[];
-    snack: MealPlanItem[];
-  };
-  totalNutrition: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
-  goals: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
-}
-
-interface MealPlanItem {
-  id: string;
-  foodId: number;
-  foodName: string;
-  grams: number;
-  meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  nutritionalInfo: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
-}
+type MealPlan = PlannerDay;
 
 export default function EnhancedMealPlanner({
   onClose,
 }: {
   onClose: () => void;
 }) {
-  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [currentWeek, setCurrentWeek] = useState(todayDate);
   const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState(todayDate);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
-  const [aiSuggestions, setAiSuggestions] = useState<string>('');
+  const [aiSuggestions, setAiSuggestions] = useState<{
+    meal: keyof MealPlan['meals'];
+    items: ResolvedPlanItem[];
+    error?: string;
+  } | null>(null);
   const [availableFoods, setAvailableFoods] = useState<Food[]>([]);
-  const [goals, setGoals] = useState({
-    calories: 2000,
-    protein: 150,
-    carbs: 250,
-    fat: 65,
-  });
+  const [goalHistory, setGoalHistory] = useState<Goal[]>([]);
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
+
+  // Goals in effect on a planned day
+  const goalsFor = (date: Date) =>
+    plannerGoals(goalForDate(goalHistory, dateKeyOf(date)));
+  const goals = goalsFor(selectedDate);
 
   const weekDays = eachDayOfInterval({
     start: startOfWeek(currentWeek, { weekStartsOn: 1 }),
@@ -80,20 +72,30 @@ export default function EnhancedMealPlanner({
   });
 
   useEffect(() => {
-    loadMealPlans();
+    const dates = eachDayOfInterval({
+      start: startOfWeek(currentWeek, { weekStartsOn: 1 }),
+      end: endOfWeek(currentWeek, { weekStartsOn: 1 }),
+    }).map(dateKeyOf);
+    loadWeekPlans(dates);
     loadAvailableFoods();
     loadGoals();
+    // Plans also change from the other planner and AI plan acceptance
+    const handler = () => loadWeekPlans(dates);
+    window.addEventListener('mealplans:changed', handler);
+    return () => window.removeEventListener('mealplans:changed', handler);
   }, [currentWeek]);
 
-  const loadMealPlans = async () => {
-    try {
-      const savedPlans = localStorage.getItem('wellnessdash_mealplans');
-      if (savedPlans) {
-        setMealPlans(JSON.parse(savedPlans));
-      }
-    } catch (error) {
-      console.error('Error loading meal plans:', error);
-    }
+  useEffect(() => {
+    const refresh = () => loadPantry().then(setPantry);
+    refresh();
+    window.addEventListener('pantry:changed', refresh);
+    return () => window.removeEventListener('pantry:changed', refresh);
+  }, []);
+
+  const loadWeekPlans = async (dates: string[]) => {
+    const plans = await loadMealPlans(dates);
+    const foods = await loadFoodLookup(mealPlanFoodRefs(plans));
+    setMealPlans(plannerDays(plans, foods));
   };
 
   const loadAvailableFoods = async () => {
@@ -106,168 +108,88 @@ export default function EnhancedMealPlanner({
   };
 
   const loadGoals = async () => {
-    try {
-      const savedGoals = localStorage.getItem('wellnessdash_goals');
-      if (savedGoals) {
-        setGoals(JSON.parse(savedGoals));
-      }
-    } catch (error) {
-      console.error('Error loading goals:', error);
-    }
-  };
-
-  const saveMealPlans = (newPlans: MealPlan[]) => {
-    localStorage.setItem('wellnessdash_mealplans', JSON.stringify(newPlans));
-    setMealPlans(newPlans);
+    setGoalHistory(await loadGoalHistory());
   };
 
   const getMealPlanForDate = (date: Date): MealPlan | null => {
-    const dateStr = format(date, 'yyyy-MM-dd');
+    const dateStr = dateKeyOf(date);
     return mealPlans.find((plan) => plan.date === dateStr) || null;
   };
 
-  const createMealPlanForDate = (date: Date): MealPlan => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    return {
-      id: Date.now().toString(),
-      date: dateStr,
-      meals: {
-        breakfast: [],
-        lunch: [],
-        dinner: [],
-        snack: [],
-      },
-      totalNutrition: { calories: 0, protein: 0, carbs: 0, fat: 0 },
-      goals,
-    };
-  };
-
   const addFoodToMeal = (
     date: Date,
     meal: keyof MealPlan['meals'],
     food: Food,
     grams: number
   ) => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    let plan = getMealPlanForDate(date);
-
-    if (!plan) {
-      plan = createMealPlanForDate(date);
-    }
-
-    const mealItem: MealPlanItem = {
-      id: Date.now().toString(),
-      foodId: food.id || 0,
-      foodName: food.name,
-      grams,
-      meal,
-      nutritionalInfo: {
-        calories: Math.round((food.per100g.kcal * grams) / 100),
-        protein: Math.round((food.per100g.protein * grams) / 100),
-        carbs: Math.round((food.per100g.carbs * grams) / 100),
-        fat: Math.round((food.per100g.fat * grams) / 100),
-      },
-    };
-
-    const updatedPlan = {
-      ...plan,
-      meals: {
-        ...plan.meals,
-        [meal]: [...plan.meals[meal], mealItem],
-      },
-    };
-
-    // Recalculate total nutrition
-    const allMeals = [
-      ...updatedPlan.meals.breakfast,
-      ...updatedPlan.meals.lunch,
-      ...updatedPlan.meals.dinner,
-      ...updatedPlan.meals.snack,
-    ];
-
-    updatedPlan.totalNutrition = allMeals.reduce(
-      (acc, item) => ({
-        calories: acc.calories + item.nutritionalInfo.calories,
-        protein: acc.protein + item.nutritionalInfo.protein,
-        carbs: acc.carbs + item.nutritionalInfo.carbs,
-        fat: acc.fat + item.nutritionalInfo.fat,
-      }),
-      { calories: 0, protein: 0, carbs: 0, fat: 0 }
-    );
-
-    const existingIndex = mealPlans.findIndex((p) => p.date === dateStr);
-    let newPlans: MealPlan[];
-
-    if (existingIndex >= 0) {
-      newPlans = [...mealPlans];
-      newPlans[existingIndex] = updatedPlan;
-    } else {
-      newPlans = [...mealPlans, updatedPlan];
-    }
-
-    saveMealPlans(newPlans);
+    addMealPlans([plannedFood(dateKeyOf(date), meal, food, grams)]);
   };
 
-  const removeFoodFromMeal = (
-    date: Date,
-    meal: keyof MealPlan['meals'],
-    itemId: string
-  ) => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const plan = getMealPlanForDate(date);
-
-    if (!plan) return;
-
-    const updatedPlan = {
-      ...plan,
-      meals: {
-        ...plan.meals,
-        [meal]: plan.meals[meal].filter((item) => item.id !== itemId),
-      },
-    };
-
-    // Recalculate total nutrition
-    const allMeals = [
-      ...updatedPlan.meals.breakfast,
-      ...updatedPlan.meals.lunch,
-      ...updatedPlan.meals.dinner,
-      ...updatedPlan.meals.snack,
-    ];
-
-    updatedPlan.totalNutrition = allMeals.reduce(
-      (acc, item) => ({
-        calories: acc.calories + item.nutritionalInfo.calories,
-        protein: acc.protein + item.nutritionalInfo.protein,
-        carbs: acc.carbs + item.nutritionalInfo.carbs,
-        fat: acc.fat + item.nutritionalInfo.fat,
-      }),
-      { calories: 0, protein: 0, carbs: 0, fat: 0 }
-    );
-
-    const existingIndex = mealPlans.findIndex((p) => p.date === dateStr);
-    const newPlans = [...mealPlans];
-    newPlans[existingIndex] = updatedPlan;
-    saveMealPlans(newPlans);
+  const removeFoodFromMeal = (itemId: number) => {
+    deleteMealPlan(itemId);
   };
 
-  const generateAIMealSuggestions = async (
-    _date: Date,
-    meal: keyof MealPlan['meals']
-  ) => {
+  const generateAIMealSuggestions = async (meal: keyof MealPlan['meals']) => {
     setIsGeneratingAI(true);
     try {
-      const prompt = `Suggest 3 healthy food options for ${meal} that provide good nutrition and fit within a balanced diet. Include variety and consider different food groups.`;
-      const aiResponse = await generateMealIdeas(prompt);
-
-      // Set AI suggestions for display
-      setAiSuggestions(aiResponse || 'No suggestions available');
+      const result = await generateMealSuggestions(meal, goals);
+      if (!result.ok) {
+        setAiSuggestions({ meal, items: [], error: result.error });
+        return;
+      }
+      const [day] = await resolveAIMealPlan(result.plan);
+      setAiSuggestions({ meal, items: day?.meals[meal] || [] });
     } catch (error) {
       console.error('Error generating AI suggestions:', error);
+      setAiSuggestions({
+        meal,
+        items: [],
+        error: 'Failed to get suggestions. Please try again.',
+      });
     } finally {
       setIsGeneratingAI(false);
     }
   };
 
+  // Estimated foods are saved on first use so planner items can reference them
+  const acceptSuggestions = async (suggestions: ResolvedPlanItem[]) => {
+    if (!aiSuggestions) return;
+    try {
+      const plans: NewMealPlan[] = await Promise.all(
+        suggestions.map(async ({ item, food }) =>
+          plannedFood(
+            dateKeyOf(selectedDate),
+            aiSuggestions.meal,
+            food.id === undefined
+              ? await foodSearchService.persistFood(food)
+              : food,
+            item.grams
+          )
+        )
+      );
+      await addMealPlans(plans);
+      const remaining = aiSuggestions.items.filter(
+        (s) => !suggestions.includes(s)
+      );
+      setAiSuggestions(
+        remaining.length > 0 ? { ...aiSuggestions, items: remaining } : null
+      );
+      if (suggestions.some(({ food }) => food.id === undefined)) {
+        loadAvailableFoods();
+      }
+    } catch (error) {
+      console.error('Error adding AI suggestions:', error);
+    }
+  };
+
+  // Pantry stock about to expire, with the food to plan it as
+  const useSoon = expiringSoon(pantry).map((item) => ({
+    item,
+    food: availableFoods.find((food) =>
+      isStockOf(item, { foodId: food.id, name: food.name })
+    ),
+  }));
+
   const getNutritionProgress = (current: number, goal: number) => {
     return Math.min((current / goal) * 100, 100);
   };
@@ -337,7 +259,7 @@ export default function EnhancedMealPlanner({
       <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-3 sm:gap-6 mb-8">
         {weekDays.map((day) => {
           const plan = getMealPlanForDate(day);
-          const isToday = isSameDay(day, new Date());
+          const isToday = dateKeyOf(day) === todayKey();
 
           return (
             <motion.div
@@ -406,7 +328,7 @@ export default function EnhancedMealPlanner({
           <h3 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900">
             {format(selectedDate, 'EEEE, MMMM d, yyyy')}
           </h3>
-          {isSameDay(selectedDate, new Date()) && (
+          {dateKeyOf(selectedDate) === todayKey() && (
             <span className="inline-block px-2 sm:px-3 py-1 bg-marigold-100 text-marigold-800 text-xs sm:text-sm font-medium rounded-full ml-2 sm:ml-3">
               Today
             </span>
@@ -429,9 +351,7 @@ export default function EnhancedMealPlanner({
                           {mealType}
                         </h4>
                         <button
-                          onClick={() =>
-                            generateAIMealSuggestions(selectedDate, mealType)
-                          }
+                          onClick={() => generateAIMealSuggestions(mealType)}
                           disabled={isGeneratingAI}
                           className="px-3 py-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white text-sm rounded-lg hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50 flex items-center gap-1"
                         >
@@ -441,17 +361,55 @@ export default function EnhancedMealPlanner({
                       </div>
 
                       {/* AI Suggestions Display */}
-                      {aiSuggestions && (
+                      {aiSuggestions?.meal === mealType && (
                         <div className="mb-3 p-3 bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg border border-purple-200">
-                          <div className="flex items-center gap-2 mb-2">
-                            <IconBrain className="w-4 h-4 text-purple-600" />
-                            <span className="text-sm font-medium text-purple-800">
-                              AI Suggestions for {mealType}
-                            </span>
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <div className="flex items-center gap-2">
+                              <IconBrain className="w-4 h-4 text-purple-600" />
+                              <span className="text-sm font-medium text-purple-800">
+                                AI Suggestions for {mealType}
+                              </span>
+                            </div>
+                            {aiSuggestions.items.length > 1 && (
+                              <button
+                                onClick={() =>
+                                  acceptSuggestions(aiSuggestions.items)
+                                }
+                                className="text-xs font-medium text-purple-700 hover:text-purple-900"
+                              >
+                                Add all
+                              </button>
+                            )}
+                          </div>
+                          {aiSuggestions.error && (
+                            <p className="text-sm text-purple-700">
+                              {aiSuggestions.error}
+                            </p>
+                          )}
+                          <div className="space-y-1">
+                            {aiSuggestions.items.map((suggestion, i) => (
+                              <div
+                                key={`${suggestion.item.name}:${i}`}
+                                className="flex items-center justify-between text-sm text-purple-700"
+                              >
+                                <span>
+                                  {suggestion.food.name} •{' '}
+                                  {Math.round(suggestion.item.grams)}g
+                                  {suggestion.status === 'estimated' &&
+                                    ' (AI estimate)'}
+                                </span>
+                                <button
+                                  onClick={() =>
+                                    acceptSuggestions([suggestion])
+                                  }
+                                  className="p-1 hover:bg-purple-100 rounded transition-colors"
+                                  aria-label={`Add ${suggestion.food.name}`}
+                                >
+                                  <IconPlus className="w-4 h-4" />
+                                </button>
+                              </div>
+                            ))}
                           </div>
-                          <p className="text-sm text-purple-700">
-                            {aiSuggestions}
-                          </p>
                         </div>
                       )}
 
@@ -463,21 +421,19 @@ export default function EnhancedMealPlanner({
                           >
                             <div>
                               <div className="font-medium text-gray-900">
-                                {item.foodName}
+                                {item.name}
                               </div>
                               <div className="text-sm text-gray-500">
-                                {item.grams}g • {item.nutritionalInfo.calories}{' '}
-                                kcal
+                                {item.grams !== undefined
+                                  ? `${Math.round(item.grams)}g`
+                                  : `${item.servings} serving${
+                                      item.servings === 1 ? '' : 's'
+                                    }`}{' '}
+                                • {item.nutritionalInfo.calories} kcal
                               </div>
                             </div>
                             <button
-                              onClick={() =>
-                                removeFoodFromMeal(
-                                  selectedDate,
-                                  mealType,
-                                  item.id
-                                )
-                              }
+                              onClick={() => removeFoodFromMeal(item.id)}
                               className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
                             >
                               <IconTrash className="w-4 h-4" />
@@ -626,6 +582,50 @@ export default function EnhancedMealPlanner({
                 })()}
               </div>
 
+              {/* Use Soon */}
+              {useSoon.length > 0 && (
+                <div className="bg-orange-50 rounded-xl p-6 border border-orange-200">
+                  <h4 className="text-lg font-semibold text-gray-900 mb-1">
+                    Use Soon
+                  </h4>
+                  <p className="text-sm text-gray-600 mb-4">
+                    In the pantry and expiring within a few days
+                  </p>
+                  <div className="space-y-3">
+                    {useSoon.map(({ item, food }) => (
+                      <div
+                        key={item.id}
+                        className="flex items-center justify-between"
+                      >
+                        <div className="flex-1">
+                          <div className="font-medium text-gray-900">
+                            {item.name}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {Math.round(item.grams)}g • use by {item.expiry}
+                          </div>
+                        </div>
+                        {food && (
+                          <button
+                            onClick={() =>
+                              addFoodToMeal(
+                                selectedDate,
+                                'snack',
+                                food,
+                                Math.min(Math.round(item.grams), 100)
+                              )
+                            }
+                            className="px-3 py-1 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 transition-colors"
+                          >
+                            Add
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Quick Add Foods */}
               <div className="bg-white rounded-xl p-6 border border-gray-200">
                 <h4 className="text-lg font-semibold text-gray-900 mb-4">
@@ -3,10 +3,11 @@ import { motion } from 'framer-motion';
 import {
   LineChart,
   Line,
-  AreaChart,
   Area,
   BarChart,
   Bar,
+  ComposedChart,
+  ReferenceLine,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -17,14 +18,56 @@ import {
   Pie,
   Cell,
 } from 'recharts';
-import { format, subDays } from 'date-fns';
+import { format } from 'date-fns';
+import { addDaysToKey, parseDateKey, todayKey } from '../../lib/dates';
 import {
   IconTarget,
   IconTrendingUp,
   IconScale,
   IconBrain,
+  IconLeaf,
+  IconCurrencyRupee,
+  IconAlertTriangle,
 } from '@tabler/icons-react';
-import { db, type DiaryEntry } from '../../lib/db';
+import { db, type DiaryEntry, type Goal, type Nutrients } from '../../lib/db';
+import { diaryFoodRefs, loadFoodLookup } from '../../lib/diary';
+import {
+  DEFAULT_GOALS,
+  goalForDate,
+  loadGoalHistory,
+  type GoalTargets,
+} from '../../lib/goals';
+import {
+  WeightTrackingService,
+  type WeightEntry,
+  type WeightGoal,
+} from '../../lib/weightTracking';
+import {
+  MEASUREMENT_FIELDS,
+  leanMass,
+  loadMeasurements,
+  type BodyMeasurement,
+  type MeasurementField,
+} from '../../lib/bodyMeasurements';
+import {
+  MICRONUTRIENTS,
+  addNutrients,
+  createFoodLookup,
+  emptyNutrients,
+  entryNutrients,
+  percentOfRda,
+  type FoodLookup,
+} from '../../lib/nutrients';
+import {
+  budgetStatus,
+  costPer100Kcal,
+  costPerGramProtein,
+  loadBudget,
+  saveBudget,
+  summarizeSpending,
+  type SpendingBudget,
+} from '../../lib/spending';
+import { formatINR } from '../../lib/prices';
 
 interface ChartData {
   date: string;
@@ -38,7 +81,45 @@ interface ChartData {
 interface WeightData {
   date: string;
   weight: number;
-  bmi: number;
+  trend: number;
+  bmi?: number;
+}
+
+type MeasurementData = Partial<Record<MeasurementField, number>> & {
+  date: string;
+  bodyFat?: number;
+  leanMass?: number;
+};
+
+const SPENDING_COLORS = [
+  '#f97316',
+  '#10b981',
+  '#3b82f6',
+  '#8b5cf6',
+  '#f59e0b',
+  '#ef4444',
+  '#06b6d4',
+  '#64748b',
+];
+
+// Foods compared as protein sources need at least this much protein logged
+const MIN_PROTEIN_FOR_VALUE = 5;
+
+const MEASUREMENT_COLORS: Record<MeasurementField, string> = {
+  waist: '#ef4444',
+  hip: '#8b5cf6',
+  chest: '#3b82f6',
+  arm: '#f59e0b',
+  neck: '#10b981',
+};
+
+interface MicronutrientAverage {
+  name: string;
+  average: number;
+  unit: string;
+  rda: number;
+  percentage: number;
+  kind: 'target' | 'limit';
 }
 
 interface GoalProgress {
@@ -49,131 +130,185 @@ interface GoalProgress {
   color: string;
 }
 
-export default function EnhancedProgressCharts() {
+interface EnhancedProgressChartsProps {
+  heightCm?: number; // for BMI alongside weight
+}
+
+export default function EnhancedProgressCharts({
+  heightCm,
+}: EnhancedProgressChartsProps) {
   const [activeTab, setActiveTab] = useState<
-    'nutrition' | 'weight' | 'goals' | 'insights'
+    | 'nutrition'
+    | 'micronutrients'
+    | 'weight'
+    | 'goals'
+    | 'spending'
+    | 'insights'
   >('nutrition');
   const [timeRange, setTimeRange] = useState<'week' | 'month' | '3months'>(
     'week'
   );
   const [diaryEntries, setDiaryEntries] = useState<DiaryEntry[]>([]);
-  const [weightData, setWeightData] = useState<WeightData[]>([]);
-  const [goals, setGoals] = useState({
-    calories: 2000,
-    protein: 150,
-    carbs: 250,
-    fat: 65,
-  });
+  const [foods, setFoods] = useState<FoodLookup>(() => createFoodLookup([]));
+  const [weightEntries, setWeightEntries] = useState<WeightEntry[]>([]);
+  const [weightGoal, setWeightGoal] = useState<WeightGoal | null>(null);
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [goalHistory, setGoalHistory] = useState<Goal[]>([]);
+  const [budget, setBudget] = useState<SpendingBudget | null>(loadBudget);
+  const [budgetDraft, setBudgetDraft] = useState(
+    () => loadBudget()?.monthly.toString() ?? ''
+  );
+
+  const rangeDays = timeRange === 'week' ? 7 : timeRange === 'month' ? 30 : 90;
 
   useEffect(() => {
     loadData();
+    const handler = () => loadData();
+    window.addEventListener('weight:changed', handler);
+    return () => window.removeEventListener('weight:changed', handler);
   }, [timeRange]);
 
   const loadData = async () => {
     try {
-      // Load diary entries
+      // Load diary entries and the foods they reference
       const entries = await db.diary.toArray();
+      setFoods(await loadFoodLookup(diaryFoodRefs(entries)));
       setDiaryEntries(entries);
 
-      // Load goals from localStorage
-      const savedGoals = localStorage.getItem('wellnessdash_goals');
-      if (savedGoals) {
-        setGoals(JSON.parse(savedGoals));
-      }
-
-      // Load weight data from localStorage (mock data for now)
-      const savedWeightData = localStorage.getItem('wellnessdash_weight_data');
-      if (savedWeightData) {
-        setWeightData(JSON.parse(savedWeightData));
-      } else {
-        // Generate mock weight data
-        const mockWeightData = generateMockWeightData();
-        setWeightData(mockWeightData);
-        localStorage.setItem(
-          'wellnessdash_weight_data',
-          JSON.stringify(mockWeightData)
-        );
-      }
+      // Load goal history so each day is scored against its own goal
+      setGoalHistory(await loadGoalHistory());
+
+      // All weigh-ins: the trend needs history from before the range
+      const [weighIns, goal, measured] = await Promise.all([
+        WeightTrackingService.getWeightEntries(),
+        WeightTrackingService.getWeightGoal(),
+        loadMeasurements(),
+      ]);
+      setWeightEntries(weighIns);
+      setWeightGoal(goal);
+      setMeasurements(measured);
     } catch (error) {
       console.error('Error loading chart data:', error);
     }
   };
 
-  const generateMockWeightData = (): WeightData[] => {
-    const data: WeightData[] = [];
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 30);
-
-    for (let i = 0; i < 30; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
+  const weightTrend = useMemo(
+    () => WeightTrackingService.getTrendSummary(weightEntries, weightGoal),
+    [weightEntries, weightGoal]
+  );
 
-      // Simulate weight fluctuations
-      const baseWeight = 70;
-      const fluctuation = Math.sin(i * 0.2) * 2 + Math.random() * 1;
-      const weight = baseWeight + fluctuation;
-      const height = 175; // cm
-      const bmi = weight / Math.pow(height / 100, 2);
+  // Weigh-ins in the selected range, with BMI when the height is known
+  const weightData = useMemo((): WeightData[] => {
+    const since = addDaysToKey(todayKey(), -rangeDays);
+    return weightTrend.points
+      .filter((point) => point.date > since)
+      .map((point) => ({
+        date: format(parseDateKey(point.date), 'MMM dd'),
+        weight: point.weight,
+        trend: Math.round(point.trend * 10) / 10,
+        bmi: heightCm
+          ? Math.round((point.trend / Math.pow(heightCm / 100, 2)) * 10) / 10
+          : undefined,
+      }));
+  }, [weightTrend, rangeDays, heightCm]);
 
-      data.push({
-        date: format(date, 'yyyy-MM-dd'),
-        weight: Math.round(weight * 10) / 10,
-        bmi: Math.round(bmi * 10) / 10,
+  // Measurements in the selected range, with lean mass from the trend weight
+  // on the day body fat was taken
+  const measurementData = useMemo((): MeasurementData[] => {
+    const since = addDaysToKey(todayKey(), -rangeDays);
+    return measurements
+      .filter((measurement) => measurement.date > since)
+      .reverse()
+      .map((measurement) => {
+        const weighIn = [...weightTrend.points]
+          .reverse()
+          .find((point) => point.date <= measurement.date);
+        const data: MeasurementData = {
+          date: format(parseDateKey(measurement.date), 'MMM dd'),
+          bodyFat: measurement.bodyFat,
+        };
+        for (const { key } of MEASUREMENT_FIELDS) data[key] = measurement[key];
+        if (measurement.bodyFat !== undefined && weighIn) {
+          data.leanMass =
+            Math.round(leanMass(weighIn.trend, measurement.bodyFat) * 10) / 10;
+        }
+        return data;
       });
-    }
-    return data;
-  };
+  }, [measurements, weightTrend, rangeDays]);
 
-  const chartData = useMemo(() => {
-    const days = timeRange === 'week' ? 7 : timeRange === 'month' ? 30 : 90;
-    const data: ChartData[] = [];
+  const dailyNutrients = useMemo(() => {
+    const data: {
+      label: string;
+      logged: boolean;
+      totals: Nutrients;
+      goal: GoalTargets;
+    }[] = [];
+    const today = todayKey();
 
-    for (let i = days - 1; i >= 0; i--) {
-      const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
+    for (let i = rangeDays - 1; i >= 0; i--) {
+      const date = addDaysToKey(today, -i);
       const dayEntries = diaryEntries.filter((entry) => entry.date === date);
 
-      const dayTotals = dayEntries.reduce(
-        (acc, entry) => {
-          const grams = entry.grams || 0;
-          const quantity = entry.quantity || 1;
-          const multiplier = (grams * quantity) / 100;
-
-          // For now, we'll use placeholder values since we need to fetch food data
-          // In a real implementation, you'd fetch the food data here
-          const calories = 0; // entry.food?.per100g.kcal || 0
-          const protein = 0; // entry.food?.per100g.protein || 0
-          const carbs = 0; // entry.food?.per100g.carbs || 0
-          const fat = 0; // entry.food?.per100g.fat || 0
-
-          return {
-            calories: acc.calories + calories * multiplier,
-            protein: acc.protein + protein * multiplier,
-            carbs: acc.carbs + carbs * multiplier,
-            fat: acc.fat + fat * multiplier,
-          };
-        },
-        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+      const totals = dayEntries.reduce(
+        (acc, entry) => addNutrients(acc, entryNutrients(entry, foods)),
+        emptyNutrients()
       );
 
       data.push({
-        date: format(subDays(new Date(), i), 'MMM dd'),
-        calories: Math.round(dayTotals.calories),
-        protein: Math.round(dayTotals.protein * 10) / 10,
-        carbs: Math.round(dayTotals.carbs * 10) / 10,
-        fat: Math.round(dayTotals.fat * 10) / 10,
+        label: format(parseDateKey(date), 'MMM dd'),
+        logged: dayEntries.length > 0,
+        totals,
+        goal: goalForDate(goalHistory, date),
       });
     }
 
     return data;
-  }, [diaryEntries, timeRange]);
+  }, [diaryEntries, foods, goalHistory, rangeDays]);
+
+  const chartData = useMemo(
+    (): ChartData[] =>
+      dailyNutrients.map(({ label, totals }) => ({
+        date: label,
+        calories: Math.round(totals.kcal),
+        protein: Math.round(totals.protein * 10) / 10,
+        carbs: Math.round(totals.carbs * 10) / 10,
+        fat: Math.round(totals.fat * 10) / 10,
+      })),
+    [dailyNutrients]
+  );
 
+  // Average daily micronutrient intake over logged days, against the reference intake
+  const micronutrientAverages = useMemo((): MicronutrientAverage[] => {
+    const loggedDays = dailyNutrients.filter((day) => day.logged);
+    if (loggedDays.length === 0) return [];
+
+    return MICRONUTRIENTS.filter((info) =>
+      loggedDays.some((day) => day.totals[info.key] !== undefined)
+    ).map((info) => {
+      const average =
+        loggedDays.reduce((sum, day) => sum + (day.totals[info.key] || 0), 0) /
+        loggedDays.length;
+      return {
+        name: info.label,
+        average: Math.round(average * 10) / 10,
+        unit: info.unit,
+        rda: info.rda,
+        percentage: Math.round(percentOfRda(info, average) ?? 0),
+        kind: info.kind,
+      };
+    });
+  }, [dailyNutrients]);
+
+  // Today is scored against the goal in effect today
+  const todayGoal =
+    dailyNutrients[dailyNutrients.length - 1]?.goal ?? DEFAULT_GOALS;
   const goalProgressData: GoalProgress[] = [
     {
       name: 'Calories',
       current: chartData[chartData.length - 1]?.calories || 0,
-      target: goals.calories,
+      target: todayGoal.kcal,
       percentage: Math.min(
-        ((chartData[chartData.length - 1]?.calories || 0) / goals.calories) *
+        ((chartData[chartData.length - 1]?.calories || 0) / todayGoal.kcal) *
           100,
         100
       ),
@@ -182,9 +317,10 @@ export default function EnhancedProgressCharts() {
     {
       name: 'Protein',
       current: chartData[chartData.length - 1]?.protein || 0,
-      target: goals.protein,
+      target: todayGoal.protein,
       percentage: Math.min(
-        ((chartData[chartData.length - 1]?.protein || 0) / goals.protein) * 100,
+        ((chartData[chartData.length - 1]?.protein || 0) / todayGoal.protein) *
+          100,
         100
       ),
       color: '#10b981',
@@ -192,9 +328,9 @@ export default function EnhancedProgressCharts() {
     {
       name: 'Carbs',
       current: chartData[chartData.length - 1]?.carbs || 0,
-      target: goals.carbs,
+      target: todayGoal.carbs,
       percentage: Math.min(
-        ((chartData[chartData.length - 1]?.carbs || 0) / goals.carbs) * 100,
+        ((chartData[chartData.length - 1]?.carbs || 0) / todayGoal.carbs) * 100,
         100
       ),
       color: '#f59e0b',
@@ -202,17 +338,33 @@ export default function EnhancedProgressCharts() {
     {
       name: 'Fat',
       current: chartData[chartData.length - 1]?.fat || 0,
-      target: goals.fat,
+      target: todayGoal.fat,
       percentage: Math.min(
-        ((chartData[chartData.length - 1]?.fat || 0) / goals.fat) * 100,
+        ((chartData[chartData.length - 1]?.fat || 0) / todayGoal.fat) * 100,
         100
       ),
       color: '#ef4444',
     },
   ];
 
+  // Share of logged days whose calories landed within 10% of that day's goal
+  const goalMetRate = useMemo(() => {
+    const loggedDays = dailyNutrients.filter((day) => day.logged);
+    if (loggedDays.length === 0) return 0;
+    const onTarget = loggedDays.filter(({ totals, goal }) => {
+      const percentage = (totals.kcal / goal.kcal) * 100;
+      return percentage >= 90 && percentage <= 110;
+    });
+    return (onTarget.length / loggedDays.length) * 100;
+  }, [dailyNutrients]);
+
   const nutritionTrends = useMemo(() => {
     const recentData = chartData.slice(-7);
+    // Targets averaged over the same days, as goals may have changed
+    const recentGoals = dailyNutrients.slice(-7).map((day) => day.goal);
+    const avgGoal = (key: keyof GoalTargets) =>
+      recentGoals.reduce((sum, goal) => sum + goal[key], 0) /
+      recentGoals.length;
     const avgCalories =
       recentData.reduce((sum, day) => sum + day.calories, 0) /
       recentData.length;
@@ -226,14 +378,34 @@ export default function EnhancedProgressCharts() {
     return {
       calories: {
         current: avgCalories,
-        target: goals.calories,
+        target: avgGoal('kcal'),
         trend: 'stable',
       },
-      protein: { current: avgProtein, target: goals.protein, trend: 'up' },
-      carbs: { current: avgCarbs, target: goals.carbs, trend: 'down' },
-      fat: { current: avgFat, target: goals.fat, trend: 'stable' },
+      protein: { current: avgProtein, target: avgGoal('protein'), trend: 'up' },
+      carbs: { current: avgCarbs, target: avgGoal('carbs'), trend: 'down' },
+      fat: { current: avgFat, target: avgGoal('fat'), trend: 'stable' },
     };
-  }, [chartData, goals]);
+  }, [chartData, dailyNutrients]);
+
+  const spending = useMemo(() => {
+    const today = todayKey();
+    const dates = Array.from({ length: rangeDays }, (_, i) =>
+      addDaysToKey(today, i - rangeDays + 1)
+    );
+    return summarizeSpending(diaryEntries, foods, dates);
+  }, [diaryEntries, foods, rangeDays]);
+
+  const budgetState = useMemo(
+    () => (budget ? budgetStatus(diaryEntries, budget) : null),
+    [diaryEntries, budget]
+  );
+
+  const handleSaveBudget = () => {
+    const monthly = Number(budgetDraft);
+    const next = monthly > 0 ? { monthly } : null;
+    saveBudget(next);
+    setBudget(next);
+  };
 
   const CustomTooltip = ({
     active,
@@ -392,6 +564,84 @@ export default function EnhancedProgressCharts() {
     </div>
   );
 
+  const renderMicronutrientChart = () => (
+    <div className="space-y-6">
+      {micronutrientAverages.length === 0 ? (
+        <div className="bg-gray-50 rounded-2xl p-8 text-center border border-gray-200">
+          <IconLeaf className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600">
+            No micronutrient data yet. Log foods with fibre, sodium or vitamin
+            information to see how you compare with daily reference intakes.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <h4 className="text-lg font-bold text-gray-900 mb-4">
+              Average % of Daily Reference
+            </h4>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={micronutrientAverages} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis type="number" stroke="#64748b" fontSize={12} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  stroke="#64748b"
+                  fontSize={12}
+                  width={90}
+                />
+                <Tooltip
+                  formatter={(value: number) => [`${value}%`, 'Of reference']}
+                />
+                <Bar dataKey="percentage" name="% of reference">
+                  {micronutrientAverages.map((entry) => (
+                    <Cell
+                      key={entry.name}
+                      fill={
+                        entry.kind === 'limit' && entry.percentage > 100
+                          ? '#ef4444'
+                          : '#10b981'
+                      }
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <h4 className="text-lg font-bold text-gray-900 mb-4">
+              Daily Averages
+            </h4>
+            <div className="space-y-3">
+              {micronutrientAverages.map((micro) => (
+                <div
+                  key={micro.name}
+                  className="flex justify-between items-center text-sm"
+                >
+                  <span className="text-gray-700">{micro.name}</span>
+                  <span
+                    className={`font-semibold ${
+                      micro.kind === 'limit' && micro.percentage > 100
+                        ? 'text-red-600'
+                        : 'text-gray-900'
+                    }`}
+                  >
+                    {micro.average}
+                    {micro.unit} / {micro.kind === 'limit' ? '<' : ''}
+                    {micro.rda}
+                    {micro.unit}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   const renderWeightChart = () => (
     <div className="space-y-6">
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -401,7 +651,7 @@ export default function EnhancedProgressCharts() {
             Weight & BMI Trends
           </h4>
           <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={weightData}>
+            <ComposedChart data={weightData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
               <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
               <YAxis yAxisId="left" stroke="#10b981" fontSize={12} />
@@ -413,25 +663,45 @@ export default function EnhancedProgressCharts() {
               />
               <Tooltip />
               <Legend />
-              <Area
+              {heightCm && (
+                <Area
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="bmi"
+                  stroke="#f59e0b"
+                  fill="#f59e0b"
+                  fillOpacity={0.15}
+                  name="BMI (trend)"
+                />
+              )}
+              <Line
                 yAxisId="left"
-                type="monotone"
                 dataKey="weight"
                 stroke="#10b981"
-                fill="#10b981"
-                fillOpacity={0.3}
-                name="Weight (kg)"
+                strokeWidth={0}
+                dot={{ r: 3, fill: '#10b981' }}
+                name="Scale weight (kg)"
               />
-              <Area
-                yAxisId="right"
+              <Line
+                yAxisId="left"
                 type="monotone"
-                dataKey="bmi"
-                stroke="#f59e0b"
-                fill="#f59e0b"
-                fillOpacity={0.3}
-                name="BMI"
+                dataKey="trend"
+                stroke="#047857"
+                strokeWidth={2}
+                dot={false}
+                name="Trend weight (kg)"
               />
-            </AreaChart>
+              {weightGoal && (
+                <ReferenceLine
+                  yAxisId="left"
+                  y={weightGoal.targetWeight}
+                  stroke="#6366f1"
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                  label={{ value: 'Goal', fill: '#6366f1', fontSize: 12 }}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
 
@@ -444,20 +714,50 @@ export default function EnhancedProgressCharts() {
             {(() => {
               const latest = weightData[weightData.length - 1];
               const first = weightData[0];
-              const change = latest ? latest.weight - first.weight : 0;
-              const avgWeight =
-                weightData.reduce((sum, d) => sum + d.weight, 0) /
-                weightData.length;
+              // Change in trend weight, so one salty dinner doesn't count
+              const change = latest ? latest.trend - first.trend : 0;
+              const { weeklyRate, projectedGoalDate } = weightTrend;
+              const avgWeight = weightData.length
+                ? weightData.reduce((sum, d) => sum + d.weight, 0) /
+                  weightData.length
+                : 0;
 
               return (
                 <>
                   <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-xl p-4 border border-green-200">
                     <div className="text-sm text-green-600 font-medium">
-                      Current Weight
+                      Trend Weight
                     </div>
                     <div className="text-2xl font-bold text-green-700">
-                      {latest?.weight || 0} kg
+                      {latest?.trend || 0} kg
                     </div>
+                    {latest && (
+                      <div className="text-xs text-green-600 mt-1">
+                        Last scale reading {latest.weight} kg
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-gradient-to-r from-purple-50 to-indigo-50 rounded-xl p-4 border border-purple-200">
+                    <div className="text-sm text-purple-600 font-medium">
+                      Weekly Rate
+                    </div>
+                    <div className="text-2xl font-bold text-purple-700">
+                      {weeklyRate > 0 ? '+' : ''}
+                      {weeklyRate.toFixed(2)} kg/week
+                    </div>
+                    {weightGoal && (
+                      <div className="text-xs text-purple-600 mt-1">
+                        {projectedGoalDate
+                          ? `${
+                              weightGoal.targetWeight
+                            } kg goal projected for ${format(
+                              parseDateKey(projectedGoalDate),
+                              'MMM d, yyyy'
+                            )}`
+                          : `Not currently heading towards ${weightGoal.targetWeight} kg`}
+                      </div>
+                    )}
                   </div>
 
                   <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-200">
@@ -511,6 +811,75 @@ export default function EnhancedProgressCharts() {
           </div>
         </div>
       </div>
+
+      {measurementData.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <h4 className="text-lg font-bold text-gray-900 mb-4">
+              Body Measurements
+            </h4>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={measurementData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                <YAxis stroke="#64748b" fontSize={12} unit=" cm" />
+                <Tooltip />
+                <Legend />
+                {MEASUREMENT_FIELDS.map(({ key, label }) => (
+                  <Line
+                    key={key}
+                    type="monotone"
+                    dataKey={key}
+                    stroke={MEASUREMENT_COLORS[key]}
+                    strokeWidth={2}
+                    connectNulls
+                    name={`${label} (cm)`}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <h4 className="text-lg font-bold text-gray-900 mb-4">
+              Body Composition
+            </h4>
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={measurementData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                <YAxis yAxisId="left" stroke="#ef4444" fontSize={12} />
+                <YAxis
+                  yAxisId="right"
+                  orientation="right"
+                  stroke="#3b82f6"
+                  fontSize={12}
+                />
+                <Tooltip />
+                <Legend />
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="bodyFat"
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                  connectNulls
+                  name="Body fat (%)"
+                />
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="leanMass"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  connectNulls
+                  name="Lean mass (kg)"
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
     </div>
   );
 
@@ -564,6 +933,277 @@ export default function EnhancedProgressCharts() {
     </div>
   );
 
+  const renderSpending = () => (
+    <div className="space-y-6">
+      {/* Monthly Budget */}
+      <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4">
+          <div>
+            <h4 className="text-lg font-bold text-gray-900">Monthly Budget</h4>
+            <p className="text-sm text-gray-600">
+              Food spending this month from the prices you log
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="100"
+              inputMode="decimal"
+              placeholder="Budget (₹)"
+              value={budgetDraft}
+              onChange={(e) => setBudgetDraft(e.target.value)}
+              className="w-36 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleSaveBudget}
+              className="px-4 py-2 bg-marigold-500 text-white rounded-lg hover:bg-marigold-600 transition-colors"
+            >
+              {budgetDraft ? 'Set' : 'Clear'}
+            </button>
+          </div>
+        </div>
+
+        {budgetState ? (
+          <>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-gray-700">
+                {formatINR(budgetState.spent)} of{' '}
+                {formatINR(budgetState.budget)}
+              </span>
+              <span className="text-gray-500">
+                On pace for {formatINR(budgetState.projected)}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-3">
+              <div
+                className={`h-3 rounded-full transition-all duration-500 ${
+                  budgetState.level === 'over'
+                    ? 'bg-red-500'
+                    : budgetState.level === 'warning'
+                    ? 'bg-amber-500'
+                    : 'bg-green-500'
+                }`}
+                style={{
+                  width: `${Math.min(
+                    (budgetState.spent / budgetState.budget) * 100,
+                    100
+                  )}%`,
+                }}
+              ></div>
+            </div>
+            {budgetState.level !== 'ok' && (
+              <div
+                className={`mt-4 flex items-start gap-2 p-3 rounded-lg text-sm ${
+                  budgetState.level === 'over'
+                    ? 'bg-red-50 text-red-800 border border-red-200'
+                    : 'bg-amber-50 text-amber-800 border border-amber-200'
+                }`}
+              >
+                <IconAlertTriangle className="w-5 h-5 flex-shrink-0" />
+                {budgetState.level === 'over'
+                  ? `You're ${formatINR(
+                      budgetState.spent - budgetState.budget
+                    )} over this month's food budget.`
+                  : budgetState.projected > budgetState.budget
+                  ? `At this pace you'll spend ${formatINR(
+                      budgetState.projected
+                    )} this month, over your ${formatINR(
+                      budgetState.budget
+                    )} budget.`
+                  : `You've used ${Math.round(
+                      (budgetState.spent / budgetState.budget) * 100
+                    )}% of this month's food budget.`}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Set a monthly budget to get alerts before you go over it.
+          </p>
+        )}
+      </div>
+
+      {spending.pricedEntries === 0 ? (
+        <div className="bg-gray-50 rounded-2xl p-8 text-center border border-gray-200">
+          <IconCurrencyRupee className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600">
+            No prices logged in this period. Add what you paid when logging food
+            to see where your money goes.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Spent', value: formatINR(spending.total) },
+              {
+                label: 'Per day',
+                value: formatINR(spending.total / rangeDays),
+              },
+              {
+                label: 'Per 100 kcal',
+                value:
+                  spending.costPer100Kcal !== null
+                    ? `₹${spending.costPer100Kcal.toFixed(1)}`
+                    : '–',
+              },
+              {
+                label: 'Per g protein',
+                value:
+                  spending.costPerGramProtein !== null
+                    ? `₹${spending.costPerGramProtein.toFixed(2)}`
+                    : '–',
+              },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="bg-white rounded-2xl p-4 shadow-lg border border-gray-100 text-center"
+              >
+                <div className="text-2xl font-bold text-marigold-600">
+                  {stat.value}
+                </div>
+                <div className="text-xs text-gray-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+          {spending.unpricedEntries > 0 && (
+            <p className="text-xs text-gray-500">
+              {spending.unpricedEntries} entries in this period have no price
+              and aren't counted.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Cost per Day */}
+            <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+              <h4 className="text-lg font-bold text-gray-900 mb-4">
+                Cost per Day
+              </h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart
+                  data={spending.perDay.map(({ date, cost }) => ({
+                    date: format(parseDateKey(date), 'MMM dd'),
+                    cost: Math.round(cost),
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                  <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                  <YAxis stroke="#64748b" fontSize={12} />
+                  <Tooltip
+                    formatter={(value: number) => [formatINR(value), 'Spent']}
+                  />
+                  <Bar dataKey="cost" fill="#f97316" name="Spent (₹)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Cost per Category */}
+            <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+              <h4 className="text-lg font-bold text-gray-900 mb-4">
+                Cost per Category
+              </h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie
+                    data={spending.perCategory.map(({ key, cost }) => ({
+                      name: key,
+                      cost: Math.round(cost),
+                    }))}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name }) => name}
+                    outerRadius={80}
+                    dataKey="cost"
+                  >
+                    {spending.perCategory.map((group, index) => (
+                      <Cell
+                        key={group.key}
+                        fill={SPENDING_COLORS[index % SPENDING_COLORS.length]}
+                      />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number) => formatINR(value)} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Cost per Meal */}
+            <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+              <h4 className="text-lg font-bold text-gray-900 mb-4">
+                Cost per Meal
+              </h4>
+              <div className="space-y-3">
+                {spending.perMeal.map((group) => (
+                  <div key={group.key} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="capitalize text-gray-700">
+                        {group.key}
+                      </span>
+                      <span className="font-semibold text-gray-900">
+                        {formatINR(group.cost)}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full bg-marigold-500"
+                        style={{
+                          width: `${(group.cost / spending.total) * 100}%`,
+                        }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Protein Value */}
+            <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+              <h4 className="text-lg font-bold text-gray-900 mb-1">
+                Protein Value
+              </h4>
+              <p className="text-sm text-gray-600 mb-4">
+                Cheapest protein sources you logged, per gram of protein
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-medium py-1">Food</th>
+                    <th className="text-right font-medium py-1">₹/g protein</th>
+                    <th className="text-right font-medium py-1">₹/100 kcal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {spending.perFood
+                    .filter((group) => group.protein >= MIN_PROTEIN_FOR_VALUE)
+                    .sort(
+                      (a, b) => costPerGramProtein(a)! - costPerGramProtein(b)!
+                    )
+                    .slice(0, 8)
+                    .map((group) => (
+                      <tr key={group.key} className="border-t border-gray-100">
+                        <td className="py-1 text-gray-700">{group.key}</td>
+                        <td className="py-1 text-right font-medium text-gray-900">
+                          {costPerGramProtein(group)!.toFixed(2)}
+                        </td>
+                        <td className="py-1 text-right text-gray-700">
+                          {costPer100Kcal(group)?.toFixed(1) ?? '–'}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
   const renderInsights = () => (
     <div className="space-y-6">
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -594,12 +1234,7 @@ export default function EnhancedProgressCharts() {
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Goal Met</span>
               <span className="font-bold text-purple-700">
-                {Math.round(
-                  (goalProgressData.filter((g) => g.percentage >= 90).length /
-                    goalProgressData.length) *
-                    100
-                )}
-                %
+                {Math.round(goalMetRate)}%
               </span>
             </div>
           </div>
@@ -614,13 +1249,22 @@ export default function EnhancedProgressCharts() {
           <div className="space-y-3 text-sm">
             {(() => {
               const recommendations = [];
-              if (nutritionTrends.protein.current < goals.protein * 0.8) {
+              if (
+                nutritionTrends.protein.current <
+                nutritionTrends.protein.target * 0.8
+              ) {
                 recommendations.push('Consider increasing protein intake');
               }
-              if (nutritionTrends.carbs.current > goals.carbs * 1.2) {
+              if (
+                nutritionTrends.carbs.current >
+                nutritionTrends.carbs.target * 1.2
+              ) {
                 recommendations.push('Try reducing carb consumption');
               }
-              if (nutritionTrends.fat.current > goals.fat * 1.1) {
+              if (
+                nutritionTrends.fat.current >
+                nutritionTrends.fat.target * 1.1
+              ) {
                 recommendations.push('Monitor fat intake');
               }
               if (recommendations.length === 0) {
@@ -708,8 +1352,18 @@ export default function EnhancedProgressCharts() {
                   label: 'Nutrition Trends',
                   icon: IconTrendingUp,
                 },
+                {
+                  id: 'micronutrients',
+                  label: 'Micronutrients',
+                  icon: IconLeaf,
+                },
                 { id: 'weight', label: 'Weight & BMI', icon: IconScale },
                 { id: 'goals', label: 'Goal Progress', icon: IconTarget },
+                {
+                  id: 'spending',
+                  label: 'Spending',
+                  icon: IconCurrencyRupee,
+                },
                 { id: 'insights', label: 'AI Insights', icon: IconBrain },
               ] as const
             ).map((tab) => (
@@ -740,8 +1394,10 @@ export default function EnhancedProgressCharts() {
             transition={{ duration: 0.3 }}
           >
             {activeTab === 'nutrition' && renderNutritionChart()}
+            {activeTab === 'micronutrients' && renderMicronutrientChart()}
             {activeTab === 'weight' && renderWeightChart()}
             {activeTab === 'goals' && renderGoalsChart()}
+            {activeTab === 'spending' && renderSpending()}
             {activeTab === 'insights' && renderInsights()}
           </motion.div>
         </div>
@@ -8,42 +8,15 @@ import {
 } from '@tabler/icons-react';
 
 import { generateMealIdeas } from '../../lib/ai';
-
-interface Recipe {
-  id: string;
-  name: string;
-  description: string;
-  ingredients: RecipeIngredient[];
-  instructions: string[];
-  prepTime: number;
-  cookTime: number;
-  servings: number;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  tags: string[];
-  image?: string;
-  nutritionalInfo: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber: number;
-  };
-  createdAt: Date;
-  isFavorite: boolean;
-}
-
-interface RecipeIngredient {
-  foodId: string;
-  foodName: string;
-  amount: number;
-  unit: string;
-  nutritionalContribution: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
-}
+import type { Recipe } from '../../lib/db';
+import { cookRecipe } from '../../lib/pantry';
+import {
+  deleteRecipe,
+  loadRecipes,
+  newRecipe,
+  saveRecipe,
+  toggleFavoriteRecipe,
+} from '../../lib/recipes';
 
 export default function EnhancedRecipeBuilder() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -52,6 +25,8 @@ export default function EnhancedRecipeBuilder() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  // Whether diary entries of an edited recipe follow the changes
+  const [updatePastEntries, setUpdatePastEntries] = useState(true);
 
   const difficultyColors = {
     Easy: 'bg-green-100 text-green-800 border-green-200',
@@ -60,86 +35,54 @@ export default function EnhancedRecipeBuilder() {
   };
 
   useEffect(() => {
-    loadRecipes();
+    loadRecipes().then(setRecipes);
+    const handler = () => loadRecipes().then(setRecipes);
+    window.addEventListener('recipes:changed', handler);
+    return () => window.removeEventListener('recipes:changed', handler);
   }, []);
 
-  const loadRecipes = async () => {
-    try {
-      // For now, we'll use localStorage. In a real app, this would be in the database
-      const savedRecipes = localStorage.getItem('wellnessdash_recipes');
-      if (savedRecipes) {
-        setRecipes(JSON.parse(savedRecipes));
-      }
-    } catch (error) {
-      console.error('Error loading recipes:', error);
-    }
-  };
-
-  const saveRecipes = (newRecipes: Recipe[]) => {
-    localStorage.setItem('wellnessdash_recipes', JSON.stringify(newRecipes));
-    setRecipes(newRecipes);
-  };
-
   const createNewRecipe = () => {
-    const newRecipe: Recipe = {
-      id: Date.now().toString(),
-      name: '',
-      description: '',
-      ingredients: [],
-      instructions: [''],
-      prepTime: 15,
-      cookTime: 30,
-      servings: 4,
-      difficulty: 'Medium',
-      tags: [],
-      nutritionalInfo: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 },
-      createdAt: new Date(),
-      isFavorite: false,
-    };
-    setSelectedRecipe(newRecipe);
+    setSelectedRecipe(newRecipe());
     setIsCreating(true);
   };
 
-  const saveRecipe = async (recipe: Recipe) => {
-    try {
-      // Calculate nutritional info from ingredients
-      const nutritionalInfo = recipe.ingredients.reduce(
-        (acc, ingredient) => ({
-          calories: acc.calories + ingredient.nutritionalContribution.calories,
-          protein: acc.protein + ingredient.nutritionalContribution.protein,
-          carbs: acc.carbs + ingredient.nutritionalContribution.carbs,
-          fat: acc.fat + ingredient.nutritionalContribution.fat,
-          fiber: 0, // Fiber not available in ingredient data
-        }),
-        { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
-      );
-
-      const updatedRecipe = { ...recipe, nutritionalInfo };
-      const existingIndex = recipes.findIndex((r) => r.id === recipe.id);
+  const closeRecipe = () => {
+    setIsCreating(false);
+    setSelectedRecipe(null);
+    setUpdatePastEntries(true);
+  };
 
-      let newRecipes: Recipe[];
-      if (existingIndex >= 0) {
-        newRecipes = [...recipes];
-        newRecipes[existingIndex] = updatedRecipe;
-      } else {
-        newRecipes = [...recipes, updatedRecipe];
-      }
+  const handleSaveRecipe = async (recipe: Recipe) => {
+    if (!recipe.name.trim()) {
+      alert('Please give the recipe a name');
+      return;
+    }
+    if (!(await saveRecipe(recipe, { updatePastEntries }))) {
+      alert('Failed to save recipe. Please try again.');
+      return;
+    }
+    closeRecipe();
+  };
 
-      saveRecipes(newRecipes);
-      setIsCreating(false);
-      setSelectedRecipe(null);
-    } catch (error) {
-      console.error('Error saving recipe:', error);
+  const handleDeleteRecipe = async (recipe: Recipe) => {
+    if (recipe.id !== undefined && (await deleteRecipe(recipe.id))) {
+      closeRecipe();
     }
   };
 
-  const toggleFavorite = (recipeId: string) => {
-    const newRecipes = recipes.map((r) =>
-      r.id === recipeId ? { ...r, isFavorite: !r.isFavorite } : r
+  // Take the whole recipe's ingredients out of the pantry
+  const handleCookRecipe = async (recipe: Recipe) => {
+    const used = await cookRecipe(recipe);
+    alert(
+      used > 0
+        ? `Took ${used} of ${recipe.ingredients.length} ingredients from the pantry`
+        : 'None of the ingredients are in the pantry'
     );
-    saveRecipes(newRecipes);
   };
 
+  const updateSelected = (changes: Partial<Recipe>) =>
+    setSelectedRecipe((prev) => (prev ? { ...prev, ...changes } : prev));
+
   const generateAIRecipe = async () => {
     if (!searchTerm.trim()) return;
 
@@ -149,29 +92,15 @@ export default function EnhancedRecipeBuilder() {
       const aiResponse = await generateMealIdeas(prompt);
 
       // Parse AI response and create recipe structure
-      const newRecipe: Recipe = {
-        id: Date.now().toString(),
-        name: `AI Generated: ${searchTerm}`,
-        description: aiResponse || 'AI-generated recipe based on your search.',
-        ingredients: [],
-        instructions: [aiResponse || ''],
-        prepTime: 15,
-        cookTime: 30,
-        servings: 4,
-        difficulty: 'Medium',
-        tags: [searchTerm.toLowerCase()],
-        nutritionalInfo: {
-          calories: 0,
-          protein: 0,
-          carbs: 0,
-          fat: 0,
-          fiber: 0,
-        },
-        createdAt: new Date(),
-        isFavorite: false,
-      };
-
-      setSelectedRecipe(newRecipe);
+      setSelectedRecipe(
+        newRecipe({
+          name: `AI Generated: ${searchTerm}`,
+          description:
+            aiResponse || 'AI-generated recipe based on your search.',
+          instructions: aiResponse || '',
+          tags: [searchTerm.toLowerCase()],
+        })
+      );
       setIsCreating(true);
     } catch (error) {
       console.error('Error generating AI recipe:', error);
@@ -305,7 +234,7 @@ export default function EnhancedRecipeBuilder() {
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      toggleFavorite(recipe.id);
+                      toggleFavoriteRecipe(recipe);
                     }}
                     className={`p-2 rounded-lg transition-all ${
                       recipe.isFavorite
@@ -341,21 +270,20 @@ export default function EnhancedRecipeBuilder() {
                 <div className="flex items-center justify-between">
                   <span
                     className={`px-3 py-1 rounded-full text-xs font-medium border ${
-                      difficultyColors[recipe.difficulty]
+                      difficultyColors[recipe.difficulty ?? 'Medium']
                     }`}
                   >
-                    {recipe.difficulty}
+                    {recipe.difficulty ?? 'Medium'}
                   </span>
 
                   {/* Nutritional Preview */}
                   <div className="text-right">
                     <div className="text-lg font-bold text-marigold-600">
-                      {recipe.nutritionalInfo.calories} kcal
+                      {recipe.nutrition.kcal} kcal
                     </div>
                     <div className="text-xs text-gray-500">
-                      P: {recipe.nutritionalInfo.protein}g | C:{' '}
-                      {recipe.nutritionalInfo.carbs}g | F:{' '}
-                      {recipe.nutritionalInfo.fat}g
+                      P: {recipe.nutrition.protein}g | C:{' '}
+                      {recipe.nutrition.carbs}g | F: {recipe.nutrition.fat}g
                     </div>
                   </div>
                 </div>
@@ -392,16 +320,13 @@ export default function EnhancedRecipeBuilder() {
 
       {/* Recipe Modal */}
       <AnimatePresence>
-        {(isCreating || selectedRecipe) && (
+        {selectedRecipe && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
-            onClick={() => {
-              setIsCreating(false);
-              setSelectedRecipe(null);
-            }}
+            onClick={closeRecipe}
           >
             <motion.div
               initial={{ scale: 0.9, opacity: 0 }}
@@ -410,31 +335,167 @@ export default function EnhancedRecipeBuilder() {
               className="bg-white rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
-              {/* Recipe Form Content would go here */}
               <div className="p-6">
                 <h2 className="text-2xl font-bold text-gray-900 mb-4">
                   {isCreating ? 'Create New Recipe' : 'Edit Recipe'}
                 </h2>
-                <p className="text-gray-600 mb-6">
-                  Recipe form implementation would go here with full CRUD
-                  functionality.
-                </p>
+
+                <div className="space-y-4 mb-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      value={selectedRecipe.name}
+                      onChange={(e) => updateSelected({ name: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <textarea
+                      value={selectedRecipe.description}
+                      onChange={(e) =>
+                        updateSelected({ description: e.target.value })
+                      }
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {(
+                      [
+                        ['prepTime', 'Prep (min)'],
+                        ['cookTime', 'Cook (min)'],
+                        ['servings', 'Servings'],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <div key={key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {label}
+                        </label>
+                        <input
+                          type="number"
+                          min={key === 'servings' ? 1 : 0}
+                          value={selectedRecipe[key]}
+                          onChange={(e) =>
+                            updateSelected({ [key]: Number(e.target.value) })
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Difficulty
+                      </label>
+                      <select
+                        value={selectedRecipe.difficulty ?? 'Medium'}
+                        onChange={(e) =>
+                          updateSelected({
+                            difficulty: e.target.value as Recipe['difficulty'],
+                          })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                      >
+                        {Object.keys(difficultyColors).map((level) => (
+                          <option key={level} value={level}>
+                            {level}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Cooked weight (g)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedRecipe.cookedWeight ?? ''}
+                      onChange={(e) =>
+                        updateSelected({
+                          cookedWeight: Number(e.target.value) || undefined,
+                        })
+                      }
+                      placeholder="Weight of the finished dish; blank uses the ingredients' weight"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Instructions
+                    </label>
+                    <textarea
+                      value={selectedRecipe.instructions}
+                      onChange={(e) =>
+                        updateSelected({ instructions: e.target.value })
+                      }
+                      rows={5}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                    />
+                  </div>
+                  {selectedRecipe.ingredients.length > 0 && (
+                    <div>
+                      <div className="text-sm font-medium text-gray-700 mb-1">
+                        Ingredients
+                      </div>
+                      <ul className="text-sm text-gray-600 space-y-1">
+                        {selectedRecipe.ingredients.map((ingredient, i) => (
+                          <li key={i}>
+                            {ingredient.foodName} · {ingredient.servingLabel}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+
+                {!isCreating && (
+                  <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={updatePastEntries}
+                      onChange={(e) => setUpdatePastEntries(e.target.checked)}
+                      className="rounded border-gray-300 text-marigold-600 focus:ring-marigold-500"
+                    />
+                    Update past diary entries of this recipe
+                  </label>
+                )}
+
                 <div className="flex gap-3">
                   <button
-                    onClick={() => selectedRecipe && saveRecipe(selectedRecipe)}
+                    onClick={() => handleSaveRecipe(selectedRecipe)}
                     className="px-6 py-2 bg-marigold-500 text-white rounded-lg hover:bg-marigold-600 transition-colors"
                   >
                     Save Recipe
                   </button>
                   <button
-                    onClick={() => {
-                      setIsCreating(false);
-                      setSelectedRecipe(null);
-                    }}
+                    onClick={closeRecipe}
                     className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
                   >
                     Cancel
                   </button>
+                  {!isCreating && (
+                    <button
+                      onClick={() => handleCookRecipe(selectedRecipe)}
+                      className="px-6 py-2 bg-mint-500 text-white rounded-lg hover:bg-mint-600 transition-colors"
+                    >
+                      Mark as Cooked
+                    </button>
+                  )}
+                  {!isCreating && (
+                    <button
+                      onClick={() => handleDeleteRecipe(selectedRecipe)}
+                      className="ml-auto px-6 py-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
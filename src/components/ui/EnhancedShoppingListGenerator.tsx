@@ -8,9 +8,37 @@ import {
   IconCategory,
   IconBrain,
   IconDownload,
+  IconCurrencyRupee,
+  IconBox,
 } from '@tabler/icons-react';
-import { db, type Food } from '../../lib/db';
+import { db, type Food, type FoodPrice } from '../../lib/db';
 import { generateMealIdeas } from '../../lib/ai';
+import { parseDateKey, todayKey } from '../../lib/dates';
+import { loadFoodLookup } from '../../lib/diary';
+import {
+  loadMealPlansFrom,
+  mealPlanFoodRefs,
+  mealPlanGroceries,
+} from '../../lib/mealPlanner';
+import { findFood } from '../../lib/nutrients';
+import {
+  deletePrice,
+  estimateCost,
+  formatINR,
+  loadPriceBook,
+  priceHistory,
+  pricePerKg,
+  savePrice,
+  type PriceBook,
+} from '../../lib/prices';
+import {
+  addStock,
+  defaultExpiry,
+  loadPantry,
+  stockOnHand,
+} from '../../lib/pantry';
+import { formatGrams, purchaseFor } from '../../lib/shoppingUnits';
+import PantryPanel from './PantryPanel';
 
 interface ShoppingItem {
   id: string;
@@ -18,8 +46,10 @@ interface ShoppingItem {
   category: string;
   quantity: number;
   unit: string;
-  estimatedPrice: number;
+  foodId?: number;
+  grams?: number; // total weight, when known; priced per kg
   isChecked: boolean;
+  stocked?: boolean; // bought and added to the pantry
   priority: 'High' | 'Medium' | 'Low';
   notes: string;
   source: 'manual' | 'meal-plan' | 'ai-suggested';
@@ -29,7 +59,6 @@ interface ShoppingList {
   id: string;
   name: string;
   items: ShoppingItem[];
-  totalEstimatedCost: number;
   createdAt: Date;
   isActive: boolean;
 }
@@ -60,6 +89,30 @@ const CATEGORY_COLORS = {
   'Baking Supplies': 'bg-amber-100 text-amber-800 border-amber-200',
 };
 
+// Weight of an item for pricing; other units are priced as packs
+const itemGrams = (item: ShoppingItem) =>
+  item.grams ??
+  (item.unit === 'g'
+    ? item.quantity
+    : item.unit === 'kg'
+    ? item.quantity * 1000
+    : undefined);
+
+const itemCost = (book: PriceBook, item: ShoppingItem) =>
+  estimateCost(
+    book,
+    { foodId: item.foodId, name: item.name },
+    itemGrams(item),
+    item.quantity
+  );
+
+const emptyPriceDraft = {
+  price: '',
+  unit: 'kg' as FoodPrice['unit'],
+  packGrams: '',
+  store: '',
+};
+
 const PRIORITY_COLORS = {
   High: 'bg-red-100 text-red-800 border-red-200',
   Medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -78,12 +131,32 @@ export default function EnhancedShoppingListGenerator({
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
   const [availableFoods, setAvailableFoods] = useState<Food[]>([]);
+  const [priceBook, setPriceBook] = useState<PriceBook>({
+    byFoodId: new Map(),
+    byName: new Map(),
+  });
+  // Item whose price history is open
+  const [pricingItem, setPricingItem] = useState<ShoppingItem | null>(null);
+  const [priceDraft, setPriceDraft] = useState(emptyPriceDraft);
+  const [showPantry, setShowPantry] = useState(false);
 
   useEffect(() => {
     loadShoppingLists();
     loadAvailableFoods();
   }, []);
 
+  useEffect(() => {
+    // Logged prices come from the diary
+    const refresh = () => loadPriceBook().then(setPriceBook);
+    refresh();
+    window.addEventListener('prices:changed', refresh);
+    window.addEventListener('diary:changed', refresh);
+    return () => {
+      window.removeEventListener('prices:changed', refresh);
+      window.removeEventListener('diary:changed', refresh);
+    };
+  }, []);
+
   const loadShoppingLists = async () => {
     try {
       const savedLists = localStorage.getItem('wellnessdash_shoppinglists');
@@ -120,7 +193,6 @@ export default function EnhancedShoppingListGenerator({
       id: Date.now().toString(),
       name: `Shopping List ${shoppingLists.length + 1}`,
       items: [],
-      totalEstimatedCost: 0,
       createdAt: new Date(),
       isActive: true,
     };
@@ -137,20 +209,20 @@ export default function EnhancedShoppingListGenerator({
     setIsCreating(false);
   };
 
-  const addItemToList = (listId: string, item: Omit<ShoppingItem, 'id'>) => {
-    const newItem: ShoppingItem = {
+  // Add several items in one update; ids stay unique within a millisecond
+  const addItemsToList = (
+    listId: string,
+    items: Omit<ShoppingItem, 'id'>[]
+  ) => {
+    const now = Date.now();
+    const newItems: ShoppingItem[] = items.map((item, i) => ({
       ...item,
-      id: Date.now().toString(),
-    };
+      id: i === 0 ? now.toString() : `${now}-${i}`,
+    }));
 
     const updatedLists = shoppingLists.map((list) => {
       if (list.id === listId) {
-        const newItems = [...list.items, newItem];
-        const totalCost = newItems.reduce(
-          (sum, item) => sum + item.estimatedPrice,
-          0
-        );
-        return { ...list, items: newItems, totalEstimatedCost: totalCost };
+        return { ...list, items: [...list.items, ...newItems] };
       }
       return list;
     });
@@ -164,12 +236,10 @@ export default function EnhancedShoppingListGenerator({
   const removeItemFromList = (listId: string, itemId: string) => {
     const updatedLists = shoppingLists.map((list) => {
       if (list.id === listId) {
-        const newItems = list.items.filter((item) => item.id !== itemId);
-        const totalCost = newItems.reduce(
-          (sum, item) => sum + item.estimatedPrice,
-          0
-        );
-        return { ...list, items: newItems, totalEstimatedCost: totalCost };
+        return {
+          ...list,
+          items: list.items.filter((item) => item.id !== itemId),
+        };
       }
       return list;
     });
@@ -202,56 +272,43 @@ export default function EnhancedShoppingListGenerator({
 
     setIsGeneratingAI(true);
     try {
-      // Get meal plan data from localStorage
-      const mealPlans = localStorage.getItem('wellnessdash_mealplans');
-      if (mealPlans) {
-        const plans = JSON.parse(mealPlans);
-        const allIngredients = new Map<
-          string,
-          { quantity: number; unit: string }
-        >();
-
-        // Aggregate ingredients from meal plans
-        plans.forEach((plan: any) => {
-          Object.values(plan.meals)
-            .flat()
-            .forEach((mealItem: any) => {
-              const food = availableFoods.find((f) => f.id === mealItem.foodId);
-              if (food) {
-                const key = food.name.toLowerCase();
-                const existing = allIngredients.get(key);
-                if (existing) {
-                  existing.quantity += mealItem.grams;
-                } else {
-                  allIngredients.set(key, {
-                    quantity: mealItem.grams,
-                    unit: 'g',
-                  });
-                }
-              }
-            });
-        });
+      // Planned foods and recipe ingredients from today on
+      const [plans, pantry] = await Promise.all([
+        loadMealPlansFrom(todayKey()),
+        loadPantry(),
+      ]);
+      const foods = await loadFoodLookup(mealPlanFoodRefs(plans));
 
-        // Add ingredients to shopping list
-        allIngredients.forEach((details, name) => {
-          const food = availableFoods.find(
-            (f) => f.name.toLowerCase() === name
-          );
-          if (food) {
-            addItemToList(activeList.id, {
-              name: food.name,
-              category: determineCategory(food),
-              quantity: Math.ceil(details.quantity / 100), // Convert to reasonable units
-              unit: 'units',
-              estimatedPrice: Math.random() * 10 + 2, // Random price for demo
-              isChecked: false,
-              priority: 'Medium',
-              notes: `From meal plan`,
-              source: 'meal-plan',
-            });
-          }
+      const items: Omit<ShoppingItem, 'id'>[] = [];
+      for (const grocery of mealPlanGroceries(plans, foods)) {
+        const food = findFood(foods, grocery.foodId, grocery.name);
+        const name = food?.name ?? grocery.name;
+        const purchase = purchaseFor(name, grocery.grams, {
+          food,
+          onHandGrams: stockOnHand(pantry, { foodId: food?.id, name }),
+        });
+        if (purchase.count === 0) continue;
+        const leftover =
+          purchase.leftoverGrams >= 1
+            ? `, ${formatGrams(purchase.leftoverGrams)} left over`
+            : '';
+        items.push({
+          name,
+          category: determineCategory(food ?? { name }),
+          quantity: purchase.count,
+          unit: purchase.unit,
+          foodId: food?.id,
+          // Whole packs are what gets paid for
+          grams: purchase.buyGrams,
+          isChecked: false,
+          priority: 'Medium',
+          notes: `From meal plan: needs ${formatGrams(
+            purchase.needGrams
+          )}${leftover}`,
+          source: 'meal-plan',
         });
       }
+      if (items.length) addItemsToList(activeList.id, items);
     } catch (error) {
       console.error('Error generating from meal plan:', error);
     } finally {
@@ -259,6 +316,36 @@ export default function EnhancedShoppingListGenerator({
     }
   };
 
+  // Checked-off items go into the pantry once; items without a known weight
+  // can't be stocked
+  const stockCheckedItems = async (list: ShoppingList) => {
+    const stocked = new Set<string>();
+    for (const item of list.items) {
+      const grams = itemGrams(item);
+      if (!item.isChecked || item.stocked || !grams) continue;
+      const added = await addStock({
+        foodId: item.foodId,
+        name: item.name,
+        grams,
+        expiry: defaultExpiry(item.name),
+      });
+      if (added) stocked.add(item.id);
+    }
+
+    const updatedLists = shoppingLists.map((l) =>
+      l.id === list.id
+        ? {
+            ...l,
+            items: l.items.map((item) =>
+              stocked.has(item.id) ? { ...item, stocked: true } : item
+            ),
+          }
+        : l
+    );
+    saveShoppingLists(updatedLists);
+    setActiveList(updatedLists.find((l) => l.id === list.id) || null);
+  };
+
   const generateAISuggestions = async () => {
     if (!activeList || !searchTerm.trim()) return;
 
@@ -309,15 +396,15 @@ export default function EnhancedShoppingListGenerator({
         },
       ];
 
-      suggestions.forEach((suggestion) => {
-        addItemToList(activeList.id, {
+      addItemsToList(
+        activeList.id,
+        suggestions.map((suggestion) => ({
           ...suggestion,
-          estimatedPrice: Math.random() * 15 + 5,
           isChecked: false,
           notes: 'AI suggested',
           source: 'ai-suggested',
-        });
-      });
+        }))
+      );
     } catch (error) {
       console.error('Error generating AI suggestions:', error);
     } finally {
@@ -325,7 +412,7 @@ export default function EnhancedShoppingListGenerator({
     }
   };
 
-  const determineCategory = (food: Food): string => {
+  const determineCategory = (food: Pick<Food, 'name' | 'tags'>): string => {
     const name = food.name.toLowerCase();
     const tags = food.tags?.map((tag) => tag.toLowerCase()) || [];
 
@@ -372,7 +459,42 @@ export default function EnhancedShoppingListGenerator({
     return 'Pantry Staples';
   };
 
+  const listCost = (list: ShoppingList) => {
+    const costs = list.items.map((item) => itemCost(priceBook, item));
+    return {
+      total: costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0),
+      unpriced: costs.filter((cost) => cost === null).length,
+    };
+  };
+
+  const openPrices = (item: ShoppingItem) => {
+    setPricingItem(item);
+    setPriceDraft(emptyPriceDraft);
+  };
+
+  const handleSavePrice = async () => {
+    if (!pricingItem) return;
+    const saved = await savePrice({
+      foodId: pricingItem.foodId,
+      foodName: pricingItem.name,
+      price: Number(priceDraft.price),
+      unit: priceDraft.unit,
+      packGrams:
+        priceDraft.unit === 'pack' && priceDraft.packGrams
+          ? Number(priceDraft.packGrams)
+          : undefined,
+      store: priceDraft.store,
+      date: todayKey(),
+    });
+    if (!saved) {
+      alert('Please enter a valid price');
+      return;
+    }
+    setPriceDraft(emptyPriceDraft);
+  };
+
   const exportList = (list: ShoppingList) => {
+    const { total, unpriced } = listCost(list);
     const content = `
 Shopping List: ${list.name}
 Generated: ${list.createdAt.toLocaleDateString()}
@@ -386,7 +508,9 @@ ${list.items
   )
   .join('\n')}
 
-Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
+Total Estimated Cost: ${formatINR(total)}${
+      unpriced > 0 ? ` (${unpriced} items without a price)` : ''
+    }
     `.trim();
 
     const blob = new Blob([content], { type: 'text/plain' });
@@ -408,6 +532,19 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
       return matchesSearch && matchesCategory;
     }) || [];
 
+  const activeCost = activeList ? listCost(activeList) : null;
+  // Bought items that can go into the pantry
+  const unstockedCount =
+    activeList?.items.filter(
+      (item) => item.isChecked && !item.stocked && itemGrams(item)
+    ).length ?? 0;
+  const pricingRef = pricingItem && {
+    foodId: pricingItem.foodId,
+    name: pricingItem.name,
+  };
+  const pricingHistory = pricingRef ? priceHistory(priceBook, pricingRef) : [];
+  const pricingPerKg = pricingRef ? pricePerKg(priceBook, pricingRef) : null;
+
   const groupedItems = filteredItems.reduce((groups, item) => {
     if (!groups[item.category]) {
       groups[item.category] = [];
@@ -467,6 +604,18 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
                 <IconPlus className="w-4 h-4 sm:w-5 sm:h-5" />
                 New List
               </button>
+
+              <button
+                onClick={() => setShowPantry(!showPantry)}
+                className={`px-4 sm:px-6 py-2 rounded-lg font-semibold transition-all flex items-center gap-2 text-sm sm:text-base w-full sm:w-auto justify-center ${
+                  showPantry
+                    ? 'bg-mint-500 text-white hover:bg-mint-600'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                <IconBox className="w-4 h-4 sm:w-5 sm:h-5" />
+                Pantry
+              </button>
             </div>
 
             {activeList && (
@@ -492,6 +641,8 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
           </div>
         </div>
 
+        {showPantry && <PantryPanel foods={availableFoods} />}
+
         {/* Search and Filters */}
         {activeList && (
           <div className="bg-white rounded-2xl p-4 sm:p-6 shadow-sm border border-gray-100 mb-6 sm:mb-8">
@@ -557,9 +708,14 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
                 </div>
                 <div className="text-right">
                   <div className="text-3xl font-bold text-marigold-600">
-                    ${activeList.totalEstimatedCost.toFixed(2)}
+                    {formatINR(activeCost!.total)}
                   </div>
                   <div className="text-sm text-gray-500">Estimated Total</div>
+                  {activeCost!.unpriced > 0 && (
+                    <div className="text-xs text-gray-400">
+                      {activeCost!.unpriced} items without a price
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -580,9 +736,20 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
                 ></div>
               </div>
 
-              <div className="text-sm text-gray-600">
-                {activeList.items.filter((item) => item.isChecked).length} of{' '}
-                {activeList.items.length} items completed
+              <div className="flex items-center justify-between gap-3 text-sm text-gray-600">
+                <span>
+                  {activeList.items.filter((item) => item.isChecked).length} of{' '}
+                  {activeList.items.length} items completed
+                </span>
+                {unstockedCount > 0 && (
+                  <button
+                    onClick={() => stockCheckedItems(activeList)}
+                    className="px-3 py-1 bg-mint-500 text-white rounded-lg font-medium hover:bg-mint-600 transition-colors flex items-center gap-1"
+                  >
+                    <IconBox className="w-4 h-4" />
+                    Add {unstockedCount} to Pantry
+                  </button>
+                )}
               </div>
             </div>
 
@@ -671,11 +838,21 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
                         </div>
 
                         <div className="flex items-center gap-3">
-                          <div className="text-right">
-                            <div className="font-semibold text-marigold-600">
-                              ${item.estimatedPrice.toFixed(2)}
-                            </div>
-                          </div>
+                          <button
+                            onClick={() => openPrices(item)}
+                            className="text-right hover:underline"
+                            title="Price history"
+                          >
+                            {itemCost(priceBook, item) !== null ? (
+                              <div className="font-semibold text-marigold-600">
+                                {formatINR(itemCost(priceBook, item)!)}
+                              </div>
+                            ) : (
+                              <div className="text-sm text-gray-400">
+                                Add price
+                              </div>
+                            )}
+                          </button>
 
                           <button
                             onClick={() =>
@@ -737,6 +914,144 @@ Total Estimated Cost: $${list.totalEstimatedCost.toFixed(2)}
         )}
       </div>
 
+      {/* Price History Modal */}
+      <AnimatePresence>
+        {pricingItem && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            onClick={() => setPricingItem(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-2xl font-bold text-gray-900 mb-1 flex items-center gap-2">
+                <IconCurrencyRupee className="w-6 h-6 text-marigold-600" />
+                {pricingItem.name}
+              </h2>
+              <p className="text-gray-600 mb-6">
+                {pricingPerKg !== null
+                  ? `About ${formatINR(pricingPerKg)} per kg`
+                  : 'No price per kg yet'}
+              </p>
+
+              <div className="grid grid-cols-2 gap-3 mb-3">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  inputMode="decimal"
+                  placeholder="Price (₹)"
+                  value={priceDraft.price}
+                  onChange={(e) =>
+                    setPriceDraft({ ...priceDraft, price: e.target.value })
+                  }
+                  className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                />
+                <select
+                  value={priceDraft.unit}
+                  onChange={(e) =>
+                    setPriceDraft({
+                      ...priceDraft,
+                      unit: e.target.value as FoodPrice['unit'],
+                    })
+                  }
+                  className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                >
+                  <option value="kg">per kg</option>
+                  <option value="pack">per pack</option>
+                </select>
+                {priceDraft.unit === 'pack' && (
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder="Pack size (g)"
+                    value={priceDraft.packGrams}
+                    onChange={(e) =>
+                      setPriceDraft({
+                        ...priceDraft,
+                        packGrams: e.target.value,
+                      })
+                    }
+                    className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                  />
+                )}
+                <input
+                  type="text"
+                  placeholder="Store (optional)"
+                  value={priceDraft.store}
+                  onChange={(e) =>
+                    setPriceDraft({ ...priceDraft, store: e.target.value })
+                  }
+                  className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                onClick={handleSavePrice}
+                disabled={!priceDraft.price}
+                className="w-full px-6 py-2 mb-6 bg-marigold-500 text-white rounded-lg hover:bg-marigold-600 transition-colors disabled:opacity-50"
+              >
+                Save Price
+              </button>
+
+              <h3 className="font-semibold text-gray-800 mb-3">
+                Price History
+              </h3>
+              {pricingHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Prices you enter here or pay when logging this food will show
+                  up here.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {pricingHistory.map((point, i) => (
+                    <div
+                      key={`${point.source}:${point.id ?? i}`}
+                      className="flex items-center justify-between gap-3 bg-gray-50 rounded-lg p-3 text-sm"
+                    >
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {formatINR(point.price)}
+                          {point.unit === 'kg'
+                            ? ' / kg'
+                            : point.unit === 'pack'
+                            ? ` / pack${
+                                point.grams ? ` of ${point.grams}g` : ''
+                              }`
+                            : point.grams
+                            ? ` for ${Math.round(point.grams)}g`
+                            : ''}
+                        </div>
+                        <div className="text-gray-500">
+                          {parseDateKey(point.date).toLocaleDateString()} ·{' '}
+                          {point.source === 'diary'
+                            ? 'Logged in diary'
+                            : point.store || 'Entered'}
+                        </div>
+                      </div>
+                      {point.source === 'manual' && point.id !== undefined && (
+                        <button
+                          onClick={() => deletePrice(point.id!)}
+                          className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <IconTrash className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Create List Modal */}
       <AnimatePresence>
         {isCreating && (
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { IconPlus, IconTrash, IconAlertTriangle } from '@tabler/icons-react';
+import type { Food } from '../../lib/db';
+import { daysBetweenKeys, todayKey } from '../../lib/dates';
+import {
+  addStock,
+  defaultExpiry,
+  deletePantryItem,
+  isExpired,
+  loadPantry,
+  updatePantryItem,
+  USE_SOON_DAYS,
+  type PantryItem,
+} from '../../lib/pantry';
+import { formatGrams } from '../../lib/shoppingUnits';
+
+const emptyDraft = { name: '', grams: '', expiry: '' };
+
+function expiryLabel(item: PantryItem, today: string) {
+  if (!item.expiry) return null;
+  const days = daysBetweenKeys(today, item.expiry);
+  if (days < 0)
+    return { text: 'Expired', className: 'bg-red-100 text-red-800' };
+  if (days <= USE_SOON_DAYS) {
+    return {
+      text:
+        days === 0
+          ? 'Use today'
+          : days === 1
+          ? 'Use by tomorrow'
+          : `Use in ${days} days`,
+      className: 'bg-orange-100 text-orange-800',
+    };
+  }
+  return {
+    text: `Until ${item.expiry}`,
+    className: 'bg-gray-100 text-gray-600',
+  };
+}
+
+export default function PantryPanel({ foods }: { foods: Food[] }) {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const today = todayKey();
+
+  useEffect(() => {
+    const refresh = () => loadPantry().then(setItems);
+    refresh();
+    window.addEventListener('pantry:changed', refresh);
+    return () => window.removeEventListener('pantry:changed', refresh);
+  }, []);
+
+  const updateName = (name: string) =>
+    setDraft((prev) => ({
+      ...prev,
+      name,
+      // Suggest a shelf life until one is entered
+      expiry:
+        prev.expiry && prev.expiry !== defaultExpiry(prev.name)
+          ? prev.expiry
+          : defaultExpiry(name) ?? '',
+    }));
+
+  const addDraft = async () => {
+    const food = foods.find(
+      (f) => f.name.toLowerCase() === draft.name.trim().toLowerCase()
+    );
+    const added = await addStock({
+      foodId: food?.id,
+      name: food?.name ?? draft.name,
+      grams: Number(draft.grams),
+      expiry: draft.expiry || undefined,
+    });
+    if (added) setDraft(emptyDraft);
+  };
+
+  const expiredCount = items.filter((item) => isExpired(item, today)).length;
+
+  return (
+    <div className="bg-white rounded-2xl p-4 sm:p-6 shadow-sm border border-gray-100 mb-6 sm:mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Pantry</h2>
+          <p className="text-sm text-gray-600">
+            Checked-off shopping adds stock; logging food and cooking recipes
+            use it up
+          </p>
+        </div>
+        {expiredCount > 0 && (
+          <span className="flex items-center gap-1 text-sm text-red-600">
+            <IconAlertTriangle className="w-4 h-4" />
+            {expiredCount} expired
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <input
+          type="text"
+          list="pantry-foods"
+          value={draft.name}
+          onChange={(e) => updateName(e.target.value)}
+          placeholder="Food"
+          className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+        />
+        <datalist id="pantry-foods">
+          {foods.map((food) => (
+            <option key={food.id} value={food.name} />
+          ))}
+        </datalist>
+        <input
+          type="number"
+          min="0"
+          value={draft.grams}
+          onChange={(e) => setDraft({ ...draft, grams: e.target.value })}
+          placeholder="Grams"
+          className="w-full sm:w-28 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+        />
+        <input
+          type="date"
+          value={draft.expiry}
+          onChange={(e) => setDraft({ ...draft, expiry: e.target.value })}
+          aria-label="Expiry date"
+          className="w-full sm:w-44 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-marigold-500 focus:border-transparent"
+        />
+        <button
+          onClick={addDraft}
+          disabled={!draft.name.trim() || !(Number(draft.grams) > 0)}
+          className="px-4 py-2 bg-marigold-500 text-white rounded-lg font-semibold hover:bg-marigold-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <IconPlus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">
+          Nothing in the pantry yet
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {items.map((item) => {
+            const label = expiryLabel(item, today);
+            return (
+              <div key={item.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">{item.name}</div>
+                  <div className="text-sm text-gray-500">
+                    {formatGrams(item.grams)}
+                  </div>
+                </div>
+                {label && (
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${label.className}`}
+                  >
+                    {label.text}
+                  </span>
+                )}
+                <input
+                  // Reset when the amount changes elsewhere
+                  key={`${item.id}:${item.grams}`}
+                  type="number"
+                  min="0"
+                  defaultValue={Math.round(item.grams)}
+                  onBlur={(e) => {
+                    const grams = Number(e.target.value);
+                    if (grams !== Math.round(item.grams)) {
+                      updatePantryItem({ ...item, grams });
+                    }
+                  }}
+                  aria-label={`Grams of ${item.name}`}
+                  className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-sm"
+                />
+                <button
+                  onClick={() => deletePantryItem(item.id!)}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <IconTrash className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@ import {
   IconCalendar,
   IconTarget,
 } from '@tabler/icons-react';
-import { db } from '../../lib/db';
+import { loadDailyTotals } from '../../lib/diary';
+import { addDaysToKey, parseDateKey, todayKey } from '../../lib/dates';
 
 interface ProgressTrackerProps {
   goals: {
@@ -39,48 +40,22 @@ export default function ProgressTracker({ goals }: ProgressTrackerProps) {
   const loadWeeklyData = async () => {
     setIsLoading(true);
     try {
-      const today = new Date();
-      const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const today = todayKey();
 
-      const entries = await db.diary
-        .where('date')
-        .between(
-          weekAgo.toISOString().split('T')[0],
-          today.toISOString().split('T')[0]
-        )
-        .toArray();
-
-      // Group entries by date and calculate totals
-      const dailyTotals = new Map<
-        string,
-        { kcal: number; protein: number; carbs: number; fat: number }
-      >();
-
-      for (const entry of entries) {
-        if (entry.foodId && entry.grams) {
-          const food = await db.foods.get(entry.foodId);
-          if (food) {
-            const multiplier = entry.grams / 100;
-            const existing = dailyTotals.get(entry.date) || {
-              kcal: 0,
-              protein: 0,
-              carbs: 0,
-              fat: 0,
-            };
-
-            dailyTotals.set(entry.date, {
-              kcal: existing.kcal + food.per100g.kcal * multiplier,
-              protein: existing.protein + food.per100g.protein * multiplier,
-              carbs: existing.carbs + food.per100g.carbs * multiplier,
-              fat: existing.fat + food.per100g.fat * multiplier,
-            });
-          }
-        }
-      }
+      const dates = Array.from({ length: 8 }, (_, i) =>
+        addDaysToKey(today, i - 7)
+      );
+      const dailyTotals = await loadDailyTotals(dates);
 
       // Convert to array and sort by date
-      const weeklyDataArray: WeeklyData[] = Array.from(dailyTotals.entries())
-        .map(([date, totals]) => ({ date, ...totals }))
+      const weeklyDataArray: WeeklyData[] = Object.entries(dailyTotals)
+        .map(([date, totals]) => ({
+          date,
+          kcal: totals.kcal,
+          protein: totals.protein,
+          carbs: totals.carbs,
+          fat: totals.fat,
+        }))
         .sort((a, b) => a.date.localeCompare(b.date));
 
       setWeeklyData(weeklyDataArray);
@@ -154,7 +129,7 @@ export default function ProgressTracker({ goals }: ProgressTrackerProps) {
   };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = parseDateKey(dateString);
     return date.toLocaleDateString('en-IN', {
       weekday: 'short',
       month: 'short',
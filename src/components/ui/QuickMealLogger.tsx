@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { IconSparkles, IconTrash, IconCheck } from '@tabler/icons-react';
+import type { Food } from '../../lib/db';
+import { entryNutrients } from '../../lib/nutrients';
+import {
+  draftMealEntries,
+  logMealDrafts,
+  mealForTime,
+  pickServing,
+  type Meal,
+  type MealDraft,
+} from '../../lib/mealParser';
+
+interface QuickMealLoggerProps {
+  date: string; // yyyy-MM-dd the items are logged to
+  onLogged: () => void;
+}
+
+const MEALS: { value: Meal; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+const STATUS_STYLES: Record<MealDraft['status'], string> = {
+  matched: 'bg-mint-100 text-mint-800',
+  estimated: 'bg-yellow-100 text-yellow-800',
+  unmatched: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<MealDraft['status'], string> = {
+  matched: 'Matched',
+  estimated: 'AI estimate',
+  unmatched: 'Pick a food',
+};
+
+const draftKcal = (draft: MealDraft) =>
+  Math.round(
+    entryNutrients(
+      { grams: draft.gramsPerUnit, quantity: draft.quantity },
+      draft.food
+    ).kcal
+  );
+
+export default function QuickMealLogger({
+  date,
+  onLogged,
+}: QuickMealLoggerProps) {
+  const [text, setText] = useState('');
+  const [meal, setMeal] = useState<Meal>(mealForTime());
+  const [drafts, setDrafts] = useState<MealDraft[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isLogging, setIsLogging] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleParse = async () => {
+    if (!text.trim()) return;
+    setIsParsing(true);
+    setMessage(null);
+    try {
+      const result = await draftMealEntries(text);
+      if (result.meal) setMeal(result.meal);
+      setDrafts(result.drafts);
+      if (result.drafts.length === 0) {
+        setMessage('Could not find any foods in that description.');
+      }
+    } catch (error) {
+      console.error('Error parsing meal:', error);
+      setMessage('Something went wrong reading that meal. Please try again.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<MealDraft>) => {
+    setDrafts((current) =>
+      current.map((draft, i) =>
+        i === index ? { ...draft, ...changes } : draft
+      )
+    );
+  };
+
+  const handleFoodChange = (index: number, food: Food) => {
+    const draft = drafts[index];
+    updateDraft(index, {
+      food,
+      status: draft.status === 'unmatched' ? 'matched' : draft.status,
+      ...pickServing(food, draft.item),
+    });
+  };
+
+  const handleServingChange = (index: number, label: string) => {
+    const draft = drafts[index];
+    const serving = draft.food?.servings?.find((s) => s.label === label);
+    if (serving) {
+      updateDraft(index, {
+        servingLabel: serving.label,
+        gramsPerUnit: serving.grams,
+      });
+    }
+  };
+
+  const handleLogAll = async () => {
+    setIsLogging(true);
+    try {
+      const logged = await logMealDrafts(drafts, meal, date);
+      setMessage(`Logged ${logged} item${logged === 1 ? '' : 's'} to ${meal}.`);
+      setDrafts([]);
+      setText('');
+      onLogged();
+    } catch (error) {
+      console.error('Error logging meal:', error);
+      setMessage('Failed to log the meal. Please try again.');
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  const readyCount = drafts.filter((draft) => draft.food).length;
+  const totalKcal = drafts.reduce((sum, draft) => sum + draftKcal(draft), 0);
+
+  return (
+    <div className="bg-white rounded-2xl p-4 sm:p-5 shadow-sm border border-gray-100">
+      <div className="flex items-center gap-2 mb-3">
+        <IconSparkles className="w-5 h-5 text-orange-500" />
+        <h3 className="text-lg font-semibold text-gray-800">Quick Log</h3>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleParse();
+          }}
+          placeholder="e.g. 2 rotis and a katori of dal for lunch"
+          className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all"
+        />
+        <button
+          onClick={handleParse}
+          disabled={isParsing || !text.trim()}
+          className="px-5 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-xl font-semibold transition-colors disabled:opacity-50"
+        >
+          {isParsing ? 'Reading...' : 'Parse'}
+        </button>
+      </div>
+
+      {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+
+      <AnimatePresence>
+        {drafts.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="mt-4 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700">
+                Log to
+                <select
+                  value={meal}
+                  onChange={(e) => setMeal(e.target.value as Meal)}
+                  className="ml-2 p-2 border border-gray-300 rounded-lg"
+                >
+                  {MEALS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="text-sm text-gray-600">{totalKcal} kcal</span>
+            </div>
+
+            {drafts.map((draft, index) => {
+              const choices = [
+                ...(draft.food ? [draft.food] : []),
+                ...draft.alternatives.filter((food) => food !== draft.food),
+              ];
+              const servings = draft.food?.servings || [];
+              return (
+                <div
+                  key={`${draft.item.text}:${index}`}
+                  className="p-3 border border-gray-200 rounded-xl"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-gray-500">
+                      “{draft.item.text}”
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          STATUS_STYLES[draft.status]
+                        }`}
+                      >
+                        {STATUS_LABELS[draft.status]}
+                      </span>
+                      <button
+                        onClick={() =>
+                          setDrafts(drafts.filter((_, i) => i !== index))
+                        }
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        aria-label="Remove item"
+                      >
+                        <IconTrash size={16} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                    <select
+                      value={draft.food ? choices.indexOf(draft.food) : -1}
+                      onChange={(e) =>
+                        handleFoodChange(index, choices[Number(e.target.value)])
+                      }
+                      className="sm:col-span-2 p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {!draft.food && (
+                        <option value={-1}>No match found</option>
+                      )}
+                      {choices.map((food, i) => (
+                        <option key={`${food.id ?? food.name}:${i}`} value={i}>
+                          {food.name}
+                          {food.brand ? ` (${food.brand})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0.25"
+                      step="0.25"
+                      value={draft.quantity}
+                      onChange={(e) =>
+                        updateDraft(index, {
+                          quantity: Math.max(0, Number(e.target.value) || 0),
+                        })
+                      }
+                      className="p-2 border border-gray-300 rounded-lg text-sm"
+                      aria-label="Quantity"
+                    />
+                    <select
+                      value={draft.servingLabel}
+                      onChange={(e) =>
+                        handleServingChange(index, e.target.value)
+                      }
+                      className="p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {!servings.some(
+                        (s) => s.label === draft.servingLabel
+                      ) && (
+                        <option value={draft.servingLabel}>
+                          {draft.servingLabel} ({draft.gramsPerUnit}g)
+                        </option>
+                      )}
+                      {servings.map((serving) => (
+                        <option key={serving.label} value={serving.label}>
+                          {serving.label} ({serving.grams}g)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {draft.food && (
+                    <div className="mt-2 text-xs text-gray-500">
+                      {draft.quantity} × {draft.servingLabel} ={' '}
+                      {Math.round(draft.gramsPerUnit * draft.quantity)}g •{' '}
+                      {draftKcal(draft)} kcal
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setDrafts([])}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleLogAll}
+                disabled={isLogging || readyCount === 0}
+                className="flex-1 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <IconCheck size={16} />
+                {isLogging
+                  ? 'Logging...'
+                  : `Log ${readyCount} item${readyCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
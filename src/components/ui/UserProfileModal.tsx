@@ -9,9 +9,41 @@ import {
   IconDeviceFloppy,
   IconEdit,
   IconScale,
+  IconDatabase,
+  IconTrash,
+  IconRuler,
 } from '@tabler/icons-react';
+import { format } from 'date-fns';
 import type { UserProfile } from '../../lib/supabaseAuth';
+import type { Goal } from '../../lib/db';
 import WeightTrackingModal from '../WeightTrackingModal';
+import BodyMeasurementsModal from '../BodyMeasurementsModal';
+import DataManager from './DataManager';
+import AdaptiveTdeeCard from './AdaptiveTdeeCard';
+import {
+  deviceTimeZone,
+  getTimeZone,
+  parseDateKey,
+  setTimeZone,
+  todayKey,
+} from '../../lib/dates';
+import {
+  deleteGoal,
+  goalForDate,
+  goalRecordForDate,
+  loadGoalHistory,
+  saveGoal,
+  type GoalTargets,
+} from '../../lib/goals';
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const GOAL_FIELDS: { key: keyof GoalTargets; label: string; unit: string }[] = [
+  { key: 'kcal', label: 'Daily Calories', unit: ' kcal' },
+  { key: 'protein', label: 'Daily Protein (g)', unit: 'g' },
+  { key: 'carbs', label: 'Daily Carbs (g)', unit: 'g' },
+  { key: 'fat', label: 'Daily Fat (g)', unit: 'g' },
+];
 
 interface UserProfileModalProps {
   user: UserProfile;
@@ -31,15 +63,87 @@ export default function UserProfileModal({
   const [isEditing, setIsEditing] = useState(false);
   const [editedProfile, setEditedProfile] = useState<UserProfile>(user);
   const [activeTab, setActiveTab] = useState<
-    'profile' | 'goals' | 'preferences'
+    'profile' | 'goals' | 'preferences' | 'data'
   >('profile');
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [showWeightTracking, setShowWeightTracking] = useState(false);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [timeZone, setTimeZoneState] = useState(getTimeZone);
+  const [goalHistory, setGoalHistory] = useState<Goal[]>([]);
+  const [goalDraft, setGoalDraft] = useState<GoalTargets>({
+    kcal: user.daily_targets.calories,
+    protein: user.daily_targets.protein,
+    carbs: user.daily_targets.carbs,
+    fat: user.daily_targets.fat,
+  });
+  const [goalEffectiveFrom, setGoalEffectiveFrom] = useState(todayKey);
 
   useEffect(() => {
     setEditedProfile(user);
   }, [user]);
 
+  useEffect(() => {
+    if (isOpen) loadGoalHistory().then(setGoalHistory);
+  }, [isOpen]);
+
+  // Today's goal, falling back to the profile's targets before any history
+  const activeGoal = goalRecordForDate(goalHistory, todayKey());
+  const currentGoal: GoalTargets = activeGoal
+    ? goalForDate(goalHistory, todayKey())
+    : {
+        kcal: user.daily_targets.calories,
+        protein: user.daily_targets.protein,
+        carbs: user.daily_targets.carbs,
+        fat: user.daily_targets.fat,
+      };
+
+  const startGoalEdit = () => {
+    setGoalDraft(currentGoal);
+    setGoalEffectiveFrom(todayKey());
+    setIsEditing(true);
+  };
+
+  const handleSaveGoal = async () => {
+    if (GOAL_FIELDS.some(({ key }) => !(goalDraft[key] > 0))) {
+      alert('Please enter goals greater than zero');
+      return;
+    }
+    if (!goalEffectiveFrom) {
+      alert('Please choose the date the new goals start from');
+      return;
+    }
+    if (await applyGoal(goalDraft, goalEffectiveFrom)) setIsEditing(false);
+  };
+
+  const applyGoal = async (targets: GoalTargets, effectiveFrom: string) => {
+    if (!(await saveGoal(targets, effectiveFrom))) {
+      alert('Failed to save goals. Please try again.');
+      return false;
+    }
+
+    // Keep the profile's targets in line with the goal in effect today
+    const history = await loadGoalHistory();
+    setGoalHistory(history);
+    const today = goalForDate(history, todayKey());
+    onUpdateProfile({
+      ...user,
+      daily_targets: {
+        calories: today.kcal,
+        protein: today.protein,
+        carbs: today.carbs,
+        fat: today.fat,
+      },
+    });
+
+    setShowSuccessMessage(true);
+    setTimeout(() => setShowSuccessMessage(false), 3000);
+    return true;
+  };
+
+  const handleDeleteGoal = async (id: number) => {
+    if (await deleteGoal(id)) setGoalHistory(await loadGoalHistory());
+  };
+
   const handleSave = () => {
     // Validate required fields
     if (!editedProfile.display_name.trim()) {
@@ -82,19 +186,6 @@ export default function UserProfileModal({
     }));
   };
 
-  const updateDailyTargets = (
-    field: keyof UserProfile['daily_targets'],
-    value: number
-  ) => {
-    setEditedProfile((prev) => ({
-      ...prev,
-      daily_targets: {
-        ...prev.daily_targets,
-        [field]: value,
-      },
-    }));
-  };
-
   // Calculate BMI when height or weight changes
   const updateHeightOrWeight = (field: 'height' | 'weight', value: number) => {
     setEditedProfile((prev) => {
@@ -210,6 +301,7 @@ export default function UserProfileModal({
                 { id: 'profile', label: 'Profile', icon: IconUser },
                 { id: 'goals', label: 'Goals', icon: IconTarget },
                 { id: 'preferences', label: 'Preferences', icon: IconSettings },
+                { id: 'data', label: 'Data', icon: IconDatabase },
               ].map((tab) => {
                 const Icon = tab.icon;
                 const isActive = activeTab === tab.id;
@@ -219,7 +311,7 @@ export default function UserProfileModal({
                     key={tab.id}
                     onClick={() =>
                       setActiveTab(
-                        tab.id as 'profile' | 'goals' | 'preferences'
+                        tab.id as 'profile' | 'goals' | 'preferences' | 'data'
                       )
                     }
                     className={`flex-1 flex items-center justify-center gap-2 py-4 px-6 transition-all ${
@@ -255,6 +347,13 @@ export default function UserProfileModal({
                           <IconScale className="w-4 h-4" />
                           Track Weight
                         </button>
+                        <button
+                          onClick={() => setShowMeasurements(true)}
+                          className="flex items-center gap-2 px-4 py-2 bg-orange-100 text-orange-700 rounded-lg hover:bg-orange-200 transition-colors"
+                        >
+                          <IconRuler className="w-4 h-4" />
+                          Measurements
+                        </button>
                         <button
                           onClick={() => setIsEditing(true)}
                           className="flex items-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
@@ -498,7 +597,7 @@ export default function UserProfileModal({
                   </h3>
                   {!isEditing && (
                     <button
-                      onClick={() => setIsEditing(true)}
+                      onClick={startGoalEdit}
                       className="flex items-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
                     >
                       <IconEdit className="w-4 h-4" />
@@ -508,97 +607,54 @@ export default function UserProfileModal({
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Daily Calories
-                    </label>
-                    {isEditing ? (
-                      <input
-                        type="number"
-                        value={editedProfile.daily_targets.calories}
-                        onChange={(e) =>
-                          updateDailyTargets(
-                            'calories',
-                            parseInt(e.target.value)
-                          )
-                        }
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      <div className="px-3 py-2 bg-gray-50 rounded-lg text-gray-900">
-                        {user.daily_targets.calories} kcal
-                      </div>
-                    )}
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Daily Protein (g)
-                    </label>
-                    {isEditing ? (
-                      <input
-                        type="number"
-                        value={editedProfile.daily_targets.protein}
-                        onChange={(e) =>
-                          updateDailyTargets(
-                            'protein',
-                            parseInt(e.target.value)
-                          )
-                        }
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      <div className="px-3 py-2 bg-gray-50 rounded-lg text-gray-900">
-                        {user.daily_targets.protein}g
-                      </div>
-                    )}
-                  </div>
+                  {GOAL_FIELDS.map(({ key, label, unit }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {label}
+                      </label>
+                      {isEditing ? (
+                        <input
+                          type="number"
+                          value={goalDraft[key]}
+                          onChange={(e) =>
+                            setGoalDraft((prev) => ({
+                              ...prev,
+                              [key]: parseInt(e.target.value),
+                            }))
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      ) : (
+                        <div className="px-3 py-2 bg-gray-50 rounded-lg text-gray-900">
+                          {currentGoal[key]}
+                          {unit}
+                        </div>
+                      )}
+                    </div>
+                  ))}
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Daily Carbs (g)
-                    </label>
-                    {isEditing ? (
+                  {isEditing && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Effective From
+                      </label>
                       <input
-                        type="number"
-                        value={editedProfile.daily_targets.carbs}
-                        onChange={(e) =>
-                          updateDailyTargets('carbs', parseInt(e.target.value))
-                        }
+                        type="date"
+                        value={goalEffectiveFrom}
+                        onChange={(e) => setGoalEffectiveFrom(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       />
-                    ) : (
-                      <div className="px-3 py-2 bg-gray-50 rounded-lg text-gray-900">
-                        {user.daily_targets.carbs}g
-                      </div>
-                    )}
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Daily Fat (g)
-                    </label>
-                    {isEditing ? (
-                      <input
-                        type="number"
-                        value={editedProfile.daily_targets.fat}
-                        onChange={(e) =>
-                          updateDailyTargets('fat', parseInt(e.target.value))
-                        }
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      <div className="px-3 py-2 bg-gray-50 rounded-lg text-gray-900">
-                        {user.daily_targets.fat}g
-                      </div>
-                    )}
-                  </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Days before this date keep their earlier goals
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {isEditing && (
                   <div className="flex gap-3 pt-4 border-t border-gray-200">
                     <button
-                      onClick={handleSave}
+                      onClick={handleSaveGoal}
                       className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                     >
                       <IconDeviceFloppy className="w-4 h-4" />
@@ -612,6 +668,66 @@ export default function UserProfileModal({
                     </button>
                   </div>
                 )}
+
+                {!isEditing && (
+                  <AdaptiveTdeeCard
+                    user={user}
+                    currentGoal={currentGoal}
+                    onAccept={(targets) => applyGoal(targets, todayKey())}
+                  />
+                )}
+
+                {/* Goal timeline, newest first */}
+                {goalHistory.length > 0 && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <h4 className="text-lg font-semibold text-gray-900 mb-3">
+                      Goal History
+                    </h4>
+                    <div className="space-y-2">
+                      {[...goalHistory].reverse().map((goal) => (
+                        <div
+                          key={goal.id}
+                          className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg"
+                        >
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-900">
+                                From{' '}
+                                {format(
+                                  parseDateKey(goal.effectiveFrom),
+                                  'MMM d, yyyy'
+                                )}
+                              </span>
+                              {goal.id === activeGoal?.id && (
+                                <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                                  Current
+                                </span>
+                              )}
+                              {goal.effectiveFrom > todayKey() && (
+                                <span className="px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-700 rounded-full">
+                                  Scheduled
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                              {goal.kcal} kcal · {goal.protein}g protein ·{' '}
+                              {goal.carbs}g carbs · {goal.fat}g fat
+                            </div>
+                          </div>
+                          {goalHistory.length > 1 && (
+                            <button
+                              onClick={() => handleDeleteGoal(goal.id!)}
+                              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              aria-label="Remove goal change"
+                            >
+                              <IconTrash className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -633,6 +749,39 @@ export default function UserProfileModal({
                   </div>
                 </div>
 
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <h4 className="font-medium text-gray-900 mb-2">Time Zone</h4>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Meals and weigh-ins are filed under the day they happen in
+                    this time zone. Today is {todayKey()}.
+                  </p>
+                  <select
+                    value={timeZone}
+                    onChange={(e) => {
+                      const next = e.target.value;
+                      if (
+                        setTimeZone(next === deviceTimeZone() ? null : next)
+                      ) {
+                        setTimeZoneState(next);
+                        window.dispatchEvent(new CustomEvent('diary:changed'));
+                      }
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {!TIME_ZONES.includes(deviceTimeZone()) && (
+                      <option value={deviceTimeZone()}>
+                        {deviceTimeZone()} (device)
+                      </option>
+                    )}
+                    {TIME_ZONES.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone}
+                        {zone === deviceTimeZone() ? ' (device)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                   <h4 className="font-medium text-gray-900 mb-2">
                     App Information
@@ -644,6 +793,9 @@ export default function UserProfileModal({
                 </div>
               </div>
             )}
+
+            {/* Data Tab */}
+            {activeTab === 'data' && <DataManager />}
           </div>
         </motion.div>
       </motion.div>
@@ -652,7 +804,6 @@ export default function UserProfileModal({
       <WeightTrackingModal
         isOpen={showWeightTracking}
         onClose={() => setShowWeightTracking(false)}
-        userId={user.id}
         currentWeight={user.weight}
         onWeightUpdate={(newWeight) => {
           // Update the user profile with new weight
@@ -660,6 +811,13 @@ export default function UserProfileModal({
           onUpdateProfile(updatedProfile);
         }}
       />
+
+      <BodyMeasurementsModal
+        isOpen={showMeasurements}
+        onClose={() => setShowMeasurements(false)}
+        gender={user.gender}
+        heightCm={user.height}
+      />
     </AnimatePresence>
   );
 }
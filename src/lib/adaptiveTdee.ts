@@ -0,0 +1,188 @@
+import { calculateBMR, getActivityMultiplier } from './ai';
+import {
+  latestBodyFat,
+  leanMass,
+  leanMassProtein,
+  loadMeasurements,
+} from './bodyMeasurements';
+import { addDaysToKey, todayKey } from './dates';
+import { loadDailyTotals } from './diary';
+import type { GoalTargets } from './goals';
+import type { UserProfile } from './supabaseAuth';
+import { WeightTrackingService, type TrendPoint } from './weightTracking';
+
+// Adaptive expenditure: each week, energy eaten minus energy stored (from the
+// change in trend weight) is what the body burned. Weekly estimates are
+// blended into the formula TDEE so a single odd week can't swing targets.
+
+// Energy in a kilogram of body-weight change, mostly fat
+const KCAL_PER_KG = 7700;
+// A week needs this many logged days before its intake is trusted
+const MIN_LOGGED_DAYS = 4;
+// Weight given to each new weekly estimate
+const WEEK_BLEND = 0.4;
+// Weeks of data before a proposal is offered
+const MIN_CONFIDENT_WEEKS = 2;
+const DEFAULT_WEEKS = 8;
+
+// Deficit or surplus applied to the TDEE, as in calculateDailyCalories
+const GOAL_FACTORS: Record<UserProfile['goal'], number> = {
+  lose: 0.85,
+  maintain: 1,
+  gain: 1.1,
+};
+
+export interface TdeeWeek {
+  start: string; // yyyy-MM-dd, first day of the week
+  end: string; // last day of the week
+  loggedDays: number;
+  intake: number | null; // average kcal per logged day
+  trendChange: number | null; // kg over the week
+  tdee: number | null; // null when the week lacks intake or weigh-ins
+}
+
+export interface TdeeEstimate {
+  tdee: number; // blended estimate, kcal/day
+  formulaTdee: number; // Mifflin-St Jeor × activity, the starting point
+  weeks: TdeeWeek[]; // oldest first
+  usableWeeks: number;
+  confident: boolean;
+  leanMass: number | null; // kg, from the latest body-fat reading
+}
+
+// Trend weight at the end of a day: the last weigh-in on or before it
+function trendOn(points: TrendPoint[], date: string): number | null {
+  let trend: number | null = null;
+  for (const point of points) {
+    if (point.date > date) break;
+    trend = point.trend;
+  }
+  return trend;
+}
+
+/**
+ * Week-by-week TDEE from daily intake (kcal by date) and trend weights,
+ * for the `weeks` full weeks ending on `lastDay`.
+ */
+export function calculateAdaptiveTdee(
+  dailyKcal: Record<string, number>,
+  points: TrendPoint[],
+  formulaTdee: number,
+  lastDay: string,
+  weeks = DEFAULT_WEEKS
+): Omit<TdeeEstimate, 'leanMass'> {
+  const result: TdeeWeek[] = [];
+  let tdee = formulaTdee;
+  let usableWeeks = 0;
+
+  for (let w = weeks - 1; w >= 0; w--) {
+    const end = addDaysToKey(lastDay, -7 * w);
+    const start = addDaysToKey(end, -6);
+
+    const logged: number[] = [];
+    for (let d = 0; d < 7; d++) {
+      const kcal = dailyKcal[addDaysToKey(start, d)];
+      if (kcal) logged.push(kcal);
+    }
+    const intake =
+      logged.length >= MIN_LOGGED_DAYS
+        ? logged.reduce((sum, kcal) => sum + kcal, 0) / logged.length
+        : null;
+
+    // Needs a weigh-in before the week and one during it
+    const before = trendOn(points, addDaysToKey(start, -1));
+    const after = trendOn(points, end);
+    const weighedDuring = points.some(
+      (point) => point.date >= start && point.date <= end
+    );
+    const trendChange =
+      before !== null && after !== null && weighedDuring
+        ? after - before
+        : null;
+
+    let weekTdee: number | null = null;
+    if (intake !== null && trendChange !== null) {
+      weekTdee = intake - (trendChange * KCAL_PER_KG) / 7;
+      tdee += WEEK_BLEND * (weekTdee - tdee);
+      usableWeeks++;
+    }
+
+    result.push({
+      start,
+      end,
+      loggedDays: logged.length,
+      intake: intake === null ? null : Math.round(intake),
+      trendChange:
+        trendChange === null ? null : Math.round(trendChange * 100) / 100,
+      tdee: weekTdee === null ? null : Math.round(weekTdee),
+    });
+  }
+
+  return {
+    tdee: Math.round(tdee),
+    formulaTdee: Math.round(formulaTdee),
+    weeks: result,
+    usableWeeks,
+    confident: usableWeeks >= MIN_CONFIDENT_WEEKS,
+  };
+}
+
+/** Estimate TDEE from the diary and weigh-ins, ending yesterday. */
+export async function estimateTdee(
+  profile: UserProfile,
+  weeks = DEFAULT_WEEKS
+): Promise<TdeeEstimate> {
+  const lastDay = addDaysToKey(todayKey(), -1); // today isn't finished yet
+  const dates = Array.from({ length: weeks * 7 }, (_, i) =>
+    addDaysToKey(lastDay, -i)
+  );
+
+  const [totals, entries, measurements] = await Promise.all([
+    loadDailyTotals(dates),
+    WeightTrackingService.getWeightEntries(),
+    loadMeasurements(),
+  ]);
+  const dailyKcal: Record<string, number> = {};
+  for (const [date, nutrients] of Object.entries(totals)) {
+    dailyKcal[date] = nutrients.kcal;
+  }
+  const points = WeightTrackingService.calculateTrendWeights(entries);
+
+  const weight = points[points.length - 1]?.trend ?? profile.weight;
+  const bmr = calculateBMR(
+    weight,
+    profile.height,
+    profile.age,
+    profile.gender === 'male' ? 'male' : 'female'
+  );
+  // Onboarding assumes moderate activity when none was chosen
+  const formulaTdee =
+    bmr * getActivityMultiplier(profile.activityLevel ?? 'moderately_active');
+
+  const bodyFat = latestBodyFat(measurements);
+
+  return {
+    ...calculateAdaptiveTdee(dailyKcal, points, formulaTdee, lastDay, weeks),
+    leanMass: bodyFat ? leanMass(weight, bodyFat.bodyFat) : null,
+  };
+}
+
+/**
+ * Daily targets for the estimated TDEE and the profile's goal. Protein comes
+ * from lean mass when body fat is known and otherwise stays as currently set;
+ * fat takes 25% of calories and carbs the rest, as in onboarding.
+ */
+export function proposeDailyTargets(
+  estimate: TdeeEstimate,
+  goal: UserProfile['goal'],
+  current: GoalTargets
+): GoalTargets {
+  const kcal = Math.round(estimate.tdee * GOAL_FACTORS[goal]);
+  const protein =
+    estimate.leanMass !== null
+      ? leanMassProtein(estimate.leanMass)
+      : current.protein;
+  const fat = Math.round((kcal * 0.25) / 9);
+  const carbs = Math.max(Math.round((kcal - protein * 4 - fat * 9) / 4), 0);
+  return { kcal, protein, carbs, fat };
+}
@@ -69,31 +69,183 @@ export async function generateMealIdeas(prompt: string): Promise<string> {
   }
 }
 
-// Enhanced meal planning with comprehensive context
-export async function generatePersonalizedMealPlan(context: MealPlanningContext): Promise<string> {
+export function isAIConfigured(): boolean {
+  return getProvider() !== null;
+}
+
+// Nutrition estimate for a food the local database doesn't know
+export interface AIFoodEstimate {
+  name: string;
+  servingLabel: string;
+  servingGrams: number;
+  per100g: { kcal: number; protein: number; carbs: number; fat: number };
+}
+
+// Estimate a single described food ("1 plate misal pav"). Returns null when AI is
+// unavailable or the reply isn't usable, so callers can fall back to manual entry.
+export async function estimateFoodWithAI(description: string): Promise<AIFoodEstimate | null> {
   const provider = getProvider();
-  if (!provider) {
-    return 'Configure VITE_OPENROUTER_API_KEY or VITE_GROQ_API_KEY to enable AI meal planning.';
-  }
+  if (!provider) return null;
+
+  const prompt = `Estimate the nutrition of this food as eaten in India: "${description}".
+Reply with only a JSON object, no prose:
+{"name": "<common dish name>", "servingLabel": "<typical serving, e.g. 1 plate>", "servingGrams": <grams in that serving>, "per100g": {"kcal": <number>, "protein": <grams>, "carbs": <grams>, "fat": <grams>}}`;
 
   try {
-    const prompt = buildComprehensiveMealPlanPrompt(context);
-    
-    if (provider === 'openrouter') {
-      return await generateWithOpenRouter(prompt);
+    const reply = provider === 'openrouter' ? await generateWithOpenRouter(prompt) : await generateWithGroq(prompt);
+    const json = reply.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return null;
+
+    const data = JSON.parse(json);
+    const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null);
+    const per100g = {
+      kcal: num(data?.per100g?.kcal),
+      protein: num(data?.per100g?.protein),
+      carbs: num(data?.per100g?.carbs),
+      fat: num(data?.per100g?.fat),
+    };
+    const servingGrams = num(data?.servingGrams);
+    if (typeof data?.name !== 'string' || !servingGrams || Object.values(per100g).some((v) => v === null)) {
+      return null;
     }
 
-    if (provider === 'groq') {
-      return await generateWithGroq(prompt);
+    return {
+      name: data.name.trim(),
+      servingLabel: typeof data.servingLabel === 'string' && data.servingLabel.trim() ? data.servingLabel.trim() : `${servingGrams}g`,
+      servingGrams,
+      per100g: per100g as AIFoodEstimate['per100g'],
+    };
+  } catch (error) {
+    console.error('AI food estimate failed:', error);
+    return null;
+  }
+}
+
+export type AIMealName = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+const AI_MEALS: AIMealName[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// One food in a suggested meal; macros are for the given grams, not per 100g
+export interface AIMealPlanItem {
+  name: string;
+  grams: number;
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface AIMealPlanDay {
+  day: number; // 1-based offset from the plan's start date
+  meals: Record<AIMealName, AIMealPlanItem[]>;
+}
+
+export interface AIMealPlan {
+  days: AIMealPlanDay[];
+}
+
+export type AIMealPlanResult = { ok: true; plan: AIMealPlan } | { ok: false; error: string };
+
+const MAX_PLAN_DAYS = 7;
+const MAX_MEAL_ITEMS = 8;
+// A week of JSON needs far more room than a prose answer
+const PLAN_MAX_TOKENS = 6000;
+
+const MEAL_PLAN_JSON_FORMAT = `Reply with only a JSON object, no prose or markdown:
+{"days": [{"day": 1, "meals": {"breakfast": [{"name": "<food>", "grams": <number>, "kcal": <number>, "protein": <grams>, "carbs": <grams>, "fat": <grams>}], "lunch": [...], "dinner": [...], "snack": [...]}}]}
+Each item is a single food or dish with a common name (e.g. "Moong Dal", "Roti", "Jeera Rice"), its portion in grams, and the calories and macros of that portion.`;
+
+function validateMealPlanItem(value: unknown): AIMealPlanItem | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  const num = (key: string) => {
+    const n = typeof data[key] === 'string' ? Number(data[key]) : data[key];
+    return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+  };
+  const item = { grams: num('grams'), kcal: num('kcal'), protein: num('protein'), carbs: num('carbs'), fat: num('fat') };
+  if (typeof data.name !== 'string' || !data.name.trim() || !item.grams || Object.values(item).some((v) => v === null)) {
+    return null;
+  }
+  return { name: data.name.trim(), ...(item as Omit<AIMealPlanItem, 'name'>) };
+}
+
+// Parse a model reply into a plan, dropping malformed items and empty days.
+// Returns null when nothing usable is left.
+export function parseAIMealPlan(reply: string): AIMealPlan | null {
+  const json = reply.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const rawDays = (data as { days?: unknown })?.days;
+  if (!Array.isArray(rawDays)) return null;
+
+  const days: AIMealPlanDay[] = [];
+  rawDays.slice(0, MAX_PLAN_DAYS).forEach((rawDay, index) => {
+    const rawMeals = (rawDay as { meals?: Record<string, unknown> })?.meals || {};
+    const meals = {} as AIMealPlanDay['meals'];
+    for (const meal of AI_MEALS) {
+      const items = Array.isArray(rawMeals[meal]) ? (rawMeals[meal] as unknown[]) : [];
+      meals[meal] = items
+        .map(validateMealPlanItem)
+        .filter((item): item is AIMealPlanItem => item !== null)
+        .slice(0, MAX_MEAL_ITEMS);
+    }
+    if (AI_MEALS.some((meal) => meals[meal].length > 0)) {
+      // Fall back to the position when the day number is missing, out of range or repeated
+      const day = Number((rawDay as { day?: unknown })?.day);
+      const valid = Number.isInteger(day) && day >= 1 && day <= MAX_PLAN_DAYS && !days.some((d) => d.day === day);
+      days.push({ day: valid ? day : index + 1, meals });
     }
+  });
 
-    return 'AI provider not available.';
+  return days.length > 0 ? { days } : null;
+}
+
+async function requestMealPlan(prompt: string): Promise<AIMealPlanResult> {
+  const provider = getProvider();
+  if (!provider) {
+    return { ok: false, error: 'Configure VITE_OPENROUTER_API_KEY or VITE_GROQ_API_KEY to enable AI meal planning.' };
+  }
+
+  try {
+    const reply =
+      provider === 'openrouter'
+        ? await generateWithOpenRouter(prompt, PLAN_MAX_TOKENS)
+        : await generateWithGroq(prompt, PLAN_MAX_TOKENS);
+    const plan = parseAIMealPlan(reply);
+    if (plan) return { ok: true, plan };
+
+    // Provider failures come back as plain messages; anything else is a reply we couldn't read
+    if (!reply.includes('{')) return { ok: false, error: reply };
+    console.error('Unreadable AI meal plan:', reply);
+    return { ok: false, error: 'The AI reply was not a valid meal plan. Please try again.' };
   } catch (err) {
     console.error('AI meal planning failed', err);
-    return 'AI meal planning failed. Please try again later.';
+    return { ok: false, error: 'AI meal planning failed. Please try again later.' };
   }
 }
 
+// Enhanced meal planning with comprehensive context
+export async function generatePersonalizedMealPlan(context: MealPlanningContext): Promise<AIMealPlanResult> {
+  return requestMealPlan(buildComprehensiveMealPlanPrompt(context));
+}
+
+// Suggestions for a single meal, returned as a one-day plan with only that meal filled
+export async function generateMealSuggestions(
+  meal: AIMealName,
+  goals: { calories: number; protein: number; carbs: number; fat: number }
+): Promise<AIMealPlanResult> {
+  const prompt = `Suggest 3 healthy Indian food options for ${meal} that together fit a balanced day of ${goals.calories} kcal with ${goals.protein}g protein, ${goals.carbs}g carbs and ${goals.fat}g fat. Include variety across food groups.
+Put all items under "${meal}" in a single day and leave the other meals empty.
+${MEAL_PLAN_JSON_FORMAT}`;
+  return requestMealPlan(prompt);
+}
+
 // Build comprehensive meal plan prompt
 function buildComprehensiveMealPlanPrompt(context: MealPlanningContext): string {
   const { userProfile, nutritionGoals, preferences } = context;
@@ -129,19 +281,18 @@ function buildComprehensiveMealPlanPrompt(context: MealPlanningContext): string
 5. Include traditional Indian foods like dal, roti, rice, vegetables
 6. Suggest seasonal and locally available ingredients
 7. Consider meal timing preferences
-8. Provide nutritional breakdown for each meal
-9. Include cooking tips and alternatives
+8. Each day's items should add up to the daily targets
+9. Include variety and follow Indian meal structure (dal-chawal, roti-sabzi, etc.)
 
 **Format:**
-- Day 1: [Meal] - [Foods with portions] - [Calories]
-- Include variety and balance
-- Consider Indian meal structure (dal-chawal, roti-sabzi, etc.)
+Plan days 1 to 7, with breakfast, lunch, dinner and snack for each day.
+${MEAL_PLAN_JSON_FORMAT}
 
 Make it practical, culturally appropriate, and nutritionally balanced.`;
 }
 
 // Generate with OpenRouter
-async function generateWithOpenRouter(prompt: string): Promise<string> {
+async function generateWithOpenRouter(prompt: string, maxTokens = 2000): Promise<string> {
   try {
     const resp = await fetch('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
@@ -173,7 +324,7 @@ Keep responses structured, informative, and actionable.`,
           { role: 'user', content: prompt },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
+        max_tokens: maxTokens,
       }),
     });
 
@@ -203,7 +354,7 @@ Keep responses structured, informative, and actionable.`,
 }
 
 // Generate with Groq
-async function generateWithGroq(prompt: string): Promise<string> {
+async function generateWithGroq(prompt: string, maxTokens = 2000): Promise<string> {
   try {
     const resp = await fetch('https://api.groq.com/openai/v1/chat/completions', {
       method: 'POST',
@@ -221,7 +372,7 @@ async function generateWithGroq(prompt: string): Promise<string> {
           { role: 'user', content: prompt },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
+        max_tokens: maxTokens,
       }),
     });
 
@@ -0,0 +1,125 @@
+import { addDays } from 'date-fns';
+import type { Food } from './db';
+import type { AIMealName, AIMealPlan, AIMealPlanItem } from './ai';
+import { dateKeyOf, todayDate } from './dates';
+import { foodSearchService } from './foodSearchService';
+import { MATCH_SCORE } from './mealParser';
+import { scaleNutrients } from './nutrients';
+import {
+  addMealPlans,
+  clearMealPlans,
+  plannedFood,
+  type NewMealPlan,
+} from './mealPlanner';
+
+// Turns a validated AI meal plan into real foods and writes it into the
+// weekly planner.
+
+export type ResolvedPlanItem = {
+  item: AIMealPlanItem;
+  // Saved food for matches; an unsaved AI food built from the item's macros otherwise
+  food: Food;
+  status: 'matched' | 'estimated';
+};
+
+export type ResolvedPlanDay = {
+  date: string; // yyyy-MM-dd
+  meals: Record<AIMealName, ResolvedPlanItem[]>;
+};
+
+const MEALS: AIMealName[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Macros in the plan are per portion; foods store them per 100g
+function foodFromItem(item: AIMealPlanItem): Food {
+  const per100 = (value: number) =>
+    Math.round(((value * 100) / item.grams) * 10) / 10;
+  return {
+    name: item.name,
+    per100g: {
+      kcal: per100(item.kcal),
+      protein: per100(item.protein),
+      carbs: per100(item.carbs),
+      fat: per100(item.fat),
+    },
+    servings: [{ label: `${Math.round(item.grams)}g`, grams: item.grams }],
+    tags: ['ai-estimate'],
+    source: 'ai',
+    verified: false,
+  };
+}
+
+async function resolveItem(item: AIMealPlanItem): Promise<ResolvedPlanItem> {
+  const response = await foodSearchService.search(item.name, {
+    limit: 1,
+    external: 'never',
+  });
+  const best = response.results[0];
+  if (best && best.score >= MATCH_SCORE) {
+    return { item, food: best.food, status: 'matched' };
+  }
+  return { item, food: foodFromItem(item), status: 'estimated' };
+}
+
+/**
+ * Match every item of a plan against saved foods. Day 1 falls on
+ * `startDate`; items without a confident match keep the AI's macros.
+ */
+export async function resolveAIMealPlan(
+  plan: AIMealPlan,
+  startDate: Date = todayDate()
+): Promise<ResolvedPlanDay[]> {
+  return Promise.all(
+    plan.days.map(async (day) => {
+      const meals = {} as ResolvedPlanDay['meals'];
+      for (const meal of MEALS) {
+        meals[meal] = await Promise.all(day.meals[meal].map(resolveItem));
+      }
+      return {
+        date: dateKeyOf(addDays(startDate, day.day - 1)),
+        meals,
+      };
+    })
+  );
+}
+
+/**
+ * Write resolved days into the planner, replacing whatever was planned on
+ * those dates. AI-estimated foods are saved first so planner items can
+ * reference them. Returns the number of items added.
+ */
+export async function acceptAIMealPlan(
+  days: ResolvedPlanDay[]
+): Promise<number> {
+  // Estimated dishes are saved once even if the plan repeats them across days
+  const saved = new Map<string, Food>();
+  const plans: NewMealPlan[] = [];
+
+  for (const day of days) {
+    for (const meal of MEALS) {
+      for (const { item, food } of day.meals[meal]) {
+        let savedFood = food.id === undefined ? saved.get(food.name) : food;
+        if (!savedFood) {
+          savedFood = await foodSearchService.persistFood(food);
+          saved.set(food.name, savedFood);
+        }
+        plans.push(plannedFood(day.date, meal, savedFood, item.grams));
+      }
+    }
+  }
+
+  await clearMealPlans(days.map((day) => day.date));
+  return (await addMealPlans(plans)).length;
+}
+
+// Calories and protein of a resolved day, as the planner will count them
+export const resolvedDayTotals = (day: ResolvedPlanDay) =>
+  MEALS.flatMap((meal) => day.meals[meal]).reduce(
+    (acc, { item, food }) => {
+      const nutrients = scaleNutrients(food.per100g, item.grams);
+      return {
+        kcal: acc.kcal + nutrients.kcal,
+        protein: acc.protein + nutrients.protein,
+      };
+    },
+    { kcal: 0, protein: 0 }
+  );
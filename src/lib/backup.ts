@@ -0,0 +1,1033 @@
+import {
+  db,
+  type Food,
+  type DiaryEntry,
+  type Goal,
+  type Recipe,
+  type MealPlan,
+  type SyncTable,
+  type WeightEntry,
+  type WeightGoal,
+  type BodyMeasurement,
+  type FoodPrice,
+  type PantryItem,
+} from './db';
+import { enqueueDelete, enqueueUpsert, flushOutbox } from './supabaseSync';
+import { isGeneratedWeightSeries } from './weightTracking';
+
+// Bump when the backup layout changes and add a step to MIGRATIONS
+export const BACKUP_VERSION = 6;
+const BACKUP_FORMAT = 'wellnessdash-backup';
+const SETTINGS_KEYS = ['goals', 'theme', 'preferences', 'budget'] as const;
+const MAX_REPORTED_ERRORS = 20;
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  foods: Food[];
+  diary: DiaryEntry[];
+  goals: Goal[];
+  recipes: Recipe[];
+  mealPlans: MealPlan[];
+  weightEntries: WeightEntry[];
+  weightGoals: WeightGoal[];
+  bodyMeasurements: BodyMeasurement[];
+  foodPrices: FoodPrice[];
+  pantry: PantryItem[];
+  settings: Partial<Record<(typeof SETTINGS_KEYS)[number], string | null>>;
+};
+
+export type BackupTable =
+  | 'foods'
+  | 'diary'
+  | 'goals'
+  | 'recipes'
+  | 'mealPlans'
+  | 'weightEntries'
+  | 'weightGoals'
+  | 'bodyMeasurements'
+  | 'foodPrices'
+  | 'pantry';
+export type ImportMode = 'merge' | 'replace';
+
+export type TableChanges = { added: number; skipped: number; removed: number };
+
+export type ImportPlan = {
+  mode: ImportMode;
+  tables: Record<BackupTable, TableChanges>;
+  settings: string[]; // settings keys that will be written
+  warnings: string[];
+};
+
+export type ParseResult =
+  | { ok: true; backup: BackupFile; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+const TABLE_NAMES: BackupTable[] = [
+  'foods',
+  'diary',
+  'goals',
+  'recipes',
+  'mealPlans',
+  'weightEntries',
+  'weightGoals',
+  'bodyMeasurements',
+  'foodPrices',
+  'pantry',
+];
+const MEALS = ['breakfast', 'lunch', 'dinner', 'snack'];
+const WEIGHT_GOAL_TYPES = ['lose', 'gain', 'maintain'];
+const MEASUREMENT_FIELDS = ['waist', 'hip', 'chest', 'arm', 'neck', 'bodyFat'];
+const BODY_FAT_SOURCES = ['manual', 'navy'];
+const PRICE_UNITS = ['kg', 'pack'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || value === null || isFiniteNumber(value);
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === 'string';
+
+export async function createBackup(): Promise<BackupFile> {
+  const [
+    foods,
+    diary,
+    goals,
+    recipes,
+    mealPlans,
+    weightEntries,
+    weightGoals,
+    bodyMeasurements,
+    foodPrices,
+    pantry,
+  ] = await Promise.all([
+    db.foods.toArray(),
+    db.diary.toArray(),
+    db.goals.toArray(),
+    db.recipes.toArray(),
+    db.mealPlans.toArray(),
+    db.weightEntries.toArray(),
+    db.weightGoals.toArray(),
+    db.bodyMeasurements.toArray(),
+    db.foodPrices.toArray(),
+    db.pantry.toArray(),
+  ]);
+
+  const settings: BackupFile['settings'] = {};
+  for (const key of SETTINGS_KEYS) {
+    settings[key] = localStorage.getItem(`wellnessdash_${key}`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    foods,
+    diary,
+    goals,
+    recipes,
+    mealPlans,
+    weightEntries,
+    weightGoals,
+    bodyMeasurements,
+    foodPrices,
+    pantry,
+    settings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Migration: each step upgrades a raw backup from version n to n + 1
+// ---------------------------------------------------------------------------
+
+const MIGRATIONS: Record<number, (raw: Raw) => Raw> = {
+  // v1 (DataManager '1.0.0'): string version, `timestamp`, optional tables,
+  // macros sometimes stored as strings
+  1: (raw) => ({
+    ...raw,
+    format: BACKUP_FORMAT,
+    version: 2,
+    exportedAt: raw.timestamp ?? new Date().toISOString(),
+    goals: raw.goals ?? [],
+    recipes: raw.recipes ?? [],
+    mealPlans: raw.mealPlans ?? [],
+    settings: raw.settings ?? {},
+    foods: Array.isArray(raw.foods)
+      ? raw.foods.map((food) =>
+          isRecord(food) && isRecord(food.per100g)
+            ? { ...food, per100g: coerceNumbers(food.per100g) }
+            : food
+        )
+      : raw.foods,
+  }),
+  // v2 kept weigh-ins as a JSON string in settings.weightData
+  2: (raw) => {
+    const settings = isRecord(raw.settings) ? { ...raw.settings } : {};
+    const weightEntries = legacyWeightEntries(
+      settings.weightData,
+      typeof raw.exportedAt === 'string'
+        ? raw.exportedAt
+        : new Date().toISOString()
+    );
+    delete settings.weightData;
+    return {
+      ...raw,
+      version: 3,
+      settings,
+      weightEntries,
+      weightGoals: [],
+    };
+  },
+  // v3 had no body measurements
+  3: (raw) => ({ ...raw, version: 4, bodyMeasurements: [] }),
+  // v4 had no price catalog
+  4: (raw) => ({ ...raw, version: 5, foodPrices: [] }),
+  // v5 had no pantry
+  5: (raw) => ({ ...raw, version: 6, pantry: [] }),
+};
+
+function legacyWeightEntries(weightData: unknown, createdAt: string): Raw[] {
+  if (typeof weightData !== 'string') return [];
+  try {
+    const parsed: unknown = JSON.parse(weightData);
+    // The demo chart older versions generated is not real weigh-ins
+    if (!Array.isArray(parsed) || isGeneratedWeightSeries(parsed)) return [];
+    return parsed
+      .filter(isRecord)
+      .map((item) => ({ date: item.date, weight: item.weight, createdAt }));
+  } catch {
+    return [];
+  }
+}
+
+function coerceNumbers(source: Raw): Raw {
+  const out: Raw = {};
+  for (const [key, value] of Object.entries(source)) {
+    const num = typeof value === 'string' ? Number(value) : value;
+    out[key] = isFiniteNumber(num) ? num : value;
+  }
+  return out;
+}
+
+function detectVersion(raw: Raw): number | null {
+  if (isFiniteNumber(raw.version)) return raw.version;
+  // Legacy exports used semver strings
+  if (typeof raw.version === 'string' && raw.version.startsWith('1.')) return 1;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function validateFood(food: Raw, path: string, errors: string[]) {
+  if (typeof food.name !== 'string' || !food.name.trim()) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  }
+  if (!isRecord(food.per100g)) {
+    errors.push(`${path}.per100g: expected an object`);
+  } else {
+    for (const [key, value] of Object.entries(food.per100g)) {
+      if (!isFiniteNumber(value)) {
+        errors.push(`${path}.per100g.${key}: expected a number`);
+      }
+    }
+    for (const macro of ['kcal', 'protein', 'carbs', 'fat']) {
+      if (food.per100g[macro] === undefined) {
+        errors.push(`${path}.per100g.${macro}: missing`);
+      }
+    }
+  }
+  if (food.servings !== undefined && !Array.isArray(food.servings)) {
+    errors.push(`${path}.servings: expected an array`);
+  }
+  if (!isOptionalString(food.brand)) {
+    errors.push(`${path}.brand: expected a string`);
+  }
+  if (
+    food.aliases !== undefined &&
+    !(
+      Array.isArray(food.aliases) &&
+      food.aliases.every((alias) => typeof alias === 'string')
+    )
+  ) {
+    errors.push(`${path}.aliases: expected an array of strings`);
+  }
+}
+
+function validateDiary(entry: Raw, path: string, errors: string[]) {
+  if (typeof entry.date !== 'string' || !DATE_RE.test(entry.date)) {
+    errors.push(`${path}.date: expected YYYY-MM-DD`);
+  }
+  if (!MEALS.includes(entry.meal as string)) {
+    errors.push(`${path}.meal: expected one of ${MEALS.join(', ')}`);
+  }
+  for (const key of ['foodId', 'recipeId', 'grams', 'quantity', 'price']) {
+    if (!isOptionalNumber(entry[key])) {
+      errors.push(`${path}.${key}: expected a number`);
+    }
+  }
+  if (entry.overrides !== undefined && !isRecord(entry.overrides)) {
+    errors.push(`${path}.overrides: expected an object`);
+  }
+}
+
+function validateGoal(goal: Raw, path: string, errors: string[]) {
+  if (
+    typeof goal.effectiveFrom !== 'string' ||
+    !DATE_RE.test(goal.effectiveFrom)
+  ) {
+    errors.push(`${path}.effectiveFrom: expected YYYY-MM-DD`);
+  }
+  for (const key of ['kcal', 'protein', 'carbs', 'fat']) {
+    if (!isFiniteNumber(goal[key])) {
+      errors.push(`${path}.${key}: expected a number`);
+    }
+  }
+}
+
+function validateRecipe(recipe: Raw, path: string, errors: string[]) {
+  if (typeof recipe.name !== 'string' || !recipe.name.trim()) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  }
+  if (!Array.isArray(recipe.ingredients)) {
+    errors.push(`${path}.ingredients: expected an array`);
+  } else {
+    recipe.ingredients.forEach((ingredient, i) => {
+      if (
+        !isRecord(ingredient) ||
+        !isFiniteNumber(ingredient.foodId) ||
+        !isFiniteNumber(ingredient.grams)
+      ) {
+        errors.push(
+          `${path}.ingredients[${i}]: expected numeric foodId and grams`
+        );
+      }
+    });
+  }
+  if (!isFiniteNumber(recipe.servings)) {
+    errors.push(`${path}.servings: expected a number`);
+  }
+  if (!isOptionalNumber(recipe.cookedWeight)) {
+    errors.push(`${path}.cookedWeight: expected a number`);
+  }
+}
+
+function validateMealPlan(plan: Raw, path: string, errors: string[]) {
+  if (typeof plan.date !== 'string' || !DATE_RE.test(plan.date)) {
+    errors.push(`${path}.date: expected YYYY-MM-DD`);
+  }
+  if (!MEALS.includes(plan.meal as string)) {
+    errors.push(`${path}.meal: expected one of ${MEALS.join(', ')}`);
+  }
+  for (const key of ['recipeId', 'foodId', 'grams']) {
+    if (!isOptionalNumber(plan[key])) {
+      errors.push(`${path}.${key}: expected a number`);
+    }
+  }
+}
+
+function validateWeightEntry(entry: Raw, path: string, errors: string[]) {
+  if (typeof entry.date !== 'string' || !DATE_RE.test(entry.date)) {
+    errors.push(`${path}.date: expected YYYY-MM-DD`);
+  }
+  if (!isFiniteNumber(entry.weight) || entry.weight <= 0) {
+    errors.push(`${path}.weight: expected a positive number`);
+  }
+  if (!isOptionalString(entry.notes)) {
+    errors.push(`${path}.notes: expected a string`);
+  }
+}
+
+function validateWeightGoal(goal: Raw, path: string, errors: string[]) {
+  for (const key of ['targetWeight', 'currentWeight']) {
+    if (!isFiniteNumber(goal[key])) {
+      errors.push(`${path}.${key}: expected a number`);
+    }
+  }
+  if (!WEIGHT_GOAL_TYPES.includes(goal.goalType as string)) {
+    errors.push(
+      `${path}.goalType: expected one of ${WEIGHT_GOAL_TYPES.join(', ')}`
+    );
+  }
+}
+
+function validateBodyMeasurement(
+  measurement: Raw,
+  path: string,
+  errors: string[]
+) {
+  if (typeof measurement.date !== 'string' || !DATE_RE.test(measurement.date)) {
+    errors.push(`${path}.date: expected YYYY-MM-DD`);
+  }
+  for (const key of MEASUREMENT_FIELDS) {
+    const value = measurement[key];
+    if (!isOptionalNumber(value) || (isFiniteNumber(value) && value <= 0)) {
+      errors.push(`${path}.${key}: expected a positive number`);
+    }
+  }
+  if (
+    measurement.bodyFatSource !== undefined &&
+    !BODY_FAT_SOURCES.includes(measurement.bodyFatSource as string)
+  ) {
+    errors.push(
+      `${path}.bodyFatSource: expected one of ${BODY_FAT_SOURCES.join(', ')}`
+    );
+  }
+  if (!isOptionalString(measurement.notes)) {
+    errors.push(`${path}.notes: expected a string`);
+  }
+}
+
+function validateFoodPrice(price: Raw, path: string, errors: string[]) {
+  if (typeof price.foodName !== 'string' || !price.foodName.trim()) {
+    errors.push(`${path}.foodName: expected a non-empty string`);
+  }
+  if (!isFiniteNumber(price.price) || price.price < 0) {
+    errors.push(`${path}.price: expected a non-negative number`);
+  }
+  if (!PRICE_UNITS.includes(price.unit as string)) {
+    errors.push(`${path}.unit: expected one of ${PRICE_UNITS.join(', ')}`);
+  }
+  for (const key of ['foodId', 'packGrams']) {
+    if (!isOptionalNumber(price[key])) {
+      errors.push(`${path}.${key}: expected a number`);
+    }
+  }
+  if (typeof price.date !== 'string' || !DATE_RE.test(price.date)) {
+    errors.push(`${path}.date: expected YYYY-MM-DD`);
+  }
+  if (!isOptionalString(price.store)) {
+    errors.push(`${path}.store: expected a string`);
+  }
+}
+
+function validatePantryItem(item: Raw, path: string, errors: string[]) {
+  if (typeof item.name !== 'string' || !item.name.trim()) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  }
+  if (!isFiniteNumber(item.grams) || item.grams < 0) {
+    errors.push(`${path}.grams: expected a non-negative number`);
+  }
+  if (!isOptionalNumber(item.foodId)) {
+    errors.push(`${path}.foodId: expected a number`);
+  }
+  if (
+    item.expiry !== undefined &&
+    (typeof item.expiry !== 'string' || !DATE_RE.test(item.expiry))
+  ) {
+    errors.push(`${path}.expiry: expected YYYY-MM-DD`);
+  }
+}
+
+const VALIDATORS: Record<
+  BackupTable,
+  (record: Raw, path: string, errors: string[]) => void
+> = {
+  foods: validateFood,
+  diary: validateDiary,
+  goals: validateGoal,
+  recipes: validateRecipe,
+  mealPlans: validateMealPlan,
+  weightEntries: validateWeightEntry,
+  weightGoals: validateWeightGoal,
+  bodyMeasurements: validateBodyMeasurement,
+  foodPrices: validateFoodPrice,
+  pantry: validatePantryItem,
+};
+
+/**
+ * Parse, migrate and validate a backup file. Nothing is written; a file with
+ * any invalid record is rejected as a whole.
+ */
+export function parseBackup(text: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON'] };
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ['Backup must be a JSON object'] };
+  }
+
+  const originalVersion = detectVersion(raw);
+  if (originalVersion === null) {
+    return { ok: false, errors: ['Missing or unrecognised backup version'] };
+  }
+  if (originalVersion > BACKUP_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `Backup version ${originalVersion} is newer than this app supports (${BACKUP_VERSION}). Update the app and try again.`,
+      ],
+    };
+  }
+
+  let migrated: Raw = raw;
+  for (let v = originalVersion; v < BACKUP_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+
+  const errors: string[] = [];
+  for (const table of TABLE_NAMES) {
+    const records = migrated[table];
+    if (!Array.isArray(records)) {
+      errors.push(`${table}: expected an array`);
+      continue;
+    }
+    records.forEach((record, i) => {
+      const path = `${table}[${i}]`;
+      if (!isRecord(record)) {
+        errors.push(`${path}: expected an object`);
+      } else {
+        VALIDATORS[table](record, path, errors);
+      }
+    });
+  }
+  if (!isRecord(migrated.settings)) {
+    errors.push('settings: expected an object');
+  } else {
+    for (const [key, value] of Object.entries(migrated.settings)) {
+      if (!isOptionalString(value)) {
+        errors.push(`settings.${key}: expected a string`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    const hidden = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      ok: false,
+      errors:
+        hidden > 0
+          ? [
+              ...errors.slice(0, MAX_REPORTED_ERRORS),
+              `...and ${hidden} more problems`,
+            ]
+          : errors,
+    };
+  }
+
+  return {
+    ok: true,
+    backup: migrated as BackupFile,
+    migratedFrom: originalVersion < BACKUP_VERSION ? originalVersion : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// Thrown inside the transaction to roll back a dry run
+class DryRunRollback extends Error {
+  plan: ImportPlan;
+
+  constructor(plan: ImportPlan) {
+    super('dry run');
+    this.plan = plan;
+  }
+}
+
+const emptyChanges = (): TableChanges => ({ added: 0, skipped: 0, removed: 0 });
+
+/** Preview an import. Runs the real import and rolls it back. */
+export async function previewImport(
+  backup: BackupFile,
+  mode: ImportMode
+): Promise<ImportPlan> {
+  try {
+    await runImport(backup, mode, true);
+  } catch (error) {
+    if (error instanceof DryRunRollback) return error.plan;
+    throw error;
+  }
+  throw new Error('Dry run did not roll back');
+}
+
+/**
+ * Import a validated backup in one transaction; any failure rolls every table
+ * back. Local ids are never reused: foods, recipes and the references to them
+ * (diary foodId, ingredient foodId, meal plan recipeId) are remapped.
+ */
+export async function applyImport(
+  backup: BackupFile,
+  mode: ImportMode
+): Promise<ImportPlan> {
+  const plan = await runImport(backup, mode, false);
+  writeSettings(backup, plan);
+  window.dispatchEvent(new CustomEvent('diary:changed'));
+  return plan;
+}
+
+/**
+ * Delete all data on this device and, when sync is on, on every synced
+ * device. Sync cursors and the search index start over.
+ */
+export async function clearAllData(): Promise<void> {
+  await db.transaction(
+    'rw',
+    [
+      ...TABLE_NAMES.map((table) => db.table(table)),
+      db.outbox,
+      db.syncState,
+      db.foodIndex,
+    ],
+    async () => {
+      await removeAllRecords(new Set());
+      await db.syncState.clear();
+      await db.foodIndex.clear();
+    }
+  );
+  void flushOutbox();
+}
+
+// Empty every data table inside the caller's transaction. Removed records
+// are deleted remotely too, or the next pull would bring them back, unless
+// their syncId is in `keep`. Returns the number removed per table.
+async function removeAllRecords(
+  keep: Set<string | undefined>
+): Promise<Record<BackupTable, number>> {
+  // Pending uploads point at records that no longer exist
+  await db.outbox.clear();
+  const removed = {} as Record<BackupTable, number>;
+  for (const table of TABLE_NAMES) {
+    const records: { id?: number; syncId?: string }[] = await db
+      .table(table)
+      .toArray();
+    removed[table] = records.length;
+    await db.table(table).clear();
+    if (table === 'goals') continue; // not synced
+    for (const record of records) {
+      if (record.syncId && !keep.has(record.syncId)) {
+        await enqueueDelete(table, record.id!, record.syncId);
+      }
+    }
+  }
+  return removed;
+}
+
+async function runImport(
+  backup: BackupFile,
+  mode: ImportMode,
+  dryRun: boolean
+): Promise<ImportPlan> {
+  const plan: ImportPlan = {
+    mode,
+    tables: {
+      foods: emptyChanges(),
+      diary: emptyChanges(),
+      goals: emptyChanges(),
+      recipes: emptyChanges(),
+      mealPlans: emptyChanges(),
+      weightEntries: emptyChanges(),
+      weightGoals: emptyChanges(),
+      bodyMeasurements: emptyChanges(),
+      foodPrices: emptyChanges(),
+      pantry: emptyChanges(),
+    },
+    settings: settingsToWrite(backup, mode),
+    warnings: [],
+  };
+
+  await db.transaction(
+    'rw',
+    [
+      db.foods,
+      db.diary,
+      db.goals,
+      db.recipes,
+      db.mealPlans,
+      db.weightEntries,
+      db.weightGoals,
+      db.bodyMeasurements,
+      db.foodPrices,
+      db.pantry,
+      db.outbox,
+    ],
+    async () => {
+      if (mode === 'replace') {
+        // Records the backup restores are upserted instead of deleted
+        const restored = new Set(
+          TABLE_NAMES.flatMap((table) =>
+            (backup[table] as { syncId?: string }[]).map(
+              (record) => record.syncId
+            )
+          )
+        );
+        const removed = await removeAllRecords(restored);
+        for (const table of TABLE_NAMES) {
+          plan.tables[table].removed = removed[table];
+        }
+      }
+
+      const foodIds = await importFoods(backup.foods, plan);
+      const recipeIds = await importRecipes(backup.recipes, foodIds, plan);
+      await importDiary(backup.diary, foodIds, recipeIds, plan);
+      await importMealPlans(backup.mealPlans, recipeIds, foodIds, plan);
+      await importGoals(backup.goals, plan);
+      await importWeightEntries(backup.weightEntries, plan);
+      await importWeightGoals(backup.weightGoals, plan);
+      await importBodyMeasurements(backup.bodyMeasurements, plan);
+      await importFoodPrices(backup.foodPrices, foodIds, plan);
+      await importPantry(backup.pantry, foodIds, plan);
+
+      if (dryRun) throw new DryRunRollback(plan);
+    }
+  );
+
+  return plan;
+}
+
+// Local ids are never carried over from a backup
+function withoutId<T extends { id?: number }>(record: T): Omit<T, 'id'> {
+  const copy = { ...record };
+  delete copy.id;
+  return copy;
+}
+
+async function findBySyncId<T>(
+  table: SyncTable,
+  syncId: string | undefined
+): Promise<(T & { id?: number }) | undefined> {
+  if (!syncId) return undefined;
+  return db.table(table).where('syncId').equals(syncId).first();
+}
+
+async function importFoods(
+  foods: Food[],
+  plan: ImportPlan
+): Promise<Map<number, number>> {
+  const ids = new Map<number, number>();
+  for (const { id: oldId, ...food } of foods) {
+    const existing =
+      (await findBySyncId<Food>('foods', food.syncId)) ||
+      (food.barcode
+        ? await db.foods.where('barcode').equals(food.barcode).first()
+        : undefined) ||
+      (await db.foods
+        .where('name')
+        .equals(food.name)
+        .and((f) => f.brand === food.brand)
+        .first());
+
+    let newId: number;
+    if (existing?.id !== undefined) {
+      newId = existing.id;
+      plan.tables.foods.skipped++;
+    } else {
+      const syncId = food.syncId ?? crypto.randomUUID();
+      newId = await db.foods.add({ ...food, syncId });
+      await enqueueUpsert('foods', newId, syncId);
+      plan.tables.foods.added++;
+    }
+    if (oldId !== undefined) ids.set(oldId, newId);
+  }
+  return ids;
+}
+
+async function importRecipes(
+  recipes: Recipe[],
+  foodIds: Map<number, number>,
+  plan: ImportPlan
+): Promise<Map<number, number>> {
+  const ids = new Map<number, number>();
+  let dangling = 0;
+  for (const { id: oldId, ...recipe } of recipes) {
+    const existing =
+      (await findBySyncId<Recipe>('recipes', recipe.syncId)) ||
+      (await db.recipes
+        .where('name')
+        .equals(recipe.name)
+        .and((r) => r.createdAt === recipe.createdAt)
+        .first());
+
+    let newId: number;
+    if (existing?.id !== undefined) {
+      newId = existing.id;
+      plan.tables.recipes.skipped++;
+    } else {
+      const ingredients = recipe.ingredients.map((ingredient) => {
+        const foodId = foodIds.get(ingredient.foodId);
+        if (foodId === undefined) dangling++;
+        return { ...ingredient, foodId: foodId ?? 0 };
+      });
+      const syncId = recipe.syncId ?? crypto.randomUUID();
+      newId = await db.recipes.add({ ...recipe, ingredients, syncId });
+      await enqueueUpsert('recipes', newId, syncId);
+      plan.tables.recipes.added++;
+    }
+    if (oldId !== undefined) ids.set(oldId, newId);
+  }
+  if (dangling > 0) {
+    plan.warnings.push(
+      `${dangling} recipe ingredients reference foods missing from the backup`
+    );
+  }
+  return ids;
+}
+
+async function importDiary(
+  entries: DiaryEntry[],
+  foodIds: Map<number, number>,
+  recipeIds: Map<number, number>,
+  plan: ImportPlan
+) {
+  let dangling = 0;
+  for (const entry of entries.map(withoutId)) {
+    const foodId =
+      entry.foodId === undefined ? undefined : foodIds.get(entry.foodId);
+    const recipeId =
+      entry.recipeId === undefined ? undefined : recipeIds.get(entry.recipeId);
+    if (
+      (entry.foodId !== undefined && foodId === undefined) ||
+      (entry.recipeId !== undefined && recipeId === undefined)
+    ) {
+      dangling++;
+    }
+
+    const duplicate =
+      (await findBySyncId<DiaryEntry>('diary', entry.syncId)) ||
+      (await db.diary
+        .where('date')
+        .equals(entry.date)
+        .and(
+          (e) =>
+            e.meal === entry.meal &&
+            e.foodId === foodId &&
+            e.recipeId === recipeId &&
+            e.customName === entry.customName &&
+            e.grams === entry.grams &&
+            e.quantity === entry.quantity
+        )
+        .first());
+    if (duplicate) {
+      plan.tables.diary.skipped++;
+      continue;
+    }
+
+    const syncId = entry.syncId ?? crypto.randomUUID();
+    const newId = await db.diary.add({ ...entry, foodId, recipeId, syncId });
+    await enqueueUpsert('diary', newId, syncId);
+    plan.tables.diary.added++;
+  }
+  if (dangling > 0) {
+    plan.warnings.push(
+      `${dangling} diary entries reference foods or recipes missing from the backup; they keep their logged name and overrides only`
+    );
+  }
+}
+
+async function importMealPlans(
+  plans: MealPlan[],
+  recipeIds: Map<number, number>,
+  foodIds: Map<number, number>,
+  plan: ImportPlan
+) {
+  for (const mealPlan of plans.map(withoutId)) {
+    const recipeId =
+      mealPlan.recipeId === undefined
+        ? undefined
+        : recipeIds.get(mealPlan.recipeId);
+    // Unknown foods are still matched by name
+    const foodId =
+      mealPlan.foodId === undefined ? undefined : foodIds.get(mealPlan.foodId);
+
+    const duplicate =
+      (await findBySyncId<MealPlan>('mealPlans', mealPlan.syncId)) ||
+      (await db.mealPlans
+        .where('date')
+        .equals(mealPlan.date)
+        .and(
+          (p) =>
+            p.meal === mealPlan.meal &&
+            p.recipeId === recipeId &&
+            p.foodId === foodId &&
+            p.customName === mealPlan.customName &&
+            p.grams === mealPlan.grams
+        )
+        .first());
+    if (duplicate) {
+      plan.tables.mealPlans.skipped++;
+      continue;
+    }
+
+    const syncId = mealPlan.syncId ?? crypto.randomUUID();
+    const newId = await db.mealPlans.add({
+      ...mealPlan,
+      recipeId,
+      foodId,
+      syncId,
+    });
+    await enqueueUpsert('mealPlans', newId, syncId);
+    plan.tables.mealPlans.added++;
+  }
+}
+
+async function importGoals(goals: Goal[], plan: ImportPlan) {
+  for (const goal of goals.map(withoutId)) {
+    const existing = await db.goals
+      .where('effectiveFrom')
+      .equals(goal.effectiveFrom)
+      .first();
+    if (existing) {
+      plan.tables.goals.skipped++;
+      continue;
+    }
+    await db.goals.add(goal);
+    plan.tables.goals.added++;
+  }
+}
+
+// One weigh-in per day: days already weighed locally keep their entry
+async function importWeightEntries(entries: WeightEntry[], plan: ImportPlan) {
+  for (const entry of entries.map(withoutId)) {
+    const duplicate =
+      (await findBySyncId<WeightEntry>('weightEntries', entry.syncId)) ||
+      (await db.weightEntries.where('date').equals(entry.date).first());
+    if (duplicate) {
+      plan.tables.weightEntries.skipped++;
+      continue;
+    }
+
+    const syncId = entry.syncId ?? crypto.randomUUID();
+    const newId = await db.weightEntries.add({ ...entry, syncId });
+    await enqueueUpsert('weightEntries', newId, syncId);
+    plan.tables.weightEntries.added++;
+  }
+}
+
+// Only one weight goal applies; a local goal is kept when merging
+async function importWeightGoals(goals: WeightGoal[], plan: ImportPlan) {
+  for (const goal of goals.map(withoutId)) {
+    if ((await db.weightGoals.count()) > 0) {
+      plan.tables.weightGoals.skipped++;
+      continue;
+    }
+
+    const syncId = goal.syncId ?? crypto.randomUUID();
+    const newId = await db.weightGoals.add({ ...goal, syncId });
+    await enqueueUpsert('weightGoals', newId, syncId);
+    plan.tables.weightGoals.added++;
+  }
+}
+
+// One set of measurements per day, like weigh-ins
+async function importBodyMeasurements(
+  measurements: BodyMeasurement[],
+  plan: ImportPlan
+) {
+  for (const measurement of measurements.map(withoutId)) {
+    const duplicate =
+      (await findBySyncId<BodyMeasurement>(
+        'bodyMeasurements',
+        measurement.syncId
+      )) ||
+      (await db.bodyMeasurements
+        .where('date')
+        .equals(measurement.date)
+        .first());
+    if (duplicate) {
+      plan.tables.bodyMeasurements.skipped++;
+      continue;
+    }
+
+    const syncId = measurement.syncId ?? crypto.randomUUID();
+    const newId = await db.bodyMeasurements.add({ ...measurement, syncId });
+    await enqueueUpsert('bodyMeasurements', newId, syncId);
+    plan.tables.bodyMeasurements.added++;
+  }
+}
+
+async function importFoodPrices(
+  prices: FoodPrice[],
+  foodIds: Map<number, number>,
+  plan: ImportPlan
+) {
+  for (const price of prices.map(withoutId)) {
+    // Unknown foods are still matched by name
+    const foodId =
+      price.foodId === undefined ? undefined : foodIds.get(price.foodId);
+    const duplicate =
+      (await findBySyncId<FoodPrice>('foodPrices', price.syncId)) ||
+      (await db.foodPrices
+        .where('date')
+        .equals(price.date)
+        .and(
+          (p) =>
+            p.foodName === price.foodName &&
+            p.price === price.price &&
+            p.unit === price.unit &&
+            p.store === price.store
+        )
+        .first());
+    if (duplicate) {
+      plan.tables.foodPrices.skipped++;
+      continue;
+    }
+
+    const syncId = price.syncId ?? crypto.randomUUID();
+    const newId = await db.foodPrices.add({ ...price, foodId, syncId });
+    await enqueueUpsert('foodPrices', newId, syncId);
+    plan.tables.foodPrices.added++;
+  }
+}
+
+async function importPantry(
+  items: PantryItem[],
+  foodIds: Map<number, number>,
+  plan: ImportPlan
+) {
+  for (const item of items.map(withoutId)) {
+    const foodId =
+      item.foodId === undefined ? undefined : foodIds.get(item.foodId);
+    const duplicate =
+      (await findBySyncId<PantryItem>('pantry', item.syncId)) ||
+      (await db.pantry
+        .where('name')
+        .equals(item.name)
+        .and(
+          (p) =>
+            p.grams === item.grams &&
+            p.expiry === item.expiry &&
+            p.createdAt === item.createdAt
+        )
+        .first());
+    if (duplicate) {
+      plan.tables.pantry.skipped++;
+      continue;
+    }
+
+    const syncId = item.syncId ?? crypto.randomUUID();
+    const newId = await db.pantry.add({ ...item, foodId, syncId });
+    await enqueueUpsert('pantry', newId, syncId);
+    plan.tables.pantry.added++;
+  }
+}
+
+// Merge keeps local settings; replace restores every setting in the backup
+function settingsToWrite(backup: BackupFile, mode: ImportMode): string[] {
+  return SETTINGS_KEYS.filter((key) => {
+    const value = backup.settings[key];
+    if (!value) return false;
+    return (
+      mode === 'replace' || localStorage.getItem(`wellnessdash_${key}`) === null
+    );
+  });
+}
+
+function writeSettings(backup: BackupFile, plan: ImportPlan) {
+  for (const key of SETTINGS_KEYS) {
+    const value = backup.settings[key];
+    if (value && plan.settings.includes(key)) {
+      localStorage.setItem(`wellnessdash_${key}`, value);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { db, type Food } from './db';
+import { OpenFoodFactsAPI, UnifiedFoodSearch } from './externalFoodAPIs';
+import { upsertFood } from './supabaseSync';
+
+// Unknown codes are remembered for a day so repeat scans don't hit the network
+const MISS_TTL_MINUTES = 24 * 60;
+const missCacheKey = (barcode: string) => `barcode:${barcode}`;
+
+export type BarcodeLookupResult =
+  | { status: 'found'; food: Food; source: 'local' | 'openfoodfacts' }
+  | { status: 'not_found' }
+  | { status: 'invalid' }
+  | { status: 'error'; message: string };
+
+// Strip spaces/dashes and validate length + GS1 check digit.
+// Accepts EAN-8, UPC-E (8), UPC-A (12), EAN-13 and GTIN-14. UPC-E and UPC-A
+// are stored as EAN-13. An 8-digit code is read as EAN-8 when its check digit
+// fits, otherwise as UPC-E.
+export function normalizeBarcode(input: string): string | null {
+  let digits = input.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+  if (digits.length === 8 && !hasValidCheckDigit(digits)) {
+    digits = expandUpcE(digits) ?? digits;
+  }
+  if (![8, 12, 13, 14].includes(digits.length)) return null;
+  if (!hasValidCheckDigit(digits)) return null;
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+// Expand an 8-digit UPC-E (number system, 6 digits, check digit) to the
+// 12-digit UPC-A it abbreviates. The check digit is carried over unchanged.
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+  const [d1, d2, d3, d4, d5, d6] = code.slice(1, 7);
+  let body: string;
+  if (d6 <= '2') body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${code[0]}${body}${code[7]}`;
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  const body = code.slice(0, -1);
+  let sum = 0;
+  // Weights alternate 3,1,3... starting from the digit next to the check digit
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(code[code.length - 1]);
+}
+
+/**
+ * Resolve a scanned or typed barcode to a Food. Checks the local barcode index
+ * first, then Open Food Facts; found products are saved locally so the next
+ * scan works offline.
+ */
+export async function lookupFoodByBarcode(
+  input: string
+): Promise<BarcodeLookupResult> {
+  const barcode = normalizeBarcode(input);
+  if (!barcode) return { status: 'invalid' };
+
+  const local = await db.getFoodByBarcode(barcode);
+  if (local) return { status: 'found', food: local, source: 'local' };
+
+  const miss = await db.foodCache
+    .where('query')
+    .equals(missCacheKey(barcode))
+    .and((cache) => new Date(cache.expiresAt) > new Date())
+    .first();
+  if (miss) return { status: 'not_found' };
+
+  if (!navigator.onLine) {
+    return { status: 'error', message: 'You are offline' };
+  }
+
+  try {
+    const result = await OpenFoodFactsAPI.lookupBarcode(barcode);
+    if (!result) {
+      await db.cacheFoodSearch(missCacheKey(barcode), [], MISS_TTL_MINUTES);
+      return { status: 'not_found' };
+    }
+
+    const food = UnifiedFoodSearch.convertToFood({ ...result, barcode });
+    const id = await db.addFood(food);
+    const saved = await db.foods.get(id);
+    if (saved) await upsertFood(saved);
+    return {
+      status: 'found',
+      food: saved ?? { ...food, id },
+      source: 'openfoodfacts',
+    };
+  } catch (error) {
+    console.error('Barcode lookup failed:', error);
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Lookup failed',
+    };
+  }
+}
+
+// Attach a barcode to an existing food, e.g. after a manual match
+export async function assignBarcode(
+  foodId: number,
+  input: string
+): Promise<boolean> {
+  const barcode = normalizeBarcode(input);
+  if (!barcode) return false;
+  await db.foods.update(foodId, {
+    barcode,
+    lastUpdated: new Date().toISOString(),
+  });
+  const food = await db.foods.get(foodId);
+  if (food) await upsertFood(food);
+  return true;
+}
@@ -0,0 +1,138 @@
+import { db, type BodyMeasurement } from './db';
+import {
+  deleteBodyMeasurementById,
+  upsertBodyMeasurement,
+} from './supabaseSync';
+
+export type { BodyMeasurement };
+
+export type MeasurementField = 'waist' | 'hip' | 'chest' | 'arm' | 'neck';
+
+export const MEASUREMENT_FIELDS: { key: MeasurementField; label: string }[] = [
+  { key: 'waist', label: 'Waist' },
+  { key: 'hip', label: 'Hip' },
+  { key: 'chest', label: 'Chest' },
+  { key: 'arm', label: 'Arm' },
+  { key: 'neck', label: 'Neck' },
+];
+
+// Protein per kg of lean mass; about 2 g/kg of body weight at 20% body fat
+const PROTEIN_PER_KG_LEAN = 2.5;
+
+// Charts reload measurements together with weigh-ins
+const notifyMeasurementsChanged = () =>
+  window.dispatchEvent(new CustomEvent('weight:changed'));
+
+/** All measurements, newest first, one per day (the latest edit wins). */
+export async function loadMeasurements(): Promise<BodyMeasurement[]> {
+  try {
+    const measurements = await db.bodyMeasurements
+      .orderBy('date')
+      .reverse()
+      .toArray();
+    const byDate = new Map<string, BodyMeasurement>();
+    for (const measurement of measurements) {
+      const existing = byDate.get(measurement.date);
+      if (
+        !existing ||
+        (measurement.lastUpdated ?? '') > (existing.lastUpdated ?? '')
+      ) {
+        byDate.set(measurement.date, measurement);
+      }
+    }
+    return [...byDate.values()];
+  } catch (error) {
+    console.error('Failed to load body measurements:', error);
+    return [];
+  }
+}
+
+/**
+ * Record a day's measurements. Readings left out keep what was already
+ * taken that day, so waist in the morning and body fat later both stay.
+ */
+export async function saveMeasurement(
+  measurement: Omit<
+    BodyMeasurement,
+    'id' | 'createdAt' | 'lastUpdated' | 'syncId'
+  >
+): Promise<BodyMeasurement | null> {
+  try {
+    const now = new Date().toISOString();
+    const existing = await db.bodyMeasurements
+      .where('date')
+      .equals(measurement.date)
+      .first();
+    const given = Object.fromEntries(
+      Object.entries(measurement).filter(([, value]) => value !== undefined)
+    ) as Partial<BodyMeasurement>;
+    const record: BodyMeasurement = existing
+      ? { ...existing, ...given, lastUpdated: now }
+      : { ...measurement, createdAt: now, lastUpdated: now };
+    record.id = await db.bodyMeasurements.put(record);
+    await upsertBodyMeasurement(record);
+    notifyMeasurementsChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to save body measurements:', error);
+    return null;
+  }
+}
+
+export async function deleteMeasurement(id: number): Promise<boolean> {
+  try {
+    await deleteBodyMeasurementById(id);
+    notifyMeasurementsChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete body measurements:', error);
+    return false;
+  }
+}
+
+/**
+ * US Navy body-fat estimate (%) from height and tape measurements in cm.
+ * Women also need the hip. Null when the measurements can't be used.
+ */
+export function navyBodyFat(
+  gender: 'male' | 'female',
+  height: number,
+  neck: number,
+  waist: number,
+  hip?: number
+): number | null {
+  let density: number;
+  if (gender === 'male') {
+    if (!(waist > neck) || !(height > 0)) return null;
+    density =
+      1.0324 -
+      0.19077 * Math.log10(waist - neck) +
+      0.15456 * Math.log10(height);
+  } else {
+    if (!hip || !(waist + hip > neck) || !(height > 0)) return null;
+    density =
+      1.29579 -
+      0.35004 * Math.log10(waist + hip - neck) +
+      0.221 * Math.log10(height);
+  }
+
+  const bodyFat = 495 / density - 450;
+  return bodyFat > 0 && bodyFat < 75 ? Math.round(bodyFat * 10) / 10 : null;
+}
+
+/** The most recent body-fat reading, from measurements sorted newest first. */
+export function latestBodyFat(
+  measurements: BodyMeasurement[]
+): { date: string; bodyFat: number } | null {
+  const latest = measurements.find(
+    (measurement) => measurement.bodyFat !== undefined
+  );
+  return latest ? { date: latest.date, bodyFat: latest.bodyFat! } : null;
+}
+
+export const leanMass = (weight: number, bodyFat: number) =>
+  weight * (1 - bodyFat / 100);
+
+/** Daily protein target (g) for a lean mass in kg. */
+export const leanMassProtein = (leanKg: number) =>
+  Math.round(leanKg * PROTEIN_PER_KG_LEAN);
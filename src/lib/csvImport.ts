@@ -0,0 +1,467 @@
+import { db, type DiaryEntry, type Nutrients } from './db';
+import { pickMicronutrients } from './nutrients';
+import { enqueueUpsert } from './supabaseSync';
+
+export type TrackerFormat = 'myfitnesspal' | 'cronometer' | 'generic';
+
+export const TRACKER_LABELS: Record<TrackerFormat, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+  generic: 'Generic CSV',
+};
+
+// One parsed CSV line, ready to become a diary entry
+export type TrackerRow = {
+  line: number;
+  date: string; // YYYY-MM-DD
+  meal: DiaryEntry['meal'];
+  name: string;
+  grams?: number;
+  nutrients: Nutrients;
+};
+
+export type CsvIssue = { line: number; reason: string };
+
+export type CsvParseResult =
+  | { ok: true; format: TrackerFormat; rows: TrackerRow[]; issues: CsvIssue[] }
+  | { ok: false; error: string };
+
+export type CsvImportSummary = {
+  added: number;
+  skipped: number; // already in the diary from an earlier import
+  foodsMatched: number;
+  foodsCreated: number;
+};
+
+// ---------------------------------------------------------------------------
+// CSV tokenizer (RFC 4180: quoted fields, escaped quotes, CRLF)
+// ---------------------------------------------------------------------------
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping
+// ---------------------------------------------------------------------------
+
+// "Energy (kcal)" -> "energy", "Fat (g)" -> "fat"
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+type Columns = Record<string, number>;
+
+function findColumn(columns: Columns, ...names: string[]): number | undefined {
+  for (const name of names) {
+    if (columns[name] !== undefined) return columns[name];
+  }
+  return undefined;
+}
+
+function detectFormat(columns: Columns): TrackerFormat | null {
+  // Cronometer "Food & Recipe Entries" export
+  if (
+    columns['day'] !== undefined &&
+    columns['food name'] !== undefined &&
+    columns['energy'] !== undefined
+  ) {
+    return 'cronometer';
+  }
+  // MyFitnessPal "Nutrition" export: one row per meal per day, no food names
+  if (
+    columns['date'] !== undefined &&
+    columns['meal'] !== undefined &&
+    columns['calories'] !== undefined &&
+    columns['carbohydrates'] !== undefined
+  ) {
+    return 'myfitnesspal';
+  }
+  if (
+    findColumn(columns, 'date', 'day') !== undefined &&
+    findColumn(columns, 'calories', 'kcal', 'energy') !== undefined
+  ) {
+    return 'generic';
+  }
+  return null;
+}
+
+// Slash dates are M/D/YYYY from MyFitnessPal in US locales and D/M/YYYY
+// from most others, including India
+type SlashOrder = 'mdy' | 'dmy';
+
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const SLASH_DATE_RE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+const isValidDate = (year: number, month: number, day: number) =>
+  month >= 1 &&
+  month <= 12 &&
+  day >= 1 &&
+  day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const toKey = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// The ways a slash date can be read, as [order, month, day]
+function slashReadings(value: string): [SlashOrder, number, number][] {
+  const match = value.trim().match(SLASH_DATE_RE);
+  if (!match) return [];
+  const [a, b, year] = match.slice(1).map(Number);
+  return (
+    [
+      ['mdy', a, b],
+      ['dmy', b, a],
+    ] as [SlashOrder, number, number][]
+  ).filter(([, month, day]) => isValidDate(year, month, day));
+}
+
+/**
+ * The file's slash date order, from dates that can only be read one way
+ * (a day above 12). Null when there is no such date or the file mixes both.
+ */
+function slashDateOrder(values: string[]): SlashOrder | null {
+  const seen = new Set<SlashOrder>();
+  for (const value of values) {
+    const readings = slashReadings(value);
+    if (readings.length === 1) seen.add(readings[0][0]);
+  }
+  return seen.size === 1 ? [...seen][0] : null;
+}
+
+function parseDate(
+  value: string,
+  order: SlashOrder | null
+): { date: string } | { reason: string } {
+  const trimmed = value.trim();
+  const iso = trimmed.match(ISO_DATE_RE);
+  if (iso) {
+    return isValidDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+      ? { date: trimmed }
+      : { reason: `Invalid date "${trimmed}"` };
+  }
+  if (!SLASH_DATE_RE.test(trimmed)) {
+    return { reason: `Unreadable date "${trimmed}"` };
+  }
+
+  const year = Number(trimmed.slice(-4));
+  const dates = new Set(
+    slashReadings(trimmed)
+      .filter(([readingOrder]) => !order || readingOrder === order)
+      .map(([, month, day]) => toKey(year, month, day))
+  );
+  if (dates.size === 1) return { date: [...dates][0] };
+  return dates.size === 0
+    ? { reason: `Invalid date "${trimmed}"` }
+    : {
+        reason: `Ambiguous date "${trimmed}": could be day/month or month/day`,
+      };
+}
+
+function parseMeal(value: string | undefined): DiaryEntry['meal'] {
+  const meal = (value || '').toLowerCase();
+  if (meal.startsWith('breakfast')) return 'breakfast';
+  if (meal.startsWith('lunch')) return 'lunch';
+  if (meal.startsWith('dinner')) return 'dinner';
+  // Snacks, Uncategorized, custom meal names
+  return 'snack';
+}
+
+// "150", "150.00 g", "1.00 cup - 240 g", "2 slices (56g)"
+function parseGrams(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const plain = parseNumber(value);
+  if (plain !== undefined) return plain > 0 ? plain : undefined;
+  const matches = [...value.matchAll(/(\d+(?:\.\d+)?)\s*g\b/gi)];
+  if (matches.length === 0) return undefined;
+  const grams = Number(matches[matches.length - 1][1]);
+  return grams > 0 ? grams : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const num = Number(value.replace(/,/g, ''));
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function readNutrients(
+  cells: string[],
+  columns: Columns,
+  format: TrackerFormat
+): Nutrients | null {
+  const read = (...names: string[]) => {
+    const index = findColumn(columns, ...names);
+    return index === undefined ? undefined : parseNumber(cells[index]);
+  };
+
+  const kcal = read('energy', 'calories', 'kcal');
+  if (kcal === undefined) return null;
+
+  // MyFitnessPal reports vitamins and most minerals as % daily value; skip those
+  const vitaminD = read('vitamin d');
+  const micros =
+    format === 'myfitnesspal'
+      ? pickMicronutrients({
+          fiber: read('fiber'),
+          sugar: read('sugar'),
+          sodium: read('sodium'),
+          potassium: read('potassium'),
+        })
+      : pickMicronutrients({
+          fiber: read('fiber'),
+          sugar: read('sugars', 'sugar'),
+          sodium: read('sodium'),
+          potassium: read('potassium'),
+          calcium: read('calcium'),
+          iron: read('iron'),
+          vitaminA: read('vitamin a'),
+          vitaminC: read('vitamin c'),
+          // Cronometer exports vitamin D in IU; 40 IU = 1 µg
+          vitaminD: vitaminD === undefined ? undefined : vitaminD / 40,
+          vitaminB12: read('b12', 'vitamin b12'),
+        });
+
+  return {
+    kcal,
+    protein: read('protein') ?? 0,
+    carbs: read('carbs', 'carbohydrates', 'net carbs') ?? 0,
+    fat: read('fat', 'total fat') ?? 0,
+    ...micros,
+  };
+}
+
+/**
+ * Parse a MyFitnessPal, Cronometer or generic (date, meal, food, grams,
+ * calories, protein, carbs, fat) CSV export. Lines that can't be used are
+ * returned as issues instead of failing the whole file.
+ */
+export function parseTrackerCsv(text: string): CsvParseResult {
+  // Keep 1-based row numbers so issues point at the right line
+  const table = parseCsv(text)
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+  if (table.length < 2) {
+    return { ok: false, error: 'The file has no data rows' };
+  }
+
+  const columns: Columns = {};
+  table[0].cells.forEach((header, index) => {
+    const key = normalizeHeader(header);
+    if (key && columns[key] === undefined) columns[key] = index;
+  });
+
+  const format = detectFormat(columns);
+  if (!format) {
+    return {
+      ok: false,
+      error:
+        'Unrecognised CSV layout. Expected a MyFitnessPal or Cronometer export, or columns named date and calories.',
+    };
+  }
+
+  const dateColumn = findColumn(columns, 'date', 'day')!;
+  const mealColumn = findColumn(columns, 'meal', 'group');
+  const nameColumn = findColumn(columns, 'food name', 'food', 'name', 'item');
+  const gramsColumn = findColumn(columns, 'amount', 'grams', 'weight');
+
+  const rows: TrackerRow[] = [];
+  const issues: CsvIssue[] = [];
+  const order = slashDateOrder(
+    table.slice(1).map(({ cells }) => cells[dateColumn] || '')
+  );
+
+  table.slice(1).forEach(({ cells, line }) => {
+    const parsed = parseDate(cells[dateColumn] || '', order);
+    if ('reason' in parsed) {
+      issues.push({ line, reason: parsed.reason });
+      return;
+    }
+    const { date } = parsed;
+
+    const nutrients = readNutrients(cells, columns, format);
+    if (!nutrients) {
+      issues.push({ line, reason: 'No calorie value' });
+      return;
+    }
+
+    const meal = parseMeal(
+      mealColumn === undefined ? undefined : cells[mealColumn]
+    );
+    const name =
+      (nameColumn === undefined ? '' : cells[nameColumn]?.trim()) ||
+      `${TRACKER_LABELS[format]} ${meal}`;
+
+    rows.push({
+      line,
+      date,
+      meal,
+      name,
+      grams: parseGrams(
+        gramsColumn === undefined ? undefined : cells[gramsColumn]
+      ),
+      nutrients,
+    });
+  });
+
+  return { ok: true, format, rows, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Write parsed rows to the diary in one transaction. Rows with a food name
+ * and weight are matched to an existing Food or create one via db.addFood; the logged
+ * macros are kept as overrides so imported totals match the source app.
+ * Re-importing the same file skips entries that already exist; identical
+ * lines within one file (two of the same snack) are each kept.
+ */
+export async function importTrackerRows(
+  rows: TrackerRow[],
+  format: TrackerFormat
+): Promise<CsvImportSummary> {
+  const summary: CsvImportSummary = {
+    added: 0,
+    skipped: 0,
+    foodsMatched: 0,
+    foodsCreated: 0,
+  };
+  // One addFood per distinct food, not per logged line
+  const foodIds = new Map<string, number>();
+  // Matching diary entries from before this import not yet paired with a row
+  const unmatched = new Map<string, number>();
+
+  const tables = [db.foods, db.foodIndex, db.diary, db.outbox];
+  await db.transaction('rw', tables, async () => {
+    for (const row of rows) {
+      const overrides = {
+        kcal: Math.round(row.nutrients.kcal),
+        protein: round1(row.nutrients.protein),
+        carbs: round1(row.nutrients.carbs),
+        fat: round1(row.nutrients.fat),
+      };
+
+      // Counted before any row with this key is added, so entries written
+      // by this import are never mistaken for earlier ones
+      const entryKey = [row.date, row.meal, row.name, overrides.kcal].join(
+        '\u0000'
+      );
+      if (!unmatched.has(entryKey)) {
+        unmatched.set(
+          entryKey,
+          await db.diary
+            .where('date')
+            .equals(row.date)
+            .and(
+              (e) =>
+                e.meal === row.meal &&
+                e.customName === row.name &&
+                e.overrides?.kcal === overrides.kcal
+            )
+            .count()
+        );
+      }
+      const earlier = unmatched.get(entryKey)!;
+      if (earlier > 0) {
+        unmatched.set(entryKey, earlier - 1);
+        summary.skipped++;
+        continue;
+      }
+
+      let foodId: number | undefined;
+      if (row.grams && format !== 'myfitnesspal') {
+        const key = row.name.toLowerCase();
+        foodId = foodIds.get(key);
+        if (foodId === undefined) {
+          // Reuse a food we already know rather than overwrite its values
+          const existing = await db.foods
+            .where('name')
+            .equalsIgnoreCase(row.name)
+            .first();
+          if (existing?.id !== undefined) {
+            foodId = existing.id;
+            foodIds.set(key, foodId);
+            summary.foodsMatched++;
+          }
+        }
+        if (foodId === undefined) {
+          const per100g = Object.fromEntries(
+            Object.entries(row.nutrients).map(([nutrient, value]) => [
+              nutrient,
+              round1(((value as number) * 100) / row.grams!),
+            ])
+          ) as Nutrients;
+          foodId = await db.addFood({
+            name: row.name,
+            per100g,
+            servings: [{ label: `${row.grams}g`, grams: row.grams }],
+            tags: ['imported', format],
+            source: 'user',
+          });
+          foodIds.set(key, foodId);
+          summary.foodsCreated++;
+        }
+      }
+
+      const syncId = crypto.randomUUID();
+      const id = await db.diary.add({
+        date: row.date,
+        meal: row.meal,
+        foodId,
+        customName: row.name,
+        servingLabel: row.grams ? `${row.grams}g` : undefined,
+        grams: row.grams,
+        quantity: 1,
+        overrides,
+        lastUpdated: new Date().toISOString(),
+        syncId,
+      });
+      await enqueueUpsert('diary', id, syncId);
+      summary.added++;
+    }
+  });
+
+  window.dispatchEvent(new CustomEvent('diary:changed'));
+  return summary;
+}
@@ -0,0 +1,134 @@
+// Day keys ("yyyy-MM-dd") for diary entries, plans and weigh-ins.
+//
+// A key names a calendar day in the user's time zone (the device's unless
+// they chose another one), never the UTC day: toISOString() puts anything
+// logged before 05:30 IST on the previous day. Two kinds of Date show up:
+// instants ("now", a timestamp), whose day depends on the time zone, and
+// calendar days from pickers and week grids, which date-fns keeps at device
+// midnight and must be read with device-local fields.
+
+const TIME_ZONE_KEY = 'wellnessdash_timezone';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const deviceTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The chosen time zone, falling back to the device's
+export function getTimeZone(): string {
+  try {
+    const saved = localStorage.getItem(TIME_ZONE_KEY);
+    if (saved && isValidTimeZone(saved)) return saved;
+  } catch (error) {
+    console.error('Failed to read time zone preference:', error);
+  }
+  return deviceTimeZone();
+}
+
+// Pass null to follow the device again. Returns false for unknown zones.
+export function setTimeZone(timeZone: string | null): boolean {
+  if (timeZone && !isValidTimeZone(timeZone)) return false;
+  if (timeZone) localStorage.setItem(TIME_ZONE_KEY, timeZone);
+  else localStorage.removeItem(TIME_ZONE_KEY);
+  return true;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** The day an instant falls on in a time zone. */
+export function toDateKey(
+  instant: Date = new Date(),
+  timeZone: string = getTimeZone()
+): string {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as yyyy-mm-dd
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter.format(instant);
+}
+
+export const todayKey = () => toDateKey(new Date());
+
+const hourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The hour (0-23) of an instant in a time zone. */
+export function hourOf(
+  instant: Date = new Date(),
+  timeZone: string = getTimeZone()
+): number {
+  let formatter = hourFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: 'numeric',
+      hourCycle: 'h23',
+    });
+    hourFormatters.set(timeZone, formatter);
+  }
+  return Number(formatter.format(instant));
+}
+
+/** Key of a calendar day held as a device-local Date (date-fns, pickers). */
+export const dateKeyOf = (day: Date) =>
+  `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+
+/** Device-local midnight of a day key, for date-fns arithmetic and display. */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Today in the chosen time zone as a calendar day
+export const todayDate = () => parseDateKey(todayKey());
+
+export function addDaysToKey(key: string, days: number): string {
+  const [year, month, day] = key.split('-').map(Number);
+  // UTC arithmetic so DST changes never skip or repeat a day
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function daysBetweenKeys(from: string, to: string): number {
+  const utc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((utc(to) - utc(from)) / 86_400_000);
+}
+
+/**
+ * Day a record stamped with the old UTC-day logic actually belongs to.
+ * `stampedAt` is when the record was written; the shift between its UTC
+ * day and its local day is applied to the stored key. Returns the key
+ * unchanged when there is nothing to correct.
+ */
+export function reinterpretUtcDateKey(
+  key: string,
+  stampedAt: string,
+  timeZone: string = getTimeZone()
+): string {
+  const instant = new Date(stampedAt);
+  if (Number.isNaN(instant.getTime())) return key;
+  const shift = daysBetweenKeys(
+    instant.toISOString().slice(0, 10),
+    toDateKey(instant, timeZone)
+  );
+  return shift === 0 ? key : addDaysToKey(key, shift);
+}
@@ -1,17 +1,50 @@
 import Dexie, { type Table } from 'dexie';
+import { reinterpretUtcDateKey } from './dates';
+import { isSupabaseConfigured } from './supabase';
+import {
+  foodIndexEntry,
+  queryWordTerms,
+  searchWords,
+  type FoodIndexEntry,
+} from './foodIndex';
+
+// Optional micronutrients, all per 100g. Missing means "unknown", not zero.
+export type Micronutrients = {
+  fiber?: number; // g
+  sugar?: number; // g
+  sodium?: number; // mg
+  potassium?: number; // mg
+  calcium?: number; // mg
+  iron?: number; // mg
+  vitaminA?: number; // µg RAE
+  vitaminC?: number; // mg
+  vitaminD?: number; // µg
+  vitaminB12?: number; // µg
+};
+
+export type Nutrients = {
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+} & Micronutrients;
 
 export type Food = {
   id?: number;
   name: string;
   brand?: string;
+  barcode?: string; // EAN-13 / EAN-8 / UPC-A, digits only
   category?: string;
   tags?: string[];
-  per100g: { kcal: number; protein: number; carbs: number; fat: number };
+  aliases?: string[]; // user-added alternative names, e.g. a family's name for a dish
+  per100g: Nutrients;
   servings?: { label: string; grams: number }[];
   verified?: boolean;
   source?: 'user' | 'external' | 'ai';
   lastUpdated?: string;
   searchCount?: number; // For popularity tracking
+  syncId?: string; // Stable cross-device id, assigned on first sync
+  recipeId?: number; // set on a recipe presented as a food; never stored
 };
 
 export type DiaryEntry = {
@@ -19,12 +52,18 @@ export type DiaryEntry = {
   date: string; // YYYY-MM-DD
   meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   foodId?: number;
+  recipeId?: number; // set instead of foodId for a home-cooked dish
   customName?: string;
   servingLabel?: string;
   grams?: number;
   quantity?: number; // multiplies serving grams
   overrides?: { kcal?: number; protein?: number; carbs?: number; fat?: number };
   price?: number | null; // optional per-entry price in local currency
+  // Pantry batches this entry used up, by expiry; put back if it's deleted.
+  // Kept on this device only.
+  pantryUse?: { expiry?: string; grams: number }[];
+  lastUpdated?: string;
+  syncId?: string;
 };
 
 export type Goal = {
@@ -53,17 +92,128 @@ export type Recipe = {
     servingLabel: string;
   }[];
   nutrition: { kcal: number; protein: number; carbs: number; fat: number };
+  cookedWeight?: number; // grams of the finished dish, when weighed
+  difficulty?: 'Easy' | 'Medium' | 'Hard';
+  isFavorite?: boolean;
   createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
 };
 
+// One planned dish: a recipe by servings, a food by weight, or a custom meal
+// by name alone (see mealPlanner.ts)
 export type MealPlan = {
   id?: number;
   date: string;
   meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   recipeId?: number;
-  customName?: string;
+  foodId?: number;
+  grams?: number; // amount of the food
+  customName?: string; // also the food's name, to match it on other devices
   servings?: number;
   notes?: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+export type WeightEntry = {
+  id?: number;
+  date: string; // YYYY-MM-DD, one weigh-in per day
+  weight: number; // kg
+  notes?: string;
+  createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+// The single active weight goal
+export type WeightGoal = {
+  id?: number;
+  targetWeight: number; // kg
+  currentWeight: number; // kg when the goal was set
+  goalType: 'lose' | 'gain' | 'maintain';
+  createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+// Tape measurements (cm) and body fat, logged alongside weigh-ins
+export type BodyMeasurement = {
+  id?: number;
+  date: string; // YYYY-MM-DD, one set of measurements per day
+  waist?: number;
+  hip?: number;
+  chest?: number;
+  arm?: number;
+  neck?: number;
+  bodyFat?: number; // %
+  bodyFatSource?: 'manual' | 'navy'; // entered, or estimated from tape
+  notes?: string;
+  createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+// A price seen for a food, in INR, per kg or per pack. Prices logged with
+// diary entries are read from the diary instead (see prices.ts).
+export type FoodPrice = {
+  id?: number;
+  foodId?: number;
+  foodName: string; // matches foods not saved on this device
+  price: number;
+  unit: 'kg' | 'pack';
+  packGrams?: number; // pack size when unit is 'pack'
+  store?: string;
+  date: string; // YYYY-MM-DD
+  createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+// Stock of a food in the kitchen. Each purchase is its own batch so batches
+// can expire on different days; see pantry.ts.
+export type PantryItem = {
+  id?: number;
+  foodId?: number;
+  name: string; // matches foods not saved on this device
+  grams: number;
+  expiry?: string; // YYYY-MM-DD
+  createdAt: string;
+  lastUpdated?: string;
+  syncId?: string;
+};
+
+export type SyncTable =
+  | 'foods'
+  | 'diary'
+  | 'recipes'
+  | 'mealPlans'
+  | 'weightEntries'
+  | 'weightGoals'
+  | 'bodyMeasurements'
+  | 'foodPrices'
+  | 'pantry';
+
+// Pending local mutation waiting to be pushed to Supabase
+export type OutboxEntry = {
+  id?: number;
+  table: SyncTable;
+  op: 'upsert' | 'delete';
+  recordId: number; // local primary key
+  syncId: string;
+  fields?: string[]; // fields changed locally, used for field-level merges
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+};
+
+// Pull cursor per synced table: the highest server-assigned syncseq seen.
+// Cursors kept as lastPulledAt by older versions are ignored, so those
+// devices pull everything once.
+export type SyncState = {
+  key: SyncTable;
+  lastPulledSeq: number;
 };
 
 export type FoodCache = {
@@ -74,6 +224,10 @@ export type FoodCache = {
   expiresAt: string;
 };
 
+// The lastUpdated stamp the v5 upgrade gave every record it backfilled, kept
+// so the v8 upgrade can tell those records from real writes
+const V5_STAMP_KEY = 'wellnessdash_v5_stamp';
+
 export class WellnessDB extends Dexie {
   foods!: Table<Food, number>;
   diary!: Table<DiaryEntry, number>;
@@ -81,6 +235,14 @@ export class WellnessDB extends Dexie {
   recipes!: Table<Recipe, number>;
   mealPlans!: Table<MealPlan, number>;
   foodCache!: Table<FoodCache, number>;
+  outbox!: Table<OutboxEntry, number>;
+  syncState!: Table<SyncState, SyncTable>;
+  foodIndex!: Table<FoodIndexEntry, number>;
+  weightEntries!: Table<WeightEntry, number>;
+  weightGoals!: Table<WeightGoal, number>;
+  bodyMeasurements!: Table<BodyMeasurement, number>;
+  foodPrices!: Table<FoodPrice, number>;
+  pantry!: Table<PantryItem, number>;
 
   constructor() {
     super('wellnessdash');
@@ -104,92 +266,190 @@ export class WellnessDB extends Dexie {
             if (obj.searchCount === undefined) obj.searchCount = 0;
           });
       });
-  }
 
-  // Optimized search method with caching
-  async searchFoods(query: string, limit: number = 20): Promise<Food[]> {
-    const cleanQuery = query.trim().toLowerCase();
-    if (!cleanQuery) return [];
-
-    // First check cache
-    const cached = await this.foodCache
-      .where('query')
-      .equals(cleanQuery)
-      .and((cache) => new Date(cache.expiresAt) > new Date())
-      .first();
-
-    if (cached) {
-      console.log('Using cached food search results for:', cleanQuery);
-      return cached.results.slice(0, limit);
-    }
+    // v4: per100g may carry micronutrients. Coerce legacy values to numbers
+    // and drop anything that isn't a finite number so sums stay clean.
+    this.version(4)
+      .stores({
+        foods: '++id,name,brand,tags,category,source,lastUpdated,searchCount',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('foods')
+          .toCollection()
+          .modify((obj) => {
+            const per100g: Record<string, unknown> = obj.per100g || {};
+            const cleaned: Record<string, number> = {};
+            for (const [key, value] of Object.entries(per100g)) {
+              const num = Number(value);
+              if (Number.isFinite(num)) cleaned[key] = num;
+            }
+            for (const macro of ['kcal', 'protein', 'carbs', 'fat']) {
+              if (cleaned[macro] === undefined) cleaned[macro] = 0;
+            }
+            obj.per100g = cleaned;
+          });
+      });
 
-    // Search local database with optimized queries
-    const results: Food[] = [];
+    // v5: offline-first sync. Records get a stable syncId and lastUpdated, and
+    // local mutations are queued in the outbox until Supabase accepts them.
+    this.version(5)
+      .stores({
+        foods:
+          '++id,name,brand,tags,category,source,lastUpdated,searchCount,syncId',
+        diary: '++id,date,meal,foodId,price,syncId',
+        recipes: '++id,name,category,tags,createdAt,syncId',
+        mealPlans: '++id,date,meal,recipeId,syncId',
+        outbox: '++id,[table+recordId],syncId,nextAttemptAt',
+        syncState: 'key',
+      })
+      .upgrade(async (tx) => {
+        const now = new Date().toISOString();
+        // Queue existing user data so it reaches other devices on first sync.
+        // Without sync the outbox would never drain, so only ids are set.
+        const queue = isSupabaseConfigured();
+        localStorage.setItem(V5_STAMP_KEY, now);
+        for (const table of ['diary', 'recipes', 'mealPlans'] as const) {
+          const records = await tx.table(table).toArray();
+          for (const record of records) {
+            const syncId = crypto.randomUUID();
+            await tx
+              .table(table)
+              .update(record.id, { syncId, lastUpdated: now });
+            if (!queue) continue;
+            await tx.table('outbox').add({
+              table,
+              op: 'upsert',
+              recordId: record.id,
+              syncId,
+              createdAt: now,
+              attempts: 0,
+              nextAttemptAt: now,
+            });
+          }
+        }
+      });
 
-    // Exact name match (highest priority)
-    const exactMatches = await this.foods
-      .where('name')
-      .equals(cleanQuery)
-      .toArray();
-    results.push(...exactMatches);
+    // v6: packaged foods can be looked up by barcode
+    this.version(6).stores({
+      foods:
+        '++id,name,brand,barcode,tags,category,source,lastUpdated,searchCount,syncId',
+    });
 
-    // Partial name matches
-    if (results.length < limit) {
-      const partialMatches = await this.foods
-        .where('name')
-        .startsWith(cleanQuery)
-        .limit(limit - results.length)
-        .toArray();
-      results.push(...partialMatches);
-    }
+    // v7: persistent inverted index for local food search, one row per food
+    // with its tokens in a multi-entry index
+    this.version(7)
+      .stores({
+        foodIndex: 'foodId,*terms',
+      })
+      .upgrade(async (tx) => {
+        const foods: Food[] = await tx.table('foods').toArray();
+        await tx.table('foodIndex').bulkPut(foods.map(foodIndexEntry));
+      });
 
-    // Tag-based search
-    if (results.length < limit) {
-      const tagMatches = await this.foods
-        .where('tags')
-        .anyOf(cleanQuery.split(' '))
-        .limit(limit - results.length)
-        .toArray();
-      results.push(...tagMatches);
-    }
+    // v8: diary and plan dates used to be the UTC day. Move records written
+    // on the far side of UTC midnight to the user's local day, using their
+    // lastUpdated stamp as the time they were written.
+    this.version(8)
+      .stores({})
+      .upgrade(async (tx) => {
+        const now = new Date().toISOString();
+        // v5 stamped every record that existed then with the time it ran,
+        // which says nothing about when the record was written. Databases
+        // that ran v5 before its stamp was kept can't tell those records
+        // apart, so their dates are left alone.
+        const backfilled = localStorage.getItem(V5_STAMP_KEY);
+        if (backfilled === null) return;
 
-    // Fuzzy search for remaining slots
-    if (results.length < limit) {
-      const remaining = limit - results.length;
-      const allFoods = await this.foods.toArray();
-      const fuzzyMatches = allFoods
-        .filter(
-          (food) =>
-            !results.some((r) => r.id === food.id) &&
-            (food.name.toLowerCase().includes(cleanQuery) ||
-              food.tags?.some((tag) => tag.toLowerCase().includes(cleanQuery)))
-        )
-        .sort((a, b) => (b.searchCount || 0) - (a.searchCount || 0))
-        .slice(0, remaining);
-      results.push(...fuzzyMatches);
-    }
+        for (const table of ['diary', 'mealPlans'] as const) {
+          const records: (DiaryEntry | MealPlan)[] = await tx
+            .table(table)
+            .toArray();
+          for (const record of records) {
+            // Without a real write time the stored day is left as it is
+            if (!record.lastUpdated || record.lastUpdated === backfilled) {
+              continue;
+            }
+            // Diary entries were stamped "now"; anything else was backfilled
+            // or imported and already names the intended day
+            if (
+              table === 'diary' &&
+              record.date !== record.lastUpdated.slice(0, 10)
+            ) {
+              continue;
+            }
+            const date = reinterpretUtcDateKey(record.date, record.lastUpdated);
+            if (date === record.date) continue;
 
-    // Update search count for found items
-    for (const food of results) {
-      if (food.id) {
-        await this.foods.update(food.id, {
-          searchCount: (food.searchCount || 0) + 1,
-          lastUpdated: new Date().toISOString(),
-        });
-      }
-    }
+            await tx.table(table).update(record.id, { date, lastUpdated: now });
+            if (record.syncId && isSupabaseConfigured()) {
+              await tx.table('outbox').add({
+                table,
+                op: 'upsert',
+                recordId: record.id,
+                syncId: record.syncId,
+                createdAt: now,
+                attempts: 0,
+                nextAttemptAt: now,
+              });
+            }
+          }
+        }
+      });
 
-    return results;
+    // v9: weigh-ins and the weight goal live locally and sync like the
+    // other tables instead of being read from Supabase only
+    this.version(9).stores({
+      weightEntries: '++id,date,syncId',
+      weightGoals: '++id,syncId',
+    });
+
+    // v10: body measurements next to weigh-ins
+    this.version(10).stores({
+      bodyMeasurements: '++id,date,syncId',
+    });
+
+    // v11: diary entries can reference a recipe
+    this.version(11).stores({
+      diary: '++id,date,meal,foodId,recipeId,price,syncId',
+    });
+
+    // v12: grocery price catalog
+    this.version(12).stores({
+      foodPrices: '++id,foodId,foodName,date,syncId',
+    });
+
+    // v13: pantry stock
+    this.version(13).stores({
+      pantry: '++id,foodId,name,expiry,syncId',
+    });
+
+    // v14: meal plans can be foods as well as recipes
+    this.version(14).stores({
+      mealPlans: '++id,date,meal,recipeId,foodId,syncId',
+    });
+  }
+
+  // Exact barcode match against the local food table
+  async getFoodByBarcode(barcode: string): Promise<Food | undefined> {
+    try {
+      return await this.foods.where('barcode').equals(barcode).first();
+    } catch (error) {
+      console.error('Failed to look up barcode:', error);
+      return undefined;
+    }
   }
 
   // Add food with smart deduplication
   async addFood(food: Omit<Food, 'id'>): Promise<number> {
-    // Check for existing similar food
-    const existing = await this.foods
-      .where('name')
-      .equals(food.name)
-      .and((f) => f.brand === food.brand)
-      .first();
+    // Check for existing similar food, preferring an exact barcode match
+    const existing =
+      (food.barcode && (await this.getFoodByBarcode(food.barcode))) ||
+      (await this.foods
+        .where('name')
+        .equals(food.name)
+        .and((f) => f.brand === food.brand)
+        .first());
 
     if (existing) {
       // Update existing food with new data
@@ -198,15 +458,86 @@ export class WellnessDB extends Dexie {
         lastUpdated: new Date().toISOString(),
         searchCount: (existing.searchCount || 0) + 1,
       });
+      await this.foodIndex.put(foodIndexEntry({ ...food, id: existing.id }));
       return existing.id!;
     }
 
     // Add new food
-    return await this.foods.add({
+    const id = await this.foods.add({
       ...food,
       lastUpdated: new Date().toISOString(),
       searchCount: 1,
     });
+    await this.foodIndex.put(foodIndexEntry({ ...food, id }));
+    return id;
+  }
+
+  /**
+   * Re-index the given foods, or reconcile the whole index when no ids are
+   * passed: foods written directly to db.foods (sync pulls, backup imports,
+   * seeding) get indexed and entries for deleted foods are dropped.
+   */
+  async indexFoods(ids?: number[]): Promise<void> {
+    if (ids) {
+      const foods = await this.foods.bulkGet(ids);
+      await this.foodIndex.bulkPut(
+        foods.filter((food): food is Food => !!food).map(foodIndexEntry)
+      );
+      await this.foodIndex.bulkDelete(ids.filter((_, i) => !foods[i]));
+      return;
+    }
+
+    const [foodIds, indexedIds] = await Promise.all([
+      this.foods.toCollection().primaryKeys(),
+      this.foodIndex.toCollection().primaryKeys(),
+    ]);
+    const indexed = new Set(indexedIds);
+    const existing = new Set(foodIds);
+    const missing = foodIds.filter((id) => !indexed.has(id));
+    const orphaned = indexedIds.filter((id) => !existing.has(id));
+    if (missing.length > 0) await this.indexFoods(missing);
+    if (orphaned.length > 0) await this.foodIndex.bulkDelete(orphaned);
+  }
+
+  /**
+   * Candidate foods for a query from the inverted index, best first. Each
+   * query word scores 1 for a prefix hit, otherwise the share of its trigrams
+   * found; foods averaging under 0.4 are dropped. Final ranking is left to
+   * the search engine.
+   */
+  async searchFoodIndex(query: string, limit: number = 40): Promise<Food[]> {
+    const words = searchWords(query).filter((word) => word.length >= 2);
+    if (words.length === 0) return [];
+
+    const keysFor = (term: string) =>
+      this.foodIndex.where('terms').equals(term).primaryKeys();
+    const scores = new Map<number, number>();
+
+    for (const word of words) {
+      const { prefix, trigrams } = queryWordTerms(word);
+      const wordScores = new Map<number, number>();
+      const [prefixHits, ...trigramHits] = await Promise.all([
+        keysFor(prefix),
+        ...trigrams.map(keysFor),
+      ]);
+      for (const hits of trigramHits) {
+        for (const id of hits) {
+          wordScores.set(id, (wordScores.get(id) || 0) + 1 / trigrams.length);
+        }
+      }
+      for (const id of prefixHits) wordScores.set(id, 1);
+      for (const [id, score] of wordScores) {
+        scores.set(id, (scores.get(id) || 0) + score / words.length);
+      }
+    }
+
+    const ranked = [...scores]
+      .filter(([, score]) => score >= 0.4)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id]) => id);
+    const foods = await this.foods.bulkGet(ranked);
+    return foods.filter((food): food is Food => !!food);
   }
 
   // Cache external search results
@@ -263,9 +594,12 @@ export class WellnessDB extends Dexie {
   // Batch add foods for better performance
   async addFoods(foods: Omit<Food, 'id'>[]): Promise<number[]> {
     try {
-      const ids = await this.foods.bulkAdd(foods);
+      const ids = await this.foods.bulkAdd(foods, { allKeys: true });
+      await this.foodIndex.bulkPut(
+        foods.map((food, i) => foodIndexEntry({ ...food, id: ids[i] }))
+      );
       console.log(`✅ Successfully added ${foods.length} foods`);
-      return Array.isArray(ids) ? ids : [ids];
+      return ids;
     } catch (error) {
       console.error('❌ Error adding foods:', error);
       throw error;
@@ -0,0 +1,133 @@
+import {
+  db,
+  type DiaryEntry,
+  type Food,
+  type Nutrients,
+  type Recipe,
+} from './db';
+import {
+  addNutrients,
+  createFoodLookup,
+  emptyNutrients,
+  entryNutrients,
+  type FoodLookup,
+} from './nutrients';
+import { restoreDiaryEntry } from './pantry';
+import { deleteDiaryById } from './supabaseSync';
+
+// Diary reads for the day view, the week strip and charts, and deletes
+
+// A reference to a food or recipe from a diary entry or recipe ingredient
+export type FoodRef = { foodId?: number; recipeId?: number; name?: string };
+
+export const diaryFoodRefs = (entries: DiaryEntry[]): FoodRef[] =>
+  entries.map((entry) => ({
+    foodId: entry.foodId,
+    recipeId: entry.recipeId,
+    name: entry.customName,
+  }));
+
+export const recipeFoodRefs = (recipes: Recipe[]): FoodRef[] =>
+  recipes.flatMap((recipe) =>
+    recipe.ingredients.map((ingredient) => ({
+      foodId: ingredient.foodId,
+      name: ingredient.foodName,
+    }))
+  );
+
+/**
+ * Foods for a set of references: by id, and by name for references whose
+ * foodId is missing or unknown on this device. Referenced recipes are
+ * loaded with their ingredients' foods.
+ */
+export async function loadFoodLookup(refs: FoodRef[]): Promise<FoodLookup> {
+  const recipeIds = [
+    ...new Set(
+      refs
+        .map((ref) => ref.recipeId)
+        .filter((id): id is number => id !== undefined)
+    ),
+  ];
+  const recipes = (await db.recipes.bulkGet(recipeIds)).filter(
+    (recipe): recipe is Recipe => recipe !== undefined
+  );
+  const foodRefs = [
+    ...refs.filter((ref) => ref.recipeId === undefined),
+    ...recipeFoodRefs(recipes),
+  ];
+
+  const ids = [
+    ...new Set(
+      foodRefs
+        .map((ref) => ref.foodId)
+        .filter((id): id is number => id !== undefined)
+    ),
+  ];
+  const byId = (await db.foods.bulkGet(ids)).filter(
+    (food): food is Food => food !== undefined
+  );
+  const found = new Set(byId.map((food) => food.id));
+
+  const names = [
+    ...new Set(
+      foodRefs
+        .filter(
+          (ref) =>
+            ref.name && (ref.foodId === undefined || !found.has(ref.foodId))
+        )
+        .map((ref) => ref.name!)
+    ),
+  ];
+  const byName = names.length
+    ? await db.foods.where('name').anyOf(names).toArray()
+    : [];
+
+  return createFoodLookup([...byId, ...byName], recipes);
+}
+
+/** Entries logged on a date (yyyy-MM-dd) and their summed nutrients. */
+export async function loadDiaryDay(
+  date: string
+): Promise<{ entries: DiaryEntry[]; totals: Nutrients }> {
+  const entries = await db.diary.where('date').equals(date).toArray();
+  const foods = await loadFoodLookup(diaryFoodRefs(entries));
+  const totals = entries.reduce(
+    (sum, entry) => addNutrients(sum, entryNutrients(entry, foods)),
+    emptyNutrients()
+  );
+  return { entries, totals };
+}
+
+/** Summed nutrients per date; dates with nothing logged are left out. */
+export async function loadDailyTotals(
+  dates: string[]
+): Promise<Record<string, Nutrients>> {
+  const entries = await db.diary.where('date').anyOf(dates).toArray();
+  const foods = await loadFoodLookup(diaryFoodRefs(entries));
+  const totals: Record<string, Nutrients> = {};
+  for (const entry of entries) {
+    totals[entry.date] = addNutrients(
+      totals[entry.date] ?? emptyNutrients(),
+      entryNutrients(entry, foods)
+    );
+  }
+  return totals;
+}
+
+/**
+ * Delete a diary entry, putting back any pantry stock it used up. Returns
+ * false when the delete fails.
+ */
+export async function deleteDiaryEntry(id: number): Promise<boolean> {
+  try {
+    const entry = await db.diary.get(id);
+    if (!entry) return false;
+    await deleteDiaryById(id);
+    await restoreDiaryEntry(entry);
+    window.dispatchEvent(new CustomEvent('diary:changed'));
+    return true;
+  } catch (error) {
+    console.error('Failed to delete diary entry:', error);
+    return false;
+  }
+}
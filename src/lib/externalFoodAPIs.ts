@@ -1,4 +1,5 @@
-import type { Food } from './db';
+import type { Food, Nutrients } from './db';
+import { parseOffMicronutrients } from './nutrients';
 
 // External Food API Integration
 export interface ExternalFoodResult {
@@ -6,107 +7,36 @@ export interface ExternalFoodResult {
   brand?: string;
   category?: string;
   tags?: string[];
-  per100g: { kcal: number; protein: number; carbs: number; fat: number };
+  per100g: Nutrients;
   servings?: { label: string; grams: number }[];
   source: 'usda' | 'openfoodfacts';
   externalId?: string;
-}
-
-// USDA Food Database API
-export class USDAFoodAPI {
-  private static readonly BASE_URL = 'https://api.nal.usda.gov/fdc/v1';
-  private static readonly API_KEY = import.meta.env.VITE_USDA_API_KEY;
-
-  static async searchFoods(query: string, limit: number = 20): Promise<ExternalFoodResult[]> {
-    try {
-      const url = `${this.BASE_URL}/foods/search?api_key=${this.API_KEY}&query=${encodeURIComponent(query)}&pageSize=${limit}&dataType=Foundation,SR Legacy`;
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`USDA API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return this.parseUSDAResults(data.foods || []);
-    } catch (error) {
-      console.error('USDA API search failed:', error);
-      return [];
-    }
-  }
-
-  private static parseUSDAResults(foods: any[]): ExternalFoodResult[] {
-    return foods.map(food => {
-      const nutrients = food.foodNutrients || [];
-      
-      // Extract nutrition data
-      const kcal = this.findNutrient(nutrients, 'Energy') || 0;
-      const protein = this.findNutrient(nutrients, 'Protein') || 0;
-      const carbs = this.findNutrient(nutrients, 'Carbohydrate, by difference') || 0;
-      const fat = this.findNutrient(nutrients, 'Total lipid (fat)') || 0;
-
-      return {
-        name: food.description || 'Unknown Food',
-        brand: food.brandOwner || undefined,
-        category: this.categorizeFood(food.description || ''),
-        tags: this.generateTags(food.description || '', food.foodCategory || ''),
-        per100g: { kcal, protein, carbs, fat },
-        servings: [
-          { label: '100g', grams: 100 },
-          { label: '1 cup', grams: 100 },
-          { label: '1 serving', grams: 100 }
-        ],
-        source: 'usda',
-        externalId: food.fdcId?.toString()
-      };
-    });
-  }
-
-  private static findNutrient(nutrients: any[], name: string): number {
-    const nutrient = nutrients.find(n => n.nutrientName === name);
-    return nutrient ? nutrient.value : 0;
-  }
-
-  private static categorizeFood(description: string): string {
-    const desc = description.toLowerCase();
-    if (desc.includes('milk') || desc.includes('cheese') || desc.includes('yogurt')) return 'dairy';
-    if (desc.includes('apple') || desc.includes('banana') || desc.includes('orange')) return 'fruits';
-    if (desc.includes('chicken') || desc.includes('beef') || desc.includes('fish')) return 'meat';
-    if (desc.includes('rice') || desc.includes('bread') || desc.includes('pasta')) return 'grains';
-    if (desc.includes('bean') || desc.includes('pea') || desc.includes('lentil')) return 'pulses';
-    return 'other';
-  }
-
-  private static generateTags(description: string, category: string): string[] {
-    const tags = [category.toLowerCase()];
-    const desc = description.toLowerCase();
-    
-    if (desc.includes('organic')) tags.push('organic');
-    if (desc.includes('whole')) tags.push('whole grain');
-    if (desc.includes('fresh')) tags.push('fresh');
-    if (desc.includes('frozen')) tags.push('frozen');
-    
-    return tags;
-  }
+  barcode?: string;
 }
 
 // Open Food Facts API
 export class OpenFoodFactsAPI {
-  private static readonly BASE_URL = 'https://world.openfoodfacts.org/cgi/search.pl';
+  private static readonly PRODUCT_URL = 'https://world.openfoodfacts.org/api/v2/product';
 
-  static async searchFoods(query: string, limit: number = 20): Promise<ExternalFoodResult[]> {
+  // Look up a single product by EAN/UPC. Returns null when the code is unknown.
+  static async lookupBarcode(barcode: string): Promise<ExternalFoodResult | null> {
     try {
-      const url = `${this.BASE_URL}?search_terms=${encodeURIComponent(query)}&search_simple=1&action=process&json=1&page_size=${limit}`;
-      
+      const url = `${this.PRODUCT_URL}/${encodeURIComponent(barcode)}.json`;
+
       const response = await fetch(url);
+      if (response.status === 404) return null;
       if (!response.ok) {
         throw new Error(`Open Food Facts API error: ${response.status}`);
       }
 
       const data = await response.json();
-      return this.parseOpenFoodFactsResults(data.products || []);
+      if (data.status !== 1 || !data.product) return null;
+
+      const [result] = this.parseOpenFoodFactsResults([{ code: barcode, ...data.product }]);
+      return result || null;
     } catch (error) {
-      console.error('Open Food Facts API search failed:', error);
-      return [];
+      console.error('Open Food Facts barcode lookup failed:', error);
+      throw error;
     }
   }
 
@@ -122,17 +52,20 @@ export class OpenFoodFactsAPI {
           category: this.categorizeOpenFoodFacts(product),
           tags: this.generateOpenFoodFactsTags(product),
           per100g: {
-            kcal: nutriments.energy_100g || nutriments['energy-kcal_100g'] || 0,
+            // energy_100g is in kJ; only fall back to it when kcal is missing
+            kcal: nutriments['energy-kcal_100g'] || (nutriments.energy_100g ? Math.round(nutriments.energy_100g / 4.184) : 0),
             protein: nutriments.proteins_100g || 0,
             carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0
+            fat: nutriments.fat_100g || 0,
+            ...parseOffMicronutrients(nutriments)
           },
           servings: [
             { label: '100g', grams: 100 },
             { label: '1 serving', grams: product.serving_size ? this.parseServingSize(product.serving_size) : 100 }
           ],
           source: 'openfoodfacts',
-          externalId: product.code
+          externalId: product.code,
+          barcode: product.code || undefined
         };
       });
   }
@@ -171,52 +104,12 @@ export class OpenFoodFactsAPI {
 
 // Unified Food Search API
 export class UnifiedFoodSearch {
-  static async searchAllSources(query: string, limit: number = 20): Promise<ExternalFoodResult[]> {
-    try {
-      // Search multiple sources in parallel
-      const [usdaResults, openFoodResults] = await Promise.allSettled([
-        USDAFoodAPI.searchFoods(query, Math.ceil(limit / 2)),
-        OpenFoodFactsAPI.searchFoods(query, Math.ceil(limit / 2))
-      ]);
-
-      const results: ExternalFoodResult[] = [];
-      
-      // Add USDA results
-      if (usdaResults.status === 'fulfilled') {
-        results.push(...usdaResults.value);
-      }
-      
-      // Add Open Food Facts results
-      if (openFoodResults.status === 'fulfilled') {
-        results.push(...openFoodResults.value);
-      }
-
-      // Remove duplicates and limit results
-      const uniqueResults = this.removeDuplicates(results);
-      return uniqueResults.slice(0, limit);
-    } catch (error) {
-      console.error('Unified food search failed:', error);
-      return [];
-    }
-  }
-
-  private static removeDuplicates(results: ExternalFoodResult[]): ExternalFoodResult[] {
-    const seen = new Set<string>();
-    return results.filter(result => {
-      const key = `${result.name}-${result.brand || 'no-brand'}`;
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
-    });
-  }
-
   // Convert external result to internal Food format
   static convertToFood(externalResult: ExternalFoodResult): Omit<Food, 'id'> {
     return {
       name: externalResult.name,
       brand: externalResult.brand,
+      barcode: externalResult.barcode,
       category: externalResult.category || 'other',
       tags: externalResult.tags || [],
       per100g: externalResult.per100g,
@@ -226,34 +119,3 @@ export class UnifiedFoodSearch {
     };
   }
 }
-
-// Food search cache for better performance
-export class FoodSearchCache {
-  private static cache = new Map<string, { results: ExternalFoodResult[]; timestamp: number }>();
-  private static readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes
-
-  static async getCachedOrSearch(query: string, limit: number = 20): Promise<ExternalFoodResult[]> {
-    const cacheKey = `${query}-${limit}`;
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      console.log('Using cached food search results for:', query);
-      return cached.results;
-    }
-
-    // Perform fresh search
-    const results = await UnifiedFoodSearch.searchAllSources(query, limit);
-    
-    // Cache results
-    this.cache.set(cacheKey, {
-      results,
-      timestamp: Date.now()
-    });
-
-    return results;
-  }
-
-  static clearCache(): void {
-    this.cache.clear();
-  }
-}
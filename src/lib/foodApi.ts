@@ -1,4 +1,9 @@
 import type { Food } from './db';
+import {
+  MICRONUTRIENTS,
+  parseOffMicronutrients,
+  pickMicronutrients,
+} from './nutrients';
 
 const usdaApiKey = import.meta.env.VITE_USDA_FDC_API_KEY as string | undefined;
 
@@ -20,65 +25,29 @@ const parseNumber = (value: number | string | undefined): number => {
   return Number.isFinite(num) ? num : 0;
 };
 
-export async function searchExternalFoods(query: string): Promise<Food[]> {
-  if (!query.trim()) return [];
-
-  try {
-    console.log('Starting external food search for:', query);
-
-    // Parallelize sources and merge
-    const [offFoods, usdaFoods] = await Promise.all([
-      searchOpenFoodFacts(query),
-      usdaApiKey ? searchUSDA(query) : Promise.resolve([] as Food[]),
-    ]);
-
-    console.log('OpenFoodFacts results:', offFoods.length);
-    console.log('USDA results:', usdaFoods.length);
-
-    const merged: Food[] = [];
-    const seen = new Set<string>();
-    for (const src of [offFoods, usdaFoods]) {
-      for (const f of src) {
-        const key = `${f.name.toLowerCase()}::${(f.brand || '').toLowerCase()}`;
-        if (!seen.has(key)) {
-          merged.push(f);
-          seen.add(key);
-        }
-      }
-    }
+// Like parseNumber, but keeps "not reported" distinct from zero
+const parseOptionalNumber = (
+  value: number | string | undefined
+): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
 
-    console.log('Final merged external results:', merged.length);
-    return merged;
-  } catch (err) {
-    console.error('OpenFoodFacts search failed', err);
-    return [];
-  }
-}
+// Raw source fetchers. Ranking, dedup, caching and timeouts live in
+// foodSearchService so every source is scored the same way.
 
-async function searchOpenFoodFacts(query: string): Promise<Food[]> {
+export async function searchOpenFoodFacts(query: string): Promise<Food[]> {
   // OpenFoodFacts does not require an API key and is fully open
 
-  // Clean and improve the search query for better results
-  const cleanQuery = query.trim().toLowerCase();
-
-  // For Indian foods, try to use more specific search terms
-  let searchTerms = cleanQuery;
-  if (cleanQuery === 'dal' || cleanQuery === 'dhal') {
-    searchTerms = 'lentil dal indian';
-  } else if (cleanQuery === 'roti') {
-    searchTerms = 'roti bread indian';
-  } else if (cleanQuery === 'rice') {
-    searchTerms = 'rice grain';
-  }
+  // Regional names are already rewritten by foodSynonyms.externalQuery
+  const searchTerms = query.trim().toLowerCase();
 
   const url = `https://world.openfoodfacts.org/cgi/search.pl?search_terms=${encodeURIComponent(
     searchTerms
   )}&search_simple=1&action=process&json=1&page_size=20&sort_by=popularity_key`;
 
-  console.log('Fetching from OpenFoodFacts:', url);
-
   const resp = await fetch(url, { headers: { Accept: 'application/json' } });
-  console.log('OpenFoodFacts response status:', resp.status);
 
   if (!resp.ok) {
     console.error(
@@ -90,9 +59,6 @@ async function searchOpenFoodFacts(query: string): Promise<Food[]> {
   }
 
   const data: OpenFoodFactsResponse = await resp.json();
-  console.log('OpenFoodFacts raw response:', data);
-  console.log('Products found:', data?.products?.length || 0);
-
   if (!data?.products?.length) return [];
 
   const foods: Food[] = data.products
@@ -107,16 +73,9 @@ async function searchOpenFoodFacts(query: string): Promise<Food[]> {
       const name = p.product_name?.trim();
       if (!name) return null;
 
-      // Filter out products that don't match the original query well
+      // Skip products with very generic names that don't match well
       const productNameLower = name.toLowerCase();
       const originalQuery = query.trim().toLowerCase();
-
-      // Skip products that don't contain the original search term
-      if (!productNameLower.includes(originalQuery)) {
-        return null;
-      }
-
-      // Skip products with very generic names that don't match well
       if (
         productNameLower.includes('sauce') &&
         !originalQuery.includes('sauce')
@@ -152,18 +111,18 @@ async function searchOpenFoodFacts(query: string): Promise<Food[]> {
           protein: Math.round(proteinPer100 * 10) / 10,
           carbs: Math.round(carbsPer100 * 10) / 10,
           fat: Math.round(fatPer100 * 10) / 10,
+          ...parseOffMicronutrients(p.nutriments),
         },
         servings,
         tags,
-        verified: true,
+        // Crowd-sourced data; the search engine trusts it less than USDA
+        verified: false,
       };
 
-      console.log('Processed food item:', food);
       return food;
     })
     .filter(Boolean) as Food[];
 
-  console.log('Final processed foods:', foods.length);
   return foods;
 }
 
@@ -181,7 +140,7 @@ type UsdaResponse = {
   }>;
 };
 
-async function searchUSDA(query: string): Promise<Food[]> {
+export async function searchUSDA(query: string): Promise<Food[]> {
   if (!usdaApiKey) return [];
   const url = `https://api.nal.usda.gov/fdc/v1/foods/search?query=${encodeURIComponent(
     query
@@ -205,6 +164,20 @@ async function searchUSDA(query: string): Promise<Food[]> {
       let carbs = parseNumber(get('carbohydrate'));
       let fat = parseNumber(get('fat'));
 
+      // USDA units already match ours (g for fibre/sugar, mg minerals, µg A/D/B12)
+      const micros = pickMicronutrients({
+        fiber: parseOptionalNumber(get('fiber')),
+        sugar: parseOptionalNumber(get('sugars')),
+        sodium: parseOptionalNumber(get('sodium')),
+        potassium: parseOptionalNumber(get('potassium')),
+        calcium: parseOptionalNumber(get('calcium')),
+        iron: parseOptionalNumber(get('iron')),
+        vitaminA: parseOptionalNumber(get('vitamin a, rae')),
+        vitaminC: parseOptionalNumber(get('vitamin c')),
+        vitaminD: parseOptionalNumber(get('vitamin d (d2 + d3)')),
+        vitaminB12: parseOptionalNumber(get('vitamin b-12')),
+      });
+
       let scale = 1;
       if (f.servingSize && f.servingSizeUnit?.toLowerCase() === 'g') {
         scale = 100 / f.servingSize;
@@ -214,6 +187,12 @@ async function searchUSDA(query: string): Promise<Food[]> {
         protein = Math.round(protein * scale * 10) / 10;
         carbs = Math.round(carbs * scale * 10) / 10;
         fat = Math.round(fat * scale * 10) / 10;
+        for (const { key } of MICRONUTRIENTS) {
+          const value = micros[key];
+          if (value !== undefined) {
+            micros[key] = Math.round(value * scale * 10) / 10;
+          }
+        }
       }
 
       const servings =
@@ -230,7 +209,7 @@ async function searchUSDA(query: string): Promise<Food[]> {
       return {
         name,
         brand: f.brandOwner || undefined,
-        per100g: { kcal, protein, carbs, fat },
+        per100g: { kcal, protein, carbs, fat, ...micros },
         servings,
         tags: [],
         verified: true,
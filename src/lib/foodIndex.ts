@@ -0,0 +1,97 @@
+import type { Food } from './db';
+
+// Tokenizer for the persistent food search index (db.foodIndex). Pure
+// functions so the Dexie schema upgrade and the search engine share them.
+
+// Longest prefix stored per word; longer query words are truncated to match
+const MAX_PREFIX = 12;
+
+export type FoodIndexEntry = {
+  foodId: number;
+  terms: string[];
+};
+
+// Lowercase, strip accents and punctuation. Devanagari vowel signs are marks,
+// so they are kept rather than split into separate words.
+export const normalizeSearchText = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Fold common romanisation variants of the same sound so "daal", "dal",
+ * "paneer" / "panir", "jeera" / "zeera" and "bhindi" / "bhinndi" share one form.
+ */
+export function foldWord(word: string): string {
+  return word
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/ph/g, 'f')
+    .replace(/w/g, 'v')
+    .replace(/q/g, 'k')
+    .replace(/z/g, 'j');
+}
+
+export const searchWords = (text: string): string[] =>
+  normalizeSearchText(text).split(' ').filter(Boolean).map(foldWord);
+
+export const foldSearchText = (text: string) => searchWords(text).join(' ');
+
+const prefixTerm = (word: string) => `p:${word.slice(0, MAX_PREFIX)}`;
+
+// Padded so trigrams also encode word boundaries: "dal" -> " da", "dal", "al "
+const trigrams = (word: string): string[] => {
+  const padded = ` ${word} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(`t:${padded.slice(i, i + 3)}`);
+  }
+  return [...grams];
+};
+
+/**
+ * Index terms for a food: every prefix (2+ chars) of each name, alias, brand
+ * and tag word for type-ahead, plus name and alias trigrams for typo-tolerant
+ * matches.
+ */
+export function foodIndexTerms(
+  food: Pick<Food, 'name' | 'brand' | 'tags' | 'aliases'>
+): string[] {
+  const terms = new Set<string>();
+  const addPrefixes = (word: string) => {
+    for (
+      let length = 2;
+      length <= Math.min(word.length, MAX_PREFIX);
+      length++
+    ) {
+      terms.add(`p:${word.slice(0, length)}`);
+    }
+    if (word.length === 1) terms.add(`p:${word}`);
+  };
+
+  for (const name of [food.name, ...(food.aliases || [])]) {
+    for (const word of searchWords(name)) {
+      addPrefixes(word);
+      trigrams(word).forEach((gram) => terms.add(gram));
+    }
+  }
+  for (const text of [food.brand || '', ...(food.tags || [])]) {
+    searchWords(text).forEach(addPrefixes);
+  }
+  return [...terms];
+}
+
+export const foodIndexEntry = (food: Food): FoodIndexEntry => ({
+  foodId: food.id!,
+  terms: foodIndexTerms(food),
+});
+
+// Terms to look up for one query word
+export const queryWordTerms = (word: string) => ({
+  prefix: prefixTerm(word),
+  trigrams: trigrams(word),
+});
@@ -1,577 +1,458 @@
 import { db, type Food } from './db';
-import { searchExternalFoods } from './foodApi';
-import { generateMealIdeas } from './ai';
-import Fuse from 'fuse.js';
-
-// Cache for external search results
-const searchCache = new Map<string, { results: Food[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-export class FoodSearchService {
-  private static instance: FoodSearchService;
-  private searchDebounceTimer: NodeJS.Timeout | null = null;
-  private fuseInstance: Fuse<Food> | null = null;
-  private allFoods: Food[] = [];
-  private lastSearchQuery: string = '';
+import { loadFoodLookup, recipeFoodRefs } from './diary';
+import { searchOpenFoodFacts, searchUSDA } from './foodApi';
+import { foldSearchText, normalizeSearchText } from './foodIndex';
+import { expandQuery, externalQuery } from './foodSynonyms';
+import { recipeAsFood } from './nutrients';
+import { upsertFood } from './supabaseSync';
+
+// Where a result came from. Local results have an id; external ones don't
+// until the user picks them (see persistFood). Recipes are presented as
+// foods carrying a recipeId and are never saved to the food table.
+export type FoodSourceId = 'local' | 'recipe' | 'openfoodfacts' | 'usda';
+
+export interface FoodSearchSource {
+  id: FoodSourceId;
+  kind: 'local' | 'external';
+  // How much we trust this source's nutrition data, 0..1
+  trust: number;
+  search(query: string, limit: number): Promise<Food[]>;
+}
 
-  static getInstance(): FoodSearchService {
-    if (!FoodSearchService.instance) {
-      FoodSearchService.instance = new FoodSearchService();
-    }
-    return FoodSearchService.instance;
-  }
+// Weights of the scoring model; they sum to 1
+const WEIGHTS = {
+  text: 0.55,
+  frequency: 0.2,
+  verification: 0.1,
+  trust: 0.15,
+};
+
+export interface FoodSearchResult {
+  food: Food;
+  source: FoodSourceId;
+  score: number; // 0..1
+  signals: Record<keyof typeof WEIGHTS, number>;
+}
 
-  /**
-   * Initialize the search service with local foods
-   */
-  async initialize(): Promise<void> {
-    try {
-      this.allFoods = await db.foods.toArray();
-      this.fuseInstance = new Fuse(this.allFoods, {
-        // Performance-optimized settings
-        threshold: 0.4,
-        keys: [
-          { name: 'name', weight: 1.0 },
-          { name: 'brand', weight: 0.5 },
-          { name: 'tags', weight: 0.3 },
-        ],
-        // Performance options
-        includeScore: true,
-        includeMatches: false,
-        minMatchCharLength: 2,
-        ignoreLocation: true, // Better performance
-        findAllMatches: false,
-        distance: 50, // Reduced for better performance
-        useExtendedSearch: false,
-        shouldSort: true,
-      });
-      console.log(
-        'FoodSearchService initialized with',
-        this.allFoods.length,
-        'foods'
-      );
-    } catch (error) {
-      console.error('Error initializing FoodSearchService:', error);
-    }
-  }
+export interface FoodSearchResponse {
+  query: string;
+  results: FoodSearchResult[];
+  sources: { id: FoodSourceId; count: number; error?: string }[];
+  quality: 'High' | 'Medium' | 'Low';
+  tookMs: number;
+}
 
-  /**
-   * Smart food search that prioritizes local results and caches external results
-   * Enhanced with better performance and caching
-   */
-  async searchFoods(
-    query: string,
-    options: {
-      limit?: number;
-      includeExternal?: boolean;
-      includeAI?: boolean;
-      useCache?: boolean;
-      searchMethod?: 'fuzzy' | 'fallback' | 'hybrid';
-    } = {}
-  ): Promise<{
-    local: Food[];
-    external: Food[];
-    aiSuggestions?: string[];
-    total: number;
-    searchQuality: {
-      quality: 'High' | 'Medium' | 'Low';
-      method: string;
-      threshold: number;
-      totalFound: number;
-      qualityKept: number;
-    };
-  }> {
-    const {
-      limit = 20,
-      includeExternal = true,
-      includeAI = false,
-      useCache = true,
-      searchMethod = 'hybrid',
-    } = options;
+export interface FoodSearchOptions {
+  limit?: number;
+  // 'auto' only calls external sources when local results are thin
+  external?: 'auto' | 'always' | 'never';
+}
 
-    const cleanQuery = query.trim();
-    if (!cleanQuery) {
-      return {
-        local: [],
-        external: [],
-        total: 0,
-        searchQuality: {
-          quality: 'Low',
-          method: 'None',
-          threshold: 0,
-          totalFound: 0,
-          qualityKept: 0,
-        },
-      };
-    }
+const DEFAULT_LIMIT = 20;
+// Local results scoring at least this well count as "good" for 'auto'
+const GOOD_MATCH_SCORE = 0.6;
+const MIN_GOOD_LOCAL_RESULTS = 5;
+const EXTERNAL_TIMEOUT_MS = 3000;
+const EXTERNAL_CACHE_MINUTES = 60;
+const USAGE_TTL_MS = 5 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Text relevance, shared by every source so rankings are comparable
+// ---------------------------------------------------------------------------
+
+const bigrams = (text: string) => {
+  const grams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2));
+  return grams;
+};
+
+// Sørensen–Dice similarity, tolerant of typos like "panner" for "paneer"
+function similarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  let shared = 0;
+  for (const gram of aGrams) if (bGrams.has(gram)) shared++;
+  return (2 * shared) / (aGrams.size + bGrams.size);
+}
 
-    // Prevent duplicate searches
-    if (this.lastSearchQuery === cleanQuery) {
-      const cached = this.getCachedResults(cleanQuery);
-      if (cached) return cached;
-    }
-    this.lastSearchQuery = cleanQuery;
+// Relevance of one folded query spelling against one folded name
+function nameRelevance(q: string, name: string, food: Food): number {
+  if (!q || !name) return 0;
 
-    console.log(`Searching for: "${cleanQuery}" with method: ${searchMethod}`);
-    const startTime = performance.now();
+  const nameWords = name.split(' ');
+  const queryWords = q.split(' ');
 
-    // 1. Fast local search first
-    let localResults: Food[] = [];
-    let searchMethodUsed = 'Unknown';
-
-    if (this.fuseInstance && searchMethod !== 'fallback') {
-      // Use Fuse.js fuzzy search
-      const fuseResults = this.fuseInstance.search(cleanQuery);
-      console.log(`Fuse.js found ${fuseResults.length} potential matches`);
-
-      // Get high-quality results quickly
-      localResults = fuseResults
-        .filter((result) => result.score! < 0.5)
-        .slice(0, limit)
-        .map((result) => result.item);
-
-      if (localResults.length > 0) {
-        searchMethodUsed = 'Fuzzy';
-        console.log(`Using ${localResults.length} fuzzy search results`);
-      } else {
-        // Fallback to text search if fuzzy search yields no results
-        localResults = await this.performFallbackSearch(cleanQuery, limit);
-        searchMethodUsed = 'Fallback';
-        console.log(
-          `Fuzzy search failed, using ${localResults.length} fallback results`
-        );
-      }
+  let score: number;
+  if (name === q) score = 1;
+  else if (name.startsWith(q)) score = 0.9;
+  else if (nameWords.some((word) => word.startsWith(q))) score = 0.8;
+  else if (name.includes(q)) score = 0.7;
+  else if (
+    queryWords.every((qw) => nameWords.some((word) => word.startsWith(qw)))
+  ) {
+    score = 0.65;
+  } else {
+    const brand = foldSearchText(food.brand || '');
+    const tags = (food.tags || []).map(foldSearchText);
+    if (brand.includes(q) || tags.some((tag) => tag.includes(q))) {
+      score = 0.45;
     } else {
-      // Direct fallback search
-      localResults = await this.performFallbackSearch(cleanQuery, limit);
-      searchMethodUsed = 'Fallback';
+      // Best fuzzy match of each query word against the name's words
+      const fuzzy =
+        queryWords.reduce(
+          (sum, qw) =>
+            sum + Math.max(...nameWords.map((word) => similarity(qw, word))),
+          0
+        ) / queryWords.length;
+      score = fuzzy >= 0.5 ? fuzzy * 0.6 : 0;
     }
+  }
 
-    let externalResults: Food[] = [];
-    let aiSuggestions: string[] | undefined;
-
-    // 2. Check cache for external results
-    if (includeExternal && localResults.length < limit) {
-      const cacheKey = cleanQuery;
-      const cached = searchCache.get(cacheKey);
-
-      if (
-        cached &&
-        Date.now() - cached.timestamp < CACHE_DURATION &&
-        useCache
-      ) {
-        externalResults = cached.results.slice(0, limit - localResults.length);
-        searchMethodUsed = 'Cached';
-        console.log(`Using ${externalResults.length} cached external results`);
-      } else {
-        try {
-          externalResults = await this.searchExternalWithCache(
-            cleanQuery,
-            limit - localResults.length
-          );
-          console.log(`Found ${externalResults.length} external results`);
-        } catch (error) {
-          console.warn('External search failed:', error);
-        }
-      }
-    }
+  // Prefer specific names: "Dal" over "Dal Makhani with Butter Naan Combo"
+  const extraLength = Math.max(0, name.length - q.length);
+  return Math.max(0, score - Math.min(0.1, extraLength * 0.002));
+}
 
-    // 3. Get AI suggestions if requested and results are insufficient
-    if (includeAI && localResults.length + externalResults.length < 5) {
-      try {
-        const aiPrompt = `Suggest 3-5 healthy food alternatives for: ${cleanQuery}`;
-        const aiResponse = await generateMealIdeas(aiPrompt);
-        aiSuggestions = this.parseAISuggestions(aiResponse);
-        console.log(`Generated ${aiSuggestions.length} AI suggestions`);
-      } catch (error) {
-        console.warn('AI suggestions failed:', error);
-      }
-    }
+/**
+ * Best match of the query, or any synonym spelling of it ("chapati" for
+ * "roti"), against the food's name and aliases. Spellings are folded so
+ * "daal" is an exact match for "Dal"; synonym and alias matches score
+ * slightly lower than a direct hit on the name.
+ */
+export function textRelevance(query: string, food: Food): number {
+  const names = [food.name, ...(food.aliases || [])].map(foldSearchText);
+  let best = 0;
+  expandQuery(query).forEach((variant, variantIndex) => {
+    names.forEach((name, nameIndex) => {
+      const penalty =
+        (variantIndex > 0 ? 0.05 : 0) + (nameIndex > 0 ? 0.05 : 0);
+      best = Math.max(best, nameRelevance(variant, name, food) - penalty);
+    });
+  });
+  return Math.max(0, best);
+}
 
-    // 4. Merge and deduplicate results with optimized sorting
-    const allResults = this.mergeAndDeduplicate(localResults, externalResults);
-    const sortedResults = this.sortByRelevance(allResults, cleanQuery);
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+// Local Dexie foods via the persistent inverted index (db.foodIndex), so the
+// food table is never loaded whole. Ranking happens in the engine.
+class LocalFoodSource implements FoodSearchSource {
+  id = 'local' as const;
+  kind = 'local' as const;
+  trust = 0.9;
+  private reconciled: Promise<void> | null = null;
+
+  // Foods may have been written without going through db.addFood
+  invalidate() {
+    this.reconciled = null;
+  }
 
-    // 5. Cache external results for future use
-    if (externalResults.length > 0 && useCache) {
-      await db.cacheFoodSearch(cleanQuery, externalResults, 60); // Cache for 1 hour
+  async search(query: string, limit: number): Promise<Food[]> {
+    if (!this.reconciled) {
+      this.reconciled = db.indexFoods().catch((error) => {
+        console.error('Failed to reconcile food index:', error);
+      });
     }
+    await this.reconciled;
 
-    const searchTime = performance.now() - startTime;
-    console.log(`Search completed in ${searchTime.toFixed(2)}ms`);
-
-    // 6. Calculate search quality metrics
-    const searchQuality = this.calculateSearchQuality(
-      localResults.length,
-      externalResults.length,
-      searchMethodUsed,
-      0.5
+    // Search every synonym spelling; the engine ranks the merged candidates
+    const seen = new Set<number>();
+    const foods: Food[] = [];
+    const perVariant = await Promise.all(
+      expandQuery(query).map((variant) => db.searchFoodIndex(variant, limit))
     );
-
-    return {
-      local: localResults,
-      external: externalResults,
-      aiSuggestions,
-      total: sortedResults.length,
-      searchQuality,
-    };
-  }
-
-  /**
-   * Perform fallback text-based search when fuzzy search fails
-   */
-  private async performFallbackSearch(
-    query: string,
-    limit: number
-  ): Promise<Food[]> {
-    const queryLower = query.toLowerCase().trim();
-
-    return this.allFoods
-      .map((food) => {
-        const nameLower = food.name.toLowerCase();
-        const brandLower = (food.brand || '').toLowerCase();
-        const tagsLower = (food.tags || []).map((tag) => tag.toLowerCase());
-
-        // Enhanced relevance scoring
-        let score = 0;
-
-        // Exact name match gets highest score
-        if (nameLower === queryLower) score += 100;
-        // Starts with query gets high score
-        else if (nameLower.startsWith(queryLower)) score += 80;
-        // Contains query gets medium score
-        else if (nameLower.includes(queryLower)) score += 60;
-        // Brand contains query gets lower score
-        else if (brandLower.includes(queryLower)) score += 30;
-        // Tags contain query gets lower score
-        else if (tagsLower.some((tag) => tag.includes(queryLower))) score += 20;
-        // No match
-        else score = 0;
-
-        return { food, score };
-      })
-      .filter((item) => item.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((item) => item.food);
-  }
-
-  /**
-   * Enhanced relevance sorting for search results
-   */
-  private sortByRelevance(foods: Food[], query: string): Food[] {
-    const queryLower = query.toLowerCase();
-
-    return foods.sort((a, b) => {
-      const aName = a.name.toLowerCase();
-      const bName = b.name.toLowerCase();
-
-      // Calculate relevance scores for final sorting
-      const getRelevanceScore = (name: string) => {
-        let score = 0;
-
-        // Exact match gets highest priority
-        if (name === queryLower) score += 1000;
-        // Starts with query gets high priority
-        else if (name.startsWith(queryLower)) score += 500;
-        // Contains query gets medium priority
-        else if (name.includes(queryLower)) score += 200;
-
-        // Bonus for shorter names (more specific)
-        score += Math.max(0, 50 - name.length);
-
-        return score;
-      };
-
-      const aScore = getRelevanceScore(aName);
-      const bScore = getRelevanceScore(bName);
-
-      if (aScore !== bScore) {
-        return bScore - aScore;
+    for (const food of perVariant.flat()) {
+      if (food.id !== undefined && !seen.has(food.id)) {
+        seen.add(food.id);
+        foods.push(food);
       }
-
-      // Alphabetical order for same relevance
-      return aName.localeCompare(bName);
-    });
-  }
-
-  /**
-   * Calculate search quality metrics
-   */
-  private calculateSearchQuality(
-    localCount: number,
-    externalCount: number,
-    method: string,
-    threshold: number
-  ) {
-    const totalFound = localCount + externalCount;
-    const qualityKept = totalFound;
-
-    let quality: 'High' | 'Medium' | 'Low';
-    if (totalFound > 10) quality = 'High';
-    else if (totalFound > 5) quality = 'Medium';
-    else quality = 'Low';
-
-    return {
-      quality,
-      method,
-      threshold,
-      totalFound,
-      qualityKept,
-    };
+    }
+    return foods;
   }
+}
 
-  /**
-   * Search external APIs with intelligent caching
-   */
-  private async searchExternalWithCache(
-    query: string,
-    limit: number
-  ): Promise<Food[]> {
-    // Check cache first
+// Saved recipes as foods whose nutrition comes from their ingredients, so a
+// home-cooked dish can be logged as one entry
+const recipeSource: FoodSearchSource = {
+  id: 'recipe',
+  kind: 'local',
+  trust: 0.9,
+  async search(query, limit) {
+    const recipes = await db.recipes.toArray();
+    const foods = await loadFoodLookup(recipeFoodRefs(recipes));
+    return recipes
+      .map((recipe) => recipeAsFood(recipe, foods))
+      .filter((food) => textRelevance(query, food) > 0)
+      .slice(0, limit);
+  },
+};
+
+const externalSource = (
+  id: Exclude<FoodSourceId, 'local' | 'recipe'>,
+  trust: number,
+  fetchFoods: (query: string) => Promise<Food[]>
+): FoodSearchSource => ({
+  id,
+  kind: 'external',
+  trust,
+  async search(query, limit) {
+    // External databases know "yogurt", not "dahi"
+    const sourceQuery = externalQuery(query);
+    const cacheKey = `${id}:${normalizeSearchText(sourceQuery)}`;
     const cached = await db.foodCache
       .where('query')
-      .equals(query.trim().toLowerCase())
+      .equals(cacheKey)
       .and((cache) => new Date(cache.expiresAt) > new Date())
       .first();
+    if (cached) return cached.results.slice(0, limit);
+
+    const foods = await fetchFoods(sourceQuery);
+    await db.cacheFoodSearch(cacheKey, foods, EXTERNAL_CACHE_MINUTES);
+    return foods.slice(0, limit);
+  },
+});
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Search timeout')), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
 
-    if (cached) {
-      console.log('Using cached external results for:', query);
-      return cached.results.slice(0, limit);
-    }
-
-    // Search external APIs
-    const results = await searchExternalFoods(query);
-
-    // Filter and limit results
-    const filtered = results
-      .filter((food) => this.isRelevantFood(food, query))
-      .slice(0, limit);
-
-    return filtered;
-  }
-
-  /**
-   * Check if a food item is relevant to the search query
-   */
-  private isRelevantFood(food: Food, query: string): boolean {
-    const queryLower = query.toLowerCase();
-    const foodNameLower = food.name.toLowerCase();
-
-    // Exact match is always relevant
-    if (foodNameLower === queryLower) return true;
+const foodKey = (food: Food) =>
+  (food.recipeId !== undefined && `recipe:${food.recipeId}`) ||
+  food.barcode ||
+  `${foldSearchText(food.name)}::${foldSearchText(food.brand || '')}`;
 
-    // Contains query is relevant
-    if (foodNameLower.includes(queryLower)) return true;
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
 
-    // Tag-based relevance
-    if (food.tags?.some((tag) => tag.toLowerCase().includes(queryLower)))
-      return true;
+export class FoodSearchService {
+  private static instance: FoodSearchService;
+  private local = new LocalFoodSource();
+  private sources: FoodSearchSource[] = [
+    this.local,
+    recipeSource,
+    externalSource('usda', 0.8, searchUSDA),
+    externalSource('openfoodfacts', 0.6, searchOpenFoodFacts),
+  ];
+  // How often each food appears in the diary, for the frequency signal
+  private usage: { counts: Map<number, number>; max: number } | null = null;
+  private usageLoadedAt = 0;
 
-    // Category-based relevance for common food types
-    const commonFoods = ['rice', 'bread', 'dal', 'curry', 'vegetable', 'fruit'];
-    if (
-      commonFoods.some(
-        (common) =>
-          queryLower.includes(common) && foodNameLower.includes(common)
-      )
-    ) {
-      return true;
+  static getInstance(): FoodSearchService {
+    if (!FoodSearchService.instance) {
+      FoodSearchService.instance = new FoodSearchService();
     }
-
-    return false;
+    return FoodSearchService.instance;
   }
 
   /**
-   * Merge local and external results, removing duplicates
+   * Register an additional source, e.g. a recipe or restaurant catalogue.
+   * A source with the same id replaces the existing one.
    */
-  private mergeAndDeduplicate(local: Food[], external: Food[]): Food[] {
-    const merged: Food[] = [];
-    const seen = new Set<string>();
-
-    // Add local results first (higher priority)
-    for (const food of local) {
-      const key = this.getFoodKey(food);
-      if (!seen.has(key)) {
-        merged.push(food);
-        seen.add(key);
-      }
-    }
-
-    // Add external results, avoiding duplicates
-    for (const food of external) {
-      const key = this.getFoodKey(food);
-      if (!seen.has(key)) {
-        merged.push(food);
-        seen.add(key);
-      }
-    }
-
-    return merged;
+  registerSource(source: FoodSearchSource) {
+    this.sources = [
+      ...this.sources.filter((existing) => existing.id !== source.id),
+      source,
+    ];
   }
 
-  /**
-   * Generate a unique key for food deduplication
-   */
-  private getFoodKey(food: Food): string {
-    const name = food.name.toLowerCase().trim();
-    const brand = (food.brand || '').toLowerCase().trim();
-    return `${name}::${brand}`;
+  // Call after writing to db.foods directly instead of through db.addFood
+  invalidate() {
+    this.local.invalidate();
+    this.usage = null;
   }
 
-  /**
-   * Parse AI suggestions into structured format
-   */
-  private parseAISuggestions(aiResponse: string): string[] {
-    // Extract bullet points or numbered items from AI response
-    const lines = aiResponse.split('\n');
-    const suggestions: string[] = [];
-
-    for (const line of lines) {
-      const clean = line
-        .replace(/^[-*•\d]+\.?\s*/, '') // Remove bullets/numbers
-        .trim();
-
-      if (clean && clean.length > 3 && clean.length < 100) {
-        suggestions.push(clean);
+  async search(
+    query: string,
+    options: FoodSearchOptions = {}
+  ): Promise<FoodSearchResponse> {
+    const { limit = DEFAULT_LIMIT, external = 'auto' } = options;
+    const startTime = performance.now();
+    const cleanQuery = query.trim();
+    const response: FoodSearchResponse = {
+      query: cleanQuery,
+      results: [],
+      sources: [],
+      quality: 'Low',
+      tookMs: 0,
+    };
+    if (cleanQuery.length < 2) return response;
+
+    const usage = await this.getUsage();
+    const collected = new Map<string, FoodSearchResult>();
+    const collect = async (source: FoodSearchSource) => {
+      try {
+        const search = source.search(cleanQuery, limit * 2);
+        const foods =
+          source.kind === 'external'
+            ? await withTimeout(search, EXTERNAL_TIMEOUT_MS)
+            : await search;
+        response.sources.push({ id: source.id, count: foods.length });
+        for (const food of foods) {
+          const result = this.score(cleanQuery, food, source, usage);
+          if (result.signals.text === 0) continue;
+          const key = foodKey(food);
+          const existing = collected.get(key);
+          // Keep the saved copy of a food over an external duplicate
+          const saved = food.id !== undefined;
+          const existingSaved = existing?.food.id !== undefined;
+          if (
+            !existing ||
+            (saved && !existingSaved) ||
+            (saved === existingSaved && result.score > existing.score)
+          ) {
+            collected.set(key, result);
+          }
+        }
+      } catch (error) {
+        console.warn(`Food search source ${source.id} failed:`, error);
+        response.sources.push({
+          id: source.id,
+          count: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
-    }
+    };
 
-    return suggestions.slice(0, 5); // Limit to 5 suggestions
-  }
+    const localSources = this.sources.filter((s) => s.kind === 'local');
+    await Promise.all(localSources.map(collect));
+
+    const goodLocal = [...collected.values()].filter(
+      (result) => result.score >= GOOD_MATCH_SCORE
+    ).length;
+    const useExternal =
+      external === 'always' ||
+      (external === 'auto' &&
+        goodLocal < MIN_GOOD_LOCAL_RESULTS &&
+        navigator.onLine);
+    if (useExternal) {
+      await Promise.all(
+        this.sources.filter((s) => s.kind === 'external').map(collect)
+      );
+    }
 
-  /**
-   * Get popular foods based on search count
-   */
-  async getPopularFoods(limit: number = 10): Promise<Food[]> {
-    return await db.foods
-      .orderBy('searchCount')
-      .reverse()
-      .limit(limit)
-      .toArray();
-  }
+    response.results = [...collected.values()]
+      .sort(
+        (a, b) => b.score - a.score || a.food.name.localeCompare(b.food.name)
+      )
+      .slice(0, limit);
 
-  /**
-   * Get recently added foods
-   */
-  async getRecentFoods(limit: number = 10): Promise<Food[]> {
-    return await db.foods
-      .orderBy('lastUpdated')
-      .reverse()
-      .limit(limit)
-      .toArray();
+    const good = response.results.filter(
+      (result) => result.score >= GOOD_MATCH_SCORE
+    ).length;
+    response.quality = good > 10 ? 'High' : good > 5 ? 'Medium' : 'Low';
+    response.tookMs = performance.now() - startTime;
+    return response;
   }
 
-  /**
-   * Get foods by category
-   */
-  async getFoodsByCategory(
-    category: string,
-    limit: number = 20
-  ): Promise<Food[]> {
-    return await db.foods
-      .where('category')
-      .equals(category)
-      .limit(limit)
-      .toArray();
+  private score(
+    query: string,
+    food: Food,
+    source: FoodSearchSource,
+    usage: { counts: Map<number, number>; max: number }
+  ): FoodSearchResult {
+    const count = food.id !== undefined ? usage.counts.get(food.id) || 0 : 0;
+    const signals = {
+      text: textRelevance(query, food),
+      frequency: usage.max > 0 ? Math.log1p(count) / Math.log1p(usage.max) : 0,
+      verification: food.verified ? 1 : 0,
+      // AI-estimated foods are less reliable wherever they're stored
+      trust: food.source === 'ai' ? Math.min(source.trust, 0.4) : source.trust,
+    };
+    const score =
+      signals.text === 0
+        ? 0
+        : (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).reduce(
+            (sum, key) => sum + WEIGHTS[key] * signals[key],
+            0
+          );
+    return { food, source: source.id, score, signals };
   }
 
-  /**
-   * Add a new food item with smart deduplication
-   */
-  async addFood(food: Omit<Food, 'id'>): Promise<number> {
-    const id = await db.addFood({
-      ...food,
-      source: 'user',
-      lastUpdated: new Date().toISOString(),
-      searchCount: 1,
-    });
-
-    // Refresh the local foods array and Fuse instance
-    await this.refreshFoods();
-
-    return id;
+  private async getUsage() {
+    if (this.usage && Date.now() - this.usageLoadedAt < USAGE_TTL_MS) {
+      return this.usage;
+    }
+    const counts = new Map<number, number>();
+    try {
+      const foodIds = (await db.diary.orderBy('foodId').keys()) as number[];
+      for (const id of foodIds) counts.set(id, (counts.get(id) || 0) + 1);
+    } catch (error) {
+      console.error('Failed to load food usage:', error);
+    }
+    this.usage = { counts, max: Math.max(0, ...counts.values()) };
+    this.usageLoadedAt = Date.now();
+    return this.usage;
   }
 
   /**
-   * Refresh local foods and Fuse instance
+   * Save a picked result locally (external results have no id yet), sync it,
+   * and bump its popularity. Returns the stored food; recipes come back as is.
    */
-  async refreshFoods(): Promise<void> {
-    this.allFoods = await db.foods.toArray();
-    if (this.fuseInstance) {
-      this.fuseInstance = new Fuse(this.allFoods, {
-        // Performance-optimized settings
-        threshold: 0.4,
-        keys: [
-          { name: 'name', weight: 1.0 },
-          { name: 'brand', weight: 0.5 },
-          { name: 'tags', weight: 0.3 },
-        ],
-        // Performance options
-        includeScore: true,
-        includeMatches: false,
-        minMatchCharLength: 2,
-        ignoreLocation: true, // Better performance
-        findAllMatches: false,
-        distance: 50, // Reduced for better performance
-        useExtendedSearch: false,
-        shouldSort: true,
+  async persistFood(food: Food): Promise<Food> {
+    if (food.recipeId !== undefined) return food;
+    if (food.id !== undefined) {
+      await db.foods.update(food.id, {
+        searchCount: (food.searchCount || 0) + 1,
       });
+      return food;
     }
+
+    const id = await db.addFood({ ...food, source: food.source ?? 'external' });
+    const saved = (await db.foods.get(id)) ?? { ...food, id };
+    await upsertFood(saved);
+    return saved;
   }
 
-  /**
-   * Debounced search for better performance
-   */
-  async debouncedSearch(
-    query: string,
-    callback: (results: Awaited<ReturnType<typeof this.searchFoods>>) => void,
-    delay: number = 300
-  ): Promise<void> {
-    if (this.searchDebounceTimer) {
-      clearTimeout(this.searchDebounceTimer);
+  // Let a saved food be found by another name, e.g. a family's name for a dish
+  async addAlias(food: Food, alias: string): Promise<Food> {
+    const name = alias.trim();
+    const existing = food.aliases || [];
+    if (
+      food.id === undefined ||
+      !name ||
+      [food.name, ...existing].some(
+        (known) => foldSearchText(known) === foldSearchText(name)
+      )
+    ) {
+      return food;
     }
 
-    this.searchDebounceTimer = setTimeout(async () => {
-      const results = await this.searchFoods(query);
-      callback(results);
-    }, delay);
-  }
-
-  /**
-   * Get cached results for a query
-   */
-  private getCachedResults(query: string): {
-    local: Food[];
-    external: Food[];
-    aiSuggestions?: string[];
-    total: number;
-    searchQuality: {
-      quality: 'High' | 'Medium' | 'Low';
-      method: string;
-      threshold: number;
-      totalFound: number;
-      qualityKept: number;
+    const updated: Food = {
+      ...food,
+      aliases: [...existing, name],
+      lastUpdated: new Date().toISOString(),
     };
-  } | null {
-    const cached = searchCache.get(query);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return {
-        local: [],
-        external: cached.results,
-        aiSuggestions: undefined,
-        total: cached.results.length,
-        searchQuality: {
-          quality: 'Medium',
-          method: 'Cached',
-          threshold: 0.5,
-          totalFound: cached.results.length,
-          qualityKept: cached.results.length,
-        },
-      };
-    }
-    return null;
+    await db.foods.update(food.id, {
+      aliases: updated.aliases,
+      lastUpdated: updated.lastUpdated,
+    });
+    await db.indexFoods([food.id]);
+    await upsertFood(updated, ['aliases']);
+    return updated;
   }
 }
 
 export const foodSearchService = FoodSearchService.getInstance();
+
+// Keep the usage signal and local index fresh after logging
+if (typeof window !== 'undefined') {
+  window.addEventListener('diary:changed', () =>
+    foodSearchService.invalidate()
+  );
+}
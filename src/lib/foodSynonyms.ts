@@ -0,0 +1,206 @@
+import { foldSearchText, foldWord, normalizeSearchText } from './foodIndex';
+
+// Regional names, romanisations and Devanagari spellings that refer to the
+// same food. The first term is the canonical name used in indianFoodDatabase;
+// `english` is what external databases (USDA, Open Food Facts) index it under.
+type SynonymGroup = { terms: string[]; english?: string };
+
+const SYNONYM_GROUPS: SynonymGroup[] = [
+  // Staples
+  {
+    terms: ['dal', 'daal', 'dhal', 'dhall', 'दाल'],
+    english: 'lentil dal',
+  },
+  {
+    terms: [
+      'roti',
+      'chapati',
+      'chapatti',
+      'phulka',
+      'fulka',
+      'रोटी',
+      'चपाती',
+      'फुलका',
+    ],
+    english: 'roti bread',
+  },
+  { terms: ['paratha', 'parantha', 'prantha', 'पराठा', 'परांठा'] },
+  { terms: ['rice', 'chawal', 'chaval', 'चावल'], english: 'rice' },
+  { terms: ['atta', 'whole wheat flour', 'आटा'], english: 'whole wheat flour' },
+  {
+    terms: ['besan', 'gram flour', 'chickpea flour', 'बेसन'],
+    english: 'chickpea flour',
+  },
+  {
+    terms: ['poha', 'pohe', 'flattened rice', 'पोहा'],
+    english: 'flattened rice',
+  },
+  { terms: ['khichdi', 'khichri', 'khichadi', 'खिचड़ी', 'खिचडी'] },
+  { terms: ['idli', 'idly', 'इडली'] },
+  { terms: ['dosa', 'dosai', 'dosha', 'डोसा'] },
+  { terms: ['upma', 'uppittu', 'उपमा'] },
+
+  // Dairy
+  { terms: ['dahi', 'curd', 'yogurt', 'yoghurt', 'दही'], english: 'yogurt' },
+  { terms: ['paneer', 'panir', 'cottage cheese', 'पनीर'], english: 'paneer' },
+  { terms: ['ghee', 'ghi', 'clarified butter', 'घी'], english: 'ghee' },
+  { terms: ['milk', 'doodh', 'dudh', 'दूध'], english: 'milk' },
+  {
+    terms: ['chaas', 'chhaas', 'buttermilk', 'mattha', 'छाछ'],
+    english: 'buttermilk',
+  },
+  { terms: ['lassi', 'लस्सी'] },
+
+  // Pulses
+  {
+    terms: [
+      'chana',
+      'channa',
+      'chole',
+      'chhole',
+      'chickpea',
+      'chickpeas',
+      'चना',
+      'छोले',
+    ],
+    english: 'chickpeas',
+  },
+  { terms: ['rajma', 'kidney beans', 'राजमा'], english: 'kidney beans' },
+  { terms: ['moong', 'mung', 'moong dal', 'मूंग'], english: 'mung beans' },
+  {
+    terms: ['masoor', 'red lentil', 'masoor dal', 'मसूर'],
+    english: 'red lentils',
+  },
+  {
+    terms: ['toor', 'arhar', 'tuvar', 'toor dal', 'pigeon pea', 'तूर', 'अरहर'],
+    english: 'pigeon peas',
+  },
+  { terms: ['urad', 'black gram', 'urad dal', 'उड़द'], english: 'black gram' },
+
+  // Vegetables
+  { terms: ['aloo', 'alu', 'potato', 'आलू'], english: 'potato' },
+  { terms: ['gobi', 'gobhi', 'cauliflower', 'गोभी'], english: 'cauliflower' },
+  {
+    terms: ['bhindi', 'okra', 'ladyfinger', 'lady finger', 'भिंडी'],
+    english: 'okra',
+  },
+  { terms: ['palak', 'spinach', 'पालक'], english: 'spinach' },
+  {
+    terms: ['baingan', 'brinjal', 'eggplant', 'aubergine', 'बैंगन'],
+    english: 'eggplant',
+  },
+  { terms: ['matar', 'mattar', 'peas', 'मटर'], english: 'green peas' },
+  { terms: ['methi', 'fenugreek', 'मेथी'], english: 'fenugreek' },
+  {
+    terms: ['pyaz', 'pyaaz', 'kanda', 'onion', 'प्याज़', 'प्याज'],
+    english: 'onion',
+  },
+  { terms: ['tamatar', 'tomato', 'टमाटर'], english: 'tomato' },
+  { terms: ['sabzi', 'sabji', 'subzi', 'subji', 'सब्ज़ी', 'सब्जी'] },
+
+  // Protein
+  { terms: ['anda', 'egg', 'eggs', 'अंडा'], english: 'egg' },
+  {
+    terms: ['murgh', 'murg', 'chicken', 'मुर्गा', 'मुर्ग'],
+    english: 'chicken',
+  },
+  { terms: ['machli', 'machhli', 'fish', 'मछली'], english: 'fish' },
+  { terms: ['gosht', 'mutton', 'गोश्त'], english: 'mutton' },
+
+  // Spices, sweets and drinks
+  { terms: ['jeera', 'zeera', 'cumin', 'जीरा'], english: 'cumin' },
+  { terms: ['haldi', 'turmeric', 'हल्दी'], english: 'turmeric' },
+  { terms: ['halwa', 'halva', 'हलवा'] },
+  { terms: ['kheer', 'payasam', 'payesh', 'खीर'] },
+  { terms: ['chai', 'tea', 'चाय'], english: 'tea' },
+  { terms: ['gur', 'jaggery', 'गुड़'], english: 'jaggery' },
+];
+
+// Folded term -> group, so "daal", "Dal" and "दाल" all resolve the same way
+const GROUP_BY_TERM = new Map<string, SynonymGroup>();
+for (const group of SYNONYM_GROUPS) {
+  for (const term of group.terms)
+    GROUP_BY_TERM.set(foldSearchText(term), group);
+}
+
+// Longest phrase in the dictionary, in words ("whole wheat flour")
+const MAX_PHRASE_WORDS = 3;
+const MAX_VARIANTS = 8;
+
+type PhraseMatch = { start: number; end: number; group: SynonymGroup };
+
+// Greedy longest-match of dictionary phrases over the folded query words
+function matchPhrases(words: string[]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+  let start = 0;
+  while (start < words.length) {
+    let matched: PhraseMatch | null = null;
+    for (
+      let size = Math.min(MAX_PHRASE_WORDS, words.length - start);
+      size > 0;
+      size--
+    ) {
+      const group = GROUP_BY_TERM.get(
+        words.slice(start, start + size).join(' ')
+      );
+      if (group) {
+        matched = { start, end: start + size, group };
+        break;
+      }
+    }
+    if (matched) {
+      matches.push(matched);
+      start = matched.end;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Alternative spellings of a query for local search: the query itself first,
+ * then each recognised dish or ingredient swapped for its synonyms, e.g.
+ * "chapati with dahi" -> "roti with dahi", "chapati with curd", ...
+ */
+export function expandQuery(query: string): string[] {
+  const words = foldSearchText(query).split(' ').filter(Boolean);
+  const variants = new Set<string>([words.join(' ')]);
+
+  for (const match of matchPhrases(words)) {
+    for (const term of match.group.terms) {
+      if (variants.size >= MAX_VARIANTS) break;
+      variants.add(
+        [
+          ...words.slice(0, match.start),
+          foldSearchText(term),
+          ...words.slice(match.end),
+        ].join(' ')
+      );
+    }
+  }
+  return [...variants].filter(Boolean);
+}
+
+/**
+ * Query to send to external databases, which mostly index English names:
+ * recognised regional names are replaced by their English equivalent
+ * ("daal" -> "lentil dal", "दही" -> "yogurt"). Unknown words pass through.
+ */
+export function externalQuery(query: string): string {
+  // Folding is per word, so both lists line up; unmatched words keep their
+  // original spelling
+  const original = normalizeSearchText(query).split(' ').filter(Boolean);
+  const matches = matchPhrases(original.map(foldWord));
+  if (matches.length === 0) return query.trim();
+
+  const out: string[] = [];
+  let index = 0;
+  for (const match of matches) {
+    out.push(...original.slice(index, match.start));
+    out.push(match.group.english ?? match.group.terms[0]);
+    index = match.end;
+  }
+  out.push(...original.slice(index));
+  return out.join(' ');
+}
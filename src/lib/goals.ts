@@ -0,0 +1,129 @@
+import { db, type Goal } from './db';
+import { todayKey } from './dates';
+
+// Daily nutrition targets over time. Each row in the goals table applies from
+// its effectiveFrom day until the next row, so changing targets mid-cut keeps
+// past days scored against what the goal was then.
+
+export type GoalTargets = Pick<Goal, 'kcal' | 'protein' | 'carbs' | 'fat'>;
+
+export const DEFAULT_GOALS: GoalTargets = {
+  kcal: 2000,
+  protein: 150,
+  carbs: 250,
+  fat: 65,
+};
+
+// Where goals lived before they had a history
+const LEGACY_GOALS_KEY = 'wellnessdash_goals';
+
+const targetsOf = (goal: GoalTargets): GoalTargets => ({
+  kcal: goal.kcal,
+  protein: goal.protein,
+  carbs: goal.carbs,
+  fat: goal.fat,
+});
+
+const notifyGoalsChanged = () =>
+  window.dispatchEvent(new CustomEvent('goals:changed'));
+
+/** All goal changes, oldest first. */
+export async function loadGoalHistory(): Promise<Goal[]> {
+  try {
+    return await db.goals.orderBy('effectiveFrom').toArray();
+  } catch (error) {
+    console.error('Failed to load goal history:', error);
+    return [];
+  }
+}
+
+/**
+ * The goal change in effect on a day (yyyy-MM-dd), from a history sorted
+ * oldest first. Days before the first recorded goal use the first one.
+ */
+export function goalRecordForDate(
+  history: Goal[],
+  date: string
+): Goal | undefined {
+  let current = history[0];
+  for (const goal of history) {
+    if (goal.effectiveFrom > date) break;
+    current = goal;
+  }
+  return current;
+}
+
+/** Targets in effect on a day; the defaults when there is no history. */
+export function goalForDate(history: Goal[], date: string): GoalTargets {
+  const goal = goalRecordForDate(history, date);
+  return goal ? targetsOf(goal) : DEFAULT_GOALS;
+}
+
+export async function loadGoalForDate(date: string): Promise<GoalTargets> {
+  return goalForDate(await loadGoalHistory(), date);
+}
+
+/**
+ * Record targets from a day onwards, replacing any change already made on
+ * that day. Returns false when the save fails.
+ */
+export async function saveGoal(
+  targets: GoalTargets,
+  effectiveFrom: string = todayKey()
+): Promise<boolean> {
+  try {
+    const existing = await db.goals
+      .where('effectiveFrom')
+      .equals(effectiveFrom)
+      .first();
+    if (existing) {
+      await db.goals.update(existing.id!, targetsOf(targets));
+    } else {
+      await db.goals.add({ effectiveFrom, ...targetsOf(targets) });
+    }
+    notifyGoalsChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to save goal:', error);
+    return false;
+  }
+}
+
+/** Remove a goal change. The last remaining goal can't be removed. */
+export async function deleteGoal(id: number): Promise<boolean> {
+  try {
+    if ((await db.goals.count()) <= 1) return false;
+    await db.goals.delete(id);
+    notifyGoalsChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete goal:', error);
+    return false;
+  }
+}
+
+/**
+ * Start the history on first run: from goals saved by older versions of the
+ * app if there are any, otherwise from the profile's daily targets.
+ */
+export async function ensureGoalHistory(fallback: GoalTargets): Promise<void> {
+  try {
+    let targets = fallback;
+    const saved = localStorage.getItem(LEGACY_GOALS_KEY);
+    if (saved) {
+      const legacy = JSON.parse(saved);
+      targets = {
+        kcal: legacy.kcal ?? legacy.calories ?? fallback.kcal,
+        protein: legacy.protein ?? fallback.protein,
+        carbs: legacy.carbs ?? fallback.carbs,
+        fat: legacy.fat ?? fallback.fat,
+      };
+    }
+    await db.transaction('rw', db.goals, async () => {
+      if ((await db.goals.count()) > 0) return;
+      await db.goals.add({ effectiveFrom: todayKey(), ...targets });
+    });
+  } catch (error) {
+    console.error('Failed to initialize goal history:', error);
+  }
+}
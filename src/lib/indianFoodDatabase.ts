@@ -8,7 +8,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Pintola',
     category: 'breakfast',
     tags: ['oats', 'chocolate', 'breakfast', 'cereal', 'healthy'],
-    per100g: { kcal: 380, protein: 12, carbs: 65, fat: 8 },
+    per100g: {
+      kcal: 380, protein: 12, carbs: 65, fat: 8,
+      fiber: 9, sugar: 14, sodium: 10, calcium: 50, iron: 4
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1/2 cup', grams: 50 },
@@ -22,7 +25,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Pintola',
     category: 'breakfast',
     tags: ['oats', 'natural', 'breakfast', 'cereal', 'healthy'],
-    per100g: { kcal: 350, protein: 13, carbs: 60, fat: 6 },
+    per100g: {
+      kcal: 350, protein: 13, carbs: 60, fat: 6,
+      fiber: 10, sugar: 1, sodium: 5, calcium: 54, iron: 4.7
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1/2 cup', grams: 50 },
@@ -36,7 +42,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['poha', 'rice', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 360, protein: 7, carbs: 78, fat: 1 },
+    per100g: {
+      kcal: 360, protein: 7, carbs: 78, fat: 1,
+      fiber: 2, sugar: 0.5, sodium: 8, calcium: 20, iron: 4.5
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1 plate', grams: 200 },
@@ -50,7 +59,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['upma', 'semolina', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 340, protein: 10, carbs: 70, fat: 2 },
+    per100g: {
+      kcal: 340, protein: 10, carbs: 70, fat: 2,
+      fiber: 3.9, sugar: 0.5, sodium: 1, calcium: 17, iron: 1.2
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1 plate', grams: 200 },
@@ -64,7 +76,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['idli', 'rice', 'lentil', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 120, protein: 4, carbs: 25, fat: 0.5 },
+    per100g: {
+      kcal: 120, protein: 4, carbs: 25, fat: 0.5,
+      fiber: 1.5, sugar: 0.3, sodium: 250, calcium: 15, iron: 0.6
+    },
     servings: [
       { label: '1 piece', grams: 50 },
       { label: '2 pieces', grams: 100 },
@@ -78,7 +93,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['dosa', 'rice', 'lentil', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 150, protein: 5, carbs: 30, fat: 1 },
+    per100g: {
+      kcal: 150, protein: 5, carbs: 30, fat: 1,
+      fiber: 1.8, sugar: 0.5, sodium: 300, calcium: 20, iron: 0.8
+    },
     servings: [
       { label: '1 piece', grams: 80 },
       { label: '2 pieces', grams: 160 },
@@ -92,7 +110,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['paratha', 'wheat', 'bread', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 280, protein: 8, carbs: 45, fat: 8 },
+    per100g: {
+      kcal: 280, protein: 8, carbs: 45, fat: 8,
+      fiber: 4.5, sugar: 1, sodium: 350, calcium: 30, iron: 2.5
+    },
     servings: [
       { label: '1 piece', grams: 60 },
       { label: '2 pieces', grams: 120 },
@@ -106,7 +127,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'breakfast',
     tags: ['paratha', 'potato', 'wheat', 'breakfast', 'indian', 'traditional'],
-    per100g: { kcal: 320, protein: 9, carbs: 48, fat: 12 },
+    per100g: {
+      kcal: 320, protein: 9, carbs: 48, fat: 12,
+      fiber: 4, sugar: 1.2, sodium: 400, calcium: 30, iron: 2.2
+    },
     servings: [
       { label: '1 piece', grams: 80 },
       { label: '2 pieces', grams: 160 },
@@ -122,7 +146,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'grains',
     tags: ['rice', 'basmati', 'grain', 'indian', 'traditional'],
-    per100g: { kcal: 350, protein: 7, carbs: 78, fat: 1 },
+    per100g: {
+      kcal: 350, protein: 7, carbs: 78, fat: 1,
+      fiber: 1, sugar: 0.1, sodium: 5, calcium: 10, iron: 0.8
+    },
     servings: [
       { label: '1 cup cooked', grams: 150 },
       { label: '1/2 cup cooked', grams: 75 },
@@ -136,7 +163,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'grains',
     tags: ['wheat', 'flour', 'atta', 'grain', 'indian', 'traditional'],
-    per100g: { kcal: 340, protein: 13, carbs: 72, fat: 2 },
+    per100g: {
+      kcal: 340, protein: 13, carbs: 72, fat: 2,
+      fiber: 11, sugar: 0.4, sodium: 2, calcium: 30, iron: 4
+    },
     servings: [
       { label: '1 cup', grams: 120 },
       { label: '1/2 cup', grams: 60 },
@@ -150,7 +180,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'grains',
     tags: ['jowar', 'sorghum', 'grain', 'indian', 'traditional', 'gluten-free'],
-    per100g: { kcal: 330, protein: 11, carbs: 72, fat: 3 },
+    per100g: {
+      kcal: 330, protein: 11, carbs: 72, fat: 3,
+      fiber: 9.7, sugar: 1.9, sodium: 6, calcium: 27, iron: 3.9
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1/2 cup', grams: 50 },
@@ -164,7 +197,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'grains',
     tags: ['bajra', 'millet', 'grain', 'indian', 'traditional', 'gluten-free'],
-    per100g: { kcal: 360, protein: 12, carbs: 67, fat: 5 },
+    per100g: {
+      kcal: 360, protein: 12, carbs: 67, fat: 5,
+      fiber: 11.5, sugar: 1.4, sodium: 10, calcium: 27, iron: 6.4
+    },
     servings: [
       { label: '1 cup', grams: 100 },
       { label: '1/2 cup', grams: 50 },
@@ -180,7 +216,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'pulses',
     tags: ['toor', 'dal', 'pigeon pea', 'pulse', 'indian', 'traditional'],
-    per100g: { kcal: 340, protein: 22, carbs: 62, fat: 1 },
+    per100g: {
+      kcal: 340, protein: 22, carbs: 62, fat: 1,
+      fiber: 9, sugar: 2, sodium: 17, calcium: 73, iron: 3.9
+    },
     servings: [
       { label: '1 cup cooked', grams: 150 },
       { label: '1/2 cup cooked', grams: 75 },
@@ -194,7 +233,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'pulses',
     tags: ['moong', 'dal', 'green gram', 'pulse', 'indian', 'traditional'],
-    per100g: { kcal: 350, protein: 24, carbs: 60, fat: 1 },
+    per100g: {
+      kcal: 350, protein: 24, carbs: 60, fat: 1,
+      fiber: 8, sugar: 2, sodium: 15, calcium: 75, iron: 3.9
+    },
     servings: [
       { label: '1 cup cooked', grams: 150 },
       { label: '1/2 cup cooked', grams: 75 },
@@ -208,7 +250,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'pulses',
     tags: ['chana', 'dal', 'chickpea', 'pulse', 'indian', 'traditional'],
-    per100g: { kcal: 360, protein: 21, carbs: 61, fat: 6 },
+    per100g: {
+      kcal: 360, protein: 21, carbs: 61, fat: 6,
+      fiber: 15, sugar: 4, sodium: 24, calcium: 56, iron: 5.3
+    },
     servings: [
       { label: '1 cup cooked', grams: 150 },
       { label: '1/2 cup cooked', grams: 75 },
@@ -222,7 +267,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'pulses',
     tags: ['rajma', 'kidney beans', 'pulse', 'indian', 'traditional'],
-    per100g: { kcal: 330, protein: 23, carbs: 60, fat: 1 },
+    per100g: {
+      kcal: 330, protein: 23, carbs: 60, fat: 1,
+      fiber: 15, sugar: 2, sodium: 24, calcium: 140, iron: 8.2
+    },
     servings: [
       { label: '1 cup cooked', grams: 150 },
       { label: '1/2 cup cooked', grams: 75 },
@@ -238,7 +286,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'vegetables',
     tags: ['tomato', 'vegetable', 'indian', 'seasonal'],
-    per100g: { kcal: 18, protein: 1, carbs: 4, fat: 0.2 },
+    per100g: {
+      kcal: 18, protein: 1, carbs: 4, fat: 0.2,
+      fiber: 1.2, sugar: 2.6, sodium: 5, calcium: 10, iron: 0.3
+    },
     servings: [
       { label: '1 medium', grams: 120 },
       { label: '1 cup chopped', grams: 150 },
@@ -252,7 +303,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'vegetables',
     tags: ['onion', 'vegetable', 'indian', 'seasonal'],
-    per100g: { kcal: 40, protein: 1, carbs: 9, fat: 0.1 },
+    per100g: {
+      kcal: 40, protein: 1, carbs: 9, fat: 0.1,
+      fiber: 1.7, sugar: 4.2, sodium: 4, calcium: 23, iron: 0.2
+    },
     servings: [
       { label: '1 medium', grams: 110 },
       { label: '1 cup chopped', grams: 160 },
@@ -266,7 +320,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'vegetables',
     tags: ['potato', 'vegetable', 'indian', 'seasonal'],
-    per100g: { kcal: 77, protein: 2, carbs: 17, fat: 0.1 },
+    per100g: {
+      kcal: 77, protein: 2, carbs: 17, fat: 0.1,
+      fiber: 2.2, sugar: 0.8, sodium: 6, calcium: 12, iron: 0.8
+    },
     servings: [
       { label: '1 medium', grams: 150 },
       { label: '1 cup diced', grams: 150 },
@@ -280,7 +337,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'vegetables',
     tags: ['spinach', 'palak', 'vegetable', 'indian', 'seasonal', 'leafy'],
-    per100g: { kcal: 23, protein: 3, carbs: 4, fat: 0.4 },
+    per100g: {
+      kcal: 23, protein: 3, carbs: 4, fat: 0.4,
+      fiber: 2.2, sugar: 0.4, sodium: 79, calcium: 99, iron: 2.7
+    },
     servings: [
       { label: '1 cup raw', grams: 30 },
       { label: '1 cup cooked', grams: 180 },
@@ -294,7 +354,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'vegetables',
     tags: ['cauliflower', 'gobi', 'vegetable', 'indian', 'seasonal'],
-    per100g: { kcal: 25, protein: 2, carbs: 5, fat: 0.3 },
+    per100g: {
+      kcal: 25, protein: 2, carbs: 5, fat: 0.3,
+      fiber: 2, sugar: 1.9, sodium: 30, calcium: 22, iron: 0.4
+    },
     servings: [
       { label: '1 cup florets', grams: 100 },
       { label: '1 medium head', grams: 800 },
@@ -310,7 +373,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'dairy',
     tags: ['milk', 'dairy', 'indian', 'traditional'],
-    per100g: { kcal: 61, protein: 3, carbs: 5, fat: 3.3 },
+    per100g: {
+      kcal: 61, protein: 3, carbs: 5, fat: 3.3,
+      fiber: 0, sugar: 5, sodium: 43, calcium: 120, iron: 0.1
+    },
     servings: [
       { label: '1 cup', grams: 240 },
       { label: '1 glass', grams: 200 },
@@ -324,7 +390,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'dairy',
     tags: ['curd', 'yogurt', 'dairy', 'indian', 'traditional'],
-    per100g: { kcal: 59, protein: 4, carbs: 4, fat: 3.3 },
+    per100g: {
+      kcal: 59, protein: 4, carbs: 4, fat: 3.3,
+      fiber: 0, sugar: 4, sodium: 46, calcium: 120, iron: 0.1
+    },
     servings: [
       { label: '1 cup', grams: 245 },
       { label: '1 bowl', grams: 150 },
@@ -338,7 +407,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'dairy',
     tags: ['paneer', 'cottage cheese', 'dairy', 'indian', 'traditional'],
-    per100g: { kcal: 265, protein: 18, carbs: 2, fat: 20 },
+    per100g: {
+      kcal: 265, protein: 18, carbs: 2, fat: 20,
+      fiber: 0, sugar: 1.5, sodium: 20, calcium: 480, iron: 0.2
+    },
     servings: [
       { label: '1 cup cubed', grams: 100 },
       { label: '1 piece', grams: 50 },
@@ -354,7 +426,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'spices',
     tags: ['turmeric', 'spice', 'indian', 'traditional', 'anti-inflammatory'],
-    per100g: { kcal: 354, protein: 8, carbs: 65, fat: 10 },
+    per100g: {
+      kcal: 354, protein: 8, carbs: 65, fat: 10,
+      fiber: 21, sugar: 3.2, sodium: 27, calcium: 168, iron: 55
+    },
     servings: [
       { label: '1 tsp', grams: 2 },
       { label: '1/2 tsp', grams: 1 },
@@ -368,7 +443,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'spices',
     tags: ['cumin', 'jeera', 'spice', 'indian', 'traditional'],
-    per100g: { kcal: 375, protein: 18, carbs: 44, fat: 22 },
+    per100g: {
+      kcal: 375, protein: 18, carbs: 44, fat: 22,
+      fiber: 10.5, sugar: 2.3, sodium: 168, calcium: 931, iron: 66
+    },
     servings: [
       { label: '1 tsp', grams: 2 },
       { label: '1/2 tsp', grams: 1 },
@@ -384,7 +462,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'meals',
     tags: ['khichdi', 'dal', 'rice', 'indian', 'traditional', 'comfort food'],
-    per100g: { kcal: 180, protein: 8, carbs: 32, fat: 3 },
+    per100g: {
+      kcal: 180, protein: 8, carbs: 32, fat: 3,
+      fiber: 3, sugar: 1, sodium: 300, calcium: 30, iron: 1.5
+    },
     servings: [
       { label: '1 bowl', grams: 250 },
       { label: '1 plate', grams: 300 },
@@ -398,7 +479,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'meals',
     tags: ['rajma', 'rice', 'kidney beans', 'indian', 'traditional'],
-    per100g: { kcal: 220, protein: 12, carbs: 40, fat: 2 },
+    per100g: {
+      kcal: 220, protein: 12, carbs: 40, fat: 2,
+      fiber: 5, sugar: 1, sodium: 350, calcium: 40, iron: 2.5
+    },
     servings: [
       { label: '1 plate', grams: 300 },
       { label: '1 bowl', grams: 250 },
@@ -412,7 +496,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'meals',
     tags: ['chole', 'bhature', 'chickpea', 'bread', 'indian', 'traditional'],
-    per100g: { kcal: 320, protein: 10, carbs: 45, fat: 12 },
+    per100g: {
+      kcal: 320, protein: 10, carbs: 45, fat: 12,
+      fiber: 5, sugar: 2, sodium: 450, calcium: 45, iron: 2.8
+    },
     servings: [
       { label: '1 plate', grams: 350 },
       { label: '1 serving', grams: 250 },
@@ -428,7 +515,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'beverages',
     tags: ['chai', 'tea', 'masala', 'indian', 'traditional', 'beverage'],
-    per100g: { kcal: 45, protein: 1, carbs: 8, fat: 1.5 },
+    per100g: {
+      kcal: 45, protein: 1, carbs: 8, fat: 1.5,
+      fiber: 0.2, sugar: 7, sodium: 20, calcium: 50, iron: 0.1
+    },
     servings: [
       { label: '1 cup', grams: 200 },
       { label: '1 glass', grams: 250 },
@@ -442,7 +532,10 @@ export const indianFoodDatabase: Omit<Food, 'id'>[] = [
     brand: 'Generic',
     category: 'beverages',
     tags: ['lassi', 'yogurt', 'sweet', 'indian', 'traditional', 'beverage'],
-    per100g: { kcal: 85, protein: 3, carbs: 12, fat: 2.5 },
+    per100g: {
+      kcal: 85, protein: 3, carbs: 12, fat: 2.5,
+      fiber: 0, sugar: 11, sodium: 40, calcium: 100, iron: 0.1
+    },
     servings: [
       { label: '1 glass', grams: 250 },
       { label: '1 cup', grams: 200 },
@@ -0,0 +1,468 @@
+import { db, type DiaryEntry, type Food } from './db';
+import { foodSearchService } from './foodSearchService';
+import { estimateFoodWithAI, isAIConfigured } from './ai';
+import { upsertDiary } from './supabaseSync';
+import { consumeDiaryEntry } from './pantry';
+import { hourOf } from './dates';
+
+// Turns "2 rotis and a bowl of dal for lunch" into diary entry drafts.
+// Parsing is offline and deterministic; food names are resolved through the
+// local search engine, with the AI helper as an optional fallback.
+
+export type Meal = DiaryEntry['meal'];
+
+export type UnitKey =
+  | 'katori'
+  | 'bowl'
+  | 'plate'
+  | 'cup'
+  | 'glass'
+  | 'tbsp'
+  | 'tsp'
+  | 'slice'
+  | 'piece'
+  | 'serving'
+  | 'g'
+  | 'ml';
+
+type UnitInfo = {
+  words: string[];
+  // Serving labels in Food.servings that mean the same portion
+  servingWords: string[];
+  // Used when the food has no matching serving
+  defaultGrams: number;
+};
+
+const UNITS: Record<UnitKey, UnitInfo> = {
+  katori: {
+    words: ['katori', 'katoris', 'vati', 'wati'],
+    servingWords: ['katori', 'bowl'],
+    defaultGrams: 150,
+  },
+  bowl: {
+    words: ['bowl', 'bowls'],
+    servingWords: ['bowl', 'katori'],
+    defaultGrams: 200,
+  },
+  plate: {
+    words: ['plate', 'plates', 'thali'],
+    servingWords: ['plate'],
+    defaultGrams: 300,
+  },
+  cup: {
+    words: ['cup', 'cups', 'mug', 'mugs'],
+    servingWords: ['cup'],
+    defaultGrams: 240,
+  },
+  glass: {
+    words: ['glass', 'glasses'],
+    servingWords: ['glass'],
+    defaultGrams: 250,
+  },
+  tbsp: {
+    words: [
+      'tbsp',
+      'tbsps',
+      'tablespoon',
+      'tablespoons',
+      'spoon',
+      'spoons',
+      'chammach',
+    ],
+    servingWords: ['tbsp', 'tablespoon'],
+    defaultGrams: 15,
+  },
+  tsp: {
+    words: ['tsp', 'tsps', 'teaspoon', 'teaspoons'],
+    servingWords: ['tsp', 'teaspoon'],
+    defaultGrams: 5,
+  },
+  slice: {
+    words: ['slice', 'slices'],
+    servingWords: ['slice'],
+    defaultGrams: 30,
+  },
+  piece: {
+    words: ['piece', 'pieces', 'pc', 'pcs', 'nos'],
+    servingWords: ['piece', 'pc', 'medium', 'whole'],
+    defaultGrams: 50,
+  },
+  serving: {
+    words: [
+      'serving',
+      'servings',
+      'portion',
+      'portions',
+      'helping',
+      'helpings',
+    ],
+    servingWords: ['serving', 'portion'],
+    defaultGrams: 150,
+  },
+  g: {
+    words: ['g', 'gm', 'gms', 'gram', 'grams', 'gr'],
+    servingWords: [],
+    defaultGrams: 1,
+  },
+  ml: {
+    words: [
+      'ml',
+      'mls',
+      'millilitre',
+      'milliliter',
+      'millilitres',
+      'milliliters',
+    ],
+    servingWords: [],
+    defaultGrams: 1,
+  },
+};
+
+const UNIT_BY_WORD = new Map<string, UnitKey>();
+for (const [key, info] of Object.entries(UNITS) as [UnitKey, UnitInfo][]) {
+  for (const word of info.words) UNIT_BY_WORD.set(word, key);
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  half: 0.5,
+  quarter: 0.25,
+  couple: 2,
+  dozen: 12,
+  // Hindi
+  ek: 1,
+  // 'do' (2) is left out: it's also an English word
+  teen: 3,
+  char: 4,
+  chaar: 4,
+  paanch: 5,
+  panch: 5,
+  aadha: 0.5,
+  adha: 0.5,
+};
+
+const FRACTIONS: Record<string, number> = {
+  '½': 0.5,
+  '¼': 0.25,
+  '¾': 0.75,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+};
+
+const MEAL_WORDS: Record<string, Meal> = {
+  breakfast: 'breakfast',
+  nashta: 'breakfast',
+  naashta: 'breakfast',
+  brunch: 'breakfast',
+  lunch: 'lunch',
+  dinner: 'dinner',
+  supper: 'dinner',
+  snack: 'snack',
+  snacks: 'snack',
+};
+
+export type ParsedItem = {
+  text: string; // the chunk of input this item came from
+  quantity: number;
+  unit?: UnitKey;
+  name: string;
+};
+
+export type ParsedMeal = {
+  meal?: Meal; // only when the text names one
+  items: ParsedItem[];
+};
+
+// "2 rotis" -> "2 roti", "tomatoes" -> "tomato"; prefix search covers the rest
+function singularize(word: string): string {
+  if (word.length <= 3 || word.endsWith('ss')) return word;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function parseQuantity(token: string): number | undefined {
+  if (token in NUMBER_WORDS) return NUMBER_WORDS[token];
+  if (token in FRACTIONS) return FRACTIONS[token];
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction && Number(fraction[2]) > 0) {
+    return Number(fraction[1]) / Number(fraction[2]);
+  }
+  const num = Number(token);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+function parseItem(chunk: string): ParsedItem | null {
+  // Split "100g" into "100 g" and "1½" into "1 ½"
+  const tokens = chunk
+    .replace(/(\d)([a-z]+)\b/g, '$1 $2')
+    .replace(/(\d)([½¼¾⅓⅔])/g, '$1 $2')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let quantity: number | undefined;
+  let unit: UnitKey | undefined;
+  const nameWords: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const value = parseQuantity(token);
+    // Quantities come before the food name; digits may also trail it
+    // ("paneer 100 g"), but words may not ("chicken a la king")
+    const isWord = token in NUMBER_WORDS;
+    if (
+      value !== undefined &&
+      quantity === undefined &&
+      unit === undefined &&
+      (!isWord || nameWords.length === 0)
+    ) {
+      // "1 ½" -> 1.5
+      const next = tokens[i + 1] && FRACTIONS[tokens[i + 1]];
+      quantity = next ? value + next : value;
+      if (next) i++;
+      continue;
+    }
+    if (value !== undefined && quantity !== undefined && token in FRACTIONS) {
+      quantity += value;
+      continue;
+    }
+    const unitKey = UNIT_BY_WORD.get(token);
+    if (
+      unitKey &&
+      unit === undefined &&
+      (quantity !== undefined || nameWords.length === 0)
+    ) {
+      unit = unitKey;
+      continue;
+    }
+    // "a bowl of dal", "half an apple", "2 x samosa"
+    if (
+      ['of', 'x', 'a', 'an', 'the'].includes(token) &&
+      nameWords.length === 0
+    ) {
+      continue;
+    }
+    nameWords.push(singularize(token));
+  }
+
+  const name = nameWords.join(' ').trim();
+  if (!name) return null;
+  return { text: chunk, quantity: quantity ?? 1, unit, name };
+}
+
+/**
+ * Parse a free-text meal description. Items are separated by commas, "and",
+ * "with", "+" or "aur"; a meal is recognised from words like "for lunch" or
+ * "breakfast:".
+ */
+export function parseMealText(text: string): ParsedMeal {
+  let meal: Meal | undefined;
+  const cleaned = text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(
+      /\b(?:for|at|in|during|with)?\s*(breakfast|nashta|naashta|brunch|lunch|dinner|supper|snacks?)\b\s*:?/g,
+      (_match, word: string) => {
+        meal ??= MEAL_WORDS[word];
+        return ',';
+      }
+    );
+
+  const items = cleaned
+    .split(/,|;|\n|\+|&|\band\b|\bwith\b|\baur\b|\bplus\b/)
+    .map((chunk) => chunk.replace(/[^\p{L}\p{M}\p{N}./½¼¾⅓⅔\s]/gu, ' ').trim())
+    .filter(Boolean)
+    .map(parseItem)
+    .filter((item): item is ParsedItem => item !== null);
+
+  return { meal, items };
+}
+
+// Meal to default to when the text doesn't say, from the time of day in the
+// user's time zone
+export function mealForTime(date: Date = new Date()): Meal {
+  const hour = hourOf(date);
+  if (hour < 11) return 'breakfast';
+  if (hour < 16) return 'lunch';
+  if (hour < 18) return 'snack';
+  return 'dinner';
+}
+
+// ---------------------------------------------------------------------------
+// Resolution against foods
+// ---------------------------------------------------------------------------
+
+// Search results below this are shown as suggestions, not auto-picked
+export const MATCH_SCORE = 0.5;
+
+export type MealDraft = {
+  item: ParsedItem;
+  status: 'matched' | 'estimated' | 'unmatched';
+  food?: Food;
+  alternatives: Food[]; // other plausible foods, best first
+  servingLabel: string;
+  gramsPerUnit: number;
+  quantity: number;
+};
+
+/**
+ * Pick the serving for a parsed quantity. Gram and ml amounts become a
+ * single custom serving; unit words map to a matching Food.servings label
+ * or the unit's typical weight; no unit means the food's first serving
+ * ("2 roti" = 2 x "1 roti").
+ */
+export function pickServing(
+  food: Food | undefined,
+  item: ParsedItem
+): Pick<MealDraft, 'servingLabel' | 'gramsPerUnit' | 'quantity'> {
+  if (item.unit === 'g' || item.unit === 'ml') {
+    const amount = Math.round(item.quantity);
+    return {
+      servingLabel: `${amount}${item.unit}`,
+      gramsPerUnit: amount,
+      quantity: 1,
+    };
+  }
+
+  const servings = food?.servings || [];
+  if (item.unit) {
+    const info = UNITS[item.unit];
+    const serving = servings.find((s) =>
+      info.servingWords.some((word) => s.label.toLowerCase().includes(word))
+    );
+    return serving
+      ? {
+          servingLabel: serving.label,
+          gramsPerUnit: serving.grams,
+          quantity: item.quantity,
+        }
+      : {
+          servingLabel: `1 ${item.unit}`,
+          gramsPerUnit: info.defaultGrams,
+          quantity: item.quantity,
+        };
+  }
+
+  const serving = servings[0] ?? { label: '100g', grams: 100 };
+  return {
+    servingLabel: serving.label,
+    gramsPerUnit: serving.grams,
+    quantity: item.quantity,
+  };
+}
+
+async function resolveItem(
+  item: ParsedItem,
+  useAI: boolean
+): Promise<MealDraft> {
+  const response = await foodSearchService.search(item.name, {
+    limit: 5,
+    external: 'never',
+  });
+  const [best, ...rest] = response.results;
+
+  if (best && best.score >= MATCH_SCORE) {
+    return {
+      item,
+      status: 'matched',
+      food: best.food,
+      alternatives: rest.map((result) => result.food),
+      ...pickServing(best.food, item),
+    };
+  }
+
+  if (useAI) {
+    const estimate = await estimateFoodWithAI(item.text);
+    if (estimate) {
+      const food: Food = {
+        name: estimate.name,
+        per100g: estimate.per100g,
+        servings: [
+          { label: estimate.servingLabel, grams: estimate.servingGrams },
+        ],
+        tags: ['ai-estimate'],
+        source: 'ai',
+        verified: false,
+      };
+      return {
+        item,
+        status: 'estimated',
+        food,
+        alternatives: response.results.map((result) => result.food),
+        ...pickServing(food, item),
+      };
+    }
+  }
+
+  return {
+    item,
+    status: 'unmatched',
+    // Weak matches are offered as choices but never logged unreviewed
+    alternatives: response.results.map((result) => result.food),
+    ...pickServing(undefined, item),
+  };
+}
+
+/**
+ * Parse and resolve a meal description into drafts for review. The AI
+ * fallback is only tried for unmatched items, when online and configured.
+ */
+export async function draftMealEntries(
+  text: string,
+  options: { useAI?: boolean } = {}
+): Promise<{ meal?: Meal; drafts: MealDraft[] }> {
+  const parsed = parseMealText(text);
+  const useAI = (options.useAI ?? true) && isAIConfigured() && navigator.onLine;
+  const drafts = await Promise.all(
+    parsed.items.map((item) => resolveItem(item, useAI))
+  );
+  return { meal: parsed.meal, drafts };
+}
+
+/**
+ * Write confirmed drafts to the diary. AI-estimated foods are saved first so
+ * the entries can reference them. Returns the number of entries logged.
+ */
+export async function logMealDrafts(
+  drafts: MealDraft[],
+  meal: Meal,
+  date: string
+): Promise<number> {
+  let logged = 0;
+  for (const draft of drafts) {
+    if (!draft.food) continue;
+    const food =
+      draft.food.id === undefined
+        ? await foodSearchService.persistFood(draft.food)
+        : draft.food;
+
+    const entry: Omit<DiaryEntry, 'id'> = {
+      date,
+      meal,
+      foodId: food.id,
+      recipeId: food.recipeId,
+      customName: food.name,
+      servingLabel: draft.servingLabel,
+      grams: draft.gramsPerUnit,
+      quantity: draft.quantity,
+      price: null,
+    };
+    const id = await db.diary.add(entry);
+    await upsertDiary({ ...entry, id });
+    await consumeDiaryEntry({ ...entry, id });
+    logged++;
+  }
+  return logged;
+}
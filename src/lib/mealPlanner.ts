@@ -0,0 +1,338 @@
+import { db, type Food, type MealPlan } from './db';
+import type { FoodRef } from './diary';
+import type { GoalTargets } from './goals';
+import { mealPlanNutrients, type FoodLookup } from './nutrients';
+import { deleteMealPlanById, upsertMealPlan } from './supabaseSync';
+
+// Meal plans live in the mealPlans table, one row per planned dish: a recipe
+// by servings, a food by weight or a custom meal by name. Both planners, both
+// shopping list generators and AI plan acceptance read and write them here.
+
+// Where the weekly planner kept its day plans before they moved to IndexedDB
+const LEGACY_MEAL_PLANS_KEY = 'wellnessdash_mealplans';
+
+export type PlannerMeal = MealPlan['meal'];
+
+export const PLANNER_MEALS: PlannerMeal[] = [
+  'breakfast',
+  'lunch',
+  'dinner',
+  'snack',
+];
+
+export type PlannerNutrition = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+};
+
+// A planned dish as the planners show it
+export interface PlannerMealItem {
+  id: number;
+  name: string;
+  meal: PlannerMeal;
+  grams?: number; // planned foods
+  servings?: number; // planned recipes and custom meals
+  nutritionalInfo: PlannerNutrition;
+}
+
+// The dishes planned on one day
+export interface PlannerDay {
+  date: string; // yyyy-MM-dd
+  meals: Record<PlannerMeal, PlannerMealItem[]>;
+  totalNutrition: PlannerNutrition;
+}
+
+export type NewMealPlan = Omit<MealPlan, 'id' | 'lastUpdated' | 'syncId'>;
+
+// A food or recipe to buy for the plan, summed over its dishes
+export type PlannedGrocery = {
+  foodId?: number;
+  name: string;
+  grams: number;
+  sources: string[]; // recipes it goes into, or 'Meal plan'
+};
+
+const notifyMealPlansChanged = () =>
+  window.dispatchEvent(new CustomEvent('mealplans:changed'));
+
+const emptyNutrition = (): PlannerNutrition => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+});
+
+export const mealPlanFoodRefs = (plans: MealPlan[]): FoodRef[] =>
+  plans.map((plan) => ({
+    foodId: plan.foodId,
+    recipeId: plan.recipeId,
+    name: plan.customName,
+  }));
+
+/** Planned dishes on the given dates, or all of them. */
+export async function loadMealPlans(dates?: string[]): Promise<MealPlan[]> {
+  try {
+    return dates
+      ? await db.mealPlans.where('date').anyOf(dates).toArray()
+      : await db.mealPlans.toArray();
+  } catch (error) {
+    console.error('Failed to load meal plans:', error);
+    return [];
+  }
+}
+
+/** Planned dishes from a date (yyyy-MM-dd) on. */
+export async function loadMealPlansFrom(date: string): Promise<MealPlan[]> {
+  try {
+    return await db.mealPlans.where('date').aboveOrEqual(date).toArray();
+  } catch (error) {
+    console.error('Failed to load meal plans:', error);
+    return [];
+  }
+}
+
+// Daily goals are kept as { kcal, ... } by the rest of the app
+export const plannerGoals = (goals: GoalTargets): PlannerNutrition => ({
+  calories: goals.kcal,
+  protein: goals.protein,
+  carbs: goals.carbs,
+  fat: goals.fat,
+});
+
+/**
+ * A food planned by weight. A recipe picked from search is planned by
+ * servings instead, so its ingredients are counted and shopped for.
+ */
+export function plannedFood(
+  date: string,
+  meal: PlannerMeal,
+  food: Food,
+  grams: number
+): NewMealPlan {
+  if (food.recipeId !== undefined) {
+    const servingGrams =
+      food.servings?.find((serving) => serving.label === '1 serving')?.grams ||
+      100;
+    return {
+      date,
+      meal,
+      recipeId: food.recipeId,
+      servings: Math.round((grams / servingGrams) * 100) / 100,
+    };
+  }
+  return { date, meal, foodId: food.id, customName: food.name, grams };
+}
+
+export function mealPlanName(plan: MealPlan, foods: FoodLookup): string {
+  if (plan.recipeId !== undefined) {
+    return foods.recipes.get(plan.recipeId)?.name ?? 'Deleted recipe';
+  }
+  return plan.customName || 'Planned meal';
+}
+
+/** Planned dishes grouped by day, with their nutrients, earliest first. */
+export function plannerDays(
+  plans: MealPlan[],
+  foods: FoodLookup
+): PlannerDay[] {
+  const days = new Map<string, PlannerDay>();
+  for (const plan of plans) {
+    let day = days.get(plan.date);
+    if (!day) {
+      day = {
+        date: plan.date,
+        meals: { breakfast: [], lunch: [], dinner: [], snack: [] },
+        totalNutrition: emptyNutrition(),
+      };
+      days.set(plan.date, day);
+    }
+
+    const recipe =
+      plan.recipeId !== undefined
+        ? foods.recipes.get(plan.recipeId)
+        : undefined;
+    const nutrients = mealPlanNutrients(plan, recipe, foods);
+    const nutritionalInfo = {
+      calories: Math.round(nutrients.kcal),
+      protein: Math.round(nutrients.protein),
+      carbs: Math.round(nutrients.carbs),
+      fat: Math.round(nutrients.fat),
+    };
+    day.meals[plan.meal].push({
+      id: plan.id!,
+      name: mealPlanName(plan, foods),
+      meal: plan.meal,
+      grams: plan.grams,
+      servings: plan.grams === undefined ? plan.servings ?? 1 : undefined,
+      nutritionalInfo,
+    });
+    day.totalNutrition = {
+      calories: day.totalNutrition.calories + nutritionalInfo.calories,
+      protein: day.totalNutrition.protein + nutritionalInfo.protein,
+      carbs: day.totalNutrition.carbs + nutritionalInfo.carbs,
+      fat: day.totalNutrition.fat + nutritionalInfo.fat,
+    };
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * What the planned dishes need: foods by weight and the ingredients of
+ * recipes scaled to the planned servings. Custom meals have no ingredients.
+ */
+export function mealPlanGroceries(
+  plans: MealPlan[],
+  foods: FoodLookup
+): PlannedGrocery[] {
+  const groceries = new Map<string, PlannedGrocery>();
+  const add = (
+    foodId: number | undefined,
+    name: string,
+    grams: number,
+    source: string
+  ) => {
+    const key = name.trim().toLowerCase();
+    const existing = groceries.get(key);
+    if (existing) {
+      existing.grams += grams;
+      existing.foodId ??= foodId;
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      groceries.set(key, { foodId, name, grams, sources: [source] });
+    }
+  };
+
+  for (const plan of plans) {
+    if (plan.recipeId !== undefined) {
+      const recipe = foods.recipes.get(plan.recipeId);
+      if (!recipe) continue;
+      const scale = (plan.servings ?? 1) / Math.max(recipe.servings || 1, 1);
+      for (const ingredient of recipe.ingredients) {
+        if (!(ingredient.grams > 0)) continue;
+        add(
+          ingredient.foodId || undefined,
+          ingredient.foodName,
+          ingredient.grams * scale,
+          recipe.name
+        );
+      }
+    } else if (plan.grams && plan.customName) {
+      add(plan.foodId, plan.customName, plan.grams, 'Meal plan');
+    }
+  }
+  return [...groceries.values()];
+}
+
+/** Add planned dishes. Returns the saved rows, or [] when saving fails. */
+export async function addMealPlans(plans: NewMealPlan[]): Promise<MealPlan[]> {
+  try {
+    const saved: MealPlan[] = [];
+    for (const plan of plans) {
+      const record: MealPlan = {
+        ...plan,
+        lastUpdated: new Date().toISOString(),
+      };
+      record.id = await db.mealPlans.add(record);
+      await upsertMealPlan(record);
+      saved.push(record);
+    }
+    if (saved.length) notifyMealPlansChanged();
+    return saved;
+  } catch (error) {
+    console.error('Failed to save meal plan:', error);
+    return [];
+  }
+}
+
+export async function deleteMealPlan(id: number): Promise<boolean> {
+  try {
+    await deleteMealPlanById(id);
+    notifyMealPlansChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete meal plan:', error);
+    return false;
+  }
+}
+
+/** Remove everything planned on the given dates. */
+export async function clearMealPlans(dates: string[]): Promise<number> {
+  try {
+    const plans = await db.mealPlans.where('date').anyOf(dates).toArray();
+    for (const plan of plans) await deleteMealPlanById(plan.id!);
+    if (plans.length) notifyMealPlansChanged();
+    return plans.length;
+  } catch (error) {
+    console.error('Failed to clear meal plans:', error);
+    return 0;
+  }
+}
+
+// The weekly planner kept one plan per day with its foods copied in
+type LegacyDayPlan = {
+  date?: unknown;
+  meals?: Record<
+    string,
+    { foodId?: unknown; foodName?: unknown; grams?: unknown }[]
+  >;
+};
+
+/**
+ * Move day plans kept in localStorage by the old weekly planner into the
+ * mealPlans table, one row per planned food. Returns the number moved.
+ */
+export async function migrateLocalMealPlans(): Promise<number> {
+  try {
+    const saved = localStorage.getItem(LEGACY_MEAL_PLANS_KEY);
+    if (!saved) return 0;
+
+    const legacy: unknown = JSON.parse(saved);
+    const plans: NewMealPlan[] = [];
+    for (const day of Array.isArray(legacy) ? legacy : []) {
+      const { date, meals } = (day ?? {}) as LegacyDayPlan;
+      if (typeof date !== 'string' || !meals) continue;
+      for (const meal of PLANNER_MEALS) {
+        for (const item of Array.isArray(meals[meal]) ? meals[meal] : []) {
+          const grams = Number(item?.grams);
+          if (typeof item?.foodName !== 'string' || !(grams > 0)) continue;
+          const foodId = Number(item.foodId);
+          plans.push({
+            date,
+            meal,
+            // Items without a saved food had id 0
+            foodId: foodId > 0 ? foodId : undefined,
+            customName: item.foodName,
+            grams,
+          });
+        }
+      }
+    }
+
+    // Skip dishes an interrupted earlier run already moved
+    const fresh: NewMealPlan[] = [];
+    for (const plan of plans) {
+      const duplicate = await db.mealPlans
+        .where('date')
+        .equals(plan.date)
+        .and(
+          (p) =>
+            p.meal === plan.meal &&
+            p.customName === plan.customName &&
+            p.grams === plan.grams
+        )
+        .first();
+      if (!duplicate) fresh.push(plan);
+    }
+
+    const migrated = fresh.length ? (await addMealPlans(fresh)).length : 0;
+    if (migrated === fresh.length) {
+      localStorage.removeItem(LEGACY_MEAL_PLANS_KEY);
+    }
+    return migrated;
+  } catch (error) {
+    console.error('Failed to migrate local meal plans:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,362 @@
+import type {
+  DiaryEntry,
+  Food,
+  MealPlan,
+  Micronutrients,
+  Nutrients,
+  Recipe,
+} from './db';
+
+export type MicronutrientKey = keyof Micronutrients;
+
+export interface MicronutrientInfo {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  // Daily reference intake for an adult (ICMR-NIN / WHO guidance)
+  rda: number;
+  // 'limit' nutrients (sodium, sugar) should stay under the reference value
+  kind: 'target' | 'limit';
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fiber', label: 'Fibre', unit: 'g', rda: 30, kind: 'target' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', rda: 50, kind: 'limit' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', rda: 2000, kind: 'limit' },
+  {
+    key: 'potassium',
+    label: 'Potassium',
+    unit: 'mg',
+    rda: 3500,
+    kind: 'target',
+  },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', rda: 1000, kind: 'target' },
+  { key: 'iron', label: 'Iron', unit: 'mg', rda: 18, kind: 'target' },
+  {
+    key: 'vitaminA',
+    label: 'Vitamin A',
+    unit: 'µg',
+    rda: 900,
+    kind: 'target',
+  },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', rda: 80, kind: 'target' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', rda: 15, kind: 'target' },
+  {
+    key: 'vitaminB12',
+    label: 'Vitamin B12',
+    unit: 'µg',
+    rda: 2.4,
+    kind: 'target',
+  },
+];
+
+export const emptyNutrients = (): Nutrients => ({
+  kcal: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+});
+
+// Scale a per-100g profile to an amount in grams. Unknown micronutrients stay unknown.
+export function scaleNutrients(per100g: Nutrients, grams: number): Nutrients {
+  const multiplier = grams / 100;
+  const scaled: Nutrients = {
+    kcal: per100g.kcal * multiplier,
+    protein: per100g.protein * multiplier,
+    carbs: per100g.carbs * multiplier,
+    fat: per100g.fat * multiplier,
+  };
+  for (const { key } of MICRONUTRIENTS) {
+    const value = per100g[key];
+    if (value !== undefined) scaled[key] = value * multiplier;
+  }
+  return scaled;
+}
+
+export function addNutrients(a: Nutrients, b: Nutrients): Nutrients {
+  const sum: Nutrients = {
+    kcal: a.kcal + b.kcal,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+  };
+  for (const { key } of MICRONUTRIENTS) {
+    if (a[key] !== undefined || b[key] !== undefined) {
+      sum[key] = (a[key] || 0) + (b[key] || 0);
+    }
+  }
+  return sum;
+}
+
+// Macros logged explicitly on a diary entry (e.g. imported from another app)
+// take precedence over the values computed from the food
+export function applyOverrides(
+  nutrients: Nutrients,
+  overrides: DiaryEntry['overrides']
+): Nutrients {
+  if (!overrides) return nutrients;
+  const result = { ...nutrients };
+  for (const key of ['kcal', 'protein', 'carbs', 'fat'] as const) {
+    const value = overrides[key];
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+// Round for display: kcal to whole numbers, everything else to one decimal
+export function roundNutrients(nutrients: Nutrients): Nutrients {
+  const rounded: Nutrients = {
+    kcal: Math.round(nutrients.kcal),
+    protein: Math.round(nutrients.protein * 10) / 10,
+    carbs: Math.round(nutrients.carbs * 10) / 10,
+    fat: Math.round(nutrients.fat * 10) / 10,
+  };
+  for (const { key } of MICRONUTRIENTS) {
+    const value = nutrients[key];
+    if (value !== undefined) rounded[key] = Math.round(value * 10) / 10;
+  }
+  return rounded;
+}
+
+// Percentage of the daily reference value, or null when nothing was recorded
+export function percentOfRda(
+  info: MicronutrientInfo,
+  amount: number | undefined
+): number | null {
+  if (amount === undefined) return null;
+  return (amount / info.rda) * 100;
+}
+
+// Pick only finite values from an arbitrary source record into Micronutrients
+export function pickMicronutrients(
+  source: Partial<Record<MicronutrientKey, number | undefined>>
+): Micronutrients {
+  const micros: Micronutrients = {};
+  for (const { key } of MICRONUTRIENTS) {
+    const value = source[key];
+    if (value !== undefined && Number.isFinite(value)) micros[key] = value;
+  }
+  return micros;
+}
+
+/**
+ * Micronutrients from an Open Food Facts `nutriments` record. Its *_100g
+ * values are in grams; we store mg / µg for minerals and vitamins.
+ */
+export function parseOffMicronutrients(
+  nutriments: Record<string, unknown> | undefined
+): Micronutrients {
+  const read = (key: string, factor = 1) => {
+    const value = nutriments?.[`${key}_100g`];
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = Number(value);
+    return Number.isFinite(num) ? num * factor : undefined;
+  };
+  const micros = pickMicronutrients({
+    fiber: read('fiber'),
+    sugar: read('sugars'),
+    sodium: read('sodium', 1000),
+    potassium: read('potassium', 1000),
+    calcium: read('calcium', 1000),
+    iron: read('iron', 1000),
+    vitaminA: read('vitamin-a', 1_000_000),
+    vitaminC: read('vitamin-c', 1000),
+    vitaminD: read('vitamin-d', 1_000_000),
+    vitaminB12: read('vitamin-b12', 1_000_000),
+  });
+  for (const { key } of MICRONUTRIENTS) {
+    const value = micros[key];
+    if (value !== undefined) micros[key] = Math.round(value * 10) / 10;
+  }
+  return micros;
+}
+
+// ---------------------------------------------------------------------------
+// Resolving logged and planned food to nutrients
+// ---------------------------------------------------------------------------
+
+/**
+ * Foods by id, plus by lowercased name for records whose foodId is missing
+ * or belongs to another device (synced and imported entries keep their
+ * customName). Recipes logged to the diary come with their ingredients'
+ * foods.
+ */
+export type FoodLookup = {
+  byId: Map<number, Food>;
+  byName: Map<string, Food>;
+  recipes: Map<number, Recipe>;
+};
+
+export function createFoodLookup(
+  foods: Food[],
+  recipes: Recipe[] = []
+): FoodLookup {
+  const lookup: FoodLookup = {
+    byId: new Map(),
+    byName: new Map(),
+    recipes: new Map(),
+  };
+  for (const recipe of recipes) {
+    if (recipe.id !== undefined) lookup.recipes.set(recipe.id, recipe);
+  }
+  for (const food of foods) {
+    if (food.id !== undefined) lookup.byId.set(food.id, food);
+    const name = food.name.trim().toLowerCase();
+    // Keep the first food per name; callers pass the preferred ones first
+    if (!lookup.byName.has(name)) lookup.byName.set(name, food);
+  }
+  return lookup;
+}
+
+export function findFood(
+  lookup: FoodLookup,
+  foodId: number | undefined,
+  name: string | undefined
+): Food | undefined {
+  const byId = foodId !== undefined ? lookup.byId.get(foodId) : undefined;
+  if (byId) return byId;
+  return name ? lookup.byName.get(name.trim().toLowerCase()) : undefined;
+}
+
+// Grams eaten: grams is one serving, quantity the number of servings
+export const entryGrams = (entry: Pick<DiaryEntry, 'grams' | 'quantity'>) =>
+  (entry.grams || 0) * (entry.quantity ?? 1);
+
+// Food behind a diary entry: its recipe as a dish, or the food itself. An
+// entry whose recipe is gone doesn't fall back to a food of the same name.
+export function entryFood(
+  entry: Pick<DiaryEntry, 'foodId' | 'recipeId' | 'customName'>,
+  foods: FoodLookup
+): Food | undefined {
+  if (entry.recipeId === undefined) {
+    return findFood(foods, entry.foodId, entry.customName);
+  }
+  const recipe = foods.recipes.get(entry.recipeId);
+  return recipe ? recipeAsFood(recipe, foods) : undefined;
+}
+
+/**
+ * Nutrients of a diary entry as logged. Overrides are totals for the whole
+ * entry and win over the food's values; an entry with neither a known food
+ * nor overrides counts as zero.
+ */
+export function entryNutrients(
+  entry: Pick<
+    DiaryEntry,
+    'foodId' | 'recipeId' | 'customName' | 'grams' | 'quantity' | 'overrides'
+  >,
+  foods: FoodLookup | Food | undefined
+): Nutrients {
+  const food = foods && 'byId' in foods ? entryFood(entry, foods) : foods;
+  const nutrients = food
+    ? scaleNutrients(food.per100g, entryGrams(entry))
+    : emptyNutrients();
+  return applyOverrides(nutrients, entry.overrides);
+}
+
+// Ingredients migrated from the old builder in cups or pieces have no weight
+const hasUnweighedIngredient = (recipe: Pick<Recipe, 'ingredients'>) =>
+  recipe.ingredients.some((ingredient) => !(ingredient.grams > 0));
+
+/**
+ * Nutrients of a whole recipe, from its ingredients' current foods. Falls
+ * back to the stored totals when no ingredient food can be found, or when
+ * an ingredient has no weight to scale its food by.
+ */
+export function recipeNutrients(
+  recipe: Pick<Recipe, 'ingredients' | 'nutrition'>,
+  foods: FoodLookup
+): Nutrients {
+  if (hasUnweighedIngredient(recipe)) return { ...recipe.nutrition };
+  let total = emptyNutrients();
+  let resolved = 0;
+  for (const ingredient of recipe.ingredients) {
+    const food = findFood(foods, ingredient.foodId, ingredient.foodName);
+    if (!food) continue;
+    total = addNutrients(total, scaleNutrients(food.per100g, ingredient.grams));
+    resolved++;
+  }
+  return resolved > 0 ? total : { ...recipe.nutrition };
+}
+
+// Grams of the finished dish: weighed after cooking, or else the raw
+// ingredients' weight. 0 when unknown.
+export const recipeYield = (
+  recipe: Pick<Recipe, 'ingredients' | 'cookedWeight'>
+) =>
+  recipe.cookedWeight ||
+  (hasUnweighedIngredient(recipe)
+    ? 0
+    : recipe.ingredients.reduce(
+        (sum, ingredient) => sum + ingredient.grams,
+        0
+      ));
+
+/**
+ * A recipe as a loggable food: nutrients per 100 g of the cooked dish, with
+ * a serving of yield ÷ servings. Without any weight to go on, a serving
+ * stands in as 100 g.
+ */
+export function recipeAsFood(recipe: Recipe, foods: FoodLookup): Food {
+  const servings = Math.max(recipe.servings || 1, 1);
+  const dishGrams = recipeYield(recipe);
+  const totalGrams = dishGrams > 0 ? dishGrams : servings * 100;
+  return {
+    name: recipe.name,
+    category: 'Recipe',
+    tags: recipe.tags,
+    per100g: multiplyNutrients(
+      recipeNutrients(recipe, foods),
+      100 / totalGrams
+    ),
+    servings: [
+      { label: '1 serving', grams: Math.round(totalGrams / servings) },
+      ...(dishGrams > 0 ? [{ label: '100g', grams: 100 }] : []),
+    ],
+    source: 'user',
+    recipeId: recipe.id,
+  };
+}
+
+export function recipeServingNutrients(
+  recipe: Pick<Recipe, 'ingredients' | 'nutrition' | 'servings'>,
+  foods: FoodLookup
+): Nutrients {
+  return multiplyNutrients(
+    recipeNutrients(recipe, foods),
+    1 / Math.max(recipe.servings || 1, 1)
+  );
+}
+
+// Nutrients of a planned meal: a recipe by servings, a food by weight.
+// Custom-named meals carry no amount, so they count as zero.
+export function mealPlanNutrients(
+  plan: Pick<MealPlan, 'servings' | 'foodId' | 'grams' | 'customName'>,
+  recipe: Pick<Recipe, 'ingredients' | 'nutrition' | 'servings'> | undefined,
+  foods: FoodLookup
+): Nutrients {
+  if (recipe) {
+    return multiplyNutrients(
+      recipeServingNutrients(recipe, foods),
+      plan.servings ?? 1
+    );
+  }
+  const food = plan.grams
+    ? findFood(foods, plan.foodId, plan.customName)
+    : undefined;
+  return food ? scaleNutrients(food.per100g, plan.grams!) : emptyNutrients();
+}
+
+export function multiplyNutrients(nutrients: Nutrients, factor: number) {
+  const result: Nutrients = {
+    kcal: nutrients.kcal * factor,
+    protein: nutrients.protein * factor,
+    carbs: nutrients.carbs * factor,
+    fat: nutrients.fat * factor,
+  };
+  for (const { key } of MICRONUTRIENTS) {
+    const value = nutrients[key];
+    if (value !== undefined) result[key] = value * factor;
+  }
+  return result;
+}
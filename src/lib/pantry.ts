@@ -0,0 +1,297 @@
+import { addDaysToKey, toDateKey, todayKey } from './dates';
+import { db, type DiaryEntry, type PantryItem, type Recipe } from './db';
+import { entryGrams } from './nutrients';
+import { deletePantryItemById, upsertPantryItem } from './supabaseSync';
+
+// What's in the kitchen, in grams. Shopping adds batches, logging food and
+// cooking recipes use them up, oldest expiry first.
+
+export type { PantryItem };
+
+export type PantryRef = { foodId?: number; name: string };
+
+// Items expiring within this many days are suggested in the planners
+export const USE_SOON_DAYS = 3;
+
+// Typical fridge or shelf life in days, first match wins. Staples such as
+// grains, dals and oils are left without an expiry.
+const SHELF_LIFE: { match: RegExp; days: number }[] = [
+  { match: /\b(chicken|fish|mutton|meat|prawns?|keema)\b/, days: 2 },
+  {
+    match:
+      /\b(spinach|palak|methi|coriander leaves|dhania|mint|pudina|lettuce|greens)\b/,
+    days: 3,
+  },
+  { match: /\b(milk|doodh)\b/, days: 3 },
+  { match: /\b(paneer|tofu|bread)\b/, days: 4 },
+  { match: /\b(curd|dahi|yogh?urt|banana)\b/, days: 5 },
+  {
+    match:
+      /\b(tomato|cucumber|capsicum|beans|okra|bhindi|cauliflower|cabbage|mushrooms?|berries|grapes)\b/,
+    days: 7,
+  },
+  { match: /\b(apple|orange|carrot|butter|cheese)\b/, days: 14 },
+  { match: /\b(eggs?|anda)\b/, days: 21 },
+  { match: /\b(onion|potato|garlic|ginger)\b/, days: 30 },
+];
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const notifyPantryChanged = () =>
+  window.dispatchEvent(new CustomEvent('pantry:changed'));
+
+/** Whether a batch is of a food, by id or else by name. */
+export const isStockOf = (item: PantryItem, ref: PantryRef) =>
+  (ref.foodId !== undefined && item.foodId === ref.foodId) ||
+  nameKey(item.name) === nameKey(ref.name);
+
+// Batches without an expiry sort last
+const byExpiry = (a: PantryItem, b: PantryItem) =>
+  (a.expiry ?? '9999-12-31').localeCompare(b.expiry ?? '9999-12-31') ||
+  a.name.localeCompare(b.name);
+
+/** Default expiry for a food bought on a day, if it usually spoils. */
+export function defaultExpiry(name: string, from = todayKey()) {
+  const lower = name.toLowerCase();
+  const rule = SHELF_LIFE.find((entry) => entry.match.test(lower));
+  return rule ? addDaysToKey(from, rule.days) : undefined;
+}
+
+/** All pantry batches, soonest expiry first. */
+export async function loadPantry(): Promise<PantryItem[]> {
+  try {
+    return (await db.pantry.toArray()).sort(byExpiry);
+  } catch (error) {
+    console.error('Failed to load pantry:', error);
+    return [];
+  }
+}
+
+export const isExpired = (item: PantryItem, today = todayKey()) =>
+  item.expiry !== undefined && item.expiry < today;
+
+/** Grams of a food in stock, not counting expired batches. */
+export function stockOnHand(
+  items: PantryItem[],
+  ref: PantryRef,
+  today = todayKey()
+): number {
+  return items
+    .filter((item) => isStockOf(item, ref) && !isExpired(item, today))
+    .reduce((sum, item) => sum + item.grams, 0);
+}
+
+/** Batches that expire within `days`, soonest first. */
+export function expiringSoon(
+  items: PantryItem[],
+  today = todayKey(),
+  days = USE_SOON_DAYS
+): PantryItem[] {
+  const limit = addDaysToKey(today, days);
+  return items
+    .filter(
+      (item) =>
+        item.grams > 0 &&
+        item.expiry !== undefined &&
+        item.expiry >= today &&
+        item.expiry <= limit
+    )
+    .sort(byExpiry);
+}
+
+/**
+ * Add a batch of a food. A batch of the same food with the same expiry is
+ * topped up instead. Returns null when the batch isn't valid.
+ */
+export async function addStock(
+  stock: Omit<PantryItem, 'id' | 'createdAt' | 'lastUpdated' | 'syncId'>
+): Promise<PantryItem | null> {
+  if (!stock.name.trim() || !(stock.grams > 0)) return null;
+  try {
+    const now = new Date().toISOString();
+    const existing = (await db.pantry.toArray()).find(
+      (item) =>
+        isStockOf(item, { foodId: stock.foodId, name: stock.name }) &&
+        item.expiry === stock.expiry
+    );
+    if (existing) {
+      const grams = existing.grams + stock.grams;
+      await db.pantry.update(existing.id!, { grams, lastUpdated: now });
+      await upsertPantryItem({ ...existing, grams }, ['grams']);
+      notifyPantryChanged();
+      return { ...existing, grams, lastUpdated: now };
+    }
+
+    const record: PantryItem = {
+      ...stock,
+      name: stock.name.trim(),
+      createdAt: now,
+      lastUpdated: now,
+    };
+    record.id = await db.pantry.add(record);
+    await upsertPantryItem(record);
+    notifyPantryChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to add pantry stock:', error);
+    return null;
+  }
+}
+
+/** Change a batch's amount or expiry. An empty batch is removed. */
+export async function updatePantryItem(
+  item: PantryItem
+): Promise<PantryItem | null> {
+  if (item.id === undefined || !(item.grams >= 0)) return null;
+  if (item.grams === 0) {
+    return (await deletePantryItem(item.id)) ? item : null;
+  }
+  try {
+    const record: PantryItem = {
+      ...item,
+      lastUpdated: new Date().toISOString(),
+    };
+    await db.pantry.put(record);
+    await upsertPantryItem(record, ['grams', 'expiry']);
+    notifyPantryChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to update pantry item:', error);
+    return null;
+  }
+}
+
+export async function deletePantryItem(id: number): Promise<boolean> {
+  try {
+    await deletePantryItemById(id);
+    notifyPantryChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete pantry item:', error);
+    return false;
+  }
+}
+
+type StockUse = NonNullable<DiaryEntry['pantryUse']>;
+
+// Use up grams of a food, oldest expiry first, from batches bought on or
+// before `date` that were still good then. Expired stock isn't counted on
+// hand either, so it is left for the user to throw out. Returns the grams
+// taken from each batch; stock never goes negative.
+async function takeStock(
+  ref: PantryRef,
+  grams: number,
+  date: string
+): Promise<StockUse> {
+  const batches = (await db.pantry.toArray())
+    .filter(
+      (item) =>
+        isStockOf(item, ref) &&
+        !isExpired(item, date) &&
+        toDateKey(new Date(item.createdAt)) <= date
+    )
+    .sort(byExpiry);
+
+  let remaining = grams;
+  const taken: StockUse = [];
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const used = Math.min(batch.grams, remaining);
+    remaining -= used;
+    taken.push({ expiry: batch.expiry, grams: used });
+    if (used >= batch.grams) {
+      await deletePantryItemById(batch.id!);
+    } else {
+      const left = batch.grams - used;
+      await db.pantry.update(batch.id!, {
+        grams: left,
+        lastUpdated: new Date().toISOString(),
+      });
+      await upsertPantryItem({ ...batch, grams: left }, ['grams']);
+    }
+  }
+  return taken;
+}
+
+const usedGrams = (use: StockUse) =>
+  use.reduce((sum, batch) => sum + batch.grams, 0);
+
+/**
+ * Deduct a logged food from the pantry and note on the entry what it used.
+ * Servings of a recipe are skipped: its ingredients come out of stock when
+ * the recipe is cooked. Returns the grams taken.
+ */
+export async function consumeDiaryEntry(
+  entry: Pick<
+    DiaryEntry,
+    'id' | 'date' | 'foodId' | 'recipeId' | 'customName' | 'grams' | 'quantity'
+  >
+): Promise<number> {
+  if (entry.recipeId !== undefined) return 0;
+  try {
+    const taken = await takeStock(
+      { foodId: entry.foodId, name: entry.customName ?? '' },
+      entryGrams(entry),
+      entry.date
+    );
+    if (taken.length === 0) return 0;
+    if (entry.id !== undefined) {
+      await db.diary.update(entry.id, { pantryUse: taken });
+    }
+    notifyPantryChanged();
+    return usedGrams(taken);
+  } catch (error) {
+    console.error('Failed to update pantry for diary entry:', error);
+    return 0;
+  }
+}
+
+/**
+ * Put back what a diary entry took from the pantry, into batches with the
+ * same expiry. For entries being deleted. Returns the grams restored.
+ */
+export async function restoreDiaryEntry(
+  entry: Pick<DiaryEntry, 'foodId' | 'customName' | 'pantryUse'>
+): Promise<number> {
+  if (!entry.pantryUse?.length) return 0;
+  let restored = 0;
+  for (const batch of entry.pantryUse) {
+    const added = await addStock({
+      foodId: entry.foodId,
+      name: entry.customName ?? '',
+      grams: batch.grams,
+      expiry: batch.expiry,
+    });
+    if (added) restored += batch.grams;
+  }
+  return restored;
+}
+
+/**
+ * Deduct the ingredients of a cooked recipe, scaled to the servings made.
+ * Returns the number of ingredients that were in stock.
+ */
+export async function cookRecipe(
+  recipe: Recipe,
+  servings = recipe.servings
+): Promise<number> {
+  const scale = recipe.servings > 0 ? servings / recipe.servings : 1;
+  const today = todayKey();
+  try {
+    let used = 0;
+    for (const ingredient of recipe.ingredients) {
+      if (!(ingredient.grams > 0)) continue;
+      const taken = await takeStock(
+        { foodId: ingredient.foodId || undefined, name: ingredient.foodName },
+        ingredient.grams * scale,
+        today
+      );
+      if (taken.length > 0) used++;
+    }
+    notifyPantryChanged();
+    return used;
+  } catch (error) {
+    console.error('Failed to update pantry for cooked recipe:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,194 @@
+import { db, type FoodPrice } from './db';
+import { entryGrams } from './nutrients';
+import { deleteFoodPriceById, upsertFoodPrice } from './supabaseSync';
+
+// Grocery prices in INR. The catalog combines prices entered for a food with
+// what was paid for logged diary entries; the latter are read from the diary
+// rather than copied, so editing or deleting an entry updates its price.
+
+export type { FoodPrice };
+
+// One observed price for a food
+export type PricePoint = {
+  source: 'manual' | 'diary';
+  id?: number; // the FoodPrice record of a manual price
+  date: string; // YYYY-MM-DD
+  price: number; // as paid
+  grams?: number; // what the price bought, when known
+  perKg?: number;
+  unit?: FoodPrice['unit'];
+  store?: string;
+};
+
+// Prices by food id and by lower-cased name
+export type PriceBook = {
+  byFoodId: Map<number, PricePoint[]>;
+  byName: Map<string, PricePoint[]>;
+};
+
+export type PriceRef = { foodId?: number; name: string };
+
+// How many recent logged prices are pooled when no price was entered
+const RECENT_POINTS = 5;
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const notifyPricesChanged = () =>
+  window.dispatchEvent(new CustomEvent('prices:changed'));
+
+const perKg = (price: number, grams: number | undefined) =>
+  grams && grams > 0 ? (price * 1000) / grams : undefined;
+
+function manualPoint(record: FoodPrice): PricePoint {
+  const grams = record.unit === 'kg' ? 1000 : record.packGrams;
+  return {
+    source: 'manual',
+    id: record.id,
+    date: record.date,
+    price: record.price,
+    grams,
+    perKg: perKg(record.price, grams),
+    unit: record.unit,
+    store: record.store,
+  };
+}
+
+export async function loadPriceBook(): Promise<PriceBook> {
+  const book: PriceBook = { byFoodId: new Map(), byName: new Map() };
+  try {
+    const [prices, entries] = await Promise.all([
+      db.foodPrices.toArray(),
+      db.diary.where('price').above(0).toArray(),
+    ]);
+
+    const add = (
+      foodId: number | undefined,
+      name: string,
+      point: PricePoint
+    ) => {
+      if (foodId !== undefined) {
+        book.byFoodId.set(foodId, [
+          ...(book.byFoodId.get(foodId) ?? []),
+          point,
+        ]);
+      }
+      const key = nameKey(name);
+      if (key) book.byName.set(key, [...(book.byName.get(key) ?? []), point]);
+    };
+
+    for (const record of prices) {
+      add(record.foodId, record.foodName, manualPoint(record));
+    }
+    for (const entry of entries) {
+      const grams = entryGrams(entry) || undefined;
+      add(entry.foodId, entry.customName ?? '', {
+        source: 'diary',
+        date: entry.date,
+        price: entry.price!,
+        grams,
+        perKg: perKg(entry.price!, grams),
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load prices:', error);
+  }
+  return book;
+}
+
+/** Price history of a food by id and by name, newest first. */
+export function priceHistory(book: PriceBook, ref: PriceRef): PricePoint[] {
+  // A price is listed under both its food's id and name; keep it once
+  const points = new Set([
+    ...((ref.foodId !== undefined && book.byFoodId.get(ref.foodId)) || []),
+    ...(book.byName.get(nameKey(ref.name)) ?? []),
+  ]);
+  return [...points].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Current price per kg: the latest entered price with a known weight, else
+ * the median of recent logged prices, which smooths out one-off servings.
+ */
+export function pricePerKg(book: PriceBook, ref: PriceRef): number | null {
+  const history = priceHistory(book, ref).filter(
+    (point) => point.perKg !== undefined
+  );
+  const manual = history.find((point) => point.source === 'manual');
+  if (manual) return manual.perKg!;
+  const recent = history.slice(0, RECENT_POINTS);
+  return recent.length ? median(recent.map((point) => point.perKg!)) : null;
+}
+
+/**
+ * Estimated cost of an amount of a food: by weight when grams are known,
+ * otherwise as a number of packs at the latest pack price. Null when the
+ * catalog has no usable price.
+ */
+export function estimateCost(
+  book: PriceBook,
+  ref: PriceRef,
+  grams?: number,
+  packs = 1
+): number | null {
+  if (grams !== undefined) {
+    const kgPrice = pricePerKg(book, ref);
+    return kgPrice !== null ? (kgPrice * grams) / 1000 : null;
+  }
+  const pack = priceHistory(book, ref).find((point) => point.unit === 'pack');
+  return pack ? pack.price * packs : null;
+}
+
+/** Enter a price seen in a shop. Returns null when it isn't valid. */
+export async function savePrice(
+  price: Omit<FoodPrice, 'id' | 'createdAt' | 'lastUpdated' | 'syncId'>
+): Promise<FoodPrice | null> {
+  if (
+    !price.foodName.trim() ||
+    !(price.price >= 0) ||
+    (price.packGrams !== undefined && !(price.packGrams > 0))
+  ) {
+    return null;
+  }
+  try {
+    const now = new Date().toISOString();
+    const record: FoodPrice = {
+      ...price,
+      foodName: price.foodName.trim(),
+      store: price.store?.trim() || undefined,
+      createdAt: now,
+      lastUpdated: now,
+    };
+    record.id = await db.foodPrices.add(record);
+    await upsertFoodPrice(record);
+    notifyPricesChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to save price:', error);
+    return null;
+  }
+}
+
+export async function deletePrice(id: number): Promise<boolean> {
+  try {
+    await deleteFoodPriceById(id);
+    notifyPricesChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete price:', error);
+    return false;
+  }
+}
+
+const inr = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  maximumFractionDigits: 0,
+});
+
+export const formatINR = (amount: number) => inr.format(amount);
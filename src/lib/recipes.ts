@@ -0,0 +1,299 @@
+import { db, type Recipe } from './db';
+import { diaryFoodRefs, loadFoodLookup, recipeFoodRefs } from './diary';
+import {
+  createFoodLookup,
+  entryNutrients,
+  recipeAsFood,
+  recipeNutrients,
+  roundNutrients,
+} from './nutrients';
+import { deleteRecipeById, upsertDiary, upsertRecipe } from './supabaseSync';
+
+// Recipes live in the recipes table and sync like the rest of the database.
+// The builder, meal planner and shopping list all read them from here.
+
+// Where the recipe builder kept its recipes before they moved to IndexedDB
+const LEGACY_RECIPES_KEY = 'wellnessdash_recipes';
+
+const DIFFICULTIES: NonNullable<Recipe['difficulty']>[] = [
+  'Easy',
+  'Medium',
+  'Hard',
+];
+
+const notifyRecipesChanged = () =>
+  window.dispatchEvent(new CustomEvent('recipes:changed'));
+
+const notifyDiaryChanged = () =>
+  window.dispatchEvent(new CustomEvent('diary:changed'));
+
+const recipeEntries = (recipeId: number) =>
+  db.diary.where('recipeId').equals(recipeId).toArray();
+
+// Pin the nutrients of a recipe's diary entries to what the recipe gives
+// now, so later edits or deleting it leave them as logged. Only the macros
+// can be kept; entries that already have overrides are left alone.
+async function freezeRecipeEntries(recipeId: number): Promise<number> {
+  const entries = (await recipeEntries(recipeId)).filter(
+    (entry) => !entry.overrides
+  );
+  if (!entries.length) return 0;
+
+  const foods = await loadFoodLookup(diaryFoodRefs(entries));
+  for (const entry of entries) {
+    const { kcal, protein, carbs, fat } = roundNutrients(
+      entryNutrients(entry, foods)
+    );
+    const overrides = { kcal, protein, carbs, fat };
+    await db.diary.update(entry.id!, { overrides });
+    await upsertDiary({ ...entry, overrides }, ['overrides']);
+  }
+  return entries.length;
+}
+
+// Keep entries logged as one serving at one serving when the recipe's
+// servings or cooked weight change
+async function rescaleServingEntries(recipe: Recipe) {
+  // Serving sizes depend only on the recipe's yield, not its foods
+  const serving = recipeAsFood(recipe, createFoodLookup([])).servings?.[0];
+  if (!serving) return;
+
+  const entries = (await recipeEntries(recipe.id!)).filter(
+    (entry) =>
+      entry.servingLabel === serving.label && entry.grams !== serving.grams
+  );
+  for (const entry of entries) {
+    await db.diary.update(entry.id!, { grams: serving.grams });
+    await upsertDiary({ ...entry, grams: serving.grams }, ['grams']);
+  }
+}
+
+/** All recipes, by name. */
+export async function loadRecipes(): Promise<Recipe[]> {
+  try {
+    const recipes = await db.recipes.toArray();
+    return recipes.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Failed to load recipes:', error);
+    return [];
+  }
+}
+
+/** A new, unsaved recipe with the builder's defaults. */
+export function newRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    name: '',
+    description: '',
+    category: '',
+    prepTime: 15,
+    cookTime: 30,
+    servings: 4,
+    instructions: '',
+    tags: [],
+    ingredients: [],
+    nutrition: { kcal: 0, protein: 0, carbs: 0, fat: 0 },
+    difficulty: 'Medium',
+    isFavorite: false,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Save a recipe, recalculating its stored totals from the ingredients' foods
+ * where they can be found. Diary entries of the recipe follow the change
+ * unless updatePastEntries is false, which keeps them as they were logged.
+ * Returns null when the recipe has no name or the save fails.
+ */
+export async function saveRecipe(
+  recipe: Recipe,
+  { updatePastEntries = true }: { updatePastEntries?: boolean } = {}
+): Promise<Recipe | null> {
+  if (!recipe.name.trim()) return null;
+  try {
+    if (recipe.id !== undefined && !updatePastEntries) {
+      await freezeRecipeEntries(recipe.id);
+    }
+
+    const foods = await loadFoodLookup(recipeFoodRefs([recipe]));
+    const totals = recipeNutrients(recipe, foods);
+    const record: Recipe = {
+      ...recipe,
+      name: recipe.name.trim(),
+      nutrition: {
+        kcal: Math.round(totals.kcal),
+        protein: Math.round(totals.protein),
+        carbs: Math.round(totals.carbs),
+        fat: Math.round(totals.fat),
+      },
+      lastUpdated: new Date().toISOString(),
+    };
+    record.id = await db.recipes.put(record);
+    await upsertRecipe(record);
+
+    if (updatePastEntries) await rescaleServingEntries(record);
+    notifyRecipesChanged();
+    // Only an existing recipe can have been logged
+    if (recipe.id !== undefined) notifyDiaryChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to save recipe:', error);
+    return null;
+  }
+}
+
+/** Delete a recipe. Diary entries of it keep the nutrients they had. */
+export async function deleteRecipe(id: number): Promise<boolean> {
+  try {
+    const frozen = await freezeRecipeEntries(id);
+    await deleteRecipeById(id);
+    notifyRecipesChanged();
+    if (frozen > 0) notifyDiaryChanged();
+    return true;
+  } catch (error) {
+    console.error('Failed to delete recipe:', error);
+    return false;
+  }
+}
+
+export async function toggleFavoriteRecipe(
+  recipe: Recipe
+): Promise<Recipe | null> {
+  try {
+    const record: Recipe = {
+      ...recipe,
+      isFavorite: !recipe.isFavorite,
+      lastUpdated: new Date().toISOString(),
+    };
+    await db.recipes.put(record);
+    await upsertRecipe(record);
+    notifyRecipesChanged();
+    return record;
+  } catch (error) {
+    console.error('Failed to update recipe:', error);
+    return null;
+  }
+}
+
+// Builder recipes had string ids, instructions as a list of steps and
+// ingredients measured in any unit with their nutrition copied in
+type LegacyRecipe = {
+  name?: unknown;
+  description?: unknown;
+  ingredients?: {
+    foodId?: unknown;
+    foodName?: unknown;
+    amount?: unknown;
+    unit?: unknown;
+  }[];
+  instructions?: unknown;
+  prepTime?: unknown;
+  cookTime?: unknown;
+  servings?: unknown;
+  difficulty?: unknown;
+  tags?: unknown;
+  nutritionalInfo?: {
+    calories?: unknown;
+    protein?: unknown;
+    carbs?: unknown;
+    fat?: unknown;
+  };
+  createdAt?: unknown;
+  isFavorite?: unknown;
+};
+
+const numberOr = (value: unknown, fallback: number) => {
+  const num = Number(value);
+  return value !== null && value !== '' && Number.isFinite(num)
+    ? num
+    : fallback;
+};
+
+function fromLegacyRecipe(legacy: LegacyRecipe): Recipe | null {
+  if (typeof legacy.name !== 'string' || !legacy.name.trim()) return null;
+  const info = legacy.nutritionalInfo ?? {};
+
+  return newRecipe({
+    name: legacy.name.trim(),
+    description:
+      typeof legacy.description === 'string' ? legacy.description : '',
+    prepTime: numberOr(legacy.prepTime, 0),
+    cookTime: numberOr(legacy.cookTime, 0),
+    servings: Math.max(numberOr(legacy.servings, 1), 1),
+    instructions: Array.isArray(legacy.instructions)
+      ? legacy.instructions
+          .filter((step) => typeof step === 'string')
+          .join('\n')
+      : typeof legacy.instructions === 'string'
+      ? legacy.instructions
+      : '',
+    tags: Array.isArray(legacy.tags)
+      ? legacy.tags.filter((tag): tag is string => typeof tag === 'string')
+      : [],
+    ingredients: (Array.isArray(legacy.ingredients) ? legacy.ingredients : [])
+      .filter((ingredient) => typeof ingredient?.foodName === 'string')
+      .map((ingredient) => {
+        const amount = numberOr(ingredient.amount, 0);
+        const unit =
+          typeof ingredient.unit === 'string' ? ingredient.unit : 'g';
+        return {
+          // Ids were strings; unknown ones are matched by name instead
+          foodId: numberOr(ingredient.foodId, 0),
+          foodName: ingredient.foodName as string,
+          // Other units have no weight; the label keeps what was entered
+          grams: ['g', 'ml'].includes(unit) ? amount : 0,
+          servingLabel: `${amount} ${unit}`,
+        };
+      }),
+    nutrition: {
+      kcal: numberOr(info.calories, 0),
+      protein: numberOr(info.protein, 0),
+      carbs: numberOr(info.carbs, 0),
+      fat: numberOr(info.fat, 0),
+    },
+    difficulty: DIFFICULTIES.includes(legacy.difficulty as never)
+      ? (legacy.difficulty as Recipe['difficulty'])
+      : 'Medium',
+    isFavorite: legacy.isFavorite === true,
+    createdAt:
+      typeof legacy.createdAt === 'string'
+        ? legacy.createdAt
+        : new Date().toISOString(),
+  });
+}
+
+/**
+ * Move recipes kept in localStorage by the old recipe builder into
+ * IndexedDB. Recipes whose name is already taken are skipped.
+ */
+export async function migrateLocalRecipes(): Promise<number> {
+  try {
+    const saved = localStorage.getItem(LEGACY_RECIPES_KEY);
+    if (!saved) return 0;
+
+    const legacy: unknown = JSON.parse(saved);
+    let migrated = 0;
+    if (Array.isArray(legacy)) {
+      for (const item of legacy) {
+        const recipe = fromLegacyRecipe(item ?? {});
+        if (!recipe) continue;
+        if (await db.recipes.where('name').equals(recipe.name).first()) {
+          continue;
+        }
+
+        const now = new Date().toISOString();
+        const record: Recipe = { ...recipe, lastUpdated: now };
+        record.id = await db.recipes.add(record);
+        await upsertRecipe(record);
+        migrated++;
+      }
+    }
+
+    localStorage.removeItem(LEGACY_RECIPES_KEY);
+    if (migrated > 0) notifyRecipesChanged();
+    return migrated;
+  } catch (error) {
+    console.error('Failed to migrate local recipes:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,139 @@
+import type { Food } from './db';
+
+// Shopping quantities as you'd buy them. Plans and recipes work in grams; a
+// shop sells packs, dozens of eggs, litres of milk and bunches of greens.
+
+export type PurchaseUnit = {
+  name: string; // '500 g pack', 'dozen', 'bunch'
+  plural?: string; // defaults to the name with an s
+  grams: number;
+};
+
+export type Purchase = {
+  needGrams: number; // what the plan uses
+  onHandGrams: number; // already in the kitchen
+  count: number; // how many of unit to buy
+  unit: string;
+  buyGrams: number;
+  leftoverGrams: number; // bought and on hand, less what the plan uses
+};
+
+// Servings of a food that are themselves something you can buy
+const PACK_SERVING_RE =
+  /\b(pack|packet|bottle|can|jar|loaf|box|bag|tin|carton|bunch|head|dozen)\b/i;
+
+// Common retail sizes, first match wins. Liquids are converted to grams.
+const UNIT_TABLE: { match: RegExp; unit: PurchaseUnit }[] = [
+  {
+    match: /\beggs?\b|\banda\b/,
+    unit: { name: 'dozen', plural: 'dozen', grams: 600 },
+  },
+  {
+    match: /\bmilk\b|\bdoodh\b/,
+    unit: { name: 'L', plural: 'L', grams: 1030 },
+  },
+  {
+    match:
+      /\b(turmeric|haldi|cumin|jeera|garam masala|chilli powder|coriander (powder|seeds)|pepper|masala)\b/,
+    unit: { name: '100 g pack', grams: 100 },
+  },
+  {
+    match:
+      /\b(spinach|palak|methi|fenugreek leaves|coriander|dhania|mint|pudina|curry leaves|amaranth|lettuce|greens|sarson|dill|spring onions?)\b/,
+    unit: { name: 'bunch', plural: 'bunches', grams: 250 },
+  },
+  { match: /\bpeanut butter\b/, unit: { name: '350 g jar', grams: 350 } },
+  {
+    match: /\b(paneer|tofu|cheese)\b/,
+    unit: { name: '200 g pack', grams: 200 },
+  },
+  {
+    match: /\b(curd|dahi|yogh?urt)\b/,
+    unit: { name: '400 g tub', grams: 400 },
+  },
+  { match: /\bbutter\b/, unit: { name: '100 g pack', grams: 100 } },
+  {
+    match: /\bbread\b/,
+    unit: { name: '400 g loaf', plural: '400 g loaves', grams: 400 },
+  },
+  { match: /\bghee\b/, unit: { name: '500 ml jar', grams: 455 } },
+  { match: /\boil\b/, unit: { name: '1 L bottle', grams: 910 } },
+  {
+    match:
+      /\b(dal|daal|lentils?|chana|rajma|moong|masoor|urad|toor|arhar|chickpeas)\b/,
+    unit: { name: '500 g pack', grams: 500 },
+  },
+  {
+    match: /\b(rice|atta|flour|sugar|salt|poha|suji|rava|besan|oats|whey)\b/,
+    unit: { name: '1 kg pack', grams: 1000 },
+  },
+];
+
+// Anything else is bought loose, by weight in these steps
+const LOOSE_STEP_GRAMS = 250;
+
+const pluralOf = (name: string) =>
+  name.replace(/(ch|x)$/, '$1e').replace(/f$/, 've') + 's';
+
+/** What a food is sold in: one of its own pack servings, else the table. */
+export function purchaseUnit(name: string, food?: Food): PurchaseUnit | null {
+  const pack = food?.servings?.find(
+    (serving) => serving.grams > 0 && PACK_SERVING_RE.test(serving.label)
+  );
+  if (pack) {
+    return { name: pack.label.replace(/^1\s+/, ''), grams: pack.grams };
+  }
+  const lower = name.toLowerCase();
+  return UNIT_TABLE.find((rule) => rule.match.test(lower))?.unit ?? null;
+}
+
+/**
+ * Round what a plan needs, less what's on hand, up to whole purchasable
+ * units. Loose items are rounded up to the next 250 g.
+ */
+export function purchaseFor(
+  name: string,
+  needGrams: number,
+  { food, onHandGrams = 0 }: { food?: Food; onHandGrams?: number } = {}
+): Purchase {
+  const toBuy = Math.max(needGrams - onHandGrams, 0);
+  const unit = purchaseUnit(name, food);
+
+  let count: number;
+  let unitName: string;
+  let buyGrams: number;
+  if (unit) {
+    // Tolerate float noise from summed ingredient grams
+    count = Math.ceil(toBuy / unit.grams - 1e-6);
+    buyGrams = count * unit.grams;
+    unitName = count === 1 ? unit.name : unit.plural ?? pluralOf(unit.name);
+  } else {
+    buyGrams = Math.ceil(toBuy / LOOSE_STEP_GRAMS - 1e-6) * LOOSE_STEP_GRAMS;
+    const inKg = buyGrams >= 1000;
+    count = inKg ? buyGrams / 1000 : buyGrams;
+    unitName = inKg ? 'kg' : 'g';
+  }
+
+  return {
+    needGrams,
+    onHandGrams,
+    count,
+    unit: unitName,
+    buyGrams,
+    leftoverGrams: Math.max(onHandGrams + buyGrams - needGrams, 0),
+  };
+}
+
+export const formatGrams = (grams: number) =>
+  grams >= 1000
+    ? `${Math.round(grams / 100) / 10} kg`
+    : `${Math.round(grams)} g`;
+
+export function formatPurchase(purchase: Purchase): string {
+  if (purchase.count === 0) {
+    return purchase.onHandGrams > 0 ? 'In pantry' : 'Nothing to buy';
+  }
+  return purchase.unit === 'g' || purchase.unit === 'kg'
+    ? formatGrams(purchase.buyGrams)
+    : `${purchase.count} ${purchase.unit}`;
+}
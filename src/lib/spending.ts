@@ -0,0 +1,178 @@
+import { getDaysInMonth } from 'date-fns';
+import type { DiaryEntry } from './db';
+import { parseDateKey, todayKey } from './dates';
+import { entryFood, entryNutrients, type FoodLookup } from './nutrients';
+
+// Food spending from the prices entered with diary entries, in INR. Only
+// priced entries count towards costs per kcal and per gram of protein, so
+// unpriced home staples don't make everything look cheap.
+
+export type SpendingBudget = { monthly: number };
+
+const BUDGET_KEY = 'wellnessdash_budget';
+
+// Warn once this share of the monthly budget is spent
+export const BUDGET_WARNING_SHARE = 0.8;
+
+// Spending on one meal, category or food
+export type SpendingGroup = {
+  key: string;
+  cost: number;
+  kcal: number;
+  protein: number;
+  entries: number;
+};
+
+export type SpendingSummary = {
+  total: number;
+  pricedEntries: number;
+  unpricedEntries: number;
+  perDay: { date: string; cost: number }[];
+  perMeal: SpendingGroup[];
+  perCategory: SpendingGroup[];
+  perFood: SpendingGroup[];
+  costPer100Kcal: number | null;
+  costPerGramProtein: number | null;
+};
+
+export type BudgetStatus = {
+  month: string; // yyyy-MM
+  budget: number;
+  spent: number;
+  projected: number; // at this month's pace so far
+  level: 'ok' | 'warning' | 'over';
+};
+
+const isPriced = (entry: DiaryEntry) =>
+  entry.price !== null && entry.price !== undefined;
+
+export const costPer100Kcal = (group: Pick<SpendingGroup, 'cost' | 'kcal'>) =>
+  group.kcal > 0 ? (group.cost * 100) / group.kcal : null;
+
+export const costPerGramProtein = (
+  group: Pick<SpendingGroup, 'cost' | 'protein'>
+) => (group.protein > 0 ? group.cost / group.protein : null);
+
+/** Spending over the given days (yyyy-MM-dd), broken down several ways. */
+export function summarizeSpending(
+  entries: DiaryEntry[],
+  foods: FoodLookup,
+  dates: string[]
+): SpendingSummary {
+  const days = new Set(dates);
+  const inRange = entries.filter((entry) => days.has(entry.date));
+  const priced = inRange.filter(isPriced);
+
+  const perDay = new Map(dates.map((date) => [date, 0]));
+  const groups = {
+    meal: new Map<string, SpendingGroup>(),
+    category: new Map<string, SpendingGroup>(),
+    food: new Map<string, SpendingGroup>(),
+  };
+  const overall: SpendingGroup = {
+    key: 'all',
+    cost: 0,
+    kcal: 0,
+    protein: 0,
+    entries: 0,
+  };
+  const addTo = (
+    map: Map<string, SpendingGroup>,
+    key: string,
+    cost: number,
+    kcal: number,
+    protein: number
+  ) => {
+    const group = map.get(key) ?? {
+      key,
+      cost: 0,
+      kcal: 0,
+      protein: 0,
+      entries: 0,
+    };
+    group.cost += cost;
+    group.kcal += kcal;
+    group.protein += protein;
+    group.entries++;
+    map.set(key, group);
+  };
+
+  for (const entry of priced) {
+    const cost = entry.price!;
+    const food = entryFood(entry, foods);
+    const { kcal, protein } = entryNutrients(entry, foods);
+
+    perDay.set(entry.date, (perDay.get(entry.date) ?? 0) + cost);
+    addTo(groups.meal, entry.meal, cost, kcal, protein);
+    addTo(groups.category, food?.category || 'Other', cost, kcal, protein);
+    addTo(
+      groups.food,
+      entry.customName || food?.name || 'Unknown',
+      cost,
+      kcal,
+      protein
+    );
+    overall.cost += cost;
+    overall.kcal += kcal;
+    overall.protein += protein;
+  }
+
+  const byCost = (map: Map<string, SpendingGroup>) =>
+    [...map.values()].sort((a, b) => b.cost - a.cost);
+
+  return {
+    total: overall.cost,
+    pricedEntries: priced.length,
+    unpricedEntries: inRange.length - priced.length,
+    perDay: [...perDay].map(([date, cost]) => ({ date, cost })),
+    perMeal: byCost(groups.meal),
+    perCategory: byCost(groups.category),
+    perFood: byCost(groups.food),
+    costPer100Kcal: costPer100Kcal(overall),
+    costPerGramProtein: costPerGramProtein(overall),
+  };
+}
+
+/** This month's spending against the budget, projected to month end. */
+export function budgetStatus(
+  entries: DiaryEntry[],
+  budget: SpendingBudget,
+  today: string = todayKey()
+): BudgetStatus {
+  const month = today.slice(0, 7);
+  const spent = entries
+    .filter((entry) => entry.date.startsWith(month) && isPriced(entry))
+    .reduce((sum, entry) => sum + entry.price!, 0);
+  const day = parseDateKey(today);
+  const projected = (spent / day.getDate()) * getDaysInMonth(day);
+
+  const level =
+    spent > budget.monthly
+      ? 'over'
+      : spent >= budget.monthly * BUDGET_WARNING_SHARE ||
+        projected > budget.monthly
+      ? 'warning'
+      : 'ok';
+  return { month, budget: budget.monthly, spent, projected, level };
+}
+
+export function loadBudget(): SpendingBudget | null {
+  try {
+    const saved = localStorage.getItem(BUDGET_KEY);
+    if (!saved) return null;
+    const budget = JSON.parse(saved);
+    return budget?.monthly > 0 ? { monthly: Number(budget.monthly) } : null;
+  } catch (error) {
+    console.error('Failed to read spending budget:', error);
+    return null;
+  }
+}
+
+// Pass null to stop tracking a budget
+export function saveBudget(budget: SpendingBudget | null) {
+  if (budget && budget.monthly > 0) {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  } else {
+    localStorage.removeItem(BUDGET_KEY);
+  }
+}
@@ -1,5 +1,18 @@
 import { supabase, isSupabaseConfigured } from './supabase';
-import type { Food, DiaryEntry, Recipe, MealPlan } from './db';
+import {
+  db,
+  type Food,
+  type DiaryEntry,
+  type Recipe,
+  type MealPlan,
+  type OutboxEntry,
+  type SyncTable,
+  type WeightEntry,
+  type WeightGoal,
+  type BodyMeasurement,
+  type FoodPrice,
+  type PantryItem,
+} from './db';
 
 // Define table names in Supabase
 const TABLES = {
@@ -7,79 +20,856 @@ const TABLES = {
   diary: 'diary_entries',
   recipes: 'recipes',
   mealPlans: 'meal_plans',
+  weightEntries: 'weight_entries',
+  weightGoals: 'weight_goals',
+  bodyMeasurements: 'body_measurements',
+  foodPrices: 'food_prices',
+  pantry: 'pantry_items',
 } as const;
 
-export async function upsertFood(food: Food & { id?: number }) {
+// Referenced tables first, so foreign syncIds resolve during a pull
+const SYNC_ORDER: SyncTable[] = [
+  'foods',
+  'recipes',
+  'diary',
+  'mealPlans',
+  'weightEntries',
+  'weightGoals',
+  'bodyMeasurements',
+  'foodPrices',
+  'pantry',
+];
+
+const PULL_PAGE_SIZE = 500;
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const EPOCH = new Date(0).toISOString();
+
+type SyncRecord = (
+  | Food
+  | DiaryEntry
+  | Recipe
+  | MealPlan
+  | WeightEntry
+  | WeightGoal
+  | BodyMeasurement
+  | FoodPrice
+  | PantryItem
+) & { id?: number };
+
+// Postgres folds unquoted identifiers to lower-case.
+// Our README SQL created lower-case column names (customname, servinglabel, foodid...).
+// lastupdated is the client's write time and only settles conflicts; pulls
+// page on syncseq, which a trigger assigns on every insert and update, so
+// changes pushed late with an older lastupdated are still picked up.
+type RemoteRow = Record<string, unknown> & {
+  syncid: string;
+  lastupdated: string;
+  syncseq?: number;
+  deleted?: boolean;
+};
+
+const tableOf = (table: SyncTable) => db.table<SyncRecord, number>(table);
+
+const isNewer = (a: string | undefined, b: string | undefined) =>
+  (a ?? EPOCH) > (b ?? EPOCH);
+
+// ---------------------------------------------------------------------------
+// Public API: callers write to Dexie first, then queue the change here.
+// ---------------------------------------------------------------------------
+
+export async function upsertFood(
+  food: Food & { id?: number },
+  fields?: (keyof Food)[]
+) {
+  await queueUpsert('foods', food, fields);
+}
+
+export async function upsertDiary(
+  entry: DiaryEntry & { id?: number },
+  fields?: (keyof DiaryEntry)[]
+) {
+  await queueUpsert('diary', entry, fields);
+}
+
+export async function upsertRecipe(recipe: Recipe & { id?: number }) {
+  await queueUpsert('recipes', recipe);
+}
+
+export async function upsertMealPlan(plan: MealPlan & { id?: number }) {
+  await queueUpsert('mealPlans', plan);
+}
+
+export async function deleteRecipeById(id: number) {
+  await deleteAndQueue('recipes', id);
+}
+
+export async function deleteDiaryById(id: number) {
+  await deleteAndQueue('diary', id);
+}
+
+export async function deleteMealPlanById(id: number) {
+  await deleteAndQueue('mealPlans', id);
+}
+
+export async function upsertWeightEntry(entry: WeightEntry & { id?: number }) {
+  await queueUpsert('weightEntries', entry);
+}
+
+export async function deleteWeightEntryById(id: number) {
+  await deleteAndQueue('weightEntries', id);
+}
+
+export async function upsertWeightGoal(goal: WeightGoal & { id?: number }) {
+  await queueUpsert('weightGoals', goal);
+}
+
+export async function upsertBodyMeasurement(
+  measurement: BodyMeasurement & { id?: number }
+) {
+  await queueUpsert('bodyMeasurements', measurement);
+}
+
+export async function deleteBodyMeasurementById(id: number) {
+  await deleteAndQueue('bodyMeasurements', id);
+}
+
+export async function upsertFoodPrice(price: FoodPrice & { id?: number }) {
+  await queueUpsert('foodPrices', price);
+}
+
+export async function deleteFoodPriceById(id: number) {
+  await deleteAndQueue('foodPrices', id);
+}
+
+export async function upsertPantryItem(
+  item: PantryItem & { id?: number },
+  fields?: (keyof PantryItem)[]
+) {
+  await queueUpsert('pantry', item, fields);
+}
+
+export async function deletePantryItemById(id: number) {
+  await deleteAndQueue('pantry', id);
+}
+
+/**
+ * Queue a local record for upload. `fields` lists what changed locally; when
+ * given, a concurrent remote edit is merged field by field instead of
+ * last-writer-wins on the whole record.
+ */
+async function queueUpsert(
+  table: SyncTable,
+  record: SyncRecord,
+  fields?: string[]
+) {
+  if (!isSupabaseConfigured() || record.id === undefined) return;
+  const recordId = record.id;
+
+  try {
+    await db.transaction('rw', tableOf(table), db.outbox, async () => {
+      const current = await tableOf(table).get(recordId);
+      if (!current) return;
+
+      const now = new Date().toISOString();
+      const syncId = current.syncId ?? crypto.randomUUID();
+      await tableOf(table).update(recordId, { syncId, lastUpdated: now });
+
+      const pending = await db.outbox
+        .where('[table+recordId]')
+        .equals([table, recordId])
+        .first();
+
+      if (pending) {
+        await db.outbox.update(pending.id!, {
+          op: 'upsert',
+          // A whole-record change supersedes any field list
+          fields:
+            pending.fields && fields
+              ? Array.from(new Set([...pending.fields, ...fields]))
+              : undefined,
+          attempts: 0,
+          nextAttemptAt: now,
+        });
+      } else {
+        await db.outbox.add({
+          table,
+          op: 'upsert',
+          recordId,
+          syncId,
+          fields,
+          createdAt: now,
+          attempts: 0,
+          nextAttemptAt: now,
+        });
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to queue ${table} record for sync`, error);
+    return;
+  }
+
+  void flushOutbox();
+}
+
+/**
+ * Add an upsert for a record that already has a syncId, without flushing.
+ * For bulk writers (imports) that run inside their own transaction; the
+ * transaction must include db.outbox.
+ */
+export async function enqueueUpsert(
+  table: SyncTable,
+  recordId: number,
+  syncId: string
+) {
   if (!isSupabaseConfigured()) return;
-  const { error } = await supabase.from(TABLES.foods).upsert({
-    id: food.id,
-    name: food.name,
-    brand: food.brand ?? null,
-    tags: food.tags ?? [],
-    per100g: food.per100g,
-    servings: food.servings ?? [],
-    verified: !!food.verified,
+  const now = new Date().toISOString();
+  await db.outbox.add({
+    table,
+    op: 'upsert',
+    recordId,
+    syncId,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
   });
-  if (error) console.error('Supabase upsertFood error', error);
 }
 
-export async function upsertDiary(entry: DiaryEntry & { id?: number }) {
+// Queue the delete of a record already removed locally, from inside a
+// caller's transaction
+export async function enqueueDelete(
+  table: SyncTable,
+  recordId: number,
+  syncId: string
+) {
   if (!isSupabaseConfigured()) return;
-  // Postgres folds unquoted identifiers to lower-case.
-  // Our README SQL created lower-case column names (customname, servinglabel, foodid...).
-  const payload = {
-    id: entry.id,
-    date: entry.date,
-    meal: entry.meal,
-    foodid: entry.foodId ?? null,
-    customname: entry.customName ?? null,
-    servinglabel: entry.servingLabel ?? null,
-    grams: entry.grams ?? null,
-    quantity: entry.quantity ?? null,
-    overrides: entry.overrides ?? null,
-    price: entry.price ?? null,
-  };
-  const { error } = await supabase.from(TABLES.diary).upsert(payload);
-  if (error) console.error('Supabase upsertDiary error', error);
+  const now = new Date().toISOString();
+  await db.outbox.add({
+    table,
+    op: 'delete',
+    recordId,
+    syncId,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  });
 }
 
-export async function upsertRecipe(recipe: Recipe & { id?: number }) {
-  if (!isSupabaseConfigured()) return;
-  const payload = {
-    id: recipe.id,
-    name: recipe.name,
-    description: recipe.description,
-    category: recipe.category,
-    preptime: recipe.prepTime,
-    cooktime: recipe.cookTime,
-    servings: recipe.servings,
-    instructions: recipe.instructions,
-    tags: recipe.tags,
-    ingredients: recipe.ingredients,
-    nutrition: recipe.nutrition,
-    createdat: recipe.createdAt,
+async function deleteAndQueue(table: SyncTable, id: number) {
+  const now = new Date().toISOString();
+
+  await db.transaction('rw', tableOf(table), db.outbox, async () => {
+    const current = await tableOf(table).get(id);
+    await tableOf(table).delete(id);
+    await db.outbox.where('[table+recordId]').equals([table, id]).delete();
+
+    // Never-synced records only need the local delete
+    if (!isSupabaseConfigured() || !current?.syncId) return;
+
+    await db.outbox.add({
+      table,
+      op: 'delete',
+      recordId: id,
+      syncId: current.syncId,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    });
+  });
+
+  void flushOutbox();
+}
+
+// ---------------------------------------------------------------------------
+// Push: drain the outbox with exponential backoff
+// ---------------------------------------------------------------------------
+
+let flushing: Promise<void> | null = null;
+
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = drainOutbox().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function drainOutbox() {
+  if (!isSupabaseConfigured() || !navigator.onLine) return;
+
+  const due = await db.outbox
+    .where('nextAttemptAt')
+    .belowOrEqual(new Date().toISOString())
+    .toArray();
+  due.sort(
+    (a, b) =>
+      SYNC_ORDER.indexOf(a.table) - SYNC_ORDER.indexOf(b.table) || a.id! - b.id!
+  );
+
+  for (const entry of due) {
+    try {
+      await pushEntry(entry);
+      // Drop the entry unless it was re-queued while we were pushing
+      await db.outbox
+        .where('id')
+        .equals(entry.id!)
+        .and((e) => e.nextAttemptAt === entry.nextAttemptAt)
+        .delete();
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const delay = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+      await db.outbox.update(entry.id!, {
+        attempts,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      console.warn(
+        `Supabase sync of ${
+          entry.table
+        } failed (attempt ${attempts}), retrying in ${Math.round(
+          delay / 1000
+        )}s`,
+        error
+      );
+      if (!navigator.onLine) break;
+    }
+  }
+}
+
+async function pushEntry(entry: OutboxEntry) {
+  if (entry.op === 'delete') {
+    // Soft delete so other devices see the tombstone on their next pull
+    const { error } = await supabase
+      .from(TABLES[entry.table])
+      .update({ deleted: true, lastupdated: entry.createdAt })
+      .eq('syncid', entry.syncId);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  const record = await tableOf(entry.table).get(entry.recordId);
+  if (!record) return; // deleted locally since it was queued
+  await pushRecord(entry.table, record);
+}
+
+async function pushRecord(table: SyncTable, record: SyncRecord) {
+  const payload = await toRemote(table, record);
+  const { error } = await supabase
+    .from(TABLES[table])
+    .upsert(payload, { onConflict: 'syncid' });
+  if (error) throw new Error(error.message);
+}
+
+// Make sure a referenced record exists remotely and return its syncId
+async function ensureRemote(
+  table: SyncTable,
+  id: number | undefined
+): Promise<string | null> {
+  if (id === undefined) return null;
+  const record = await tableOf(table).get(id);
+  if (!record) return null;
+
+  const pending = await db.outbox
+    .where('[table+recordId]')
+    .equals([table, id])
+    .first();
+  if (record.syncId && !pending) return record.syncId;
+
+  const syncId = record.syncId ?? crypto.randomUUID();
+  const lastUpdated = record.lastUpdated ?? new Date().toISOString();
+  if (!record.syncId) {
+    await tableOf(table).update(id, { syncId, lastUpdated });
+  }
+  await pushRecord(table, { ...record, syncId, lastUpdated });
+  if (pending) await db.outbox.delete(pending.id!);
+  return syncId;
+}
+
+async function toRemote(
+  table: SyncTable,
+  record: SyncRecord
+): Promise<RemoteRow> {
+  const base = {
+    syncid: record.syncId!,
+    lastupdated: record.lastUpdated ?? new Date().toISOString(),
+    deleted: false,
   };
-  const { error } = await supabase.from(TABLES.recipes).upsert(payload);
-  if (error) console.error('Supabase upsertRecipe error', error);
+
+  switch (table) {
+    case 'foods': {
+      const food = record as Food;
+      return {
+        ...base,
+        name: food.name,
+        brand: food.brand ?? null,
+        barcode: food.barcode ?? null,
+        tags: food.tags ?? [],
+        aliases: food.aliases ?? [],
+        per100g: food.per100g,
+        servings: food.servings ?? [],
+        verified: !!food.verified,
+      };
+    }
+    case 'diary': {
+      const entry = record as DiaryEntry;
+      return {
+        ...base,
+        date: entry.date,
+        meal: entry.meal,
+        foodsyncid: await ensureRemote('foods', entry.foodId),
+        recipesyncid: await ensureRemote('recipes', entry.recipeId),
+        customname: entry.customName ?? null,
+        servinglabel: entry.servingLabel ?? null,
+        grams: entry.grams ?? null,
+        quantity: entry.quantity ?? null,
+        overrides: entry.overrides ?? null,
+        price: entry.price ?? null,
+      };
+    }
+    case 'recipes': {
+      const recipe = record as Recipe;
+      const ingredients = [];
+      for (const ingredient of recipe.ingredients) {
+        ingredients.push({
+          ...ingredient,
+          foodSyncId: await ensureRemote('foods', ingredient.foodId),
+        });
+      }
+      return {
+        ...base,
+        name: recipe.name,
+        description: recipe.description,
+        category: recipe.category,
+        preptime: recipe.prepTime,
+        cooktime: recipe.cookTime,
+        servings: recipe.servings,
+        instructions: recipe.instructions,
+        tags: recipe.tags,
+        ingredients,
+        nutrition: recipe.nutrition,
+        cookedweight: recipe.cookedWeight ?? null,
+        difficulty: recipe.difficulty ?? null,
+        isfavorite: recipe.isFavorite ?? false,
+        createdat: recipe.createdAt,
+      };
+    }
+    case 'mealPlans': {
+      const plan = record as MealPlan;
+      return {
+        ...base,
+        date: plan.date,
+        meal: plan.meal,
+        recipesyncid: await ensureRemote('recipes', plan.recipeId),
+        foodsyncid: await ensureRemote('foods', plan.foodId),
+        grams: plan.grams ?? null,
+        customname: plan.customName ?? null,
+        servings: plan.servings ?? null,
+        notes: plan.notes ?? null,
+      };
+    }
+    // The weight tables predate sync and keep their snake_case columns
+    case 'weightEntries': {
+      const entry = record as WeightEntry;
+      return {
+        ...base,
+        date: entry.date,
+        weight: entry.weight,
+        notes: entry.notes ?? null,
+        created_at: entry.createdAt,
+      };
+    }
+    case 'weightGoals': {
+      const goal = record as WeightGoal;
+      return {
+        ...base,
+        target_weight: goal.targetWeight,
+        current_weight: goal.currentWeight,
+        goal_type: goal.goalType,
+        created_at: goal.createdAt,
+      };
+    }
+    case 'bodyMeasurements': {
+      const measurement = record as BodyMeasurement;
+      return {
+        ...base,
+        date: measurement.date,
+        waist: measurement.waist ?? null,
+        hip: measurement.hip ?? null,
+        chest: measurement.chest ?? null,
+        arm: measurement.arm ?? null,
+        neck: measurement.neck ?? null,
+        bodyfat: measurement.bodyFat ?? null,
+        bodyfatsource: measurement.bodyFatSource ?? null,
+        notes: measurement.notes ?? null,
+        createdat: measurement.createdAt,
+      };
+    }
+    case 'foodPrices': {
+      const price = record as FoodPrice;
+      return {
+        ...base,
+        foodsyncid: await ensureRemote('foods', price.foodId),
+        foodname: price.foodName,
+        price: price.price,
+        unit: price.unit,
+        packgrams: price.packGrams ?? null,
+        store: price.store ?? null,
+        date: price.date,
+        createdat: price.createdAt,
+      };
+    }
+    case 'pantry': {
+      const item = record as PantryItem;
+      return {
+        ...base,
+        foodsyncid: await ensureRemote('foods', item.foodId),
+        name: item.name,
+        grams: item.grams,
+        expiry: item.expiry ?? null,
+        createdat: item.createdAt,
+      };
+    }
+  }
 }
 
-export async function upsertMealPlan(plan: MealPlan & { id?: number }) {
-  if (!isSupabaseConfigured()) return;
-  const payload = {
-    id: plan.id,
-    date: plan.date,
-    meal: plan.meal,
-    recipeid: plan.recipeId ?? null,
-    customname: plan.customName ?? null,
-    servings: plan.servings ?? null,
-    notes: plan.notes ?? null,
+// ---------------------------------------------------------------------------
+// Pull: fetch remote changes since the last cursor and merge them locally
+// ---------------------------------------------------------------------------
+
+async function localIdFor(
+  table: SyncTable,
+  syncId: unknown
+): Promise<number | undefined> {
+  if (typeof syncId !== 'string') return undefined;
+  const record = await tableOf(table).where('syncId').equals(syncId).first();
+  return record?.id;
+}
+
+async function fromRemote(
+  table: SyncTable,
+  row: RemoteRow
+): Promise<SyncRecord> {
+  const base = { syncId: row.syncid, lastUpdated: row.lastupdated };
+  const optional = <T>(value: unknown) =>
+    value === null || value === undefined ? undefined : (value as T);
+  // numeric columns can arrive as strings
+  const optionalNumber = (value: unknown) =>
+    value === null || value === undefined ? undefined : Number(value);
+
+  switch (table) {
+    case 'foods':
+      return {
+        ...base,
+        name: row.name as string,
+        brand: optional<string>(row.brand),
+        barcode: optional<string>(row.barcode),
+        tags: (row.tags as string[]) ?? [],
+        aliases: (row.aliases as string[]) ?? [],
+        per100g: row.per100g as Food['per100g'],
+        servings: (row.servings as Food['servings']) ?? [],
+        verified: !!row.verified,
+        source: 'user',
+      } satisfies Food;
+    case 'diary':
+      return {
+        ...base,
+        date: row.date as string,
+        meal: row.meal as DiaryEntry['meal'],
+        foodId: await localIdFor('foods', row.foodsyncid),
+        recipeId: await localIdFor('recipes', row.recipesyncid),
+        customName: optional<string>(row.customname),
+        servingLabel: optional<string>(row.servinglabel),
+        grams: optional<number>(row.grams),
+        quantity: optional<number>(row.quantity),
+        overrides: optional<DiaryEntry['overrides']>(row.overrides),
+        price: optional<number>(row.price) ?? null,
+      } satisfies DiaryEntry;
+    case 'recipes': {
+      const ingredients: Recipe['ingredients'] = [];
+      for (const ingredient of (row.ingredients as (Recipe['ingredients'][number] & {
+        foodSyncId?: string;
+      })[]) ?? []) {
+        const { foodSyncId, ...rest } = ingredient;
+        ingredients.push({
+          ...rest,
+          foodId: (await localIdFor('foods', foodSyncId)) ?? 0,
+        });
+      }
+      return {
+        ...base,
+        name: row.name as string,
+        description: (row.description as string) ?? '',
+        category: (row.category as string) ?? '',
+        prepTime: (row.preptime as number) ?? 0,
+        cookTime: (row.cooktime as number) ?? 0,
+        servings: (row.servings as number) ?? 1,
+        instructions: (row.instructions as string) ?? '',
+        tags: (row.tags as string[]) ?? [],
+        ingredients,
+        nutrition: row.nutrition as Recipe['nutrition'],
+        cookedWeight: optionalNumber(row.cookedweight),
+        difficulty: optional<Recipe['difficulty']>(row.difficulty),
+        isFavorite: optional<boolean>(row.isfavorite),
+        createdAt: (row.createdat as string) ?? row.lastupdated,
+      } satisfies Recipe;
+    }
+    case 'mealPlans':
+      return {
+        ...base,
+        date: row.date as string,
+        meal: row.meal as MealPlan['meal'],
+        recipeId: await localIdFor('recipes', row.recipesyncid),
+        foodId: await localIdFor('foods', row.foodsyncid),
+        grams: optionalNumber(row.grams),
+        customName: optional<string>(row.customname),
+        servings: optional<number>(row.servings),
+        notes: optional<string>(row.notes),
+      } satisfies MealPlan;
+    case 'weightEntries':
+      return {
+        ...base,
+        date: row.date as string,
+        weight: Number(row.weight),
+        notes: optional<string>(row.notes),
+        createdAt: (row.created_at as string) ?? row.lastupdated,
+      } satisfies WeightEntry;
+    case 'weightGoals':
+      return {
+        ...base,
+        targetWeight: Number(row.target_weight),
+        currentWeight: Number(row.current_weight),
+        goalType: row.goal_type as WeightGoal['goalType'],
+        createdAt: (row.created_at as string) ?? row.lastupdated,
+      } satisfies WeightGoal;
+    case 'bodyMeasurements':
+      return {
+        ...base,
+        date: row.date as string,
+        waist: optionalNumber(row.waist),
+        hip: optionalNumber(row.hip),
+        chest: optionalNumber(row.chest),
+        arm: optionalNumber(row.arm),
+        neck: optionalNumber(row.neck),
+        bodyFat: optionalNumber(row.bodyfat),
+        bodyFatSource: optional<BodyMeasurement['bodyFatSource']>(
+          row.bodyfatsource
+        ),
+        notes: optional<string>(row.notes),
+        createdAt: (row.createdat as string) ?? row.lastupdated,
+      } satisfies BodyMeasurement;
+    case 'foodPrices':
+      return {
+        ...base,
+        foodId: await localIdFor('foods', row.foodsyncid),
+        foodName: row.foodname as string,
+        price: Number(row.price),
+        unit: row.unit as FoodPrice['unit'],
+        packGrams: optionalNumber(row.packgrams),
+        store: optional<string>(row.store),
+        date: row.date as string,
+        createdAt: (row.createdat as string) ?? row.lastupdated,
+      } satisfies FoodPrice;
+    case 'pantry':
+      return {
+        ...base,
+        foodId: await localIdFor('foods', row.foodsyncid),
+        name: row.name as string,
+        grams: Number(row.grams),
+        expiry: optional<string>(row.expiry),
+        createdAt: (row.createdat as string) ?? row.lastupdated,
+      } satisfies PantryItem;
+  }
+}
+
+/**
+ * Decide what to store when a remote row meets an existing local record.
+ * Returns null to keep the local record untouched.
+ */
+function resolveConflict(
+  local: SyncRecord,
+  remote: SyncRecord,
+  pending: OutboxEntry | undefined
+): { record: SyncRecord; dropPending: boolean } | null {
+  const remoteNewer = isNewer(remote.lastUpdated, local.lastUpdated);
+
+  if (!pending) {
+    return remoteNewer ? { record: remote, dropPending: false } : null;
+  }
+
+  if (pending.fields?.length) {
+    // Field-level merge: keep locally edited fields, take the rest from remote
+    const merged: Record<string, unknown> = { ...remote };
+    for (const field of pending.fields) {
+      merged[field] = (local as Record<string, unknown>)[field];
+    }
+    merged.lastUpdated = remoteNewer ? remote.lastUpdated : local.lastUpdated;
+    return { record: merged as SyncRecord, dropPending: false };
+  }
+
+  // Whole-record local change: last writer wins
+  return remoteNewer ? { record: remote, dropPending: true } : null;
+}
+
+async function applyRemoteRow(
+  table: SyncTable,
+  row: RemoteRow
+): Promise<boolean> {
+  const remote = row.deleted ? null : await fromRemote(table, row);
+
+  return db.transaction('rw', tableOf(table), db.outbox, async () => {
+    const pendingForSyncId = await db.outbox
+      .where('syncId')
+      .equals(row.syncid)
+      .first();
+
+    // Deleted here but not yet pushed: the newer side wins
+    if (pendingForSyncId?.op === 'delete') {
+      if (!remote || !isNewer(row.lastupdated, pendingForSyncId.createdAt)) {
+        return false;
+      }
+      await db.outbox.delete(pendingForSyncId.id!);
+    }
+
+    let local = await tableOf(table).where('syncId').equals(row.syncid).first();
+
+    // Seeded foods exist on every device; link them by name and brand
+    if (!local && remote && table === 'foods') {
+      const food = remote as Food;
+      const match = await db.foods
+        .where('name')
+        .equals(food.name)
+        .and((f) => f.brand === food.brand)
+        .first();
+      if (match && (!match.syncId || !isNewer(match.lastUpdated, EPOCH))) {
+        local = match;
+      }
+    }
+
+    const pending =
+      local?.id !== undefined
+        ? await db.outbox
+            .where('[table+recordId]')
+            .equals([table, local.id])
+            .first()
+        : undefined;
+
+    if (!remote) {
+      if (!local) return false;
+      if (pending && isNewer(local.lastUpdated, row.lastupdated)) return false;
+      await tableOf(table).delete(local.id!);
+      if (pending) await db.outbox.delete(pending.id!);
+      return true;
+    }
+
+    if (!local) {
+      await tableOf(table).add(remote);
+      return true;
+    }
+
+    if (!local.syncId) {
+      // Linked seeded food: adopt the remote identity and its values
+      await tableOf(table).put({
+        ...local,
+        ...remote,
+        id: local.id,
+      } as SyncRecord);
+      return true;
+    }
+
+    const resolution = resolveConflict(local, remote, pending);
+    if (!resolution) return false;
+
+    await tableOf(table).put({
+      ...local,
+      ...resolution.record,
+      id: local.id,
+    } as SyncRecord);
+    if (pending && resolution.dropPending) await db.outbox.delete(pending.id!);
+    return true;
+  });
+}
+
+export async function pullChanges(): Promise<number> {
+  if (!isSupabaseConfigured()) return 0;
+  let applied = 0;
+
+  for (const table of SYNC_ORDER) {
+    const state = await db.syncState.get(table);
+    let cursor = state?.lastPulledSeq ?? 0;
+
+    for (;;) {
+      // Rows are scoped to the signed-in user by row level security
+      const { data, error } = await supabase
+        .from(TABLES[table])
+        .select('*')
+        .gt('syncseq', cursor)
+        .order('syncseq', { ascending: true })
+        .limit(PULL_PAGE_SIZE);
+      if (error) throw new Error(error.message);
+
+      const rows = (data || []) as RemoteRow[];
+      for (const row of rows) {
+        if (await applyRemoteRow(table, row)) applied++;
+      }
+      if (table === 'foods' && rows.length > 0) {
+        // Names and aliases may have changed; deleted foods drop out on the
+        // next full reconcile
+        const ids = await db.foods
+          .where('syncId')
+          .anyOf(rows.map((row) => row.syncid))
+          .primaryKeys();
+        await db.indexFoods(ids);
+      }
+
+      if (rows.length > 0) {
+        cursor = Number(rows[rows.length - 1].syncseq);
+        await db.syncState.put({ key: table, lastPulledSeq: cursor });
+      }
+      if (rows.length < PULL_PAGE_SIZE) break;
+    }
+  }
+
+  return applied;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+export async function syncNow(): Promise<void> {
+  if (!isSupabaseConfigured() || !navigator.onLine) return;
+  try {
+    await flushOutbox();
+    const applied = await pullChanges();
+    if (applied > 0) {
+      console.info(`Applied ${applied} remote changes from Supabase`);
+      window.dispatchEvent(new CustomEvent('diary:changed'));
+    }
+  } catch (error) {
+    console.error('Supabase sync failed', error);
+  }
+}
+
+// Sync now, whenever the browser comes back online, and on an interval.
+// Returns a cleanup function.
+export function startSync(): () => void {
+  if (!isSupabaseConfigured()) return () => {};
+
+  const run = () => {
+    void syncNow();
+  };
+  window.addEventListener('online', run);
+  const timer = setInterval(run, SYNC_INTERVAL_MS);
+  run();
+
+  return () => {
+    window.removeEventListener('online', run);
+    clearInterval(timer);
   };
-  const { error } = await supabase.from(TABLES.mealPlans).upsert(payload);
-  if (error) console.error('Supabase upsertMealPlan error', error);
 }
 
-export async function deleteDiaryById(id: number) {
-  if (!isSupabaseConfigured()) return;
-  const { error } = await supabase.from(TABLES.diary).delete().eq('id', id);
-  if (error) console.error('Supabase deleteDiary error', error);
+export async function getPendingSyncCount(): Promise<number> {
+  return db.outbox.count();
 }
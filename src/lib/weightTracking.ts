@@ -1,105 +1,114 @@
-import { supabase } from './supabase';
+import { db, type WeightEntry, type WeightGoal } from './db';
+import { addDaysToKey, daysBetweenKeys, todayKey } from './dates';
+import { deleteWeightEntryById, upsertWeightEntry, upsertWeightGoal } from './supabaseSync';
 
-export interface WeightEntry {
-  id: string;
-  user_id: string;
-  weight: number;
+export type { WeightEntry, WeightGoal };
+
+// Chart data from before weigh-ins were stored in IndexedDB
+const LEGACY_WEIGHT_KEY = 'wellnessdash_weight_data';
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Share of the gap between trend and scale reading closed per day
+const TREND_SMOOTHING = 0.1;
+// Days of trend used for the weekly rate
+const RATE_WINDOW_DAYS = 28;
+// Rates slower than this (kg/week) are treated as flat for projections
+const MIN_PROJECTION_RATE = 0.05;
+const MAX_PROJECTION_DAYS = 730;
+const GOAL_TOLERANCE_KG = 0.2;
+
+export interface TrendPoint {
   date: string;
-  notes?: string;
-  created_at: string;
+  weight: number; // scale reading
+  trend: number; // smoothed weight
 }
 
-export interface WeightGoal {
-  id: string;
-  user_id: string;
-  target_weight: number;
-  goal_type: 'lose' | 'gain' | 'maintain';
-  created_at: string;
+export interface TrendSummary {
+  points: TrendPoint[];
+  trendWeight: number | null;
+  weeklyRate: number; // kg/week, negative when losing
+  projectedGoalDate: string | null;
 }
 
+const notifyWeightChanged = () => window.dispatchEvent(new CustomEvent('weight:changed'));
+
+// Older versions filled the legacy key with a demo chart when it was empty:
+// 30 consecutive days of 70 + sin(i * 0.2) * 2 + random(0..1) kg, rounded to
+// 0.1, each with the BMI for a 175 cm height. Those are not weigh-ins.
+export function isGeneratedWeightSeries(items: unknown[]): boolean {
+  if (items.length !== 30) return false;
+  const first = (items[0] as { date?: unknown })?.date;
+  if (typeof first !== 'string' || !DATE_RE.test(first)) return false;
+  return items.every((item, i) => {
+    const { date, weight, bmi } = (item ?? {}) as { date?: unknown; weight?: unknown; bmi?: unknown };
+    if (date !== addDaysToKey(first, i) || typeof weight !== 'number' || typeof bmi !== 'number') return false;
+    const noise = weight - (70 + Math.sin(i * 0.2) * 2);
+    return noise >= -0.051 && noise <= 1.051 && Math.abs(bmi - Math.round((weight / 1.75 ** 2) * 10) / 10) < 0.11;
+  });
+}
+
+// Weigh-ins and the weight goal live in IndexedDB so tracking works offline;
+// supabaseSync mirrors them to weight_entries / weight_goals when configured.
 export class WeightTrackingService {
-  static async getWeightEntries(userId: string): Promise<WeightEntry[]> {
+  // Newest first. Other devices may have synced a weigh-in for a day that
+  // already has one; the most recently updated wins.
+  static async getWeightEntries(): Promise<WeightEntry[]> {
     try {
-      const { data, error } = await supabase
-        .from('weight_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .order('date', { ascending: false });
-
-      if (error) {
-        // Handle missing table error gracefully
-        if (error.code === '42P01') { // Table doesn't exist
-          console.warn('Weight tracking table not found - feature not yet set up');
-          return [];
+      const entries = await db.weightEntries.orderBy('date').reverse().toArray();
+      const byDate = new Map<string, WeightEntry>();
+      for (const entry of entries) {
+        const existing = byDate.get(entry.date);
+        if (!existing || (entry.lastUpdated ?? '') > (existing.lastUpdated ?? '')) {
+          byDate.set(entry.date, entry);
         }
-        throw error;
       }
-      return data || [];
+      return [...byDate.values()];
     } catch (error) {
       console.error('Error fetching weight entries:', error);
       return [];
     }
   }
 
-  static async addWeightEntry(entry: Omit<WeightEntry, 'id' | 'created_at'>): Promise<WeightEntry | null> {
+  // Log a weigh-in, replacing any earlier one for the same day
+  static async addWeightEntry(entry: Pick<WeightEntry, 'weight' | 'date' | 'notes'>): Promise<WeightEntry | null> {
     try {
-      const { data, error } = await supabase
-        .from('weight_entries')
-        .insert([entry])
-        .select()
-        .single();
-
-      if (error) {
-        // Handle missing table error gracefully
-        if (error.code === '42P01') { // Table doesn't exist
-          console.warn('Weight tracking table not found - feature not yet set up');
-          // Return mock data for now
-          return {
-            id: Date.now().toString(),
-            ...entry,
-            created_at: new Date().toISOString(),
-          };
-        }
-        throw error;
-      }
-      return data;
+      const now = new Date().toISOString();
+      const existing = await db.weightEntries.where('date').equals(entry.date).first();
+      const record: WeightEntry = existing
+        ? { ...existing, weight: entry.weight, notes: entry.notes, lastUpdated: now }
+        : { ...entry, createdAt: now, lastUpdated: now };
+      record.id = await db.weightEntries.put(record);
+      await upsertWeightEntry(record);
+      notifyWeightChanged();
+      return record;
     } catch (error) {
       console.error('Error adding weight entry:', error);
       return null;
     }
   }
 
-  static async getLatestWeight(userId: string): Promise<WeightEntry | null> {
+  static async deleteWeightEntry(id: number): Promise<boolean> {
     try {
-      const { data, error } = await supabase
-        .from('weight_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .order('date', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error) {
-        if (error.code === '42P01') {
-          return null;
-        }
-        throw error;
-      }
-      return data;
+      await deleteWeightEntryById(id);
+      notifyWeightChanged();
+      return true;
     } catch (error) {
-      console.error('Error fetching latest weight:', error);
-      return null;
+      console.error('Error deleting weight entry:', error);
+      return false;
     }
   }
 
-  static async shouldShowWeightReminder(userId: string): Promise<boolean> {
+  static async getLatestWeight(): Promise<WeightEntry | null> {
+    const [latest] = await this.getWeightEntries();
+    return latest ?? null;
+  }
+
+  static async shouldShowWeightReminder(): Promise<boolean> {
     try {
-      const latestEntry = await this.getLatestWeight(userId);
+      const latestEntry = await this.getLatestWeight();
       if (!latestEntry) return true;
 
-      const daysSinceLastEntry = Math.floor(
-        (Date.now() - new Date(latestEntry.date).getTime()) / (1000 * 60 * 60 * 24)
-      );
+      const daysSinceLastEntry = daysBetweenKeys(latestEntry.date, todayKey());
 
       return daysSinceLastEntry >= 7;
     } catch (error) {
@@ -108,31 +117,92 @@ export class WeightTrackingService {
     }
   }
 
-  static async getWeightTrend(userId: string): Promise<WeightEntry[]> {
-    try {
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-      const { data, error } = await supabase
-        .from('weight_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
-        .order('date', { ascending: true });
-
-      if (error) {
-        if (error.code === '42P01') {
-          return [];
-        }
-        throw error;
+  // Oldest first, for charts
+  static async getWeightTrend(days = 30): Promise<WeightEntry[]> {
+    const since = addDaysToKey(todayKey(), -days);
+    const entries = await this.getWeightEntries();
+    return entries.filter(entry => entry.date >= since).reverse();
+  }
+
+  /**
+   * Exponentially smoothed trend weight for each weigh-in, oldest first.
+   * Each reading moves the trend `smoothing` of the way towards it per day,
+   * so a gap of several days counts for more than a single day.
+   */
+  static calculateTrendWeights(entries: WeightEntry[], smoothing = TREND_SMOOTHING): TrendPoint[] {
+    const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+    const points: TrendPoint[] = [];
+
+    for (const entry of sorted) {
+      const previous = points[points.length - 1];
+      if (!previous) {
+        points.push({ date: entry.date, weight: entry.weight, trend: entry.weight });
+        continue;
       }
-      return data || [];
-    } catch (error) {
-      console.error('Error fetching weight trend:', error);
-      return [];
+      const days = Math.max(daysBetweenKeys(previous.date, entry.date), 1);
+      const factor = 1 - Math.pow(1 - smoothing, days);
+      points.push({
+        date: entry.date,
+        weight: entry.weight,
+        trend: previous.trend + factor * (entry.weight - previous.trend),
+      });
     }
+
+    return points;
   }
 
+  // Least-squares slope of the trend over the last `days` days, in kg/week
+  static calculateTrendRate(points: TrendPoint[], days = RATE_WINDOW_DAYS): number {
+    if (points.length < 2) return 0;
+    const last = points[points.length - 1].date;
+    const recent = points
+      .map(point => ({ x: daysBetweenKeys(last, point.date), y: point.trend }))
+      .filter(point => point.x > -days);
+    if (recent.length < 2) return 0;
+
+    const meanX = recent.reduce((sum, p) => sum + p.x, 0) / recent.length;
+    const meanY = recent.reduce((sum, p) => sum + p.y, 0) / recent.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const p of recent) {
+      covariance += (p.x - meanX) * (p.y - meanY);
+      variance += (p.x - meanX) ** 2;
+    }
+
+    return variance > 0 ? (covariance / variance) * 7 : 0;
+  }
+
+  /**
+   * Day the trend reaches the target at the current weekly rate, counted
+   * from the last weigh-in. Null when the trend is flat or heading away.
+   */
+  static projectGoalDate(points: TrendPoint[], weeklyRate: number, targetWeight: number): string | null {
+    const latest = points[points.length - 1];
+    if (!latest) return null;
+
+    const remaining = targetWeight - latest.trend;
+    if (Math.abs(remaining) < GOAL_TOLERANCE_KG) return latest.date;
+    if (Math.abs(weeklyRate) < MIN_PROJECTION_RATE || Math.sign(remaining) !== Math.sign(weeklyRate)) {
+      return null;
+    }
+
+    const days = Math.ceil((remaining / weeklyRate) * 7);
+    return days > MAX_PROJECTION_DAYS ? null : addDaysToKey(latest.date, days);
+  }
+
+  // Trend weight, rate and goal projection for a set of weigh-ins
+  static getTrendSummary(entries: WeightEntry[], goal: WeightGoal | null): TrendSummary {
+    const points = this.calculateTrendWeights(entries);
+    const weeklyRate = this.calculateTrendRate(points);
+    return {
+      points,
+      trendWeight: points[points.length - 1]?.trend ?? null,
+      weeklyRate,
+      projectedGoalDate: goal ? this.projectGoalDate(points, weeklyRate, goal.targetWeight) : null,
+    };
+  }
+
+  // Change in trend weight (not raw scale readings, which swing with water)
   static calculateWeightChange(entries: WeightEntry[]): {
     totalChange: number;
     weeklyRate: number;
@@ -142,16 +212,9 @@ export class WeightTrackingService {
       return { totalChange: 0, weeklyRate: 0, trend: 'stable' };
     }
 
-    const sortedEntries = entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    const firstWeight = sortedEntries[0].weight;
-    const lastWeight = sortedEntries[sortedEntries.length - 1].weight;
-    const totalChange = lastWeight - firstWeight;
-
-    const daysBetween = Math.floor(
-      (new Date(sortedEntries[sortedEntries.length - 1].date).getTime() - new Date(sortedEntries[0].date).getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    const weeklyRate = daysBetween > 0 ? (totalChange / daysBetween) * 7 : 0;
+    const points = this.calculateTrendWeights(entries);
+    const totalChange = points[points.length - 1].trend - points[0].trend;
+    const weeklyRate = this.calculateTrendRate(points);
 
     let trend: 'up' | 'down' | 'stable' = 'stable';
     if (Math.abs(totalChange) > 0.1) {
@@ -161,50 +224,70 @@ export class WeightTrackingService {
     return { totalChange, weeklyRate, trend };
   }
 
-  static async getWeightGoal(userId: string): Promise<WeightGoal | null> {
+  static async getWeightGoal(): Promise<WeightGoal | null> {
     try {
-      const { data, error } = await supabase
-        .from('weight_goals')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (error) {
-        if (error.code === '42P01') {
-          return null;
-        }
-        throw error;
-      }
-      return data;
+      const goals = await db.weightGoals.toArray();
+      // Goals synced from other devices: the most recently set one applies
+      goals.sort((a, b) => (b.lastUpdated ?? b.createdAt).localeCompare(a.lastUpdated ?? a.createdAt));
+      return goals[0] ?? null;
     } catch (error) {
       console.error('Error fetching weight goal:', error);
       return null;
     }
   }
 
-  static async setWeightGoal(goal: Omit<WeightGoal, 'id' | 'created_at'>): Promise<WeightGoal | null> {
+  static async setWeightGoal(goal: Pick<WeightGoal, 'targetWeight' | 'currentWeight' | 'goalType'>): Promise<WeightGoal | null> {
     try {
-      const { data, error } = await supabase
-        .from('weight_goals')
-        .upsert([goal], { onConflict: 'user_id' })
-        .select()
-        .single();
-
-      if (error) {
-        if (error.code === '42P01') {
-          console.warn('Weight goals table not found - feature not yet set up');
-          return {
-            id: Date.now().toString(),
-            ...goal,
-            created_at: new Date().toISOString(),
-          };
-        }
-        throw error;
-      }
-      return data;
+      const now = new Date().toISOString();
+      const existing = await this.getWeightGoal();
+      const record: WeightGoal = existing
+        ? { ...existing, ...goal, lastUpdated: now }
+        : { ...goal, createdAt: now, lastUpdated: now };
+      record.id = await db.weightGoals.put(record);
+      await upsertWeightGoal(record);
+      notifyWeightChanged();
+      return record;
     } catch (error) {
       console.error('Error setting weight goal:', error);
       return null;
     }
   }
+
+  /**
+   * Move weigh-ins kept in localStorage by older versions (or restored from
+   * an old backup) into IndexedDB. Days that already have a weigh-in keep it;
+   * the generated demo series is dropped rather than synced as real weights.
+   */
+  static async migrateLocalWeightData(): Promise<number> {
+    try {
+      const saved = localStorage.getItem(LEGACY_WEIGHT_KEY);
+      if (!saved) return 0;
+
+      const legacy: unknown = JSON.parse(saved);
+      let migrated = 0;
+      if (Array.isArray(legacy) && isGeneratedWeightSeries(legacy)) {
+        console.info('Discarding generated demo weight data instead of migrating it');
+      } else if (Array.isArray(legacy)) {
+        for (const item of legacy) {
+          const weight = Number(item?.weight);
+          if (typeof item?.date !== 'string' || !DATE_RE.test(item.date) || !Number.isFinite(weight) || weight <= 0) continue;
+          const existing = await db.weightEntries.where('date').equals(item.date).first();
+          if (existing) continue;
+
+          const now = new Date().toISOString();
+          const record: WeightEntry = { date: item.date, weight, createdAt: now, lastUpdated: now };
+          record.id = await db.weightEntries.add(record);
+          await upsertWeightEntry(record);
+          migrated++;
+        }
+      }
+
+      localStorage.removeItem(LEGACY_WEIGHT_KEY);
+      if (migrated > 0) notifyWeightChanged();
+      return migrated;
+    } catch (error) {
+      console.error('Error migrating local weight data:', error);
+      return 0;
+    }
+  }
 }